@@ -11,19 +11,26 @@
  * - trials: Multi-run pass@k/pass^k analysis
  * - summarize: Derive compact views from results
  * - calibrate: Sample failures for grader review
+ * - regrade: Re-score existing results with a new grader
+ * - cache: Inspect and clear the agent response cache
  * - validate-refs: Check reference solutions
  * - balance: Analyze test set coverage
  * - schemas: Export JSON schemas for non-TS users
  * - headless: Schema-driven adapter for any headless CLI agent
+ * - mock-agent: Scripted agent CLI for developing adapter schemas
+ * - adapter: Lint, dry-run and infer adapter schemas from sample output
  */
 
+import { adapter } from '../src/commands/adapter.ts'
 import { balance } from '../src/commands/balance.ts'
+import { cache } from '../src/commands/cache.ts'
 import { calibrate } from '../src/commands/calibrate.ts'
 import { capture } from '../src/commands/capture.ts'
+import { regrade } from '../src/commands/regrade.ts'
 import { summarize } from '../src/commands/summarize.ts'
 import { trials } from '../src/commands/trials.ts'
 import { validateRefs } from '../src/commands/validate-refs.ts'
-import { headless } from '../src/headless.ts'
+import { headless, mockAgent } from '../src/headless.ts'
 import { compare, extract, format, grade, run } from '../src/pipeline.ts'
 import { schemasCli } from '../src/schemas/schemas-cli.ts'
 
@@ -38,10 +45,14 @@ Commands:
   trials           Run prompts multiple times for pass@k/pass^k metrics
   summarize        Derive compact views from results
   calibrate        Sample failures for grader review
+  regrade          Re-score capture/trials results without re-running agents
+  cache            Inspect or clear the agent response cache (--cache-dir)
   validate-refs    Check reference solutions against grader
   balance          Analyze test set coverage
   schemas          Export JSON schemas for non-TypeScript users
   headless         Schema-driven adapter for any headless CLI agent
+  mock-agent       Scripted agent CLI for developing adapter schemas offline
+  adapter          Lint, dry-run or infer an adapter schema from sample output
 
 Pipeline Commands (Unix-style composable):
   run              Execute prompts and output raw results
@@ -97,6 +108,14 @@ const main = async () => {
       await calibrate(args)
       break
 
+    case 'regrade':
+      await regrade(args)
+      break
+
+    case 'cache':
+      await cache(args)
+      break
+
     case 'validate-refs':
       await validateRefs(args)
       break
@@ -113,6 +132,14 @@ const main = async () => {
       await headless(args)
       break
 
+    case 'mock-agent':
+      await mockAgent(args)
+      break
+
+    case 'adapter':
+      await adapter(args)
+      break
+
     // Pipeline commands
     case 'run':
       await run(args)
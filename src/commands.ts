@@ -8,10 +8,18 @@
  * @packageDocumentation
  */
 
+// Adapter command
+export type { AdapterInferConfig, AdapterTestConfig } from './commands/adapter.ts'
+export { adapter, formatAdapterTestReport, runAdapterInfer, runAdapterTest } from './commands/adapter.ts'
+
 // Balance command
 export type { BalanceConfig } from './commands/balance.ts'
 export { balance, runBalance } from './commands/balance.ts'
 
+// Cache command
+export type { CacheClearConfig } from './commands/cache.ts'
+export { cache, runCacheClear, runCacheStats } from './commands/cache.ts'
+
 // Calibrate command
 export type { CalibrateConfig } from './commands/calibrate.ts'
 export { calibrate, runCalibrate } from './commands/calibrate.ts'
@@ -20,6 +28,10 @@ export { calibrate, runCalibrate } from './commands/calibrate.ts'
 export type { CaptureConfig } from './commands/capture.ts'
 export { capture, runCapture } from './commands/capture.ts'
 
+// Regrade command
+export type { RegradeConfig } from './commands/regrade.ts'
+export { regrade, regradeCaptureResult, regradeTrialResult, runRegrade } from './commands/regrade.ts'
+
 // Summarize command
 export type { SummarizeConfig } from './commands/summarize.ts'
 export { runSummarize, summarize } from './commands/summarize.ts'
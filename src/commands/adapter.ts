@@ -0,0 +1,323 @@
+/**
+ * Adapter command - develop and check headless adapter schemas.
+ *
+ * @remarks
+ * - `test`: lint a schema and dry-run it against captured agent stdout,
+ *   reporting matched mappings, unmapped lines, the result and session id
+ *   matchers, and the trajectory a capture would record
+ * - `infer`: draft a schema from captured agent stdout for review
+ *
+ * @packageDocumentation
+ */
+
+import { parseArgs } from 'node:util'
+import { resolvePath } from '../core.ts'
+import { type HeadlessAdapterConfig, parseHeadlessConfig } from '../headless/headless.schemas.ts'
+import { type AdapterInference, inferAdapterSchema } from '../headless/headless-adapter-infer.ts'
+import { type AdapterTestReport, testAdapterSchema } from '../headless/headless-adapter-test.ts'
+import { loadHeadlessConfig } from '../headless/headless-schema-loader.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Configuration for `adapter test` */
+export type AdapterTestConfig = {
+  /** Path to the adapter schema */
+  schemaPath: string
+  /** Schema profile to apply (version 2 schemas) */
+  profile?: string
+  /** Path to captured agent stdout (JSONL) */
+  samplePath: string
+}
+
+/** Configuration for `adapter infer` */
+export type AdapterInferConfig = {
+  /** Path to captured agent stdout (JSONL) */
+  samplePath: string
+  /** Write the draft schema here (optional) */
+  outputPath?: string
+  /** Adapter name */
+  name?: string
+  /** Command to run the agent */
+  command?: string[]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Shorten text to one line for the report */
+const clip = (text: string, max = 100): string => {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line
+}
+
+/**
+ * Load and validate an adapter schema file.
+ *
+ * @param schemaPath - Path to the schema
+ * @param profile - Schema profile to apply (version 2 schemas)
+ * @returns Parsed schema
+ * @throws Error if the file is missing or not a valid schema
+ *
+ * @internal
+ */
+export const loadAdapterSchema = async (schemaPath: string, profile?: string): Promise<HeadlessAdapterConfig> => {
+  if (!(await Bun.file(resolvePath(schemaPath)).exists())) {
+    throw new Error(`Schema file not found: ${schemaPath}`)
+  }
+  try {
+    return await loadHeadlessConfig(resolvePath(schemaPath), { profile })
+  } catch (error) {
+    throw new Error(`Invalid schema: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Lint a schema and dry-run it against captured agent stdout.
+ *
+ * @param config - Schema and sample paths
+ * @returns Dry run report
+ * @throws Error if either file is missing or the schema is invalid
+ *
+ * @public
+ */
+export const runAdapterTest = async ({
+  schemaPath,
+  profile,
+  samplePath,
+}: AdapterTestConfig): Promise<AdapterTestReport> => {
+  const schema = await loadAdapterSchema(schemaPath, profile)
+  const sampleFile = Bun.file(resolvePath(samplePath))
+  if (!(await sampleFile.exists())) {
+    throw new Error(`Sample file not found: ${samplePath}`)
+  }
+  return testAdapterSchema(schema, await sampleFile.text())
+}
+
+/**
+ * Draft an adapter schema from captured agent stdout.
+ *
+ * @remarks
+ * The draft is dry-run against the same sample, and the result is added to
+ * the review notes.
+ *
+ * @param config - Sample path, output path, name and command
+ * @returns Draft schema, event groups and review notes
+ * @throws Error if the sample is missing or has no typed JSON events
+ *
+ * @public
+ */
+export const runAdapterInfer = async ({
+  samplePath,
+  outputPath,
+  name,
+  command,
+}: AdapterInferConfig): Promise<AdapterInference> => {
+  const sampleFile = Bun.file(resolvePath(samplePath))
+  if (!(await sampleFile.exists())) {
+    throw new Error(`Sample file not found: ${samplePath}`)
+  }
+  const sample = await sampleFile.text()
+  const inference = inferAdapterSchema(sample, { name, command })
+
+  const report = testAdapterSchema(parseHeadlessConfig(inference.schema), sample)
+  inference.notes.push(
+    `Dry run: ${report.trajectory.length} trajectory steps, ${report.unmapped.length} unmapped lines, result ${report.result.matched ? 'matched' : 'not matched'}`,
+  )
+
+  if (outputPath) {
+    await Bun.write(resolvePath(outputPath), `${JSON.stringify(inference.schema, null, 2)}\n`)
+  }
+  return inference
+}
+
+/**
+ * Render an adapter test report as text.
+ *
+ * @param report - Dry run report
+ * @returns Multi-line report
+ *
+ * @public
+ */
+export const formatAdapterTestReport = (report: AdapterTestReport): string => {
+  const out: string[] = []
+
+  out.push(`Sample: ${report.lines} lines (${report.nonJsonLines} not JSON)`, '')
+
+  out.push('Output events:')
+  if (report.mappings.length === 0) out.push('  (none)')
+  for (const mapping of report.mappings) {
+    out.push(`  [${mapping.index}] ${mapping.emitAs.padEnd(9)} ${mapping.match}  ${mapping.matched} matched`)
+  }
+  out.push('')
+
+  out.push(`Result: ${report.result.matched} matched`)
+  if (report.result.output) out.push(`  output: ${clip(report.result.output)}`)
+  if (report.sessionId) {
+    out.push(`Session id (${report.sessionId.path}): ${report.sessionId.value ?? 'not found'}`)
+  }
+  if (report.usage) {
+    const tokens = Object.entries(report.usage).map(([key, value]) => `${key}=${value}`)
+    out.push(`Usage: ${tokens.join(' ')}`)
+  }
+  out.push('')
+
+  out.push(`Unmapped lines: ${report.unmapped.length}`)
+  for (const { line, text } of report.unmapped.slice(0, 10)) {
+    out.push(`  ${String(line).padStart(4)}: ${clip(text)}`)
+  }
+  if (report.unmapped.length > 10) out.push(`  … ${report.unmapped.length - 10} more`)
+  out.push('')
+
+  out.push(`Trajectory: ${report.trajectory.length} steps`)
+  for (const step of report.trajectory) {
+    const detail =
+      step.type === 'tool_call'
+        ? `${step.name} (${step.status})`
+        : step.type === 'plan'
+          ? `${step.entries.length} entries`
+          : clip(step.content, 80)
+    out.push(`  ${step.type.padEnd(9)} ${detail}`)
+  }
+  out.push('')
+
+  const errors = report.issues.filter((issue) => issue.level === 'error').length
+  out.push(`Issues: ${errors} errors, ${report.issues.length - errors} warnings`)
+  for (const issue of report.issues) {
+    out.push(`  ${issue.level === 'error' ? 'error' : 'warn '}  ${issue.path}: ${issue.message}`)
+  }
+
+  return out.join('\n')
+}
+
+// ============================================================================
+// CLI Entry Point
+// ============================================================================
+
+/**
+ * Adapter command CLI handler.
+ *
+ * @param args - Command line arguments (after 'adapter')
+ */
+export const adapter = async (args: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      json: { type: 'boolean' },
+      profile: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      name: { type: 'string' },
+      command: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  })
+
+  const [action, ...rest] = positionals
+
+  if (values.help || !action) {
+    console.log(`
+Usage: agent-eval-harness adapter test <schema.json> <stdout.jsonl> [options]
+       agent-eval-harness adapter infer <stdout.jsonl> [options]
+
+Develop and check headless adapter schemas.
+
+Actions:
+  test              Lint a schema and dry-run it against captured agent stdout
+  infer             Draft a schema from captured agent stdout for review
+
+Options (test):
+  --json            Print the full report as JSON
+  --profile         Schema profile to apply (version 2 schemas)
+
+Options (infer):
+  -o, --output      Write the draft schema to a file (default: stdout)
+  --name            Adapter name (default: inferred-agent)
+  --command         Agent command, split on spaces (default: the name)
+
+  -h, --help        Show this help message
+
+The test report lists how many lines each outputEvents mapping matched,
+lines nothing matched, whether result and resume.sessionIdPath matched,
+the trajectory a capture would record, and schema mistakes (invalid
+JSONPath, settings the session mode ignores, prompt.stdin without
+stdinFormat, mappings that can never match). Exits with 1 on errors.
+
+infer groups events by their type field (including typed content array
+items), proposes outputEvents, the result event, resume.sessionIdPath,
+usage and tool call correlation, and prints review notes to stderr.
+Prompt, output and resume flags are placeholders.
+
+Examples:
+  # Capture sample output, then check the schema against it
+  claude -p "List files" --output-format stream-json --verbose > sample.jsonl
+  agent-eval-harness adapter test claude.json sample.jsonl
+
+  # Draft a schema from the same sample
+  agent-eval-harness adapter infer sample.jsonl --name claude --command claude -o claude.json
+`)
+    return
+  }
+
+  switch (action) {
+    case 'test': {
+      const [schemaPath, samplePath] = rest
+      if (!schemaPath || !samplePath) {
+        console.error('Error: adapter test requires <schema.json> and <stdout.jsonl>')
+        process.exit(1)
+      }
+
+      let report: AdapterTestReport
+      try {
+        report = await runAdapterTest({ schemaPath, profile: values.profile, samplePath })
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`)
+        process.exit(1)
+      }
+
+      console.log(values.json ? JSON.stringify(report, null, 2) : formatAdapterTestReport(report))
+      if (report.issues.some((issue) => issue.level === 'error')) process.exit(1)
+      break
+    }
+
+    case 'infer': {
+      const [samplePath] = rest
+      if (!samplePath) {
+        console.error('Error: adapter infer requires <stdout.jsonl>')
+        process.exit(1)
+      }
+
+      let inference: AdapterInference
+      try {
+        inference = await runAdapterInfer({
+          samplePath,
+          outputPath: values.output,
+          name: values.name,
+          command: values.command?.split(/\s+/).filter(Boolean),
+        })
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`)
+        process.exit(1)
+      }
+
+      if (values.output) {
+        console.error(`Wrote draft schema to ${values.output}`)
+      } else {
+        console.log(JSON.stringify(inference.schema, null, 2))
+      }
+      console.error('\nReview:')
+      for (const note of inference.notes) console.error(`  - ${note}`)
+      break
+    }
+
+    default:
+      console.error(`Error: Unknown adapter action '${action}' (expected test or infer)`)
+      process.exit(1)
+  }
+}
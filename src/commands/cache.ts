@@ -0,0 +1,177 @@
+/**
+ * Cache command - inspect and invalidate the agent response cache.
+ *
+ * @remarks
+ * Works on directories written by `capture --cache-dir` and
+ * `trials --cache-dir`:
+ * - `stats`: entry count, size, age range and entries per adapter schema
+ * - `clear`: remove all entries, or only old ones or one adapter's
+ *
+ * @packageDocumentation
+ */
+
+import { parseArgs } from 'node:util'
+import { hashContent, resolvePath } from '../core.ts'
+import {
+  type ClearCacheOptions,
+  clearResponseCache,
+  type ResponseCacheSummary,
+  summarizeResponseCache,
+} from '../headless/headless-response-cache.ts'
+import { resolveHeadlessConfigFile } from '../headless/headless-schema-loader.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Configuration for `cache clear` */
+export type CacheClearConfig = {
+  /** Cache directory */
+  cacheDir: string
+  /** Only remove entries older than this many days */
+  olderThanDays?: number
+  /** Only remove entries recorded with this adapter schema file */
+  schemaPath?: string
+  /** Profile the entries were recorded with (version 2 schemas) */
+  profile?: string
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Summarize a response cache directory.
+ *
+ * @param cacheDir - Cache directory
+ * @returns Cache summary
+ *
+ * @public
+ */
+export const runCacheStats = async (cacheDir: string): Promise<ResponseCacheSummary> =>
+  summarizeResponseCache(resolvePath(cacheDir))
+
+/**
+ * Remove entries from a response cache directory.
+ *
+ * @param config - Cache directory and filters
+ * @returns Number of entries removed
+ * @throws Error if the schema file does not exist or cannot be resolved
+ *
+ * @public
+ */
+export const runCacheClear = async ({
+  cacheDir,
+  olderThanDays,
+  schemaPath,
+  profile,
+}: CacheClearConfig): Promise<number> => {
+  const options: ClearCacheOptions = {}
+
+  if (olderThanDays !== undefined) {
+    options.before = Date.now() - olderThanDays * 24 * 60 * 60 * 1000
+  }
+  if (schemaPath) {
+    const schemaFile = Bun.file(resolvePath(schemaPath))
+    if (!(await schemaFile.exists())) {
+      throw new Error(`Schema file not found: ${schemaPath}`)
+    }
+    options.schemaHash = hashContent(await resolveHeadlessConfigFile(resolvePath(schemaPath), { profile }))
+  }
+
+  return clearResponseCache(resolvePath(cacheDir), options)
+}
+
+// ============================================================================
+// CLI Entry Point
+// ============================================================================
+
+/**
+ * Cache command CLI handler.
+ *
+ * @param args - Command line arguments (after 'cache')
+ */
+export const cache = async (args: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'older-than': { type: 'string' },
+      schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  })
+
+  const [action, cacheDir] = positionals
+
+  if (values.help || !action) {
+    console.log(`
+Usage: agent-eval-harness cache <stats|clear> <cache-dir> [options]
+
+Inspect or invalidate the agent response cache written by --cache-dir.
+
+Actions:
+  stats             Print entry count, size, age range and entries per schema (JSON)
+  clear             Remove cache entries (all of them unless filtered)
+
+Options (clear):
+  --older-than      Only remove entries recorded more than this many days ago
+  -s, --schema      Only remove entries recorded with this adapter schema
+  --profile         With --schema, the profile the entries were recorded with
+  -h, --help        Show this help message
+
+Examples:
+  # Show what is cached
+  agent-eval-harness cache stats .eval-cache
+
+  # Drop entries older than a week
+  agent-eval-harness cache clear .eval-cache --older-than 7
+
+  # Drop everything recorded with one adapter
+  agent-eval-harness cache clear .eval-cache -s claude.json
+`)
+    return
+  }
+
+  if (!cacheDir) {
+    console.error('Error: cache directory is required')
+    process.exit(1)
+  }
+
+  switch (action) {
+    case 'stats': {
+      console.log(JSON.stringify(await runCacheStats(cacheDir), null, 2))
+      break
+    }
+
+    case 'clear': {
+      let olderThanDays: number | undefined
+      if (values['older-than'] !== undefined) {
+        olderThanDays = Number(values['older-than'])
+        if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+          console.error('Error: --older-than must be a non-negative number of days')
+          process.exit(1)
+        }
+      }
+
+      try {
+        const removed = await runCacheClear({
+          cacheDir,
+          olderThanDays,
+          schemaPath: values.schema,
+          profile: values.profile,
+        })
+        console.log(`Removed ${removed} cache entries from ${cacheDir}`)
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`)
+        process.exit(1)
+      }
+      break
+    }
+
+    default:
+      console.error(`Error: Unknown cache action '${action}' (expected stats or clear)`)
+      process.exit(1)
+  }
+}
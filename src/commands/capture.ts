@@ -13,20 +13,41 @@
 
 import { parseArgs } from 'node:util'
 import {
+  addStderrSteps,
   createWorkspaceDir,
+  createWorkspaceSnapshot,
   detectTrajectoryRichness,
   extractOutput,
   extractTrajectory,
+  finishWorkspace,
   getInputPreview,
   hasToolErrors,
   logProgress,
+  measureResponseTiming,
+  prepareWorkspace,
   readStdinPrompts,
+  type TurnStderr,
+  type WorkspaceSnapshot,
 } from '../core.ts'
-import type { ParsedUpdate } from '../headless/headless-output-parser.ts'
+import { parsePromptEnv } from '../headless/headless.schemas.ts'
+import { addTokenUsage, type ParsedUpdate, type TokenUsage } from '../headless/headless-output-parser.ts'
 import type { ProcessExitInfo, PromptResult } from '../headless/headless-session-manager.ts'
-import { loadGraderOrExit } from '../schemas/grader-loader.ts'
+import { MAX_CONTENT_LENGTH } from '../schemas/constants.ts'
+import { loadGradersOrExit } from '../schemas/grader-composite.ts'
 import type { CaptureResult, PromptCase, TrajectoryRichness } from '../schemas.ts'
-import { type BaseExecutionConfig, executePrompts, parseConcurrency, prepareExecution } from './execution.ts'
+import {
+  type AttemptSignals,
+  type BaseExecutionConfig,
+  buildUsage,
+  executePrompts,
+  parseConcurrency,
+  parseLimit,
+  parseRetries,
+  parseRetryBackoff,
+  parseWorkspaceRetention,
+  prepareExecution,
+  runWithRetries,
+} from './execution.ts'
 
 // ============================================================================
 // Re-exports for backward compatibility
@@ -51,6 +72,38 @@ export {
 /** Configuration for capture command */
 export type CaptureConfig = BaseExecutionConfig
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Describe a failed agent process for `CaptureResult.errors`.
+ *
+ * @remarks
+ * Appends the tail of stderr, where crash traces usually end.
+ *
+ * @param exitInfo - Exit info from the last turn
+ * @param stderr - Captured stderr (all turns)
+ * @returns Error message, or undefined if the process did not fail
+ *
+ * @public
+ */
+export const describeProcessFailure = (exitInfo: ProcessExitInfo | undefined, stderr: string): string | undefined => {
+  if (!exitInfo) return undefined
+
+  let message: string
+  if (exitInfo.timedOut) {
+    message = 'Agent process timeout'
+  } else if (exitInfo.exitCode !== null && exitInfo.exitCode !== 0) {
+    message = `Agent process exited with code ${exitInfo.exitCode}`
+  } else {
+    return undefined
+  }
+
+  const tail = stderr.trim().slice(-MAX_CONTENT_LENGTH)
+  return tail ? `${message}: ${tail}` : message
+}
+
 // ============================================================================
 // Capture Implementation
 // ============================================================================
@@ -66,21 +119,29 @@ export type CaptureConfig = BaseExecutionConfig
  * @returns Array of capture results
  */
 export const runCapture = async (config: CaptureConfig): Promise<CaptureResult[]> => {
-  const ctx = await prepareExecution(config)
+  const ctx = await prepareExecution(config, { command: 'capture' })
   const {
     schema,
     prompts,
     sessions,
     resolvedOutputPath,
     resolvedWorkspaceDir,
+    keepWorkspaces,
+    resolvedArtifactsDir,
     defaultWorkingDir,
     progress,
     grader,
     debug,
+    retryPolicy,
+    limits,
+    cache,
   } = ctx
 
   // Log progress info
-  logProgress(`Loaded ${prompts.length} prompts from ${config.promptsPath ?? 'stdin'}`, progress)
+  logProgress(`Loaded ${prompts.length + ctx.skipped} prompts from ${config.promptsPath ?? 'stdin'}`, progress)
+  if (ctx.skipped > 0) {
+    logProgress(`Resume: skipping ${ctx.skipped} completed prompts`, progress)
+  }
   logProgress(`Schema: ${schema.name} (${config.schemaPath})`, progress)
   logProgress(`Timeout: ${ctx.effectiveTimeout}ms`, progress)
   if (ctx.concurrency > 1) {
@@ -89,30 +150,92 @@ export const runCapture = async (config: CaptureConfig): Promise<CaptureResult[]
   if (resolvedWorkspaceDir) {
     logProgress(`Workspace: ${resolvedWorkspaceDir}`, progress)
   }
+  if (ctx.sandbox) {
+    logProgress(`Sandbox: ${ctx.sandbox.image}`, progress)
+  }
   if (resolvedOutputPath) {
     logProgress(`Output: ${resolvedOutputPath}`, progress)
   }
+  if (retryPolicy.retries > 0) {
+    logProgress(`Retries: ${retryPolicy.retries} (backoff ${retryPolicy.backoff}ms)`, progress)
+  }
   if (debug) {
     logProgress(`Debug mode: enabled`, progress)
   }
 
-  // Process a single prompt (used by worker pool)
-  const processPrompt = async (promptCase: (typeof prompts)[number], index: number): Promise<CaptureResult> => {
-    // Determine working directory (per-prompt workspace or default)
-    const workingDir = resolvedWorkspaceDir
-      ? await createWorkspaceDir(resolvedWorkspaceDir, promptCase.id)
-      : defaultWorkingDir
+  // Build the result recorded when an attempt throws
+  const buildErrorResult = (
+    promptCase: (typeof prompts)[number],
+    workingDir: string,
+    startTime: number,
+    message: string,
+  ): CaptureResult => {
+    const endTime = Date.now()
+    const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
+
+    return {
+      id: promptCase.id,
+      input: promptCase.input,
+      output: '',
+      trajectory: [],
+      metadata: {
+        ...promptCase.metadata,
+        agent: schema.name,
+        trajectoryRichness: 'minimal' as TrajectoryRichness,
+        turnCount: inputs.length,
+        ...(resolvedWorkspaceDir && { workspaceDir: workingDir }),
+        // Marks a result the agent never produced, so it is not graded (nor regraded)
+        attemptError: true,
+      },
+      timing: {
+        start: startTime,
+        end: endTime,
+        sessionCreation: 0,
+        total: endTime - startTime,
+      },
+      toolErrors: true,
+      errors: [message],
+    }
+  }
 
-    logProgress(`[${index + 1}/${prompts.length}] ${promptCase.id}: ${getInputPreview(promptCase.input)}...`, progress)
+  // Build the result recorded for a prompt skipped by a budget
+  const buildSkippedResult = (promptCase: (typeof prompts)[number], reason: string): CaptureResult => {
+    const now = Date.now()
+    const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
+
+    return {
+      id: promptCase.id,
+      input: promptCase.input,
+      output: '',
+      ...(promptCase.hint && { hint: promptCase.hint }),
+      trajectory: [],
+      metadata: {
+        ...promptCase.metadata,
+        agent: schema.name,
+        trajectoryRichness: 'minimal' as TrajectoryRichness,
+        turnCount: inputs.length,
+        skipped: reason,
+      },
+      timing: { start: now, end: now, sessionCreation: 0, total: 0 },
+      toolErrors: false,
+    }
+  }
 
+  // Run one attempt of a prompt in a fresh session (ungraded)
+  const runAttempt = async (
+    promptCase: (typeof prompts)[number],
+    workingDir: string,
+  ): Promise<{ value: CaptureResult; signals: AttemptSignals }> => {
     const startTime = Date.now()
-    let result: CaptureResult
     let sessionId: string | undefined
 
     try {
       // Create fresh session for each entry (ensures isolation)
       const sessionStart = Date.now()
-      const session = await sessions.create(workingDir)
+      const session = await sessions.create(workingDir, {
+        env: parsePromptEnv(promptCase.metadata),
+        cacheKey: { workspace: promptCase.workspace ?? null },
+      })
       sessionId = session.id
       const sessionCreation = Date.now() - sessionStart
       logProgress(`  Session: ${session.id}`, progress)
@@ -121,28 +244,46 @@ export const runCapture = async (config: CaptureConfig): Promise<CaptureResult[]
       const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
       const turnCount = inputs.length
 
-      // Collect all updates from all turns
+      // Collect all updates and stderr from all turns
       const allUpdates: ParsedUpdate[] = []
+      const turnStderr: TurnStderr[] = []
+      const turnStdout: string[] = []
+      let tokens: TokenUsage | undefined
       let lastExitInfo: ProcessExitInfo | undefined
       let lastOutput = ''
+      let cachedTurns = 0
 
       // Execute each turn sequentially in the same session
       for (const turnInput of inputs) {
+        // The response cache waits for rate limits itself, on misses only
+        if (!cache) await limits.acquire()
         const turnResult: PromptResult = await sessions.prompt(session.id, turnInput)
+        // Replayed turns did not reach the agent, so they use no budget
+        if (!turnResult.cached) limits.record(buildUsage(turnResult.usage, schema))
         allUpdates.push(...turnResult.updates)
+        tokens = addTokenUsage(tokens, turnResult.usage)
+        if (turnResult.stderr) {
+          turnStderr.push({ content: turnResult.stderr, time: Date.now() })
+        }
+        if (turnResult.stdout) {
+          turnStdout.push(turnResult.stdout)
+        }
         lastExitInfo = turnResult.exitInfo
         lastOutput = turnResult.output
+        if (turnResult.cached) cachedTurns++
       }
 
       const endTime = Date.now()
-      const trajectory = extractTrajectory(allUpdates, startTime)
+      const trajectory = addStderrSteps(extractTrajectory(allUpdates, startTime), turnStderr, startTime)
+      const stderr = turnStderr.map((turn) => turn.content).join('\n')
+      const processFailure = describeProcessFailure(lastExitInfo, stderr)
 
       // Use last turn's output or extract from trajectory
       const output = lastOutput || extractOutput(trajectory)
       const toolErrors = hasToolErrors(trajectory) || (lastExitInfo?.timedOut ?? false)
       const trajectoryRichness = detectTrajectoryRichness(trajectory)
 
-      result = {
+      const result: CaptureResult = {
         id: promptCase.id,
         input: promptCase.input,
         output,
@@ -159,64 +300,123 @@ export const runCapture = async (config: CaptureConfig): Promise<CaptureResult[]
             signal: lastExitInfo.signal,
             timedOut: lastExitInfo.timedOut,
           }),
+          ...(stderr && { stderr }),
+          ...(cachedTurns > 0 && { cachedTurns }),
         },
         timing: {
           start: startTime,
           end: endTime,
-          firstResponse: trajectory.length > 0 ? trajectory[0]?.timestamp : undefined,
+          ...measureResponseTiming(allUpdates, startTime),
           sessionCreation,
           total: endTime - startTime,
+          ...buildUsage(tokens, schema),
         },
         toolErrors,
+        ...(processFailure && { errors: [processFailure] }),
+      }
+
+      return { value: result, signals: { exitInfo: lastExitInfo, stderr, stdout: turnStdout.join('\n') } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { value: buildErrorResult(promptCase, workingDir, startTime, message), signals: { error: message } }
+    } finally {
+      // Always clean up session if it was created
+      if (sessionId) {
+        sessions.destroy(sessionId)
+      }
+    }
+  }
+
+  // Process a single prompt (used by worker pool)
+  const processPrompt = async (promptCase: (typeof prompts)[number], index: number): Promise<CaptureResult> => {
+    // Determine working directory (per-prompt workspace or default)
+    const workingDir = resolvedWorkspaceDir
+      ? await createWorkspaceDir(resolvedWorkspaceDir, promptCase.id)
+      : defaultWorkingDir
+
+    logProgress(`[${index + 1}/${prompts.length}] ${promptCase.id}: ${getInputPreview(promptCase.input)}...`, progress)
+
+    const startTime = Date.now()
+    let snapshot: WorkspaceSnapshot | undefined
+    const { value, attempts } = await runWithRetries(
+      retryPolicy,
+      async () => {
+        await snapshot?.dispose()
+        snapshot = undefined
+        // Rebuild the workspace from its spec before every attempt, then take the diff baseline
+        try {
+          await prepareWorkspace(workingDir, promptCase.workspace, ctx.effectiveTimeout)
+          if (resolvedArtifactsDir) {
+            snapshot = await createWorkspaceSnapshot(workingDir, ctx.effectiveTimeout)
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          return { value: buildErrorResult(promptCase, workingDir, startTime, message), signals: { error: message } }
+        }
+        return runAttempt(promptCase, workingDir)
+      },
+      (attempt, delay) =>
+        logProgress(
+          `  ↻ ${promptCase.id} attempt ${attempt.attempt} failed (${attempt.retryReason}), retrying in ${delay}ms`,
+          progress,
+        ),
+    )
+    const result = value
+
+    if (retryPolicy.retries > 0) {
+      result.metadata = { ...result.metadata, attempts }
+    }
+
+    // Record what the final attempt changed in the workspace
+    if (snapshot && resolvedArtifactsDir) {
+      try {
+        const artifactDir = await createWorkspaceDir(resolvedArtifactsDir, promptCase.id)
+        result.workspaceDiff = await snapshot.diff(artifactDir, { tarball: ctx.tarball })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        result.errors = [...(result.errors ?? []), message]
       }
+    }
 
-      // Apply grader if provided
-      if (grader) {
+    // Apply grader to the final attempt, unless it threw
+    if (grader && !attempts.at(-1)?.error) {
+      try {
         const graderResult = await grader({
           input: promptCase.input,
-          output,
+          output: result.output,
           hint: promptCase.hint,
-          trajectory,
+          trajectory: result.trajectory,
           metadata: promptCase.metadata,
-          cwd: session.cwd,
+          cwd: workingDir,
+          workspaceDiff: result.workspaceDiff,
         })
 
-        result.score = graderResult
+        const { scores, ...score } = graderResult
+        result.score = score
 
+        if (scores) {
+          result.scores = scores
+        }
         if (graderResult.outcome) {
           result.outcome = graderResult.outcome
         }
+      } catch (error) {
+        // Keep the agent's result; only the grading failed
+        result.graderError = error instanceof Error ? error.message : String(error)
+        logProgress(`  ! ${promptCase.id}: grader failed: ${result.graderError}`, progress)
       }
-    } catch (error) {
-      const endTime = Date.now()
-      const message = error instanceof Error ? error.message : String(error)
-      const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
+    }
 
-      result = {
-        id: promptCase.id,
-        input: promptCase.input,
-        output: '',
-        trajectory: [],
-        metadata: {
-          ...promptCase.metadata,
-          agent: schema.name,
-          trajectoryRichness: 'minimal' as TrajectoryRichness,
-          turnCount: inputs.length,
-          ...(resolvedWorkspaceDir && { workspaceDir: workingDir }),
-        },
-        timing: {
-          start: startTime,
-          end: endTime,
-          sessionCreation: 0,
-          total: endTime - startTime,
-        },
-        toolErrors: true,
-        errors: [message],
-      }
-    } finally {
-      // Always clean up session if it was created
-      if (sessionId) {
-        sessions.destroy(sessionId)
+    // Run teardown hooks and drop the workspace unless it is kept
+    if (resolvedWorkspaceDir) {
+      const teardownErrors = await finishWorkspace(workingDir, {
+        spec: promptCase.workspace,
+        retention: keepWorkspaces,
+        failed: Boolean(result.errors?.length || result.graderError) || result.score?.pass === false,
+        timeout: ctx.effectiveTimeout,
+      })
+      for (const message of teardownErrors) {
+        logProgress(`  ! ${promptCase.id}: ${message}`, progress)
       }
     }
 
@@ -235,7 +435,7 @@ export const runCapture = async (config: CaptureConfig): Promise<CaptureResult[]
   }
 
   // Run with worker pool
-  return executePrompts(ctx, processPrompt)
+  return executePrompts(ctx, processPrompt, buildSkippedResult)
 }
 
 // ============================================================================
@@ -252,16 +452,40 @@ export const capture = async (args: string[]): Promise<void> => {
     args,
     options: {
       schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
       output: { type: 'string', short: 'o' },
       cwd: { type: 'string', short: 'c' },
       timeout: { type: 'string', short: 't' },
       progress: { type: 'boolean', default: false },
       append: { type: 'boolean', default: false },
-      grader: { type: 'string', short: 'g' },
+      grader: { type: 'string', short: 'g', multiple: true },
+      aggregate: { type: 'string' },
+      weight: { type: 'string', multiple: true },
+      'pass-threshold': { type: 'string' },
+      'grader-timeout': { type: 'string' },
+      'grader-retries': { type: 'string' },
+      'grader-worker': { type: 'boolean', default: false },
       debug: { type: 'boolean', default: false },
       stdin: { type: 'boolean', default: false },
       concurrency: { type: 'string', short: 'j' },
       'workspace-dir': { type: 'string' },
+      'keep-workspaces': { type: 'string' },
+      'artifacts-dir': { type: 'string' },
+      tarball: { type: 'boolean', default: false },
+      retries: { type: 'string' },
+      'retry-backoff': { type: 'string' },
+      resume: { type: 'boolean', default: false },
+      'retry-errors': { type: 'boolean', default: false },
+      rpm: { type: 'string' },
+      tpm: { type: 'string' },
+      'max-cost': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      sandbox: { type: 'string' },
+      'cache-dir': { type: 'string' },
+      'cache-salt': { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      'replay-timing': { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h' },
     },
     allowPositionals: true,
@@ -277,15 +501,39 @@ Arguments:
 
 Options:
   -s, --schema      Path to agent schema JSON file (required)
+  --profile         Schema profile to apply (version 2 schemas)
   -o, --output      Output file (default: stdout)
   -c, --cwd         Working directory for agent
   -t, --timeout     Request timeout in ms (overrides schema default)
   -j, --concurrency Number of concurrent workers (default: 1)
   --stdin           Read prompts from stdin (mutually exclusive with file arg)
   --workspace-dir   Base directory for per-prompt workspace isolation
+  --keep-workspaces Workspaces to keep after grading: all, failed, none (default: all)
+  --artifacts-dir   Record each workspace's diff (file lists + patch) under this directory
+  --tarball         With --artifacts-dir, also archive each final workspace
+  --retries         Retry transient failures up to N times (default: 0)
+  --retry-backoff   Base delay before the first retry in ms, doubled per retry (default: 1000)
   --progress        Show progress to stderr
   --append          Append to output file instead of overwriting
-  -g, --grader      Path to grader (.ts/.js module or executable script)
+  --resume          Skip prompts already completed in the output file (requires -o)
+  --retry-errors    With --resume, re-run prompts whose result has errors
+  --rpm             Max agent requests (turns) per minute across all workers
+  --tpm             Max tokens per minute across all workers (needs schema 'usage')
+  --max-cost        Stop starting prompts once total cost reaches this USD amount
+  --max-tokens      Stop starting prompts once total tokens reach this count
+  --sandbox         Run the agent in this container image (docker/podman, network off)
+  --cache-dir       Replay recorded agent turns from this directory; record new ones
+  --cache-salt      Extra string mixed into cache keys (change it to invalidate)
+  --record          Save each agent turn's raw stdout, exit info and timing as fixtures
+  --replay          Serve turns from a --record directory instead of running the agent
+  --replay-timing   With --replay, reproduce the recorded delays between stdout lines
+  -g, --grader      Grader path (.ts/.js module or executable), or name:path; repeatable
+  --aggregate       Combine graders: all, mean, min (default: all)
+  --weight          Grader weight for mean scores as name=value; repeatable (default: 1)
+  --pass-threshold  Score needed to pass with --aggregate mean (default: 0.5)
+  --grader-timeout  Timeout per grader call in ms, 0 for none (default: 60000)
+  --grader-retries  Retries after a grader throws or times out (default: 0)
+  --grader-worker   Keep executable graders running as JSONL workers
   --debug           Enable debug mode (shows raw output, JSONPath matching)
   -h, --help        Show this help message
 
@@ -297,10 +545,22 @@ Exit Info (in metadata):
   exitCode      Process exit code (null if killed/timed out)
   signal        Signal that killed process (if any)
   timedOut      true if process was killed due to timeout
+  stderr        Agent stderr, capped per turn (also added as 'diagnostic' trajectory steps)
+  attempts      Per-attempt exit info and retry reasons (when --retries is set)
+  skipped       Budget that stopped the run before this prompt started
 
 Graders:
   TS/JS modules must export a 'grade' function.
   Executable scripts (Python, etc.) use stdin/stdout JSON protocol.
+  Rubric files (.md/.yaml/.yml) run the built-in LLM judge; set JUDGE_MODEL,
+  JUDGE_BASE_URL and JUDGE_API_KEY for its OpenAI-compatible endpoint.
+  builtin:<name> selects a built-in grader (exact, contains, regex, json,
+  numeric, tools, expectations, file, command), configured via the prompt's
+  metadata.<name>.
+  Named graders (--grader name:path, repeated) each record a verdict in
+  the result's 'scores'; the aggregate becomes the overall pass/score. 'all'
+  passes only if every grader passes, 'mean' uses the weighted mean score,
+  'min' uses the lowest score.
 
 Parallelization:
   Use -j/--concurrency to run multiple prompts in parallel.
@@ -312,10 +572,44 @@ Parallelization:
   In memory-constrained environments (Docker, CI) this can cause OOM kills.
   Use --stdin to pipe prompts for container-level orchestration.
 
+Retries:
+  With --retries, timeouts, non-zero exits and errors are retried with
+  exponential backoff. Set 'retryOn' in the schema to retry only specific
+  exit codes or stderr/stdout patterns. Only the final attempt is graded.
+
+Rate Limits and Budgets:
+  --rpm and --tpm are shared by all -j workers. Once --max-cost or --max-tokens
+  is reached, no new prompts start; in-flight prompts finish and the rest are
+  written with metadata.skipped. Resume later with --resume.
+
+Response Cache:
+  With --cache-dir, each agent turn is keyed by the schema, the prompt(s), the
+  --cwd/--workspace-dir path, the prompt's env and workspace spec, and
+  --cache-salt. Hits replay the recorded output without running the agent
+  (and without its file changes) and count in metadata.cachedTurns;
+  hits do not wait for --rpm/--tpm or count toward --max-cost/--max-tokens;
+  successful misses are recorded. Inspect or clear with
+  'agent-eval-harness cache'.
+
+Record and Replay:
+  --record <dir> saves every turn's raw stdout lines as fixtures keyed by the
+  prompt. --replay <dir> feeds them through the schema's output parser without
+  starting the agent, so schemas, graders and pipelines can be tested in CI.
+  A prompt with no recording is reported as an error.
+
+Sandbox:
+  --sandbox <image> (or 'sandbox' in the schema) runs each agent process in a
+  container with its working directory bind-mounted at /workspace, no network,
+  and only the schema/prompt env forwarded. Combine with --workspace-dir.
+
 Workspace Isolation:
   Use --workspace-dir to create per-prompt directories.
   Each prompt runs in {workspace-dir}/prompt-{id}/.
   Useful for code generation tasks requiring filesystem isolation.
+  A prompt's 'workspace' field seeds its directory (template or repo, ref,
+  files, setup commands) before each attempt; 'teardown' runs after grading.
+  With --artifacts-dir, the files the agent added, modified and deleted are
+  recorded as 'workspaceDiff', with the patch in {artifacts-dir}/prompt-{id}/.
 
 Examples:
   # Basic capture with schema
@@ -331,6 +625,10 @@ Examples:
   # With TypeScript grader
   agent-eval-harness capture prompts.jsonl -s claude.json --grader ./grader.ts -o results.jsonl
 
+  # With two named graders, both required to pass
+  agent-eval-harness capture prompts.jsonl -s claude.json \\
+    -g correctness:./correctness.ts -g style:./style.py -o results.jsonl
+
   # With debug mode
   agent-eval-harness capture prompts.jsonl -s claude.json --debug -o results.jsonl
 
@@ -360,6 +658,11 @@ Examples:
     process.exit(1)
   }
 
+  if (values.resume && !values.output) {
+    console.error('Error: --resume requires --output')
+    process.exit(1)
+  }
+
   // Read prompts from stdin if requested
   let prompts: PromptCase[] | undefined
   if (useStdin) {
@@ -372,12 +675,22 @@ Examples:
   }
 
   // Load grader if specified
-  const grader = values.grader ? await loadGraderOrExit(values.grader) : undefined
+  const grader = values.grader?.length
+    ? await loadGradersOrExit(values.grader, {
+        aggregate: values.aggregate,
+        weight: values.weight,
+        passThreshold: values['pass-threshold'],
+        graderTimeout: values['grader-timeout'],
+        graderRetries: values['grader-retries'],
+        graderWorker: values['grader-worker'],
+      })
+    : undefined
 
   await runCapture({
     promptsPath: promptsPath ?? undefined,
     prompts,
     schemaPath: values.schema,
+    profile: values.profile,
     outputPath: values.output,
     cwd: values.cwd,
     timeout: values.timeout ? Number.parseInt(values.timeout, 10) : undefined,
@@ -387,5 +700,22 @@ Examples:
     debug: values.debug ?? false,
     concurrency: parseConcurrency(values.concurrency),
     workspaceDir: values['workspace-dir'],
+    keepWorkspaces: parseWorkspaceRetention(values['keep-workspaces']),
+    artifactsDir: values['artifacts-dir'],
+    tarball: values.tarball,
+    retries: parseRetries(values.retries),
+    retryBackoff: parseRetryBackoff(values['retry-backoff']),
+    resume: values.resume ?? false,
+    retryErrors: values['retry-errors'] ?? false,
+    requestsPerMinute: parseLimit(values.rpm, '--rpm'),
+    tokensPerMinute: parseLimit(values.tpm, '--tpm'),
+    maxCost: parseLimit(values['max-cost'], '--max-cost'),
+    maxTokens: parseLimit(values['max-tokens'], '--max-tokens'),
+    sandbox: values.sandbox ? { image: values.sandbox } : undefined,
+    cacheDir: values['cache-dir'],
+    cacheSalt: values['cache-salt'],
+    recordDir: values.record,
+    replayDir: values.replay,
+    replayTiming: values['replay-timing'],
   })
 }
@@ -9,11 +9,37 @@
  */
 
 import { mkdir } from 'node:fs/promises'
-import { createWriteMutex, loadPrompts, logProgress, resolvePath, runWorkerPool, writeOutput } from '../core.ts'
-import { type HeadlessAdapterConfig, parseHeadlessConfig } from '../headless/headless.schemas.ts'
-import { createSessionManager, type SessionManager } from '../headless/headless-session-manager.ts'
-import { DEFAULT_HARNESS_TIMEOUT } from '../schemas/constants.ts'
-import type { Grader, PromptCase } from '../schemas.ts'
+import {
+  createRateLimiter,
+  createWriteMutex,
+  hashContent,
+  loadPrompts,
+  logProgress,
+  prepareResume,
+  type RunFingerprint,
+  resolvePath,
+  runWorkerPool,
+  type WorkspaceRetention,
+  writeCheckpoint,
+  writeOutput,
+} from '../core.ts'
+import {
+  type HeadlessAdapterConfig,
+  parseHeadlessConfig,
+  type RetryOn,
+  type SandboxConfig,
+} from '../headless/headless.schemas.ts'
+import { computeUsageCost, type TokenUsage } from '../headless/headless-output-parser.ts'
+import { type CachedSessionManager, createCachedSessionManager } from '../headless/headless-response-cache.ts'
+import { getSandboxRuntime } from '../headless/headless-sandbox.ts'
+import { resolveHeadlessConfigFile } from '../headless/headless-schema-loader.ts'
+import {
+  createSessionManager,
+  type ProcessExitInfo,
+  type SessionManager,
+} from '../headless/headless-session-manager.ts'
+import { DEFAULT_HARNESS_TIMEOUT, DEFAULT_RETRY_BACKOFF } from '../schemas/constants.ts'
+import type { Attempt, Grader, PromptCase, Usage } from '../schemas.ts'
 
 // ============================================================================
 // Types
@@ -25,6 +51,8 @@ export type BaseExecutionConfig = {
   promptsPath?: string
   /** Path to agent schema JSON file */
   schemaPath: string
+  /** Schema profile to apply (version 2 schemas) */
+  profile?: string
   /** Pre-loaded prompt cases (from stdin); skips file loading when set */
   prompts?: PromptCase[]
   /** Output file path (undefined for stdout) */
@@ -45,20 +73,86 @@ export type BaseExecutionConfig = {
   concurrency?: number
   /** Base directory for per-prompt workspace isolation */
   workspaceDir?: string
+  /** Which per-prompt workspaces to keep after grading (default: all) */
+  keepWorkspaces?: WorkspaceRetention
+  /** Directory for per-prompt workspace diff artifacts (requires workspaceDir) */
+  artifactsDir?: string
+  /** Also archive each final workspace as a tarball (requires artifactsDir) */
+  tarball?: boolean
+  /** Retries per prompt after a transient failure (default: 0) */
+  retries?: number
+  /** Base delay before the first retry in ms, doubled per retry (default: DEFAULT_RETRY_BACKOFF) */
+  retryBackoff?: number
+  /** Skip prompts already completed in the output file (requires outputPath) */
+  resume?: boolean
+  /** With resume, re-run prompts whose recorded result has an error */
+  retryErrors?: boolean
+  /** Maximum agent requests (turns) started per minute across all workers */
+  requestsPerMinute?: number
+  /** Maximum tokens per minute across all workers (requires schema `usage`) */
+  tokensPerMinute?: number
+  /** Stop starting prompts once the total cost reaches this many USD (requires `usage.pricing`) */
+  maxCost?: number
+  /** Stop starting prompts once the total tokens reach this count (requires schema `usage`) */
+  maxTokens?: number
+  /** Container sandbox settings, merged over the schema's `sandbox` */
+  sandbox?: Partial<SandboxConfig>
+  /** Directory of recorded agent turns to replay instead of running the agent */
+  cacheDir?: string
+  /** Salt mixed into every response cache key (change it to invalidate) */
+  cacheSalt?: string
+  /** Record each agent turn's raw stdout, exit info and timing to this fixture directory */
+  recordDir?: string
+  /** Replay turns recorded in this fixture directory instead of running the agent */
+  replayDir?: string
+  /** With `replayDir`, wait out the recorded time between stdout lines */
+  replayTiming?: boolean
+}
+
+/** Retry settings resolved from CLI flags and the adapter schema */
+export type RetryPolicy = {
+  /** Attempts allowed after the first (0 disables retries) */
+  retries: number
+  /** Base delay before the first retry in ms, doubled per retry */
+  backoff: number
+  /** Schema conditions for retrying (undefined: retry any failure) */
+  retryOn?: RetryOn
+}
+
+/** Rate limits and budgets shared by all workers */
+export type RunLimits = {
+  /** Wait for a slot under the rate limits before an agent request */
+  acquire: () => Promise<void>
+  /** Record usage from a finished agent request */
+  record: (usage?: Usage) => void
+  /** Reason to stop starting prompts, once a budget is reached */
+  exhausted: () => string | undefined
 }
 
 /** Prepared execution context returned by prepareExecution */
 export type ExecutionContext = {
   /** Parsed and validated headless adapter schema */
   schema: HeadlessAdapterConfig
-  /** Loaded and validated prompt cases */
+  /** Loaded and validated prompt cases (excluding ids skipped by resume) */
   prompts: PromptCase[]
-  /** Session manager for creating/destroying agent sessions */
+  /** Number of prompts skipped because the output already has their result */
+  skipped: number
+  /** Session manager for creating/destroying agent sessions (cached with `cacheDir`) */
   sessions: SessionManager
+  /** Response cache wrapping `sessions` (with `cacheDir`) */
+  cache?: CachedSessionManager
+  /** Effective container sandbox (undefined runs agents on the host) */
+  sandbox?: SandboxConfig
   /** Resolved absolute output path (undefined for stdout) */
   resolvedOutputPath?: string
   /** Resolved absolute workspace directory path */
   resolvedWorkspaceDir?: string
+  /** Which per-prompt workspaces to keep after grading */
+  keepWorkspaces: WorkspaceRetention
+  /** Resolved absolute artifacts directory (undefined: no workspace diffs) */
+  resolvedArtifactsDir?: string
+  /** Whether to archive each final workspace */
+  tarball: boolean
   /** Effective timeout in milliseconds */
   effectiveTimeout: number
   /** Default working directory for agent sessions */
@@ -71,6 +165,10 @@ export type ExecutionContext = {
   grader?: Grader
   /** Whether debug mode is enabled */
   debug: boolean
+  /** Retry settings for transient failures */
+  retryPolicy: RetryPolicy
+  /** Shared rate limits and budgets (with `cache`, the cache waits for rate limits on misses only) */
+  limits: RunLimits
   /** Write a result object as JSONL, coordinated via mutex */
   writeResult: (result: unknown) => Promise<void>
 }
@@ -87,16 +185,24 @@ export type ExecutionContext = {
  * path resolution, session manager creation, output file initialization,
  * workspace directory creation, and write mutex coordination.
  *
+ * A fresh output file gets a checkpoint fingerprinting the schema, prompts
+ * and `runKey`; with `resume`, completed prompts are dropped from `prompts`.
+ *
  * @param config - Base execution configuration
+ * @param runKey - Command-specific values that must match on resume (e.g. `k`)
  * @returns Prepared execution context
- * @throws Error if schema file not found, invalid, or prompts missing
+ * @throws Error if schema file not found, invalid, prompts missing, or resume is not possible
  *
  * @public
  */
-export const prepareExecution = async (config: BaseExecutionConfig): Promise<ExecutionContext> => {
+export const prepareExecution = async (
+  config: BaseExecutionConfig,
+  runKey: RunFingerprint = {},
+): Promise<ExecutionContext> => {
   const {
     promptsPath,
     schemaPath,
+    profile,
     outputPath,
     cwd,
     timeout,
@@ -106,6 +212,21 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
     debug = false,
     concurrency = 1,
     workspaceDir,
+    keepWorkspaces = 'all',
+    artifactsDir,
+    tarball = false,
+    retries = 0,
+    retryBackoff = DEFAULT_RETRY_BACKOFF,
+    resume = false,
+    retryErrors = false,
+    tokensPerMinute,
+    maxCost,
+    maxTokens,
+    cacheDir,
+    cacheSalt,
+    recordDir,
+    replayDir,
+    replayTiming = false,
   } = config
 
   // Validate prompt source
@@ -113,6 +234,20 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
     throw new Error('Either promptsPath or prompts must be provided')
   }
 
+  if (resume && !outputPath) {
+    throw new Error('Resume requires an output file')
+  }
+
+  if (artifactsDir && !workspaceDir) {
+    throw new Error('Workspace diffs (--artifacts-dir) require --workspace-dir')
+  }
+  if (tarball && !artifactsDir) {
+    throw new Error('--tarball requires --artifacts-dir')
+  }
+  if (recordDir && replayDir) {
+    throw new Error('--record and --replay cannot be combined')
+  }
+
   // Load and validate schema
   const schemaFile = Bun.file(schemaPath)
   if (!(await schemaFile.exists())) {
@@ -120,36 +255,83 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
   }
 
   let schema: HeadlessAdapterConfig
+  let rawSchema: unknown
   try {
-    const rawSchema = await schemaFile.json()
+    rawSchema = await resolveHeadlessConfigFile(schemaPath, { profile })
     schema = parseHeadlessConfig(rawSchema)
   } catch (error) {
     throw new Error(`Invalid schema: ${error instanceof Error ? error.message : String(error)}`)
   }
 
+  // Token and cost limits need usage reported by the adapter
+  if ((tokensPerMinute || maxTokens) && !schema.usage) {
+    throw new Error("Token limits require a 'usage' block in the adapter schema")
+  }
+  if (maxCost && !schema.usage?.pricing) {
+    throw new Error("A cost budget requires 'usage.pricing' in the adapter schema")
+  }
+
   // Load prompts
-  const prompts = config.prompts ?? (await loadPrompts(promptsPath!))
+  const allPrompts = config.prompts ?? (await loadPrompts(promptsPath!))
+
+  // Workspace specs are applied to per-prompt directories, never to the shared cwd
+  const withWorkspace = allPrompts.find((promptCase) => promptCase.workspace)
+  if (withWorkspace && !workspaceDir) {
+    throw new Error(`Prompt '${withWorkspace.id}' has a workspace spec, which requires --workspace-dir`)
+  }
 
   // Resolve paths
   const resolvedOutputPath = outputPath ? resolvePath(outputPath) : undefined
   const resolvedWorkspaceDir = workspaceDir ? resolvePath(workspaceDir) : undefined
+  const resolvedArtifactsDir = artifactsDir ? resolvePath(artifactsDir) : undefined
 
   // Determine effective timeout (CLI flag > schema default > harness default)
   const schemaTimeout = 'timeout' in schema ? schema.timeout : undefined
   const effectiveTimeout = timeout ?? schemaTimeout ?? DEFAULT_HARNESS_TIMEOUT
 
+  // Resolve the sandbox (config settings override the schema's); replay never starts the agent
+  const sandbox = replayDir ? undefined : resolveSandbox(schema.sandbox, config.sandbox)
+
   // Create session manager
-  const sessions = createSessionManager({
+  const agentSessions = createSessionManager({
     schema,
     timeout: effectiveTimeout,
     verbose: progress,
     debug,
+    sandbox,
+    recordDir: recordDir ? resolvePath(recordDir) : undefined,
+    replayDir: replayDir ? resolvePath(replayDir) : undefined,
+    replayTiming,
   })
 
-  // Initialize output file (clear if not appending)
-  if (resolvedOutputPath && !append) {
+  // Serve turns from the response cache when one is given
+  const limits = createRunLimits(config)
+  const cache = cacheDir
+    ? createCachedSessionManager(agentSessions, {
+        cacheDir: resolvePath(cacheDir),
+        schema: rawSchema,
+        cwdTemplate: resolvedWorkspaceDir ?? resolvePath(cwd ?? process.cwd()),
+        salt: cacheSalt,
+        beforeAgentRequest: limits.acquire,
+      })
+    : undefined
+  const sessions = cache ?? agentSessions
+
+  // Resume from the existing output, or initialize it (clear if not appending)
+  const fingerprint: RunFingerprint = { ...runKey, schema: hashContent(rawSchema), prompts: hashContent(allPrompts) }
+  let completedIds = new Set<string>()
+  if (resolvedOutputPath && resume) {
+    const state = await prepareResume({ outputPath: resolvedOutputPath, fingerprint, retryErrors })
+    completedIds = state.completedIds
+    if (state.redone > 0) {
+      logProgress(`Resume: re-running ${state.redone} errored prompts`, progress)
+    }
+  }
+  if (resolvedOutputPath && !append && completedIds.size === 0) {
     await Bun.write(resolvedOutputPath, '')
+    await writeCheckpoint(resolvedOutputPath, fingerprint)
   }
+  const prompts = allPrompts.filter((promptCase) => !completedIds.has(promptCase.id))
 
   // Create workspace base directory if specified
   if (resolvedWorkspaceDir) {
@@ -160,7 +342,7 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
 
   // Create write mutex with closure for coordinated result writing
   const writeMutex = createWriteMutex()
-  let isFirstOutput = true
+  let isFirstOutput = !resume
 
   const writeResult = async (result: unknown) => {
     await writeMutex.write(async () => {
@@ -173,19 +355,56 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
   return {
     schema,
     prompts,
+    skipped: completedIds.size,
     sessions,
+    cache,
+    sandbox,
     resolvedOutputPath,
     resolvedWorkspaceDir,
+    keepWorkspaces,
+    resolvedArtifactsDir,
+    tarball,
     effectiveTimeout,
     defaultWorkingDir,
     concurrency,
     progress,
     grader,
     debug,
+    retryPolicy: { retries, backoff: retryBackoff, retryOn: schema.retryOn },
+    limits,
     writeResult,
   }
 }
 
+/**
+ * Merge sandbox overrides over the schema's sandbox and check the runtime.
+ *
+ * @param base - Sandbox from the adapter schema
+ * @param overrides - Sandbox settings from the execution config
+ * @returns Effective sandbox, or undefined when neither is set
+ * @throws Error if no image is set or the container runtime is not installed
+ *
+ * @public
+ */
+export const resolveSandbox = (
+  base: SandboxConfig | undefined,
+  overrides: Partial<SandboxConfig> | undefined,
+): SandboxConfig | undefined => {
+  if (!base && !overrides) return undefined
+
+  const merged = { ...base, ...overrides }
+  if (!merged.image) {
+    throw new Error('Sandbox requires an image')
+  }
+
+  const sandbox: SandboxConfig = { ...merged, image: merged.image }
+  const runtime = getSandboxRuntime(sandbox)
+  if (!Bun.which(runtime)) {
+    throw new Error(`Sandbox runtime not found: ${runtime}`)
+  }
+  return sandbox
+}
+
 // ============================================================================
 // Worker Pool Execution
 // ============================================================================
@@ -197,8 +416,12 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
  * Common wrapper for the runWorkerPool pattern used by both capture and trials.
  * Handles progress callbacks, error logging, and completion logging.
  *
+ * Once a budget is reached no new prompts start; in-flight prompts finish and
+ * each remaining prompt is written via `skipFn` (if given).
+ *
  * @param ctx - Execution context from prepareExecution
  * @param processFn - Function to process each prompt
+ * @param skipFn - Builds the result recorded for a prompt skipped by a budget
  * @returns Array of results
  *
  * @public
@@ -206,22 +429,229 @@ export const prepareExecution = async (config: BaseExecutionConfig): Promise<Exe
 export const executePrompts = async <T>(
   ctx: ExecutionContext,
   processFn: (promptCase: PromptCase, index: number) => Promise<T>,
+  skipFn?: (promptCase: PromptCase, reason: string) => T,
 ): Promise<T[]> => {
-  const { results, errors } = await runWorkerPool(ctx.prompts, processFn, {
+  const { results, errors, skipped } = await runWorkerPool(ctx.prompts, processFn, {
     concurrency: ctx.concurrency,
     onProgress: (completed, total) => {
       logProgress(`Progress: ${completed}/${total} prompts completed`, ctx.progress)
     },
+    shouldStop: () => ctx.limits.exhausted() !== undefined,
   })
 
   if (errors.length > 0) {
     logProgress(`Completed with ${errors.length} error(s)`, ctx.progress)
   }
 
+  if (skipped.length > 0) {
+    const reason = ctx.limits.exhausted() ?? 'stopped'
+    logProgress(`Budget reached (${reason}): skipped ${skipped.length} prompt(s)`, ctx.progress)
+
+    for (const index of skipped) {
+      const promptCase = ctx.prompts[index]
+      if (!promptCase || !skipFn) continue
+      const result = skipFn(promptCase, reason)
+      await ctx.writeResult(result)
+      results.push(result)
+    }
+  }
+
+  if (ctx.cache) {
+    const { hits, misses, writes } = ctx.cache.stats()
+    logProgress(`Cache: ${hits} hits, ${misses} misses (${writes} recorded)`, ctx.progress)
+  }
+
   logProgress('Done!', ctx.progress)
   return results
 }
 
+// ============================================================================
+// Rate Limits and Budgets
+// ============================================================================
+
+/**
+ * Count the tokens in a usage record.
+ *
+ * @param usage - Usage record
+ * @returns Input, output and cache tokens combined
+ *
+ * @public
+ */
+export const countTokens = (usage?: Usage): number =>
+  (usage?.inputTokens ?? 0) +
+  (usage?.outputTokens ?? 0) +
+  (usage?.cacheReadTokens ?? 0) +
+  (usage?.cacheWriteTokens ?? 0)
+
+/**
+ * Create the rate limits and budgets shared by all workers.
+ *
+ * @remarks
+ * Budgets are checked before each prompt starts, so in-flight prompts can
+ * take the totals somewhat past the cap.
+ *
+ * @param config - Limit settings
+ * @returns RunLimits instance
+ *
+ * @public
+ */
+export const createRunLimits = ({
+  requestsPerMinute,
+  tokensPerMinute,
+  maxCost,
+  maxTokens,
+}: Pick<BaseExecutionConfig, 'requestsPerMinute' | 'tokensPerMinute' | 'maxCost' | 'maxTokens'>): RunLimits => {
+  const limiter =
+    requestsPerMinute || tokensPerMinute ? createRateLimiter({ requestsPerMinute, tokensPerMinute }) : undefined
+  let totalTokens = 0
+  let totalCost = 0
+
+  return {
+    acquire: async () => {
+      await limiter?.acquire()
+    },
+    record: (usage) => {
+      const tokens = countTokens(usage)
+      totalTokens += tokens
+      totalCost += usage?.costUsd ?? 0
+      limiter?.recordTokens(tokens)
+    },
+    exhausted: () => {
+      if (maxCost !== undefined && totalCost >= maxCost) return `cost $${totalCost.toFixed(4)} >= $${maxCost}`
+      if (maxTokens !== undefined && totalTokens >= maxTokens) return `${totalTokens} tokens >= ${maxTokens}`
+      return undefined
+    },
+  }
+}
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+/** Signals from one attempt used to decide whether to retry */
+export type AttemptSignals = {
+  /** Exit info from the last turn */
+  exitInfo?: ProcessExitInfo
+  /** Captured stderr (all turns) */
+  stderr?: string
+  /** Raw stdout tail (only kept when the schema has `retryOn.stdout`) */
+  stdout?: string
+  /** Error message, if the attempt threw */
+  error?: string
+}
+
+/**
+ * Decide whether an attempt failed transiently.
+ *
+ * @remarks
+ * Without `retryOn`, any timeout, non-zero exit, signal or error counts.
+ * With `retryOn`, only the listed conditions do (timeouts unless disabled).
+ *
+ * @param signals - Signals from the attempt
+ * @param retryOn - Schema retry conditions
+ * @returns Description of the matched condition, or undefined to accept the attempt
+ *
+ * @public
+ */
+export const getRetryReason = (signals: AttemptSignals, retryOn?: RetryOn): string | undefined => {
+  const { exitInfo, stderr = '', stdout = '', error } = signals
+
+  if (!retryOn) {
+    if (error) return `error: ${error}`
+    if (exitInfo?.timedOut) return 'timeout'
+    if (exitInfo?.exitCode) return `exit code ${exitInfo.exitCode}`
+    if (exitInfo?.signal) return `signal ${exitInfo.signal}`
+    return undefined
+  }
+
+  if (exitInfo?.timedOut && retryOn.timeout !== false) return 'timeout'
+
+  const exitCode = exitInfo?.exitCode
+  if (exitCode !== undefined && exitCode !== null && retryOn.exitCodes?.includes(exitCode)) {
+    return `exit code ${exitCode}`
+  }
+
+  const test = (pattern: string, text: string) => new RegExp(pattern, 'i').test(text)
+  const stderrPattern = retryOn.stderr?.find((pattern) => test(pattern, stderr) || (error && test(pattern, error)))
+  if (stderrPattern) return `stderr matched /${stderrPattern}/`
+
+  const stdoutPattern = retryOn.stdout?.find((pattern) => test(pattern, stdout))
+  if (stdoutPattern) return `stdout matched /${stdoutPattern}/`
+
+  return undefined
+}
+
+/**
+ * Run an attempt, retrying transient failures with exponential backoff.
+ *
+ * @remarks
+ * The delay before retry n is `backoff * 2^(n-1)`. The last attempt's value
+ * is returned even if it failed.
+ *
+ * @param policy - Retry settings
+ * @param execute - Runs one attempt, returning its value and failure signals
+ * @param onRetry - Called before sleeping ahead of a retry
+ * @returns Value of the last attempt and a record of every attempt
+ *
+ * @public
+ */
+export const runWithRetries = async <T>(
+  policy: RetryPolicy,
+  execute: (attempt: number) => Promise<{ value: T; signals: AttemptSignals }>,
+  onRetry?: (attempt: Attempt, delay: number) => void,
+): Promise<{ value: T; attempts: Attempt[] }> => {
+  const attempts: Attempt[] = []
+  let attempt = 1
+
+  while (true) {
+    const start = Date.now()
+    const { value, signals } = await execute(attempt)
+    const retryReason = getRetryReason(signals, policy.retryOn)
+
+    const record: Attempt = {
+      attempt,
+      duration: Date.now() - start,
+      ...(signals.exitInfo && { exitCode: signals.exitInfo.exitCode, timedOut: signals.exitInfo.timedOut }),
+      ...(signals.error && { error: signals.error }),
+      ...(retryReason && { retryReason }),
+    }
+    attempts.push(record)
+
+    if (!retryReason || attempt > policy.retries) {
+      return { value, attempts }
+    }
+
+    const delay = policy.backoff * 2 ** (attempt - 1)
+    onRetry?.(record, delay)
+    if (delay > 0) {
+      await Bun.sleep(delay)
+    }
+    attempt++
+  }
+}
+
+// ============================================================================
+// Usage Helpers
+// ============================================================================
+
+/**
+ * Build the usage record stored on results from summed token counts.
+ *
+ * @remarks
+ * Adds `costUsd` when the schema has a `usage.pricing` table.
+ *
+ * @param tokens - Token usage summed over all turns
+ * @param schema - Headless adapter schema
+ * @returns Usage record, or undefined when no tokens were reported
+ *
+ * @public
+ */
+export const buildUsage = (tokens: TokenUsage | undefined, schema: HeadlessAdapterConfig): Usage | undefined => {
+  if (!tokens) return undefined
+  const pricing = schema.usage?.pricing
+  return pricing ? { ...tokens, costUsd: computeUsageCost(tokens, pricing) } : { ...tokens }
+}
+
 // ============================================================================
 // CLI Helpers
 // ============================================================================
@@ -243,3 +673,75 @@ export const parseConcurrency = (value: string | undefined): number => {
   }
   return parsed
 }
+
+/**
+ * Parse and validate the retries CLI argument.
+ *
+ * @param value - Raw string value from parseArgs
+ * @returns Validated non-negative integer (default: 0)
+ *
+ * @public
+ */
+export const parseRetries = (value: string | undefined): number => {
+  if (!value) return 0
+  const parsed = Number.parseInt(value, 10)
+  if (Number.isNaN(parsed) || parsed < 0) {
+    console.error('Error: --retries must be a non-negative integer')
+    process.exit(1)
+  }
+  return parsed
+}
+
+/**
+ * Parse and validate the retry backoff CLI argument.
+ *
+ * @param value - Raw string value from parseArgs (milliseconds)
+ * @returns Validated non-negative integer, or undefined for the default
+ *
+ * @public
+ */
+export const parseRetryBackoff = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  if (Number.isNaN(parsed) || parsed < 0) {
+    console.error('Error: --retry-backoff must be a non-negative number of milliseconds')
+    process.exit(1)
+  }
+  return parsed
+}
+
+/**
+ * Parse and validate a positive numeric limit CLI argument.
+ *
+ * @param value - Raw string value from parseArgs
+ * @param flag - Flag name for the error message
+ * @returns Validated positive number, or undefined when not set
+ *
+ * @public
+ */
+export const parseLimit = (value: string | undefined, flag: string): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(`Error: ${flag} must be a positive number`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+/**
+ * Parse and validate the workspace retention CLI argument.
+ *
+ * @param value - Raw string value from parseArgs
+ * @returns Validated retention policy, or undefined for the default
+ *
+ * @public
+ */
+export const parseWorkspaceRetention = (value: string | undefined): WorkspaceRetention | undefined => {
+  if (!value) return undefined
+  if (value !== 'all' && value !== 'failed' && value !== 'none') {
+    console.error('Error: --keep-workspaces must be one of: all, failed, none')
+    process.exit(1)
+  }
+  return value
+}
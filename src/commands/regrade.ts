@@ -0,0 +1,349 @@
+/**
+ * Regrade command - re-score existing results without re-running agents.
+ *
+ * @remarks
+ * Applies a grader to a capture or trials results file (format detected from
+ * its first line). New scores replace the old ones, trial metrics are
+ * recomputed, and the replaced grader output is appended to `gradeHistory`.
+ *
+ * @packageDocumentation
+ */
+
+import { parseArgs } from 'node:util'
+import { loadJsonl, logProgress, resolvePath, runWorkerPool, withGradingWorkspace } from '../core.ts'
+import { detectInputFormat } from '../pipeline/compare-format-detection.ts'
+import { DEFAULT_HARNESS_TIMEOUT } from '../schemas/constants.ts'
+import { loadGradersOrExit } from '../schemas/grader-composite.ts'
+import type { CaptureResult, GradeHistoryEntry, Grader, TrialEntry, TrialResult } from '../schemas.ts'
+import { parseConcurrency } from './execution.ts'
+import { calculatePassAtK, calculatePassExpK } from './trials.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Configuration for regrade command */
+export type RegradeConfig = {
+  /** Path to capture or trials results JSONL file */
+  resultsPath: string
+  /** Output file path (may equal resultsPath; undefined for stdout) */
+  outputPath?: string
+  /** Grader function */
+  grader: Grader
+  /** Number of results graded concurrently (default: 1) */
+  concurrency?: number
+  /** Show progress to stderr */
+  progress?: boolean
+}
+
+// ============================================================================
+// Regrading
+// ============================================================================
+
+/**
+ * Regrade a single capture result.
+ *
+ * @remarks
+ * Results skipped by a budget, and error results of attempts that threw
+ * (`metadata.attemptError`, never graded by capture), are returned
+ * unchanged. The grader sees the
+ * recorded workspace (`metadata.workspaceDir`, or the diff's tarball once the
+ * workspace is gone).
+ *
+ * @param result - Capture result to regrade
+ * @param grader - Grader function
+ * @param replacedAt - Timestamp recorded on the history entry
+ * @returns Regraded capture result
+ *
+ * @public
+ */
+export const regradeCaptureResult = async (
+  result: CaptureResult,
+  grader: Grader,
+  replacedAt: number,
+): Promise<CaptureResult> => {
+  if (result.metadata.skipped || result.metadata.attemptError) return result
+
+  const workspaceDir = typeof result.metadata.workspaceDir === 'string' ? result.metadata.workspaceDir : undefined
+  const { scores, ...score } = await withGradingWorkspace(
+    workspaceDir,
+    result.workspaceDiff,
+    (cwd) =>
+      grader({
+        input: result.input,
+        output: result.output,
+        hint: result.hint,
+        trajectory: result.trajectory,
+        metadata: result.metadata,
+        cwd,
+        workspaceDiff: result.workspaceDiff,
+      }),
+    DEFAULT_HARNESS_TIMEOUT,
+  )
+
+  // A successful regrade clears an earlier grader error
+  const { outcome: _outcome, scores: _scores, graderError: _graderError, ...rest } = result
+  const history = [...(result.gradeHistory ?? [])]
+  if (result.score) {
+    history.push({
+      version: history.length + 1,
+      replacedAt,
+      score: result.score,
+      ...(result.scores && { scores: result.scores }),
+      ...(result.outcome && { outcome: result.outcome }),
+    })
+  }
+
+  return {
+    ...rest,
+    score,
+    ...(scores && { scores }),
+    ...(score.outcome && { outcome: score.outcome }),
+    ...(history.length > 0 && { gradeHistory: history }),
+  }
+}
+
+/**
+ * Regrade every trial of a trial result and recompute its metrics.
+ *
+ * @remarks
+ * Trials that errored are left as-is (they count as failures). Results
+ * skipped by a budget are returned unchanged.
+ *
+ * @param result - Trial result to regrade
+ * @param grader - Grader function
+ * @param replacedAt - Timestamp recorded on the history entry
+ * @returns Regraded trial result
+ *
+ * @public
+ */
+export const regradeTrialResult = async (
+  result: TrialResult,
+  grader: Grader,
+  replacedAt: number,
+): Promise<TrialResult> => {
+  if (result.metadata?.skipped) return result
+
+  const trials: TrialEntry[] = []
+  for (const entry of result.trials) {
+    if (entry.error) {
+      trials.push(entry)
+      continue
+    }
+
+    const graderResult = await withGradingWorkspace(
+      undefined,
+      entry.workspaceDiff,
+      (cwd) =>
+        grader({
+          input: result.input,
+          output: entry.output,
+          hint: result.hint,
+          trajectory: entry.trajectory,
+          metadata: result.metadata,
+          cwd,
+          workspaceDiff: entry.workspaceDiff,
+        }),
+      DEFAULT_HARNESS_TIMEOUT,
+    )
+
+    const { outcome: _outcome, scores: _scores, graderError: _graderError, ...rest } = entry
+    trials.push({
+      ...rest,
+      pass: graderResult.pass,
+      score: graderResult.score,
+      reasoning: graderResult.reasoning,
+      ...(graderResult.scores && { scores: graderResult.scores }),
+      ...(graderResult.outcome && { outcome: graderResult.outcome }),
+    })
+  }
+
+  // Record the replaced grades if the result had been graded before
+  const history = [...(result.gradeHistory ?? [])]
+  if (result.passRate !== undefined) {
+    const entry: GradeHistoryEntry = {
+      version: history.length + 1,
+      replacedAt,
+      passRate: result.passRate,
+      passAtK: result.passAtK,
+      passExpK: result.passExpK,
+      trials: result.trials.map(({ trialNum, pass, score, reasoning, scores, outcome }) => ({
+        trialNum,
+        pass,
+        score,
+        reasoning,
+        ...(scores && { scores }),
+        ...(outcome && { outcome }),
+      })),
+    }
+    history.push(entry)
+  }
+
+  const passes = trials.filter((trial) => trial.pass).length
+  return {
+    ...result,
+    passRate: passes / result.k,
+    passAtK: calculatePassAtK(passes, result.k),
+    passExpK: calculatePassExpK(passes, result.k),
+    trials,
+    ...(history.length > 0 && { gradeHistory: history }),
+  }
+}
+
+/**
+ * Execute regrade with configuration object.
+ *
+ * @remarks
+ * Loads the whole file before writing, so `outputPath` may overwrite the
+ * input. Output keeps input order. A result whose grader throws is written
+ * unchanged and reported on stderr.
+ *
+ * @param config - Regrade configuration
+ * @returns Regraded results in input order
+ */
+export const runRegrade = async (config: RegradeConfig): Promise<Array<CaptureResult | TrialResult>> => {
+  const { resultsPath, outputPath, grader, concurrency = 1, progress = false } = config
+
+  const format = await detectInputFormat(resultsPath)
+  const records = await loadJsonl<CaptureResult | TrialResult>(resultsPath)
+  logProgress(`Regrading ${records.length} ${format} results from ${resultsPath}`, progress)
+
+  const replacedAt = Date.now()
+  const regraded = [...records]
+  let failed = 0
+
+  await runWorkerPool(
+    records,
+    async (record, index) => {
+      try {
+        regraded[index] =
+          format === 'trials'
+            ? await regradeTrialResult(record as TrialResult, grader, replacedAt)
+            : await regradeCaptureResult(record as CaptureResult, grader, replacedAt)
+      } catch (error) {
+        failed++
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`  ! ${record.id}: ${message}`)
+      }
+    },
+    {
+      concurrency,
+      onProgress: (completed, total) => {
+        if (completed % 100 === 0 || completed === total) {
+          logProgress(`  ${completed}/${total} regraded`, progress)
+        }
+      },
+    },
+  )
+
+  const output = regraded.map((record) => JSON.stringify(record)).join('\n')
+  if (outputPath) {
+    await Bun.write(resolvePath(outputPath), `${output}\n`)
+  } else {
+    console.log(output)
+  }
+
+  if (failed > 0) {
+    console.error(`Grader failed on ${failed} of ${records.length} results (kept unchanged)`)
+  }
+
+  return regraded
+}
+
+// ============================================================================
+// CLI Entry Point
+// ============================================================================
+
+/**
+ * Regrade command CLI handler.
+ *
+ * @param args - Command line arguments (after 'regrade')
+ */
+export const regrade = async (args: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      output: { type: 'string', short: 'o' },
+      grader: { type: 'string', short: 'g', multiple: true },
+      aggregate: { type: 'string' },
+      weight: { type: 'string', multiple: true },
+      'pass-threshold': { type: 'string' },
+      'grader-timeout': { type: 'string' },
+      'grader-retries': { type: 'string' },
+      'grader-worker': { type: 'boolean', default: false },
+      concurrency: { type: 'string', short: 'j' },
+      progress: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log(`
+Usage: agent-eval-harness regrade <results.jsonl> --grader <grader> [options]
+
+Re-score capture or trials results with a grader, without re-running agents.
+
+Arguments:
+  results.jsonl     Output of 'capture' or 'trials' (format auto-detected)
+
+Options:
+  -g, --grader      Grader path (.ts/.js module or executable), or name:path; repeatable (required)
+  --aggregate       Combine graders: all, mean, min (default: all)
+  --weight          Grader weight for mean scores as name=value; repeatable (default: 1)
+  --pass-threshold  Score needed to pass with --aggregate mean (default: 0.5)
+  --grader-timeout  Timeout per grader call in ms, 0 for none (default: 60000)
+  --grader-retries  Retries after a grader throws or times out (default: 0)
+  --grader-worker   Keep executable graders running as JSONL workers
+  -o, --output      Output file (default: stdout; may be the input file)
+  -j, --concurrency Number of results graded concurrently (default: 1)
+  --progress        Show progress to stderr
+  -h, --help        Show this help message
+
+Behavior:
+  Capture results get a new 'score'/'scores'/'outcome'; trials get new
+  per-trial 'pass'/'score'/'reasoning'/'scores' and recomputed passRate,
+  passAtK and passExpK.
+  Replaced grades are appended to 'gradeHistory' with a version number
+  (1 = original grading). Errored trials and budget-skipped results are
+  left as-is. Workspaces are read from metadata.workspaceDir, or restored
+  from a 'workspaceDiff.tarball' when the directory is gone.
+
+Examples:
+  # Re-score with a fixed grader
+  agent-eval-harness regrade results.jsonl -g ./grader.ts -o regraded.jsonl
+
+  # Re-score trials in place, 8 at a time
+  agent-eval-harness regrade trials.jsonl -g ./grader.ts -j 8 -o trials.jsonl
+`)
+    return
+  }
+
+  const resultsPath = positionals[0]
+  if (!resultsPath) {
+    console.error('Error: results.jsonl path is required')
+    process.exit(1)
+  }
+
+  if (!values.grader?.length) {
+    console.error('Error: --grader is required for regrade')
+    process.exit(1)
+  }
+
+  const grader = await loadGradersOrExit(values.grader, {
+    aggregate: values.aggregate,
+    weight: values.weight,
+    passThreshold: values['pass-threshold'],
+    graderTimeout: values['grader-timeout'],
+    graderRetries: values['grader-retries'],
+    graderWorker: values['grader-worker'],
+  })
+
+  await runRegrade({
+    resultsPath,
+    outputPath: values.output,
+    grader,
+    concurrency: parseConcurrency(values.concurrency),
+    progress: values.progress,
+  })
+}
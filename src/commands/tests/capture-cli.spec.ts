@@ -179,6 +179,9 @@ describe('capture CLI', () => {
     expect(stdout).toContain('-j, --concurrency')
     expect(stdout).toContain('--workspace-dir')
     expect(stdout).toContain('--stdin')
+    expect(stdout).toContain('--retries')
+    expect(stdout).toContain('--retry-backoff')
+    expect(stdout).toContain('--resume')
   })
 
   test('shows error for --stdin with positional file', async () => {
@@ -2,6 +2,7 @@ import { describe, expect, test } from 'bun:test'
 import type { ParsedUpdate } from '../../headless/headless-output-parser.ts'
 import type { TrajectoryStep } from '../../schemas.ts'
 import {
+  describeProcessFailure,
   detectTrajectoryRichness,
   extractContent,
   extractFilePath,
@@ -632,3 +633,32 @@ describe('detectTrajectoryRichness', () => {
     expect(detectTrajectoryRichness(trajectory)).toBe('full')
   })
 })
+
+// ============================================================================
+// describeProcessFailure
+// ============================================================================
+
+describe('describeProcessFailure', () => {
+  test('returns undefined for clean exits', () => {
+    expect(describeProcessFailure({ exitCode: 0, timedOut: false }, 'noise')).toBeUndefined()
+    expect(describeProcessFailure(undefined, '')).toBeUndefined()
+  })
+
+  test('includes exit code and stderr tail', () => {
+    expect(describeProcessFailure({ exitCode: 2, timedOut: false }, 'Error: boom\n')).toBe(
+      'Agent process exited with code 2: Error: boom',
+    )
+  })
+
+  test('reports timeouts', () => {
+    expect(describeProcessFailure({ exitCode: null, timedOut: true, signal: 'SIGTERM' }, '')).toBe(
+      'Agent process timeout',
+    )
+  })
+
+  test('keeps only the end of long stderr', () => {
+    const message = describeProcessFailure({ exitCode: 1, timedOut: false }, `${'x'.repeat(2000)}END`)
+    expect(message?.endsWith('END')).toBe(true)
+    expect(message!.length).toBeLessThan(600)
+  })
+})
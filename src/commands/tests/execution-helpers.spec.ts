@@ -0,0 +1,545 @@
+/**
+ * Unit tests for shared execution helpers.
+ *
+ * @remarks
+ * Tests cover:
+ * - getRetryReason with and without schema `retryOn`
+ * - runWithRetries attempt records and backoff
+ * - runCapture retrying a flaky agent end-to-end
+ * - runCapture resuming an interrupted run
+ * - createRunLimits budgets and runCapture skipping prompts past a budget
+ * - resolveSandbox merging and validation
+ * - runCapture seeding workspaces from prompt specs and recording diffs
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { CaptureResult } from '../../schemas.ts'
+import { runCapture } from '../capture.ts'
+import {
+  type AttemptSignals,
+  countTokens,
+  createRunLimits,
+  getRetryReason,
+  resolveSandbox,
+  runWithRetries,
+} from '../execution.ts'
+
+// ============================================================================
+// getRetryReason
+// ============================================================================
+
+describe('getRetryReason', () => {
+  const exit = (exitCode: number | null, timedOut = false) => ({ exitCode, timedOut })
+
+  test('retries any failure without retryOn', () => {
+    expect(getRetryReason({ exitInfo: exit(0) })).toBeUndefined()
+    expect(getRetryReason({ exitInfo: exit(2) })).toBe('exit code 2')
+    expect(getRetryReason({ exitInfo: exit(null, true) })).toBe('timeout')
+    expect(getRetryReason({ error: 'spawn failed' })).toBe('error: spawn failed')
+  })
+
+  test('retries only listed conditions with retryOn', () => {
+    const retryOn = { exitCodes: [75], stderr: ['rate limit'], stdout: ['"overloaded"'] }
+
+    expect(getRetryReason({ exitInfo: exit(1) }, retryOn)).toBeUndefined()
+    expect(getRetryReason({ exitInfo: exit(75) }, retryOn)).toBe('exit code 75')
+    expect(getRetryReason({ exitInfo: exit(1), stderr: 'Rate Limit exceeded' }, retryOn)).toBe(
+      'stderr matched /rate limit/',
+    )
+    expect(getRetryReason({ exitInfo: exit(0), stdout: '{"error":"overloaded"}' }, retryOn)).toBe(
+      'stdout matched /"overloaded"/',
+    )
+  })
+
+  test('stderr patterns also match error messages', () => {
+    expect(getRetryReason({ error: 'ECONNRESET' }, { stderr: ['econnreset'] })).toBe('stderr matched /econnreset/')
+    expect(getRetryReason({ error: 'bad config' }, { stderr: ['econnreset'] })).toBeUndefined()
+  })
+
+  test('timeouts are retried unless disabled', () => {
+    expect(getRetryReason({ exitInfo: exit(null, true) }, {})).toBe('timeout')
+    expect(getRetryReason({ exitInfo: exit(null, true) }, { timeout: false })).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// runWithRetries
+// ============================================================================
+
+describe('runWithRetries', () => {
+  const failing: AttemptSignals = { exitInfo: { exitCode: 1, timedOut: false } }
+
+  test('stops at the first accepted attempt', async () => {
+    const { value, attempts } = await runWithRetries({ retries: 3, backoff: 0 }, async (attempt) => ({
+      value: attempt,
+      signals: attempt < 2 ? failing : {},
+    }))
+
+    expect(value).toBe(2)
+    expect(attempts).toHaveLength(2)
+    expect(attempts[0]).toMatchObject({ attempt: 1, exitCode: 1, retryReason: 'exit code 1' })
+    expect(attempts[1]?.retryReason).toBeUndefined()
+  })
+
+  test('returns the last attempt when retries are exhausted', async () => {
+    const { value, attempts } = await runWithRetries({ retries: 2, backoff: 0 }, async (attempt) => ({
+      value: attempt,
+      signals: failing,
+    }))
+
+    expect(value).toBe(3)
+    expect(attempts.map((a) => a.attempt)).toEqual([1, 2, 3])
+  })
+
+  test('doubles the backoff delay per retry', async () => {
+    const delays: number[] = []
+    await runWithRetries(
+      { retries: 2, backoff: 5 },
+      async () => ({ value: null, signals: failing }),
+      (_attempt, delay) => delays.push(delay),
+    )
+
+    expect(delays).toEqual([5, 10])
+  })
+
+  test('makes a single attempt when retries is 0', async () => {
+    const { attempts } = await runWithRetries({ retries: 0, backoff: 0 }, async () => ({
+      value: null,
+      signals: failing,
+    }))
+
+    expect(attempts).toHaveLength(1)
+  })
+})
+
+// ============================================================================
+// runCapture with retries
+// ============================================================================
+
+describe('runCapture retries', () => {
+  const workDir = join(tmpdir(), `retry-capture-${process.pid}`)
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true })
+  })
+
+  test('retries a flaky agent and records attempts in metadata', async () => {
+    // Fails with exit 75 the first time, succeeds once the marker file exists
+    const marker = join(workDir, 'ran-once')
+    const script = `if [ -f "${marker}" ]; then echo '{"type":"result","result":"ok"}'; else mkdir -p "${workDir}"; touch "${marker}"; echo "overloaded" >&2; exit 75; fi`
+    const schemaPath = join(tmpdir(), `retry-schema-${process.pid}.json`)
+    const outputPath = join(tmpdir(), `retry-output-${process.pid}.jsonl`)
+    await Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'flaky',
+        command: ['sh', '-c', script, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+        retryOn: { stderr: ['overloaded'] },
+      }),
+    )
+
+    try {
+      const results: CaptureResult[] = await runCapture({
+        schemaPath,
+        prompts: [{ id: 'flaky-1', input: 'hello' }],
+        outputPath,
+        retries: 2,
+        retryBackoff: 0,
+      })
+
+      const result = results[0]
+      expect(result?.output).toBe('ok')
+      expect(result?.errors).toBeUndefined()
+      expect(result?.metadata?.attempts).toMatchObject([
+        { attempt: 1, exitCode: 75, retryReason: 'stderr matched /overloaded/' },
+        { attempt: 2, exitCode: 0 },
+      ])
+    } finally {
+      await rm(schemaPath, { force: true })
+      await rm(outputPath, { force: true })
+    }
+  })
+})
+
+// ============================================================================
+// runCapture with resume
+// ============================================================================
+
+describe('runCapture resume', () => {
+  const runLog = join(tmpdir(), `resume-runs-${process.pid}.log`)
+  const schemaPath = join(tmpdir(), `resume-schema-${process.pid}.json`)
+  const outputPath = join(tmpdir(), `resume-output-${process.pid}.jsonl`)
+  const prompts = [
+    { id: 'r1', input: 'one' },
+    { id: 'r2', input: 'two' },
+  ]
+
+  afterEach(async () => {
+    for (const path of [runLog, schemaPath, outputPath, `${outputPath}.checkpoint.json`]) {
+      await rm(path, { force: true })
+    }
+  })
+
+  const writeSchema = (result: string) =>
+    Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'echo',
+        command: ['sh', '-c', `echo run >> "${runLog}"; echo '{"type":"result","result":"${result}"}'`, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+
+  test('skips prompts already in the output file', async () => {
+    await writeSchema('ok')
+    await runCapture({ schemaPath, prompts, outputPath })
+
+    // Simulate a crash after the first result
+    const [firstLine] = (await Bun.file(outputPath).text()).split('\n')
+    await Bun.write(outputPath, `${firstLine}\n`)
+    await Bun.write(runLog, '')
+
+    const results = await runCapture({ schemaPath, prompts, outputPath, resume: true })
+
+    expect(results.map((r) => r.id)).toEqual(['r2'])
+    expect((await Bun.file(runLog).text()).trim().split('\n')).toHaveLength(1)
+    const lines = (await Bun.file(outputPath).text()).trim().split('\n')
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['r1', 'r2'])
+  })
+
+  test('refuses to resume after the schema changed', async () => {
+    await writeSchema('ok')
+    await runCapture({ schemaPath, prompts, outputPath })
+    await writeSchema('changed')
+
+    await expect(runCapture({ schemaPath, prompts, outputPath, resume: true })).rejects.toThrow(
+      'Cannot resume: schema changed since the first run',
+    )
+  })
+})
+
+// ============================================================================
+// runCapture with a response cache
+// ============================================================================
+
+describe('runCapture response cache', () => {
+  const runLog = join(tmpdir(), `cache-runs-${process.pid}.log`)
+  const schemaPath = join(tmpdir(), `cache-schema-${process.pid}.json`)
+  const outputPath = join(tmpdir(), `cache-output-${process.pid}.jsonl`)
+  const cacheDir = join(tmpdir(), `cache-dir-${process.pid}`)
+
+  afterEach(async () => {
+    for (const path of [runLog, schemaPath, outputPath, `${outputPath}.checkpoint.json`, cacheDir]) {
+      await rm(path, { recursive: true, force: true })
+    }
+  })
+
+  test('replays recorded turns instead of running the agent', async () => {
+    await Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'echo',
+        command: ['sh', '-c', `echo run >> "${runLog}"; echo '{"type":"result","result":"ok"}'`, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+    const prompts = [{ id: 'c1', input: 'hello' }]
+
+    await runCapture({ schemaPath, prompts, outputPath, cacheDir })
+    const [replayed] = await runCapture({ schemaPath, prompts, outputPath, cacheDir })
+    await runCapture({ schemaPath, prompts, outputPath, cacheDir, cacheSalt: 'v2' })
+
+    expect(replayed?.output).toBe('ok')
+    expect(replayed?.metadata.cachedTurns).toBe(1)
+    expect((await Bun.file(runLog).text()).trim().split('\n')).toHaveLength(2)
+  })
+})
+
+// ============================================================================
+// runCapture with a failing grader
+// ============================================================================
+
+describe('runCapture grader errors', () => {
+  const schemaPath = join(tmpdir(), `grader-error-schema-${process.pid}.json`)
+  const outputPath = join(tmpdir(), `grader-error-output-${process.pid}.jsonl`)
+
+  afterEach(async () => {
+    await rm(schemaPath, { force: true })
+    await rm(outputPath, { force: true })
+  })
+
+  test('keeps the agent result and records graderError', async () => {
+    await Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'echo',
+        command: ['sh', '-c', `echo '{"type":"result","result":"ok"}'`, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+
+    const results = await runCapture({
+      schemaPath,
+      prompts: [{ id: 'g1', input: 'hello' }],
+      outputPath,
+      grader: async () => {
+        throw new Error('grader bug')
+      },
+    })
+
+    const result = results[0]
+    expect(result?.output).toBe('ok')
+    expect(result?.errors).toBeUndefined()
+    expect(result?.score).toBeUndefined()
+    expect(result?.graderError).toBe('grader bug')
+  })
+})
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+describe('createRunLimits', () => {
+  test('counts all token kinds', () => {
+    expect(countTokens({ inputTokens: 1, outputTokens: 2, cacheReadTokens: 3, cacheWriteTokens: 4 })).toBe(10)
+    expect(countTokens(undefined)).toBe(0)
+  })
+
+  test('reports exhaustion once a budget is reached', () => {
+    const limits = createRunLimits({ maxTokens: 100, maxCost: 1 })
+    limits.record({ inputTokens: 40, outputTokens: 20, costUsd: 0.5 })
+    expect(limits.exhausted()).toBeUndefined()
+
+    limits.record({ inputTokens: 40, outputTokens: 20, costUsd: 0.25 })
+    expect(limits.exhausted()).toBe('120 tokens >= 100')
+
+    const costLimits = createRunLimits({ maxCost: 1 })
+    costLimits.record({ costUsd: 1.5 })
+    expect(costLimits.exhausted()).toBe('cost $1.5000 >= $1')
+  })
+})
+
+describe('runCapture budget', () => {
+  const schemaPath = join(tmpdir(), `budget-schema-${process.pid}.json`)
+  const outputPath = join(tmpdir(), `budget-output-${process.pid}.jsonl`)
+
+  const cacheDir = join(tmpdir(), `budget-cache-${process.pid}`)
+  const meteredSchema = {
+    version: 1,
+    name: 'metered',
+    command: ['sh', '-c', `echo '{"type":"result","result":"ok","usage":{"in":30,"out":20}}'`, 'sh'],
+    sessionMode: 'iterative',
+    prompt: { flag: '' },
+    output: { flag: '', value: '' },
+    outputEvents: [],
+    result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+    usage: { match: { path: '$.type', value: 'result' }, inputTokens: '$.usage.in', outputTokens: '$.usage.out' },
+  }
+
+  afterEach(async () => {
+    for (const path of [schemaPath, outputPath, `${outputPath}.checkpoint.json`]) {
+      await rm(path, { force: true })
+    }
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  test('skips remaining prompts once the token budget is reached', async () => {
+    await Bun.write(schemaPath, JSON.stringify(meteredSchema))
+
+    const results = await runCapture({
+      schemaPath,
+      prompts: [
+        { id: 'b1', input: 'one' },
+        { id: 'b2', input: 'two' },
+        { id: 'b3', input: 'three' },
+      ],
+      outputPath,
+      maxTokens: 100,
+    })
+
+    expect(results.map((r) => [r.id, r.metadata?.skipped])).toEqual([
+      ['b1', undefined],
+      ['b2', undefined],
+      ['b3', '100 tokens >= 100'],
+    ])
+  })
+
+  test('replayed turns skip rate limits and budgets', async () => {
+    await Bun.write(schemaPath, JSON.stringify(meteredSchema))
+    const prompts = [
+      { id: 'c1', input: 'one' },
+      { id: 'c2', input: 'two' },
+      { id: 'c3', input: 'three' },
+    ]
+    await runCapture({ schemaPath, prompts, outputPath, cacheDir })
+
+    // One request per minute would hold the second prompt for a minute if hits waited for it
+    const results = await runCapture({
+      schemaPath,
+      prompts,
+      outputPath,
+      cacheDir,
+      maxTokens: 100,
+      requestsPerMinute: 1,
+    })
+
+    expect(results.map((r) => [r.id, r.metadata?.cachedTurns, r.metadata?.skipped])).toEqual([
+      ['c1', 1, undefined],
+      ['c2', 1, undefined],
+      ['c3', 1, undefined],
+    ])
+  })
+
+  test('rejects token budgets without schema usage', async () => {
+    await Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'unmetered',
+        command: ['true'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+
+    await expect(
+      runCapture({ schemaPath, prompts: [{ id: 'x', input: 'x' }], outputPath, maxTokens: 10 }),
+    ).rejects.toThrow("Token limits require a 'usage' block")
+  })
+})
+
+// ============================================================================
+// resolveSandbox
+// ============================================================================
+
+describe('resolveSandbox', () => {
+  test('returns undefined when no sandbox is configured', () => {
+    expect(resolveSandbox(undefined, undefined)).toBeUndefined()
+  })
+
+  test('requires an image', () => {
+    expect(() => resolveSandbox(undefined, { memory: '2g' })).toThrow('Sandbox requires an image')
+  })
+})
+
+// ============================================================================
+// Workspace specs
+// ============================================================================
+
+describe('runCapture workspace', () => {
+  const schemaPath = join(tmpdir(), `workspace-schema-${process.pid}.json`)
+  const workspaceDir = join(tmpdir(), `workspace-runs-${process.pid}`)
+  const outputPath = join(tmpdir(), `workspace-output-${process.pid}.jsonl`)
+
+  afterEach(async () => {
+    for (const path of [schemaPath, outputPath, `${outputPath}.checkpoint.json`]) {
+      await rm(path, { force: true })
+    }
+    await rm(workspaceDir, { recursive: true, force: true })
+  })
+
+  const writeSchema = () =>
+    Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'reader',
+        command: ['sh', '-c', `echo "{\\"type\\":\\"result\\",\\"result\\":\\"$(cat seed.txt)\\"}"`, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+
+  test('runs the agent in the seeded workspace and removes it afterwards', async () => {
+    await writeSchema()
+    const prompts = [
+      {
+        id: 'w1',
+        input: 'read',
+        workspace: { files: { 'seed.txt': 'seeded' }, setup: ['echo -n " and set up" >> seed.txt'] },
+      },
+    ]
+
+    const [result] = await runCapture({ schemaPath, prompts, outputPath, workspaceDir, keepWorkspaces: 'none' })
+
+    expect(result?.output).toBe('seeded and set up')
+    expect(await Bun.file(join(workspaceDir, 'prompt-w1', 'seed.txt')).exists()).toBe(false)
+  })
+
+  test('records the workspace diff as an artifact', async () => {
+    await Bun.write(
+      schemaPath,
+      JSON.stringify({
+        version: 1,
+        name: 'writer',
+        command: ['sh', '-c', `echo done > out.txt; echo '{"type":"result","result":"ok"}'`, 'sh'],
+        sessionMode: 'iterative',
+        prompt: { flag: '' },
+        output: { flag: '', value: '' },
+        outputEvents: [],
+        result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      }),
+    )
+    const artifactsDir = join(workspaceDir, 'artifacts')
+    const prompts = [{ id: 'w4', input: 'write', workspace: { files: { 'seed.txt': 'x' } } }]
+
+    const [result] = await runCapture({ schemaPath, prompts, outputPath, workspaceDir, artifactsDir })
+
+    expect(result?.workspaceDiff).toEqual({
+      added: ['out.txt'],
+      modified: [],
+      deleted: [],
+      patch: join(artifactsDir, 'prompt-w4', 'diff.patch'),
+    })
+    expect(await Bun.file(join(artifactsDir, 'prompt-w4', 'diff.patch')).text()).toContain('+done')
+  })
+
+  test('records setup failures as prompt errors', async () => {
+    await writeSchema()
+    const prompts = [{ id: 'w2', input: 'read', workspace: { setup: ['exit 2'] } }]
+
+    const [result] = await runCapture({ schemaPath, prompts, outputPath, workspaceDir })
+
+    expect(result?.errors).toEqual(["Workspace setup 'exit 2' exited with code 2"])
+    expect(result?.metadata.attemptError).toBe(true)
+  })
+
+  test('requires --workspace-dir for workspace specs', async () => {
+    await writeSchema()
+    const prompts = [{ id: 'w3', input: 'read', workspace: { files: { 'a.txt': 'a' } } }]
+
+    await expect(runCapture({ schemaPath, prompts })).rejects.toThrow(
+      "Prompt 'w3' has a workspace spec, which requires --workspace-dir",
+    )
+  })
+})
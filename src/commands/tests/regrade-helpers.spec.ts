@@ -0,0 +1,191 @@
+/**
+ * Unit tests for the regrade command.
+ *
+ * @remarks
+ * Tests cover:
+ * - regradeCaptureResult replacing scores and recording history, skipping
+ *   skipped and errored results
+ * - regradeTrialResult recomputing metrics and skipping errored trials
+ * - runRegrade on files in both formats, keeping order and failed results
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { CaptureResult, Grader, TrialResult } from '../../schemas.ts'
+import { regradeCaptureResult, regradeTrialResult, runRegrade } from '../regrade.ts'
+
+// Passes when the output contains "ok"
+const grader: Grader = async ({ output }) => ({
+  pass: output.includes('ok'),
+  score: output.includes('ok') ? 1 : 0,
+  reasoning: 'new grader',
+})
+
+const captureResult = (id: string, output: string): CaptureResult => ({
+  id,
+  input: 'hi',
+  output,
+  trajectory: [],
+  metadata: { agent: 'test' },
+  timing: { start: 0, end: 1, sessionCreation: 0, total: 1 },
+  toolErrors: false,
+  score: { pass: false, score: 0, reasoning: 'old grader' },
+  outcome: { stale: true },
+})
+
+// ============================================================================
+// regradeCaptureResult
+// ============================================================================
+
+describe('regradeCaptureResult', () => {
+  test('replaces the score and records the old one as version 1', async () => {
+    const result = await regradeCaptureResult(captureResult('a', 'ok'), grader, 123)
+
+    expect(result.score).toEqual({ pass: true, score: 1, reasoning: 'new grader' })
+    expect(result.outcome).toBeUndefined()
+    expect(result.gradeHistory).toEqual([
+      {
+        version: 1,
+        replacedAt: 123,
+        score: { pass: false, score: 0, reasoning: 'old grader' },
+        outcome: { stale: true },
+      },
+    ])
+  })
+
+  test('appends to existing history', async () => {
+    const first = await regradeCaptureResult(captureResult('a', 'ok'), grader, 1)
+    const second = await regradeCaptureResult(first, grader, 2)
+
+    expect(second.gradeHistory?.map((entry) => entry.version)).toEqual([1, 2])
+  })
+
+  test('records per-grader scores and keeps the replaced ones in history', async () => {
+    const composite: Grader = async () => ({
+      pass: true,
+      score: 1,
+      scores: { correctness: { pass: true, score: 1 } },
+    })
+    const previous = { ...captureResult('a', 'ok'), scores: { style: { pass: false, score: 0 } } }
+
+    const result = await regradeCaptureResult(previous, composite, 1)
+
+    expect(result.score).toEqual({ pass: true, score: 1 })
+    expect(result.scores).toEqual({ correctness: { pass: true, score: 1 } })
+    expect(result.gradeHistory?.[0]?.scores).toEqual({ style: { pass: false, score: 0 } })
+  })
+
+  test('leaves budget-skipped results unchanged', async () => {
+    const skipped = { ...captureResult('a', ''), metadata: { skipped: 'max-cost reached' } }
+    expect(await regradeCaptureResult(skipped, grader, 1)).toBe(skipped)
+  })
+
+  test('leaves results of attempts that threw unchanged', async () => {
+    const errored = {
+      ...captureResult('a', ''),
+      metadata: { attemptError: true },
+      errors: ['Session not found'],
+    }
+    expect(await regradeCaptureResult(errored, grader, 1)).toBe(errored)
+  })
+})
+
+// ============================================================================
+// regradeTrialResult
+// ============================================================================
+
+describe('regradeTrialResult', () => {
+  const trialResult: TrialResult = {
+    id: 't',
+    input: 'hi',
+    k: 3,
+    passRate: 0,
+    passAtK: 0,
+    passExpK: 0,
+    trials: [
+      { trialNum: 1, output: 'ok', trajectory: [], duration: 1, pass: false, score: 0 },
+      { trialNum: 2, output: 'nope', trajectory: [], duration: 1, pass: false, score: 0 },
+      { trialNum: 3, output: '', trajectory: [], duration: 1, pass: false, error: 'crashed' },
+    ],
+  }
+
+  test('regrades trials and recomputes metrics', async () => {
+    const result = await regradeTrialResult(trialResult, grader, 5)
+
+    expect(result.trials.map((trial) => trial.pass)).toEqual([true, false, false])
+    expect(result.trials[2]?.error).toBe('crashed')
+    expect(result.passRate).toBeCloseTo(1 / 3)
+    expect(result.passAtK).toBeGreaterThan(0)
+    expect(result.passExpK).toBeCloseTo((1 / 3) ** 3)
+    expect(result.gradeHistory?.[0]).toMatchObject({ version: 1, replacedAt: 5, passRate: 0 })
+    expect(result.gradeHistory?.[0]?.trials?.[0]).toEqual({ trialNum: 1, pass: false, score: 0, reasoning: undefined })
+  })
+
+  test('records no history for ungraded trials', async () => {
+    const ungraded: TrialResult = {
+      id: 't',
+      input: 'hi',
+      k: 1,
+      trials: [{ trialNum: 1, output: 'ok', trajectory: [], duration: 1 }],
+    }
+
+    const result = await regradeTrialResult(ungraded, grader, 5)
+
+    expect(result.passRate).toBe(1)
+    expect(result.gradeHistory).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// runRegrade
+// ============================================================================
+
+describe('runRegrade', () => {
+  const resultsPath = join(tmpdir(), `regrade-input-${process.pid}.jsonl`)
+
+  afterEach(async () => {
+    await rm(resultsPath, { force: true })
+  })
+
+  test('regrades a capture file in place, keeping order', async () => {
+    const records = [captureResult('a', 'ok'), captureResult('b', 'bad'), captureResult('c', 'ok')]
+    await Bun.write(resultsPath, `${records.map((record) => JSON.stringify(record)).join('\n')}\n`)
+
+    await runRegrade({ resultsPath, outputPath: resultsPath, grader, concurrency: 2 })
+
+    const lines = (await Bun.file(resultsPath).text()).trim().split('\n')
+    const regraded = lines.map((line) => JSON.parse(line) as CaptureResult)
+    expect(regraded.map((record) => [record.id, record.score?.pass])).toEqual([
+      ['a', true],
+      ['b', false],
+      ['c', true],
+    ])
+  })
+
+  test('detects and regrades a trials file', async () => {
+    const record: TrialResult = {
+      id: 't',
+      input: 'hi',
+      k: 1,
+      trials: [{ trialNum: 1, output: 'ok', trajectory: [], duration: 1 }],
+    }
+    await Bun.write(resultsPath, `${JSON.stringify(record)}\n`)
+
+    const [result] = await runRegrade({ resultsPath, outputPath: resultsPath, grader })
+
+    expect((result as TrialResult).passRate).toBe(1)
+  })
+
+  test('keeps a result unchanged when the grader throws', async () => {
+    await Bun.write(resultsPath, `${JSON.stringify(captureResult('a', 'ok'))}\n`)
+    const failing: Grader = async () => {
+      throw new Error('grader bug')
+    }
+
+    const [result] = await runRegrade({ resultsPath, outputPath: resultsPath, grader: failing })
+
+    expect(result).toEqual(captureResult('a', 'ok'))
+  })
+})
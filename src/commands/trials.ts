@@ -12,12 +12,38 @@
  */
 
 import { parseArgs } from 'node:util'
-import { createWorkspaceDir, extractOutput, extractTrajectory, logProgress, readStdinPrompts } from '../core.ts'
-import type { ParsedUpdate } from '../headless/headless-output-parser.ts'
+import {
+  addStderrSteps,
+  createWorkspaceDir,
+  createWorkspaceSnapshot,
+  extractOutput,
+  extractTrajectory,
+  finishWorkspace,
+  logProgress,
+  prepareWorkspace,
+  readStdinPrompts,
+  type TurnStderr,
+  type WorkspaceSnapshot,
+} from '../core.ts'
+import { parsePromptEnv } from '../headless/headless.schemas.ts'
+import { addTokenUsage, type ParsedUpdate, type TokenUsage } from '../headless/headless-output-parser.ts'
+import type { ProcessExitInfo } from '../headless/headless-session-manager.ts'
 import { DEFAULT_TRIAL_COUNT } from '../schemas/constants.ts'
-import { loadGraderOrExit } from '../schemas/grader-loader.ts'
+import { loadGradersOrExit } from '../schemas/grader-composite.ts'
 import type { PromptCase, TrialEntry, TrialResult } from '../schemas.ts'
-import { type BaseExecutionConfig, executePrompts, parseConcurrency, prepareExecution } from './execution.ts'
+import {
+  type AttemptSignals,
+  type BaseExecutionConfig,
+  buildUsage,
+  executePrompts,
+  parseConcurrency,
+  parseLimit,
+  parseRetries,
+  parseRetryBackoff,
+  parseWorkspaceRetention,
+  prepareExecution,
+  runWithRetries,
+} from './execution.ts'
 
 // ============================================================================
 // Pass@k/Pass^k Calculation
@@ -90,11 +116,27 @@ export type TrialsConfig = BaseExecutionConfig & {
  */
 export const runTrials = async (config: TrialsConfig): Promise<TrialResult[]> => {
   const { k } = config
-  const ctx = await prepareExecution(config)
-  const { schema, prompts, sessions, resolvedWorkspaceDir, defaultWorkingDir, progress, grader } = ctx
+  const ctx = await prepareExecution(config, { command: 'trials', k: String(k) })
+  const {
+    schema,
+    prompts,
+    sessions,
+    resolvedWorkspaceDir,
+    keepWorkspaces,
+    resolvedArtifactsDir,
+    defaultWorkingDir,
+    progress,
+    grader,
+    retryPolicy,
+    limits,
+    cache,
+  } = ctx
 
   // Log progress info
-  logProgress(`Loaded ${prompts.length} prompts from ${config.promptsPath ?? 'stdin'}`, progress)
+  logProgress(`Loaded ${prompts.length + ctx.skipped} prompts from ${config.promptsPath ?? 'stdin'}`, progress)
+  if (ctx.skipped > 0) {
+    logProgress(`Resume: skipping ${ctx.skipped} completed prompts`, progress)
+  }
   logProgress(`Running ${k} trials per prompt (${prompts.length * k} total executions)`, progress)
   logProgress(`Schema: ${schema.name} (${config.schemaPath})`, progress)
   logProgress(`Timeout: ${ctx.effectiveTimeout}ms`, progress)
@@ -104,10 +146,110 @@ export const runTrials = async (config: TrialsConfig): Promise<TrialResult[]> =>
   if (resolvedWorkspaceDir) {
     logProgress(`Workspace: ${resolvedWorkspaceDir}`, progress)
   }
+  if (ctx.sandbox) {
+    logProgress(`Sandbox: ${ctx.sandbox.image}`, progress)
+  }
+  if (retryPolicy.retries > 0) {
+    logProgress(`Retries: ${retryPolicy.retries} (backoff ${retryPolicy.backoff}ms)`, progress)
+  }
   if (grader) {
     logProgress('Grader: enabled (will compute pass@k metrics)', progress)
   }
 
+  // Build the entry recorded when a trial attempt throws
+  const buildErrorEntry = (trialNum: number, startTime: number, message: string): TrialEntry => ({
+    trialNum,
+    output: '',
+    trajectory: [],
+    duration: Date.now() - startTime,
+    pass: false,
+    reasoning: `Error: ${message}`,
+    error: message,
+  })
+
+  // Build the result recorded for a prompt skipped by a budget
+  const buildSkippedResult = (promptCase: (typeof prompts)[number], reason: string): TrialResult => ({
+    id: promptCase.id,
+    input: promptCase.input,
+    ...(promptCase.hint && { hint: promptCase.hint }),
+    k,
+    trials: [],
+    metadata: {
+      ...promptCase.metadata,
+      agent: schema.name,
+      skipped: reason,
+    },
+  })
+
+  // Run one attempt of a trial in a fresh session (ungraded)
+  const runTrialAttempt = async (
+    promptCase: (typeof prompts)[number],
+    trialNum: number,
+    workingDir: string,
+  ): Promise<{ value: TrialEntry; signals: AttemptSignals }> => {
+    const startTime = Date.now()
+    let sessionId: string | undefined
+
+    try {
+      // Create fresh session for each trial
+      const session = await sessions.create(workingDir, {
+        env: parsePromptEnv(promptCase.metadata),
+        cacheKey: { workspace: promptCase.workspace ?? null, trial: trialNum },
+      })
+      sessionId = session.id
+
+      // Handle string or array input
+      const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
+      const allUpdates: ParsedUpdate[] = []
+      const turnStderr: TurnStderr[] = []
+      const turnStdout: string[] = []
+      let tokens: TokenUsage | undefined
+      let lastExitInfo: ProcessExitInfo | undefined
+
+      // Execute each turn sequentially
+      for (const turnInput of inputs) {
+        // The response cache waits for rate limits itself, on misses only
+        if (!cache) await limits.acquire()
+        const turnResult = await sessions.prompt(session.id, turnInput)
+        // Replayed turns did not reach the agent, so they use no budget
+        if (!turnResult.cached) limits.record(buildUsage(turnResult.usage, schema))
+        allUpdates.push(...turnResult.updates)
+        tokens = addTokenUsage(tokens, turnResult.usage)
+        if (turnResult.stderr) {
+          turnStderr.push({ content: turnResult.stderr, time: Date.now() })
+        }
+        if (turnResult.stdout) {
+          turnStdout.push(turnResult.stdout)
+        }
+        lastExitInfo = turnResult.exitInfo
+      }
+
+      const endTime = Date.now()
+      const trajectory = addStderrSteps(extractTrajectory(allUpdates, startTime), turnStderr, startTime)
+      const output = extractOutput(trajectory)
+
+      const usage = buildUsage(tokens, schema)
+      const entry: TrialEntry = {
+        trialNum,
+        output,
+        trajectory,
+        duration: endTime - startTime,
+        ...(usage && { usage }),
+      }
+
+      const stderr = turnStderr.map((turn) => turn.content).join('\n')
+      return { value: entry, signals: { exitInfo: lastExitInfo, stderr, stdout: turnStdout.join('\n') } }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { value: buildErrorEntry(trialNum, startTime, message), signals: { error: message } }
+    } finally {
+      // Always clean up session
+      if (sessionId) {
+        sessions.destroy(sessionId)
+      }
+    }
+  }
+
   // Process all trials for a single prompt
   const processPromptTrials = async (promptCase: (typeof prompts)[number], index: number): Promise<TrialResult> => {
     logProgress(`[${index + 1}/${prompts.length}] ${promptCase.id}: Running ${k} trials...`, progress)
@@ -121,73 +263,97 @@ export const runTrials = async (config: TrialsConfig): Promise<TrialResult[]> =>
         ? await createWorkspaceDir(resolvedWorkspaceDir, `${promptCase.id}-trial-${trialNum}`)
         : defaultWorkingDir
 
-      // Create fresh session for each trial
-      const session = await sessions.create(workingDir)
       const startTime = Date.now()
-
-      try {
-        // Handle string or array input
-        const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
-        const allUpdates: ParsedUpdate[] = []
-
-        // Execute each turn sequentially
-        for (const turnInput of inputs) {
-          const turnResult = await sessions.prompt(session.id, turnInput)
-          allUpdates.push(...turnResult.updates)
-        }
-
-        const endTime = Date.now()
-        const trajectory = extractTrajectory(allUpdates, startTime)
-        const output = extractOutput(trajectory)
-
-        const entry: TrialEntry = {
-          trialNum,
-          output,
-          trajectory,
-          duration: endTime - startTime,
+      let snapshot: WorkspaceSnapshot | undefined
+      const { value, attempts } = await runWithRetries(
+        retryPolicy,
+        async () => {
+          await snapshot?.dispose()
+          snapshot = undefined
+          // Rebuild the workspace from its spec before every attempt, then take the diff baseline
+          try {
+            await prepareWorkspace(workingDir, promptCase.workspace, ctx.effectiveTimeout)
+            if (resolvedArtifactsDir) {
+              snapshot = await createWorkspaceSnapshot(workingDir, ctx.effectiveTimeout)
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            return { value: buildErrorEntry(trialNum, startTime, message), signals: { error: message } }
+          }
+          return runTrialAttempt(promptCase, trialNum, workingDir)
+        },
+        (attempt, delay) =>
+          logProgress(
+            `    Trial ${trialNum}/${k}: attempt ${attempt.attempt} failed (${attempt.retryReason}), retrying in ${delay}ms`,
+            progress,
+          ),
+      )
+      const entry = value
+      let failed = Boolean(attempts.at(-1)?.error)
+
+      // Record what the final attempt changed in the workspace
+      if (snapshot && resolvedArtifactsDir) {
+        try {
+          const artifactDir = await createWorkspaceDir(resolvedArtifactsDir, `${promptCase.id}-trial-${trialNum}`)
+          entry.workspaceDiff = await snapshot.diff(artifactDir, { tarball: ctx.tarball })
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : String(error)
+          failed = true
         }
+      }
 
-        // Apply grader if provided
-        if (grader) {
+      // Apply grader to the final attempt, unless it threw
+      if (grader && !failed) {
+        try {
           const graderResult = await grader({
             input: promptCase.input,
-            output,
+            output: entry.output,
             hint: promptCase.hint,
-            trajectory,
+            trajectory: entry.trajectory,
             metadata: promptCase.metadata,
-            cwd: session.cwd,
+            cwd: workingDir,
+            workspaceDiff: entry.workspaceDiff,
           })
           entry.pass = graderResult.pass
           entry.score = graderResult.score
           entry.reasoning = graderResult.reasoning
 
+          if (graderResult.scores) {
+            entry.scores = graderResult.scores
+          }
           if (graderResult.outcome) {
             entry.outcome = graderResult.outcome
           }
+        } catch (error) {
+          // Keep the trial's output; only the grading failed
+          entry.graderError = error instanceof Error ? error.message : String(error)
+          logProgress(`    Trial ${trialNum}/${k}: grader failed: ${entry.graderError}`, progress)
+          failed = true
         }
+      }
 
-        trialEntries.push(entry)
-        logProgress(
-          `    Trial ${trialNum}/${k}: ${entry.pass !== undefined ? (entry.pass ? '✓' : '✗') : '?'}`,
-          progress,
-        )
-      } catch (error) {
-        const endTime = Date.now()
-        const message = error instanceof Error ? error.message : String(error)
-
-        trialEntries.push({
-          trialNum,
-          output: '',
-          trajectory: [],
-          duration: endTime - startTime,
-          pass: false,
-          reasoning: `Error: ${message}`,
+      if (retryPolicy.retries > 0) {
+        entry.attempts = attempts
+      }
+
+      // Run teardown hooks and drop the workspace unless it is kept
+      if (resolvedWorkspaceDir) {
+        const teardownErrors = await finishWorkspace(workingDir, {
+          spec: promptCase.workspace,
+          retention: keepWorkspaces,
+          failed: failed || entry.pass === false,
+          timeout: ctx.effectiveTimeout,
         })
-        logProgress(`    Trial ${trialNum}/${k}: ! (error)`, progress)
-      } finally {
-        // Always clean up session
-        sessions.destroy(session.id)
+        for (const message of teardownErrors) {
+          logProgress(`    Trial ${trialNum}/${k}: ${message}`, progress)
+        }
       }
+
+      trialEntries.push(entry)
+      logProgress(
+        `    Trial ${trialNum}/${k}: ${failed ? '! (error)' : entry.pass !== undefined ? (entry.pass ? '✓' : '✗') : '?'}`,
+        progress,
+      )
     }
 
     // Build result
@@ -226,7 +392,7 @@ export const runTrials = async (config: TrialsConfig): Promise<TrialResult[]> =>
   }
 
   // Run with worker pool (parallelizes across prompts, trials for each prompt run sequentially)
-  return executePrompts(ctx, processPromptTrials)
+  return executePrompts(ctx, processPromptTrials, buildSkippedResult)
 }
 
 // ============================================================================
@@ -243,17 +409,41 @@ export const trials = async (args: string[]): Promise<void> => {
     args,
     options: {
       schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
       output: { type: 'string', short: 'o' },
       k: { type: 'string', short: 'k', default: String(DEFAULT_TRIAL_COUNT) },
       cwd: { type: 'string', short: 'c' },
       timeout: { type: 'string', short: 't' },
       progress: { type: 'boolean', default: false },
       append: { type: 'boolean', default: false },
-      grader: { type: 'string', short: 'g' },
+      grader: { type: 'string', short: 'g', multiple: true },
+      aggregate: { type: 'string' },
+      weight: { type: 'string', multiple: true },
+      'pass-threshold': { type: 'string' },
+      'grader-timeout': { type: 'string' },
+      'grader-retries': { type: 'string' },
+      'grader-worker': { type: 'boolean', default: false },
       debug: { type: 'boolean', default: false },
       stdin: { type: 'boolean', default: false },
       concurrency: { type: 'string', short: 'j' },
       'workspace-dir': { type: 'string' },
+      'keep-workspaces': { type: 'string' },
+      'artifacts-dir': { type: 'string' },
+      tarball: { type: 'boolean', default: false },
+      retries: { type: 'string' },
+      'retry-backoff': { type: 'string' },
+      resume: { type: 'boolean', default: false },
+      'retry-errors': { type: 'boolean', default: false },
+      rpm: { type: 'string' },
+      tpm: { type: 'string' },
+      'max-cost': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      sandbox: { type: 'string' },
+      'cache-dir': { type: 'string' },
+      'cache-salt': { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      'replay-timing': { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h' },
     },
     allowPositionals: true,
@@ -269,6 +459,7 @@ Arguments:
 
 Options:
   -s, --schema      Path to agent schema JSON file (required)
+  --profile         Schema profile to apply (version 2 schemas)
   -o, --output      Output file (default: stdout)
   -k                Number of trials per prompt (default: ${DEFAULT_TRIAL_COUNT})
   -c, --cwd         Working directory for agent
@@ -276,12 +467,53 @@ Options:
   -j, --concurrency Number of concurrent workers (default: 1)
   --stdin           Read prompts from stdin (mutually exclusive with file arg)
   --workspace-dir   Base directory for per-trial workspace isolation
+  --keep-workspaces Workspaces to keep after grading: all, failed, none (default: all)
+  --artifacts-dir   Record each trial workspace's diff (file lists + patch) under this directory
+  --tarball         With --artifacts-dir, also archive each final workspace
+  --retries         Retry transient failures of each trial up to N times (default: 0)
+  --retry-backoff   Base delay before the first retry in ms, doubled per retry (default: 1000)
   --progress        Show progress to stderr
   --append          Append to output file
-  -g, --grader      Path to grader (.ts/.js module or executable script)
+  --resume          Skip prompts already completed in the output file (requires -o)
+  --retry-errors    With --resume, re-run prompts with an errored trial
+  --rpm             Max agent requests (turns) per minute across all workers
+  --tpm             Max tokens per minute across all workers (needs schema 'usage')
+  --max-cost        Stop starting prompts once total cost reaches this USD amount
+  --max-tokens      Stop starting prompts once total tokens reach this count
+  --sandbox         Run the agent in this container image (docker/podman, network off)
+  --cache-dir       Replay recorded agent turns from this directory; record new ones
+  --cache-salt      Extra string mixed into cache keys (change it to invalidate)
+  --record          Save each agent turn's raw stdout, exit info and timing as fixtures
+  --replay          Serve turns from a --record directory instead of running the agent
+  --replay-timing   With --replay, reproduce the recorded delays between stdout lines
+  -g, --grader      Grader path (.ts/.js module or executable), or name:path; repeatable
+  --aggregate       Combine graders: all, mean, min (default: all)
+  --weight          Grader weight for mean scores as name=value; repeatable (default: 1)
+  --pass-threshold  Score needed to pass with --aggregate mean (default: 0.5)
+  --grader-timeout  Timeout per grader call in ms, 0 for none (default: 60000)
+  --grader-retries  Retries after a grader throws or times out (default: 0)
+  --grader-worker   Keep executable graders running as JSONL workers
   --debug           Enable debug mode
   -h, --help        Show this help message
 
+Rate Limits and Budgets:
+  --rpm and --tpm are shared by all -j workers. Once --max-cost or --max-tokens
+  is reached, no new prompts start and the rest are written with
+  metadata.skipped and no trials. Resume later with --resume.
+
+Response Cache:
+  With --cache-dir, each agent turn is keyed by the schema, the prompt(s), the
+  --cwd/--workspace-dir path, the prompt's env and workspace spec, the trial
+  number and --cache-salt. Hits replay the recorded output without running
+  the agent (and without its file changes); successful misses are recorded.
+  Inspect or clear with 'agent-eval-harness cache'.
+
+Record and Replay:
+  --record <dir> saves every turn's raw stdout lines as fixtures keyed by the
+  prompt. --replay <dir> feeds them through the schema's output parser without
+  starting the agent, so schemas, graders and pipelines can be tested in CI.
+  A prompt with no recording is reported as an error.
+
 Output Format:
   Without grader: Raw trials with trajectories
   With grader: Trials plus pass@k metrics (passRate, passAtK, passExpK)
@@ -289,6 +521,15 @@ Output Format:
 Graders:
   TS/JS modules must export a 'grade' function.
   Executable scripts (Python, etc.) use stdin/stdout JSON protocol.
+  Rubric files (.md/.yaml/.yml) run the built-in LLM judge; set JUDGE_MODEL,
+  JUDGE_BASE_URL and JUDGE_API_KEY for its OpenAI-compatible endpoint.
+  builtin:<name> selects a built-in grader (exact, contains, regex, json,
+  numeric, tools, expectations, file, command), configured via the prompt's
+  metadata.<name>.
+  Named graders (--grader name:path, repeated) each record a verdict in
+  each trial's 'scores'; the aggregate becomes the overall pass/score. 'all'
+  passes only if every grader passes, 'mean' uses the weighted mean score,
+  'min' uses the lowest score.
 
 Parallelization:
   Use -j/--concurrency to run multiple prompts' trials in parallel.
@@ -304,6 +545,10 @@ Workspace Isolation:
   Use --workspace-dir to create per-trial directories.
   Each trial runs in {workspace-dir}/prompt-{id}-trial-{n}/.
   Useful for code generation tasks requiring filesystem isolation.
+  A prompt's 'workspace' field seeds each trial directory (template or repo,
+  ref, files, setup commands) before each attempt; 'teardown' runs after grading.
+  With --artifacts-dir, each trial entry records 'workspaceDiff', with the
+  patch in {artifacts-dir}/prompt-{id}-trial-{n}/.
 
 Examples:
   # Basic trials
@@ -319,6 +564,10 @@ Examples:
   # With TypeScript grader
   agent-eval-harness trials prompts.jsonl -s claude.json -k 5 --grader ./grader.ts -o trials.jsonl
 
+  # With weighted named graders
+  agent-eval-harness trials prompts.jsonl -s claude.json -k 5 --aggregate mean \\
+    -g correctness:./correctness.ts -g style:./style.py --weight correctness=3 -o trials.jsonl
+
   # Read prompts from stdin (container orchestration)
   cat prompts.jsonl | agent-eval-harness trials --stdin -s claude.json -k 5 -o trials.jsonl
 `)
@@ -345,6 +594,11 @@ Examples:
     process.exit(1)
   }
 
+  if (values.resume && !values.output) {
+    console.error('Error: --resume requires --output')
+    process.exit(1)
+  }
+
   // Read prompts from stdin if requested
   let prompts: PromptCase[] | undefined
   if (useStdin) {
@@ -357,12 +611,22 @@ Examples:
   }
 
   // Load grader if specified
-  const grader = values.grader ? await loadGraderOrExit(values.grader) : undefined
+  const grader = values.grader?.length
+    ? await loadGradersOrExit(values.grader, {
+        aggregate: values.aggregate,
+        weight: values.weight,
+        passThreshold: values['pass-threshold'],
+        graderTimeout: values['grader-timeout'],
+        graderRetries: values['grader-retries'],
+        graderWorker: values['grader-worker'],
+      })
+    : undefined
 
   await runTrials({
     promptsPath: promptsPath ?? undefined,
     prompts,
     schemaPath: values.schema,
+    profile: values.profile,
     k: Number.parseInt(values.k ?? String(DEFAULT_TRIAL_COUNT), 10),
     outputPath: values.output,
     cwd: values.cwd,
@@ -373,5 +637,22 @@ Examples:
     debug: values.debug ?? false,
     concurrency: parseConcurrency(values.concurrency),
     workspaceDir: values['workspace-dir'],
+    keepWorkspaces: parseWorkspaceRetention(values['keep-workspaces']),
+    artifactsDir: values['artifacts-dir'],
+    tarball: values.tarball,
+    retries: parseRetries(values.retries),
+    retryBackoff: parseRetryBackoff(values['retry-backoff']),
+    resume: values.resume ?? false,
+    retryErrors: values['retry-errors'] ?? false,
+    requestsPerMinute: parseLimit(values.rpm, '--rpm'),
+    tokensPerMinute: parseLimit(values.tpm, '--tpm'),
+    maxCost: parseLimit(values['max-cost'], '--max-cost'),
+    maxTokens: parseLimit(values['max-tokens'], '--max-tokens'),
+    sandbox: values.sandbox ? { image: values.sandbox } : undefined,
+    cacheDir: values['cache-dir'],
+    cacheSalt: values['cache-salt'],
+    recordDir: values.record,
+    replayDir: values.replay,
+    replayTiming: values['replay-timing'],
   })
 }
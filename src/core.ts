@@ -8,13 +8,17 @@
  */
 
 export {
+  // Trajectory
+  addStderrSteps,
   // Loading
   buildResultsIndex,
   countLines,
   // Native streaming
   countLinesStreaming,
   // Worker pool
+  createRateLimiter,
   createWorkspaceDir,
+  createWorkspaceSnapshot,
   createWriteMutex,
   // Trajectory
   detectTrajectoryRichness,
@@ -22,25 +26,47 @@ export {
   extractFilePath,
   extractOutput,
   extractTrajectory,
+  type FinishWorkspaceOptions,
+  finishWorkspace,
+  // Checkpoint
+  getCheckpointPath,
   // Output
   getInputPreview,
+  hashContent,
+  hasRecordError,
   hasToolErrors,
   headTailPreview,
   loadJsonl,
   loadPrompts,
   loadResults,
   logProgress,
+  measureResponseTiming,
   type ProgressCallback,
+  prepareResume,
+  // Workspace
+  prepareWorkspace,
+  type RateLimiter,
+  type RateLimiterOptions,
+  type ResponseTiming,
+  type ResumeOptions,
+  type ResumeState,
+  type RunFingerprint,
   readStdinPrompts,
   resolvePath,
+  restoreWorkspaceTarball,
   runWorkerPool,
   streamJsonl,
   streamPrompts,
   streamResults,
   streamResultsNative,
   streamTrialResults,
+  type TurnStderr,
   type WorkerPoolOptions,
   type WorkerPoolResult,
+  type WorkspaceRetention,
+  type WorkspaceSnapshot,
   type WriteMutex,
+  withGradingWorkspace,
+  writeCheckpoint,
   writeOutput,
 } from './core/core.ts'
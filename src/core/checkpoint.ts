@@ -0,0 +1,176 @@
+/**
+ * Checkpoint utilities for resumable runs.
+ *
+ * @remarks
+ * A fresh `capture`, `trials` or `run` output file gets a sidecar checkpoint
+ * recording a fingerprint of its inputs. `--resume` verifies the fingerprint,
+ * keeps finished results and returns their ids so only the rest are executed.
+ *
+ * @packageDocumentation
+ */
+
+import { type RunCheckpoint, RunCheckpointSchema } from '../schemas.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Inputs an output file was produced from, compared key by key on resume */
+export type RunFingerprint = Record<string, string>
+
+/** Options for preparing a resumed run */
+export type ResumeOptions = {
+  /** Resolved output file path */
+  outputPath: string
+  /** Fingerprint of the current inputs */
+  fingerprint: RunFingerprint
+  /** Redo ids whose recorded result has an error */
+  retryErrors?: boolean
+}
+
+/** Outcome of preparing a resumed run */
+export type ResumeState = {
+  /** Ids with a kept result, to be skipped */
+  completedIds: Set<string>
+  /** Number of errored results dropped for re-execution */
+  redone: number
+}
+
+// ============================================================================
+// Fingerprinting
+// ============================================================================
+
+/**
+ * Hash a value for a run fingerprint.
+ *
+ * @remarks
+ * Strings are hashed as-is; other values as their JSON serialization, so
+ * reformatting a JSON file does not change its hash.
+ *
+ * @param value - Value to hash
+ * @returns SHA-256 hex digest
+ *
+ * @public
+ */
+export const hashContent = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return new Bun.CryptoHasher('sha256').update(text).digest('hex')
+}
+
+/**
+ * Get the checkpoint path for an output file.
+ *
+ * @param outputPath - Output file path
+ * @returns Sidecar checkpoint path
+ *
+ * @public
+ */
+export const getCheckpointPath = (outputPath: string): string => `${outputPath}.checkpoint.json`
+
+/**
+ * Write the checkpoint for a fresh output file.
+ *
+ * @param outputPath - Output file path
+ * @param fingerprint - Fingerprint of the run's inputs
+ *
+ * @public
+ */
+export const writeCheckpoint = async (outputPath: string, fingerprint: RunFingerprint): Promise<void> => {
+  const checkpoint: RunCheckpoint = { version: 1, fingerprint, created: Date.now() }
+  await Bun.write(getCheckpointPath(outputPath), `${JSON.stringify(checkpoint, null, 2)}\n`)
+}
+
+// ============================================================================
+// Resume
+// ============================================================================
+
+/**
+ * Check whether a recorded result ended in an error.
+ *
+ * @remarks
+ * Covers every resumable output format: capture results (`errors`), raw run
+ * output (`error`) and trial results (any trial entry with `error`).
+ *
+ * @param record - Parsed output line
+ * @returns True if the result should count as errored
+ *
+ * @public
+ */
+export const hasRecordError = (record: Record<string, unknown>): boolean => {
+  if (Array.isArray(record.errors) && record.errors.length > 0) return true
+  if (typeof record.error === 'string') return true
+  if (Array.isArray(record.trials)) {
+    return record.trials.some((trial) => typeof trial?.error === 'string')
+  }
+  return false
+}
+
+/**
+ * Prepare an output file for a resumed run.
+ *
+ * @remarks
+ * Verifies the checkpoint fingerprint, then rewrites the output file with the
+ * results to keep: one per id, dropping lines cut off by a crash, prompts
+ * skipped by a budget and, with `retryErrors`, errored results. A missing
+ * output file resumes nothing.
+ *
+ * @param options - Resume options
+ * @returns Ids to skip and the number of errored results dropped
+ * @throws Error if the checkpoint is missing or the inputs changed
+ *
+ * @public
+ */
+export const prepareResume = async ({
+  outputPath,
+  fingerprint,
+  retryErrors = false,
+}: ResumeOptions): Promise<ResumeState> => {
+  const outputFile = Bun.file(outputPath)
+  if (!(await outputFile.exists())) {
+    return { completedIds: new Set(), redone: 0 }
+  }
+
+  const checkpointFile = Bun.file(getCheckpointPath(outputPath))
+  if (!(await checkpointFile.exists())) {
+    throw new Error(`Cannot resume: no checkpoint found at ${getCheckpointPath(outputPath)}`)
+  }
+
+  const checkpoint = RunCheckpointSchema.parse(await checkpointFile.json())
+  const keys = new Set([...Object.keys(checkpoint.fingerprint), ...Object.keys(fingerprint)])
+  const changed = [...keys].filter((key) => checkpoint.fingerprint[key] !== fingerprint[key])
+  if (changed.length > 0) {
+    throw new Error(`Cannot resume: ${changed.join(', ')} changed since the first run`)
+  }
+
+  // Keep the last good result per id
+  const kept = new Map<string, string>()
+  const errored = new Set<string>()
+  for (const line of (await outputFile.text()).split('\n')) {
+    if (!line.trim()) continue
+
+    let record: Record<string, unknown>
+    try {
+      record = JSON.parse(line)
+    } catch {
+      // Partial line from an interrupted write
+      continue
+    }
+    if (typeof record.id !== 'string') continue
+
+    // Skipped by a budget, so never ran
+    const metadata = record.metadata as Record<string, unknown> | undefined
+    if (metadata?.skipped) continue
+
+    if (retryErrors && hasRecordError(record)) {
+      errored.add(record.id)
+      continue
+    }
+    kept.set(record.id, line)
+  }
+
+  const lines = [...kept.values()]
+  await Bun.write(outputPath, lines.length > 0 ? `${lines.join('\n')}\n` : '')
+
+  const redone = [...errored].filter((id) => !kept.has(id)).length
+  return { completedIds: new Set(kept.keys()), redone }
+}
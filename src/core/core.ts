@@ -3,13 +3,26 @@
  *
  * @remarks
  * Re-exports shared utilities used across all commands:
+ * - Checkpoint: Fingerprinting and resuming interrupted runs
  * - Loading: JSONL file parsing for prompts and results
  * - Trajectory: Extraction and analysis of agent trajectories
  * - Output: Writing results, progress logging, path resolution
+ * - Workspace: Per-prompt workspace setup, teardown and diff snapshots
  *
  * @packageDocumentation
  */
 
+// Checkpoint utilities
+export {
+  getCheckpointPath,
+  hashContent,
+  hasRecordError,
+  prepareResume,
+  type ResumeOptions,
+  type ResumeState,
+  type RunFingerprint,
+  writeCheckpoint,
+} from './checkpoint.ts'
 // Loading utilities
 export {
   buildResultsIndex,
@@ -32,20 +45,38 @@ export {
 } from './streaming.ts'
 // Trajectory utilities
 export {
+  addStderrSteps,
   detectTrajectoryRichness,
   extractContent,
   extractFilePath,
   extractOutput,
   extractTrajectory,
   hasToolErrors,
+  measureResponseTiming,
+  type ResponseTiming,
+  type TurnStderr,
 } from './trajectory.ts'
 // Worker pool utilities
 export {
+  createRateLimiter,
   createWorkspaceDir,
   createWriteMutex,
   type ProgressCallback,
+  type RateLimiter,
+  type RateLimiterOptions,
   runWorkerPool,
   type WorkerPoolOptions,
   type WorkerPoolResult,
   type WriteMutex,
 } from './worker-pool.ts'
+// Workspace utilities
+export {
+  createWorkspaceSnapshot,
+  type FinishWorkspaceOptions,
+  finishWorkspace,
+  prepareWorkspace,
+  restoreWorkspaceTarball,
+  type WorkspaceRetention,
+  type WorkspaceSnapshot,
+  withGradingWorkspace,
+} from './workspace.ts'
@@ -0,0 +1,76 @@
+/**
+ * Subprocesses with a timeout that ends the whole process tree.
+ *
+ * @remarks
+ * Shell commands (`sh -c`) start children of their own. Killing only the
+ * shell at the timeout leaves those children running, and they keep the
+ * stdout/stderr pipes open, so reading the output would wait for them.
+ * Commands run here start in their own process group, the whole group is
+ * killed at the timeout, and the output is not waited for after that.
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Output of a finished (or timed out) command */
+export type CommandOutput = {
+  /** Captured stdout (empty when the command timed out) */
+  stdout: string
+  /** Captured stderr (empty when the command timed out) */
+  stderr: string
+  /** Exit code (null when the command timed out) */
+  exitCode: number | null
+  /** Whether the command was killed at the timeout */
+  timedOut: boolean
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Run a command, killing its process group at the timeout.
+ *
+ * @param args - Command and arguments
+ * @param options - Working directory and timeout in milliseconds (0 for none)
+ * @returns Captured output, exit code and whether the command timed out
+ *
+ * @internal
+ */
+export const runCommandWithTimeout = async (
+  args: string[],
+  { cwd, timeout }: { cwd: string; timeout: number },
+): Promise<CommandOutput> => {
+  const proc = Bun.spawn(args, { cwd, stdout: 'pipe', stderr: 'pipe', detached: true })
+  const output = Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited])
+  // Output left unread after a timeout must not surface as an unhandled rejection
+  output.catch(() => {})
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<'timeout'>((resolve) => {
+    if (timeout <= 0) return
+    timeoutId = setTimeout(() => {
+      try {
+        // Negative pid: the whole group the detached command leads
+        process.kill(-proc.pid, 'SIGKILL')
+      } catch {
+        // Group already gone
+      }
+      resolve('timeout')
+    }, timeout)
+  })
+
+  try {
+    const result = await Promise.race([output, timedOut])
+    if (result === 'timeout') {
+      return { stdout: '', stderr: '', exitCode: null, timedOut: true }
+    }
+    const [stdout, stderr, exitCode] = result
+    return { stdout, stderr, exitCode, timedOut: false }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
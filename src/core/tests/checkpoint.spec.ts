@@ -0,0 +1,97 @@
+/**
+ * Unit tests for checkpoint utilities.
+ *
+ * @remarks
+ * Tests for resumable runs:
+ * - hashContent: Stable fingerprints for strings and JSON values
+ * - hasRecordError: Error detection across capture, run and trials output
+ * - prepareResume: Fingerprint checks and output file rewriting
+ *
+ * @packageDocumentation
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getCheckpointPath, hashContent, hasRecordError, prepareResume, writeCheckpoint } from '../checkpoint.ts'
+
+const outputPath = join(tmpdir(), `checkpoint-test-${process.pid}.jsonl`)
+const fingerprint = { command: 'capture', schema: 'abc', prompts: 'def' }
+
+afterEach(async () => {
+  await rm(outputPath, { force: true })
+  await rm(getCheckpointPath(outputPath), { force: true })
+})
+
+// ============================================================================
+// hashContent Tests
+// ============================================================================
+
+describe('hashContent', () => {
+  test('is stable for equal values and differs for different ones', () => {
+    expect(hashContent({ a: 1 })).toBe(hashContent({ a: 1 }))
+    expect(hashContent({ a: 1 })).not.toBe(hashContent({ a: 2 }))
+    expect(hashContent('text')).toHaveLength(64)
+  })
+})
+
+// ============================================================================
+// hasRecordError Tests
+// ============================================================================
+
+describe('hasRecordError', () => {
+  test('detects errors in each output format', () => {
+    expect(hasRecordError({ id: 'a', errors: ['boom'] })).toBe(true)
+    expect(hasRecordError({ id: 'a', errors: [] })).toBe(false)
+    expect(hasRecordError({ id: 'a', error: 'boom' })).toBe(true)
+    expect(hasRecordError({ id: 'a', trials: [{ trialNum: 1 }, { trialNum: 2, error: 'boom' }] })).toBe(true)
+    expect(hasRecordError({ id: 'a', trials: [{ trialNum: 1 }] })).toBe(false)
+  })
+})
+
+// ============================================================================
+// prepareResume Tests
+// ============================================================================
+
+describe('prepareResume', () => {
+  test('resumes nothing when the output file does not exist', async () => {
+    const state = await prepareResume({ outputPath, fingerprint })
+    expect(state.completedIds.size).toBe(0)
+  })
+
+  test('fails without a checkpoint', async () => {
+    await Bun.write(outputPath, '{"id":"a"}\n')
+    await expect(prepareResume({ outputPath, fingerprint })).rejects.toThrow('no checkpoint found')
+  })
+
+  test('fails when the inputs changed', async () => {
+    await Bun.write(outputPath, '{"id":"a"}\n')
+    await writeCheckpoint(outputPath, fingerprint)
+
+    await expect(prepareResume({ outputPath, fingerprint: { ...fingerprint, prompts: 'xyz' } })).rejects.toThrow(
+      'Cannot resume: prompts changed since the first run',
+    )
+  })
+
+  test('keeps completed results and drops partial lines', async () => {
+    await Bun.write(outputPath, '{"id":"a","output":"1"}\n{"id":"b","errors":["boom"]}\n{"id":"c","outp')
+    await writeCheckpoint(outputPath, fingerprint)
+
+    const state = await prepareResume({ outputPath, fingerprint })
+
+    expect([...state.completedIds]).toEqual(['a', 'b'])
+    expect(await Bun.file(outputPath).text()).toBe('{"id":"a","output":"1"}\n{"id":"b","errors":["boom"]}\n')
+  })
+
+  test('drops errored results with retryErrors', async () => {
+    await Bun.write(outputPath, '{"id":"a","output":"1"}\n{"id":"b","errors":["boom"]}\n')
+    await writeCheckpoint(outputPath, fingerprint)
+
+    const state = await prepareResume({ outputPath, fingerprint, retryErrors: true })
+
+    expect([...state.completedIds]).toEqual(['a'])
+    expect(state.redone).toBe(1)
+    expect(await Bun.file(outputPath).text()).toBe('{"id":"a","output":"1"}\n')
+  })
+})
@@ -4,7 +4,7 @@
  * @remarks
  * Tests for shared utility functions in the core module:
  * - loading: loadPrompts, loadResults, loadJsonl
- * - trajectory: extractTrajectory, extractOutput, hasToolErrors
+ * - trajectory: extractTrajectory, addStderrSteps, extractOutput, hasToolErrors
  * - output: writeOutput, logProgress, headTailPreview
  *
  * @packageDocumentation
@@ -15,7 +15,14 @@ import { unlink, writeFile } from 'node:fs/promises'
 import type { ParsedUpdate } from '../../headless/headless-output-parser.ts'
 import { loadJsonl, loadPrompts, loadResults } from '../loading.ts'
 import { headTailPreview, resolvePath } from '../output.ts'
-import { detectTrajectoryRichness, extractOutput, extractTrajectory, hasToolErrors } from '../trajectory.ts'
+import {
+  addStderrSteps,
+  detectTrajectoryRichness,
+  extractOutput,
+  extractTrajectory,
+  hasToolErrors,
+  measureResponseTiming,
+} from '../trajectory.ts'
 
 // ============================================================================
 // Loading Tests
@@ -160,6 +167,153 @@ describe('extractTrajectory', () => {
     const trajectory = extractTrajectory([], startTime)
     expect(trajectory.length).toBe(0)
   })
+
+  test('merges correlated start and result updates by id', () => {
+    const updates: ParsedUpdate[] = [
+      {
+        type: 'tool_call',
+        title: 'Read',
+        status: 'pending',
+        input: { path: 'a.ts' },
+        toolCallId: 'tu_1',
+        toolCallPhase: 'start',
+        timestamp: 1100,
+        raw: {},
+      },
+      {
+        type: 'tool_call',
+        title: 'Read',
+        status: 'pending',
+        input: { path: 'b.ts' },
+        toolCallId: 'tu_2',
+        toolCallPhase: 'start',
+        timestamp: 1150,
+        raw: {},
+      },
+      // Results arrive out of order and without a tool name
+      { type: 'tool_call', output: 'B', toolCallId: 'tu_2', toolCallPhase: 'result', timestamp: 1400, raw: {} },
+      {
+        type: 'tool_call',
+        status: 'failed',
+        output: 'A',
+        toolCallId: 'tu_1',
+        toolCallPhase: 'result',
+        timestamp: 1600,
+        raw: {},
+      },
+    ]
+    const trajectory = extractTrajectory(updates, startTime)
+    expect(trajectory).toEqual([
+      {
+        type: 'tool_call',
+        name: 'Read',
+        status: 'failed',
+        input: { path: 'a.ts' },
+        output: 'A',
+        duration: 500,
+        toolCallId: 'tu_1',
+        timestamp: 100,
+      },
+      {
+        type: 'tool_call',
+        name: 'Read',
+        status: 'completed',
+        input: { path: 'b.ts' },
+        output: 'B',
+        duration: 250,
+        toolCallId: 'tu_2',
+        timestamp: 150,
+      },
+    ])
+  })
+
+  test('keeps unmatched correlated results as their own step', () => {
+    const updates: ParsedUpdate[] = [
+      { type: 'tool_call', output: 'orphan', toolCallId: 'tu_9', toolCallPhase: 'result', timestamp: 1200, raw: {} },
+    ]
+    const trajectory = extractTrajectory(updates, startTime)
+    expect(trajectory).toEqual([
+      { type: 'tool_call', name: 'unknown', status: 'completed', output: 'orphan', toolCallId: 'tu_9', timestamp: 200 },
+    ])
+  })
+})
+
+describe('extractTrajectory - streaming deltas', () => {
+  const delta = (type: 'message' | 'thought', content: string, timestamp: number, deltaBreak?: true): ParsedUpdate => ({
+    type,
+    content,
+    delta: true,
+    ...(deltaBreak && { deltaBreak }),
+    timestamp,
+    raw: {},
+  })
+
+  test('concatenates consecutive deltas into one step at the first delta time', () => {
+    const trajectory = extractTrajectory(
+      [delta('message', 'Hel', 1100, true), delta('message', 'lo', 1150), delta('message', '!', 1180)],
+      1000,
+    )
+    expect(trajectory).toEqual([{ type: 'message', content: 'Hello!', timestamp: 100 }])
+  })
+
+  test('starts a new step on deltaBreak, type change or a non-delta update', () => {
+    const trajectory = extractTrajectory(
+      [
+        delta('thought', 'think', 1100, true),
+        delta('message', 'a', 1200),
+        delta('message', 'b', 1210, true),
+        { type: 'tool_call', title: 'Read', status: 'pending', timestamp: 1300, raw: {} },
+        delta('message', 'c', 1400),
+        { type: 'message', content: 'whole', timestamp: 1500, raw: {} },
+        { type: 'message', content: 'another', timestamp: 1600, raw: {} },
+      ],
+      1000,
+    )
+    expect(
+      trajectory.map((step) => (step.type === 'tool_call' ? step.name : 'content' in step && step.content)),
+    ).toEqual(['think', 'a', 'b', 'Read', 'c', 'whole', 'another'])
+  })
+})
+
+describe('measureResponseTiming', () => {
+  test('reports the first update and first content times', () => {
+    const updates: ParsedUpdate[] = [
+      { type: 'tool_call', title: 'Read', timestamp: 1200, raw: {} },
+      { type: 'message', content: '', timestamp: 1300, raw: {} },
+      { type: 'thought', content: 'hmm', timestamp: 1450, raw: {} },
+    ]
+    expect(measureResponseTiming(updates, 1000)).toEqual({ firstResponse: 200, timeToFirstToken: 450 })
+  })
+
+  test('returns no times without updates', () => {
+    expect(measureResponseTiming([], 1000)).toEqual({})
+  })
+})
+
+describe('addStderrSteps', () => {
+  test('inserts diagnostic steps in timestamp order', () => {
+    const startTime = 1000
+    const trajectory = [
+      { type: 'message' as const, content: 'turn 1', timestamp: 50 },
+      { type: 'message' as const, content: 'turn 2', timestamp: 300 },
+    ]
+    const result = addStderrSteps(trajectory, [{ content: 'warn 1', time: 1100 }], startTime)
+
+    expect(result.map((step) => step.type)).toEqual(['message', 'diagnostic', 'message'])
+    expect(result[1]).toEqual({ type: 'diagnostic', source: 'stderr', content: 'warn 1', timestamp: 100 })
+  })
+
+  test('appends steps after the last step', () => {
+    const trajectory = [{ type: 'message' as const, content: 'done', timestamp: 50 }]
+    const result = addStderrSteps(trajectory, [{ content: 'trace', time: 1200 }], 1000)
+    expect(result.at(-1)?.type).toBe('diagnostic')
+    expect(trajectory).toHaveLength(1)
+  })
+
+  test('does not mark richness as full', () => {
+    const result = addStderrSteps([], [{ content: 'trace', time: 1200 }], 1000)
+    expect(detectTrajectoryRichness(result)).toBe('minimal')
+  })
 })
 
 describe('extractOutput', () => {
@@ -6,13 +6,14 @@
  * - runWorkerPool: Promise-based worker pool with concurrency limit
  * - createWriteMutex: Coordinates concurrent file writes
  * - createWorkspaceDir: Creates per-prompt workspace directories
+ * - createRateLimiter: Shares request/token limits across workers
  *
  * @packageDocumentation
  */
 
 import { afterEach, describe, expect, test } from 'bun:test'
 import { rm, stat } from 'node:fs/promises'
-import { createWorkspaceDir, createWriteMutex, runWorkerPool } from '../worker-pool.ts'
+import { createRateLimiter, createWorkspaceDir, createWriteMutex, runWorkerPool } from '../worker-pool.ts'
 
 // Helper to check if a directory exists
 const dirExists = async (path: string): Promise<boolean> => {
@@ -158,6 +159,72 @@ describe('runWorkerPool', () => {
 
     expect(results.sort((a, b) => a - b)).toEqual([2, 4])
   })
+
+  test('skips remaining items once shouldStop returns true', async () => {
+    for (const concurrency of [1, 2]) {
+      let done = 0
+      const { results, skipped } = await runWorkerPool(
+        [1, 2, 3, 4, 5],
+        async (item) => {
+          done++
+          return item
+        },
+        { concurrency, shouldStop: () => done >= 2 },
+      )
+
+      expect(results).toHaveLength(2)
+      expect(skipped).toEqual([2, 3, 4])
+    }
+  })
+})
+
+// ============================================================================
+// createRateLimiter Tests
+// ============================================================================
+
+describe('createRateLimiter', () => {
+  test('delays requests over the per-window limit', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 2, windowMs: 100 })
+    const start = Date.now()
+
+    await limiter.acquire()
+    await limiter.acquire()
+    expect(Date.now() - start).toBeLessThan(50)
+
+    await limiter.acquire()
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95)
+  })
+
+  test('holds requests while recorded tokens are at the limit', async () => {
+    const limiter = createRateLimiter({ tokensPerMinute: 100, windowMs: 100 })
+    const start = Date.now()
+
+    await limiter.acquire()
+    limiter.recordTokens(60)
+    await limiter.acquire()
+    expect(Date.now() - start).toBeLessThan(50)
+
+    limiter.recordTokens(60)
+    await limiter.acquire()
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95)
+  })
+
+  test('shares limits across concurrent workers', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 2, windowMs: 100 })
+    const start = Date.now()
+    const { results } = await runWorkerPool(
+      [1, 2, 3, 4],
+      async () => {
+        await limiter.acquire()
+        return Date.now() - start
+      },
+      { concurrency: 4 },
+    )
+
+    const delays = results.sort((a, b) => a - b)
+    expect(delays[1]).toBeLessThan(50)
+    expect(delays[2]).toBeGreaterThanOrEqual(95)
+  })
 })
 
 // ============================================================================
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for workspace setup and teardown.
+ *
+ * @remarks
+ * Tests cover:
+ * - prepareWorkspace: template copy, git checkout, files and setup commands
+ * - Killing timed out commands with their child processes
+ * - finishWorkspace: teardown commands and retention policies
+ * - createWorkspaceSnapshot / restoreWorkspaceTarball: diff artifacts
+ *
+ * @packageDocumentation
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdir, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createWorkspaceSnapshot, finishWorkspace, prepareWorkspace, restoreWorkspaceTarball } from '../workspace.ts'
+
+const baseDir = join(tmpdir(), `workspace-test-${process.pid}`)
+const workspaceDir = join(baseDir, 'prompt-a')
+const templateDir = join(baseDir, 'template')
+
+const dirExists = (path: string) =>
+  stat(path).then(
+    () => true,
+    () => false,
+  )
+
+afterEach(async () => {
+  await rm(baseDir, { recursive: true, force: true })
+})
+
+// ============================================================================
+// prepareWorkspace Tests
+// ============================================================================
+
+describe('prepareWorkspace', () => {
+  test('does nothing without a spec', async () => {
+    await mkdir(workspaceDir, { recursive: true })
+    await Bun.write(join(workspaceDir, 'keep.txt'), 'x')
+
+    await prepareWorkspace(workspaceDir, undefined, 5000)
+
+    expect(await Bun.file(join(workspaceDir, 'keep.txt')).exists()).toBe(true)
+  })
+
+  test('copies the template, writes files and runs setup in order', async () => {
+    await Bun.write(join(templateDir, 'src', 'index.ts'), 'export {}')
+    await mkdir(workspaceDir, { recursive: true })
+    await Bun.write(join(workspaceDir, 'stale.txt'), 'from a previous attempt')
+
+    await prepareWorkspace(
+      workspaceDir,
+      {
+        template: templateDir,
+        files: { 'docs/task.md': 'Fix the bug' },
+        setup: ['cat docs/task.md > setup.txt'],
+      },
+      5000,
+    )
+
+    expect(await Bun.file(join(workspaceDir, 'src', 'index.ts')).text()).toBe('export {}')
+    expect(await Bun.file(join(workspaceDir, 'setup.txt')).text()).toBe('Fix the bug')
+    expect(await Bun.file(join(workspaceDir, 'stale.txt')).exists()).toBe(false)
+  })
+
+  test('checks out a ref from a cloned repo', async () => {
+    const git = (...args: string[]) => Bun.spawnSync(['git', '-C', templateDir, ...args], { stdout: 'pipe' })
+    await Bun.write(join(templateDir, 'file.txt'), 'v1')
+    git('init', '--quiet')
+    git('-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '--quiet', '--allow-empty', '-m', 'empty')
+    const first = git('rev-parse', 'HEAD').stdout.toString().trim()
+    git('add', '.')
+    git('-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '--quiet', '-m', 'v1')
+
+    await prepareWorkspace(workspaceDir, { repo: templateDir, ref: first }, 10000)
+
+    expect(await Bun.file(join(workspaceDir, 'file.txt')).exists()).toBe(false)
+    expect(await Bun.file(join(workspaceDir, '.git', 'HEAD')).exists()).toBe(true)
+  })
+
+  test('fails on a setup command error', async () => {
+    await expect(prepareWorkspace(workspaceDir, { setup: ['echo broken >&2; exit 3'] }, 5000)).rejects.toThrow(
+      "Workspace setup 'echo broken >&2; exit 3' exited with code 3: broken",
+    )
+  })
+
+  test('kills a timed out setup command with its children', async () => {
+    const startTime = Date.now()
+    await expect(
+      prepareWorkspace(workspaceDir, { setup: ['(sleep 1; touch late.txt) & sleep 3; true'] }, 300),
+    ).rejects.toThrow("Workspace setup '(sleep 1; touch late.txt) & sleep 3; true' timed out after 300ms")
+    expect(Date.now() - startTime).toBeLessThan(2000)
+
+    await Bun.sleep(1200)
+    expect(await Bun.file(join(workspaceDir, 'late.txt')).exists()).toBe(false)
+  })
+
+  test('rejects files outside the workspace', async () => {
+    await expect(prepareWorkspace(workspaceDir, { files: { '../escape.txt': 'x' } }, 5000)).rejects.toThrow(
+      'Workspace file is outside the workspace: ../escape.txt',
+    )
+  })
+})
+
+// ============================================================================
+// finishWorkspace Tests
+// ============================================================================
+
+describe('finishWorkspace', () => {
+  test('runs every teardown command and reports failures', async () => {
+    await mkdir(workspaceDir, { recursive: true })
+
+    const errors = await finishWorkspace(workspaceDir, {
+      spec: { teardown: ['exit 1', 'touch done.txt'] },
+      failed: false,
+      timeout: 5000,
+    })
+
+    expect(errors).toEqual(["Workspace teardown 'exit 1' exited with code 1"])
+    expect(await Bun.file(join(workspaceDir, 'done.txt')).exists()).toBe(true)
+  })
+
+  test('keeps only failed workspaces with retention failed', async () => {
+    await mkdir(workspaceDir, { recursive: true })
+    await finishWorkspace(workspaceDir, { retention: 'failed', failed: true, timeout: 5000 })
+    expect(await dirExists(workspaceDir)).toBe(true)
+
+    await finishWorkspace(workspaceDir, { retention: 'failed', failed: false, timeout: 5000 })
+    expect(await dirExists(workspaceDir)).toBe(false)
+  })
+
+  test('keeps every workspace by default', async () => {
+    await mkdir(workspaceDir, { recursive: true })
+    await finishWorkspace(workspaceDir, { failed: false, timeout: 5000 })
+    expect(await dirExists(workspaceDir)).toBe(true)
+  })
+})
+
+// ============================================================================
+// Snapshot Tests
+// ============================================================================
+
+describe('createWorkspaceSnapshot', () => {
+  const artifactDir = join(baseDir, 'artifacts')
+
+  test('records added, modified and deleted files with a patch and tarball', async () => {
+    await prepareWorkspace(
+      workspaceDir,
+      { files: { 'keep.txt': 'same', 'edit.txt': 'before', 'gone.txt': 'x', '.gitignore': 'cache/' } },
+      5000,
+    )
+    const snapshot = await createWorkspaceSnapshot(workspaceDir, 10000)
+
+    await Bun.write(join(workspaceDir, 'edit.txt'), 'after')
+    await Bun.write(join(workspaceDir, 'src', 'new.ts'), 'export {}')
+    await Bun.write(join(workspaceDir, 'cache', 'ignored.bin'), 'x')
+    await rm(join(workspaceDir, 'gone.txt'))
+
+    const diff = await snapshot.diff(artifactDir, { tarball: true })
+
+    expect(diff.added).toEqual(['src/new.ts'])
+    expect(diff.modified).toEqual(['edit.txt'])
+    expect(diff.deleted).toEqual(['gone.txt'])
+    const patch = await Bun.file(diff.patch).text()
+    expect(patch).toContain('-before')
+    expect(patch).toContain('+after')
+
+    const restored = await restoreWorkspaceTarball(diff.tarball!, 10000)
+    try {
+      expect(await Bun.file(join(restored, 'src', 'new.ts')).text()).toBe('export {}')
+      expect(await dirExists(join(restored, 'gone.txt'))).toBe(false)
+    } finally {
+      await rm(restored, { recursive: true, force: true })
+    }
+  })
+
+  test('produces an empty diff when nothing changed', async () => {
+    await prepareWorkspace(workspaceDir, { files: { 'a.txt': 'a' } }, 5000)
+    const snapshot = await createWorkspaceSnapshot(workspaceDir, 10000)
+
+    const diff = await snapshot.diff(artifactDir)
+
+    expect(diff).toEqual({ added: [], modified: [], deleted: [], patch: join(artifactDir, 'diff.patch') })
+    expect(await Bun.file(diff.patch).text()).toBe('')
+  })
+})
@@ -19,6 +19,15 @@ import { ToolInputSchema } from '../schemas.ts'
  * Converts ParsedUpdate stream into TrajectoryStep array.
  * Handles tool call deduplication (start/completion events).
  *
+ * Updates carrying a `toolCallId` (adapters with `correlate`) are merged by id:
+ * the result event fills in output, status and duration of the step created
+ * by its start event. Results without a matching start become their own step.
+ * Other tool call updates are paired by title.
+ *
+ * Streaming deltas (`delta` updates) of the same type are concatenated into
+ * one step stamped with the first delta's time, until a non-delta update or
+ * a delta with `deltaBreak`.
+ *
  * @param updates - Parsed updates from output parser
  * @param startTime - Reference time for timestamp calculation
  * @returns Array of trajectory steps with relative timestamps
@@ -29,21 +38,57 @@ export const extractTrajectory = (updates: ParsedUpdate[], startTime: number): T
   const trajectory: TrajectoryStep[] = []
   const toolCallMap = new Map<string, { start: number; step: TrajectoryStep & { type: 'tool_call' } }>()
 
+  let openDelta: (TrajectoryStep & { type: 'thought' | 'message' }) | undefined
+
   for (const update of updates) {
     const timestamp = update.timestamp - startTime
 
-    if (update.type === 'thought') {
-      trajectory.push({
-        type: 'thought',
-        content: update.content ?? '',
-        timestamp,
-      })
-    } else if (update.type === 'message') {
-      trajectory.push({
-        type: 'message',
-        content: update.content ?? '',
-        timestamp,
-      })
+    if (update.delta && !update.deltaBreak && openDelta?.type === update.type) {
+      openDelta.content += update.content ?? ''
+      continue
+    }
+    openDelta = undefined
+
+    if (update.type === 'thought' || update.type === 'message') {
+      const step = { type: update.type, content: update.content ?? '', timestamp }
+      trajectory.push(step)
+      if (update.delta) {
+        openDelta = step
+      }
+    } else if (update.type === 'tool_call' && update.toolCallId !== undefined) {
+      const key = `id:${update.toolCallId}`
+      const existing = toolCallMap.get(key)
+
+      if (existing && update.toolCallPhase === 'result') {
+        existing.step.status = update.status ?? 'completed'
+        existing.step.duration = timestamp - existing.start
+        if (update.output !== undefined) {
+          existing.step.output = update.output
+        }
+        if (existing.step.input === undefined && update.input !== undefined) {
+          existing.step.input = update.input
+        }
+        toolCallMap.delete(key)
+      } else if (existing) {
+        // Repeated start event (e.g., re-emitted with complete input)
+        if (update.input !== undefined) {
+          existing.step.input = update.input
+        }
+      } else {
+        const step: TrajectoryStep & { type: 'tool_call' } = {
+          type: 'tool_call',
+          name: update.title ?? 'unknown',
+          status: update.status ?? (update.toolCallPhase === 'result' ? 'completed' : 'pending'),
+          ...(update.input !== undefined && { input: update.input }),
+          ...(update.output !== undefined && { output: update.output }),
+          toolCallId: update.toolCallId,
+          timestamp,
+        }
+        if (update.toolCallPhase === 'start') {
+          toolCallMap.set(key, { start: timestamp, step })
+        }
+        trajectory.push(step)
+      }
     } else if (update.type === 'tool_call') {
       const toolCallId = update.title ?? `tool_${timestamp}`
       const existing = toolCallMap.get(toolCallId)
@@ -81,6 +126,87 @@ export const extractTrajectory = (updates: ParsedUpdate[], startTime: number): T
   return trajectory
 }
 
+/**
+ * Response latency measured from parsed updates.
+ *
+ * @public
+ */
+export type ResponseTiming = {
+  /** Time to the first update of any kind (ms from start) */
+  firstResponse?: number
+  /** Time to the first message or thought content (ms from start) */
+  timeToFirstToken?: number
+}
+
+/**
+ * Measure response latency from parsed updates.
+ *
+ * @remarks
+ * Uses update timestamps rather than trajectory steps, so merged deltas,
+ * correlated tool calls and stderr diagnostics do not skew the result.
+ *
+ * @param updates - Parsed updates from output parser
+ * @param startTime - Reference time for timestamp calculation
+ * @returns First response and first token times
+ *
+ * @public
+ */
+export const measureResponseTiming = (updates: ParsedUpdate[], startTime: number): ResponseTiming => {
+  const first = updates[0]
+  const firstToken = updates.find(
+    (update) => (update.type === 'message' || update.type === 'thought') && update.content,
+  )
+  return {
+    ...(first && { firstResponse: first.timestamp - startTime }),
+    ...(firstToken && { timeToFirstToken: firstToken.timestamp - startTime }),
+  }
+}
+
+/**
+ * Stderr captured at the end of one turn.
+ *
+ * @public
+ */
+export type TurnStderr = {
+  /** Captured stderr text */
+  content: string
+  /** Epoch time the turn ended */
+  time: number
+}
+
+/**
+ * Add stderr diagnostic steps to a trajectory.
+ *
+ * @remarks
+ * Each turn's stderr becomes a `diagnostic` step stamped with the turn's end
+ * time, inserted after all steps at or before that time.
+ *
+ * @param trajectory - Trajectory steps from extractTrajectory
+ * @param stderr - Stderr captured per turn
+ * @param startTime - Reference time for timestamp calculation
+ * @returns New trajectory including diagnostic steps
+ *
+ * @public
+ */
+export const addStderrSteps = (
+  trajectory: TrajectoryStep[],
+  stderr: TurnStderr[],
+  startTime: number,
+): TrajectoryStep[] => {
+  const result = [...trajectory]
+  for (const { content, time } of stderr) {
+    const timestamp = time - startTime
+    const index = result.findIndex((step) => step.timestamp > timestamp)
+    const step: TrajectoryStep = { type: 'diagnostic', source: 'stderr', content, timestamp }
+    if (index === -1) {
+      result.push(step)
+    } else {
+      result.splice(index, 0, step)
+    }
+  }
+  return result
+}
+
 /**
  * Extract final text output from trajectory.
  *
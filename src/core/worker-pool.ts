@@ -6,7 +6,9 @@
  * - Processes items with configurable concurrency
  * - Maintains order-independent result collection
  * - Supports progress callbacks
+ * - Stops taking new items on request (e.g. budget exhausted)
  * - Coordinates file writes via mutex
+ * - Shares request/token rate limits across workers
  *
  * @packageDocumentation
  */
@@ -35,6 +37,8 @@ export type WorkerPoolOptions<T> = {
   concurrency: number
   /** Progress callback called after each task completes */
   onProgress?: ProgressCallback<T>
+  /** Checked before each task starts; once true, remaining items are skipped */
+  shouldStop?: () => boolean
 }
 
 /**
@@ -45,6 +49,8 @@ export type WorkerPoolResult<T> = {
   results: T[]
   /** Errors encountered during execution */
   errors: Array<{ index: number; error: Error }>
+  /** Indices of items never started because `shouldStop` returned true */
+  skipped: number[]
 }
 
 // ============================================================================
@@ -104,15 +110,20 @@ export const runWorkerPool = async <TItem, TResult>(
   worker: (item: TItem, index: number) => Promise<TResult>,
   options: WorkerPoolOptions<TResult>,
 ): Promise<WorkerPoolResult<TResult>> => {
-  const { concurrency, onProgress } = options
+  const { concurrency, onProgress, shouldStop } = options
   const results: TResult[] = []
   const errors: Array<{ index: number; error: Error }> = []
+  const skipped: number[] = []
 
   // Fast path: if concurrency is 1, process sequentially
   if (concurrency === 1) {
     for (let i = 0; i < items.length; i++) {
       const item = items[i]
       if (item === undefined) continue
+      if (shouldStop?.()) {
+        skipped.push(i)
+        continue
+      }
 
       try {
         const result = await worker(item, i)
@@ -124,7 +135,7 @@ export const runWorkerPool = async <TItem, TResult>(
         onProgress?.(results.length + errors.length, items.length, undefined, error)
       }
     }
-    return { results, errors }
+    return { results, errors, skipped }
   }
 
   // Shared state for work distribution
@@ -138,10 +149,12 @@ export const runWorkerPool = async <TItem, TResult>(
     while (nextIndex < items.length) {
       const index = nextIndex++
       const item = items[index]
-      if (item !== undefined) {
-        return { item, index }
+      if (item === undefined) continue // Skip undefined items and continue to next
+      if (shouldStop?.()) {
+        skipped.push(index)
+        continue
       }
-      // Skip undefined items and continue to next
+      return { item, index }
     }
     return undefined
   }
@@ -185,7 +198,89 @@ export const runWorkerPool = async <TItem, TResult>(
   const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => runWorker())
   await Promise.all(workers)
 
-  return { results, errors }
+  return { results, errors, skipped }
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Options for a shared rate limiter.
+ */
+export type RateLimiterOptions = {
+  /** Maximum task starts per window */
+  requestsPerMinute?: number
+  /** Maximum tokens recorded per window */
+  tokensPerMinute?: number
+  /** Sliding window length in milliseconds (default: 60000) */
+  windowMs?: number
+}
+
+/**
+ * Rate limiter shared by all workers.
+ *
+ * @remarks
+ * Token counts are only known after a request finishes, so the token limit
+ * holds new requests while the tokens recorded in the window are at or above it.
+ */
+export type RateLimiter = {
+  /** Wait until a request may start under both limits, then count it */
+  acquire: () => Promise<void>
+  /** Record tokens used by a finished request */
+  recordTokens: (tokens: number) => void
+}
+
+/**
+ * Create a sliding-window rate limiter.
+ *
+ * @param options - Limits and window length
+ * @returns RateLimiter instance
+ *
+ * @public
+ */
+export const createRateLimiter = ({
+  requestsPerMinute,
+  tokensPerMinute,
+  windowMs = 60_000,
+}: RateLimiterOptions): RateLimiter => {
+  const requests: number[] = []
+  const tokens: Array<{ time: number; count: number }> = []
+
+  // Milliseconds until a request may start (0 when allowed now)
+  const getWait = (now: number): number => {
+    while (requests.length > 0 && requests[0]! <= now - windowMs) requests.shift()
+    while (tokens.length > 0 && tokens[0]!.time <= now - windowMs) tokens.shift()
+
+    let wait = 0
+    if (requestsPerMinute && requests.length >= requestsPerMinute) {
+      wait = requests[requests.length - requestsPerMinute]! + windowMs - now
+    }
+    if (tokensPerMinute) {
+      // Wait until enough old entries expire to drop below the limit
+      let total = tokens.reduce((sum, entry) => sum + entry.count, 0)
+      for (const entry of tokens) {
+        if (total < tokensPerMinute) break
+        total -= entry.count
+        wait = Math.max(wait, entry.time + windowMs - now)
+      }
+    }
+    return wait
+  }
+
+  return {
+    acquire: async () => {
+      let wait = getWait(Date.now())
+      while (wait > 0) {
+        await Bun.sleep(wait)
+        wait = getWait(Date.now())
+      }
+      requests.push(Date.now())
+    },
+    recordTokens: (count: number) => {
+      if (count > 0) tokens.push({ time: Date.now(), count })
+    },
+  }
 }
 
 // ============================================================================
@@ -0,0 +1,310 @@
+/**
+ * Per-prompt workspace setup and teardown.
+ *
+ * @remarks
+ * Builds a prompt's starting directory from its `workspace` spec (template
+ * copy or git clone, checkout, files, setup commands) and finishes it after
+ * grading (teardown commands, then removal according to the retention policy).
+ * Snapshots record what the agent changed as diff artifacts.
+ *
+ * @packageDocumentation
+ */
+
+import { cp, mkdir, mkdtemp, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve, sep } from 'node:path'
+import type { WorkspaceDiff, WorkspaceSpec } from '../schemas.ts'
+import { resolvePath } from './output.ts'
+import { runCommandWithTimeout } from './process.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Which per-prompt workspaces to keep once a prompt finishes.
+ *
+ * @remarks
+ * - `all`: keep every workspace (default)
+ * - `failed`: keep only workspaces of errored or failing prompts
+ * - `none`: remove every workspace
+ */
+export type WorkspaceRetention = 'all' | 'failed' | 'none'
+
+/** Options for finishing a workspace */
+export type FinishWorkspaceOptions = {
+  /** Workspace spec whose `teardown` commands run first */
+  spec?: WorkspaceSpec
+  /** Retention policy (default: all) */
+  retention?: WorkspaceRetention
+  /** Whether the prompt errored or failed grading */
+  failed: boolean
+  /** Timeout per teardown command in milliseconds */
+  timeout: number
+}
+
+/**
+ * Baseline of a workspace taken before the agent runs.
+ *
+ * @remarks
+ * Backed by a throwaway git index outside the workspace, so the workspace's
+ * own `.git` is untouched and its `.gitignore` rules apply.
+ */
+export type WorkspaceSnapshot = {
+  /** Write the diff artifacts to `artifactDir` and release the snapshot */
+  diff: (artifactDir: string, options?: { tarball?: boolean }) => Promise<WorkspaceDiff>
+  /** Release the snapshot without diffing */
+  dispose: () => Promise<void>
+}
+
+// ============================================================================
+// Command Execution
+// ============================================================================
+
+/**
+ * Run a command in the workspace, throwing on a non-zero exit or timeout.
+ *
+ * @param args - Command and arguments
+ * @param cwd - Working directory
+ * @param timeout - Timeout in milliseconds
+ * @param label - Description used in the error message
+ * @returns Command stdout
+ */
+const runCommand = async (args: string[], cwd: string, timeout: number, label: string): Promise<string> => {
+  const { stdout, stderr, exitCode, timedOut } = await runCommandWithTimeout(args, { cwd, timeout })
+  if (timedOut) {
+    throw new Error(`${label} timed out after ${timeout}ms`)
+  }
+  if (exitCode !== 0) {
+    throw new Error(`${label} exited with code ${exitCode}${stderr.trim() ? `: ${stderr.trim()}` : ''}`)
+  }
+  return stdout
+}
+
+// ============================================================================
+// Setup and Teardown
+// ============================================================================
+
+/**
+ * Build a workspace from its spec.
+ *
+ * @remarks
+ * The directory is emptied first, so each attempt (including retries) starts
+ * from the same state. Steps run in order: copy `template` or clone `repo`,
+ * check out `ref`, write `files`, run each `setup` command with `sh -c`.
+ * Does nothing without a spec.
+ *
+ * @param workspaceDir - Absolute workspace directory
+ * @param spec - Workspace spec from the prompt case
+ * @param timeout - Timeout per command in milliseconds
+ * @throws Error naming the step that failed
+ *
+ * @public
+ */
+export const prepareWorkspace = async (
+  workspaceDir: string,
+  spec: WorkspaceSpec | undefined,
+  timeout: number,
+): Promise<void> => {
+  if (!spec) return
+
+  await rm(workspaceDir, { recursive: true, force: true })
+  await mkdir(workspaceDir, { recursive: true })
+
+  if (spec.template) {
+    await cp(resolvePath(spec.template), workspaceDir, { recursive: true })
+  }
+  if (spec.repo) {
+    await runCommand(['git', 'clone', '--quiet', spec.repo, workspaceDir], process.cwd(), timeout, 'git clone')
+  }
+  if (spec.ref) {
+    await runCommand(['git', 'checkout', '--quiet', spec.ref], workspaceDir, timeout, `git checkout ${spec.ref}`)
+  }
+
+  for (const [path, content] of Object.entries(spec.files ?? {})) {
+    // Reject paths that would write outside the workspace
+    const target = resolve(workspaceDir, path)
+    if (!target.startsWith(`${workspaceDir}${sep}`)) {
+      throw new Error(`Workspace file is outside the workspace: ${path}`)
+    }
+    await mkdir(dirname(target), { recursive: true })
+    await Bun.write(target, content)
+  }
+
+  for (const command of spec.setup ?? []) {
+    await runCommand(['sh', '-c', command], workspaceDir, timeout, `Workspace setup '${command}'`)
+  }
+}
+
+/**
+ * Run teardown commands and apply the retention policy.
+ *
+ * @remarks
+ * Every teardown command runs even if an earlier one fails. The workspace is
+ * removed afterwards when `retention` is `none`, or `failed` and the prompt passed.
+ *
+ * @param workspaceDir - Absolute workspace directory
+ * @param options - Spec, retention policy and prompt outcome
+ * @returns Error messages from failed teardown commands
+ *
+ * @public
+ */
+export const finishWorkspace = async (
+  workspaceDir: string,
+  { spec, retention = 'all', failed, timeout }: FinishWorkspaceOptions,
+): Promise<string[]> => {
+  const errors: string[] = []
+
+  for (const command of spec?.teardown ?? []) {
+    try {
+      await runCommand(['sh', '-c', command], workspaceDir, timeout, `Workspace teardown '${command}'`)
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  if (retention === 'none' || (retention === 'failed' && !failed)) {
+    await rm(workspaceDir, { recursive: true, force: true })
+  }
+
+  return errors
+}
+
+// ============================================================================
+// Snapshots and Diffs
+// ============================================================================
+
+/**
+ * Snapshot a workspace before the agent runs.
+ *
+ * @remarks
+ * Stages every file not ignored by the workspace's `.gitignore` into a
+ * temporary git index and records its tree. The diff later stages the
+ * workspace again and compares against that tree, which catches added,
+ * modified and deleted files, including binaries.
+ *
+ * @param workspaceDir - Absolute workspace directory
+ * @param timeout - Timeout per git command in milliseconds
+ * @returns Snapshot to diff once the agent has finished
+ * @throws Error if git is unavailable or fails
+ *
+ * @public
+ */
+export const createWorkspaceSnapshot = async (workspaceDir: string, timeout: number): Promise<WorkspaceSnapshot> => {
+  const gitDir = await mkdtemp(join(tmpdir(), 'agent-eval-snapshot-'))
+  const git = (args: string[], label: string) =>
+    runCommand(['git', `--git-dir=${gitDir}`, `--work-tree=${workspaceDir}`, ...args], workspaceDir, timeout, label)
+  const dispose = () => rm(gitDir, { recursive: true, force: true })
+
+  let baseline: string
+  try {
+    await git(['init', '--quiet'], 'Workspace snapshot')
+    await git(['add', '--all', '.'], 'Workspace snapshot')
+    baseline = (await git(['write-tree'], 'Workspace snapshot')).trim()
+  } catch (error) {
+    await dispose()
+    throw error
+  }
+
+  return {
+    diff: async (artifactDir, { tarball = false } = {}) => {
+      try {
+        await git(['add', '--all', '.'], 'Workspace diff')
+        const diffArgs = ['diff', '--cached', '--no-renames', baseline]
+        const nameStatus = await git([...diffArgs, '--name-status', '-z'], 'Workspace diff')
+        const patch = await git([...diffArgs, '--binary'], 'Workspace diff')
+
+        const diff: WorkspaceDiff = { added: [], modified: [], deleted: [], patch: join(artifactDir, 'diff.patch') }
+        // -z output alternates status and path, each NUL-terminated
+        const fields = nameStatus.split('\0')
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+          const status = fields[i]
+          const path = fields[i + 1]!
+          if (status === 'A') diff.added.push(path)
+          else if (status === 'D') diff.deleted.push(path)
+          else diff.modified.push(path)
+        }
+
+        await mkdir(artifactDir, { recursive: true })
+        await Bun.write(diff.patch, patch)
+        if (tarball) {
+          diff.tarball = join(artifactDir, 'workspace.tar.gz')
+          await runCommand(
+            ['tar', '-czf', diff.tarball, '-C', workspaceDir, '.'],
+            workspaceDir,
+            timeout,
+            'Workspace tarball',
+          )
+        }
+        return diff
+      } finally {
+        await dispose()
+      }
+    },
+    dispose,
+  }
+}
+
+/**
+ * Restore a workspace tarball into a fresh temporary directory.
+ *
+ * @remarks
+ * Lets graders that inspect files run after the original workspace is gone.
+ * The caller removes the directory when done.
+ *
+ * @param tarball - Path to a tarball written by a workspace snapshot
+ * @param timeout - Timeout in milliseconds
+ * @returns Path of the restored workspace
+ *
+ * @public
+ */
+export const restoreWorkspaceTarball = async (tarball: string, timeout: number): Promise<string> => {
+  const dir = await mkdtemp(join(tmpdir(), 'agent-eval-restore-'))
+  try {
+    await runCommand(['tar', '-xzf', tarball, '-C', dir], dir, timeout, 'Workspace restore')
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true })
+    throw error
+  }
+  return dir
+}
+
+/**
+ * Run a grading step against a recorded workspace.
+ *
+ * @remarks
+ * Passes `cwd` through while it still exists. Otherwise, if the diff has a
+ * `tarball`, the workspace is restored to a temporary directory for the
+ * duration of `fn` and removed afterwards.
+ *
+ * @param cwd - Original workspace path, if known
+ * @param workspaceDiff - Recorded workspace diff, if any
+ * @param fn - Grading step, given the directory to inspect
+ * @param timeout - Timeout for restoring the tarball in milliseconds
+ * @returns Result of `fn`
+ *
+ * @public
+ */
+export const withGradingWorkspace = async <T>(
+  cwd: string | undefined,
+  workspaceDiff: WorkspaceDiff | undefined,
+  fn: (cwd: string | undefined) => Promise<T>,
+  timeout: number,
+): Promise<T> => {
+  const exists = cwd
+    ? await stat(cwd).then(
+        () => true,
+        () => false,
+      )
+    : false
+  if (exists || !workspaceDiff?.tarball) {
+    return fn(cwd)
+  }
+
+  const restoredDir = await restoreWorkspaceTarball(workspaceDiff.tarball, timeout)
+  try {
+    return await fn(restoredDir)
+  } finally {
+    await rm(restoredDir, { recursive: true, force: true })
+  }
+}
@@ -12,9 +12,16 @@
  * - **trialsWeighted**: Configurable weights for capability, reliability, consistency
  * - **trialsStatistical**: Bootstrap sampling for passAtK confidence intervals
  *
+ * **Result graders:**
+ * - **llmJudge**: LLM-as-judge scoring against a rubric file
+ * - **builtin**: Deterministic checks (`--grader builtin:<name>`) configured via prompt metadata
+ * - **expectations**: Trajectory rules from `metadata.expectations` (`builtin:expectations`)
+ *
  * @packageDocumentation
  */
 
+// Result graders
+export { BUILTIN_GRADER_PREFIX, BUILTIN_GRADERS, getBuiltinGrader } from './graders/builtin.ts'
 // CaptureResult graders
 export { createStatisticalGrader, grade as statisticalGrade } from './graders/compare-statistical.ts'
 export {
@@ -24,7 +31,25 @@ export {
   grade as weightedGrade,
   type Weights,
 } from './graders/compare-weighted.ts'
-
+export {
+  evaluateExpectations,
+  type RequireBeforeRule,
+  RequireBeforeRuleSchema,
+  type TrajectoryExpectations,
+  TrajectoryExpectationsSchema,
+} from './graders/expectations.ts'
+export {
+  createJudgeGrader,
+  formatTrajectoryExcerpt,
+  getJudgeConfigFromEnv,
+  type JudgeConfig,
+  type JudgeRubric,
+  JudgeRubricSchema,
+  loadJudgeGrader,
+  loadRubric,
+  parseJudgeVerdict,
+  RUBRIC_EXTENSIONS,
+} from './graders/llm-judge.ts'
 // TrialResult graders
 export {
   createTrialsStatisticalGrader,
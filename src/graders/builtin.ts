@@ -0,0 +1,366 @@
+/**
+ * Built-in deterministic result graders.
+ *
+ * @remarks
+ * Selected with `--grader builtin:<name>` and configured per prompt through
+ * `metadata.<name>`, so simple evals need no custom grader code:
+ * - `exact`: output equals the hint
+ * - `contains`: output contains the hint (or every listed string)
+ * - `regex`: output matches a pattern (the hint by default)
+ * - `json`: output is JSON, optionally valid against a JSON Schema
+ * - `numeric`: number in the output is within a tolerance of the expected value
+ * - `tools`: required tools were called and forbidden ones were not
+ * - `expectations`: trajectory rules (tool order, budgets, preconditions); see `expectations.ts`
+ * - `file`: files exist in (or are absent from) the working directory, or contain text
+ * - `command`: a shell command exits 0 in the working directory
+ *
+ * @packageDocumentation
+ */
+
+import { stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { runCommandWithTimeout } from '../core/process.ts'
+import { DEFAULT_HARNESS_TIMEOUT } from '../schemas/constants.ts'
+import type { Grader, GraderResult } from '../schemas.ts'
+import { evaluateExpectations, TrajectoryExpectationsSchema } from './expectations.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Grader input, as passed to every `Grader` */
+type GraderParams = Parameters<Grader>[0]
+
+// ============================================================================
+// Config Schemas
+// ============================================================================
+
+/** `metadata.exact` */
+const ExactConfigSchema = z.object({
+  /** Expected output (default: hint) */
+  expected: z.string().optional(),
+  /** Compare case-insensitively */
+  ignoreCase: z.boolean().optional(),
+})
+
+/** `metadata.contains` */
+const ContainsConfigSchema = z.object({
+  /** Text (or texts, all required) to find (default: hint) */
+  expected: z.union([z.string(), z.array(z.string())]).optional(),
+  /** Match case-insensitively */
+  ignoreCase: z.boolean().optional(),
+})
+
+/** `metadata.regex` */
+const RegexConfigSchema = z.object({
+  /** Pattern to match (default: hint) */
+  pattern: z.string().optional(),
+  /** RegExp flags, e.g. `i` or `m` */
+  flags: z.string().optional(),
+})
+
+/** `metadata.json` */
+const JsonConfigSchema = z.object({
+  /** JSON Schema the parsed output must satisfy */
+  schema: z.union([z.record(z.string(), z.unknown()), z.boolean()]).optional(),
+})
+
+/** `metadata.numeric` */
+const NumericConfigSchema = z.object({
+  /** Expected value (default: hint) */
+  expected: z.number().optional(),
+  /** Largest allowed absolute difference (default: 0) */
+  tolerance: z.number().nonnegative().optional(),
+})
+
+/** `metadata.tools` */
+const ToolsConfigSchema = z.object({
+  /** Tools that must be called at least once */
+  required: z.array(z.string()).optional(),
+  /** Tools that must not be called */
+  forbidden: z.array(z.string()).optional(),
+})
+
+/** `metadata.file` */
+const FileConfigSchema = z.object({
+  /** Paths (relative to cwd) that must exist */
+  exists: z.array(z.string()).optional(),
+  /** Paths (relative to cwd) that must not exist */
+  missing: z.array(z.string()).optional(),
+  /** Text each file (relative to cwd) must contain */
+  contains: z.record(z.string(), z.string()).optional(),
+})
+
+/** `metadata.command` (a plain string is the command) */
+const CommandConfigSchema = z.union([
+  z.string(),
+  z.object({
+    /** Shell command run with `sh -c` */
+    run: z.string(),
+    /** Timeout in milliseconds (default: harness timeout; never longer than the grader timeout) */
+    timeout: z.number().positive().optional(),
+  }),
+])
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read and validate a grader's `metadata.<name>` config.
+ *
+ * @param params - Grader input
+ * @param name - Built-in grader name
+ * @param schema - Config schema
+ * @returns Parsed config, or undefined when absent
+ * @throws Error if the config is invalid
+ */
+const readConfig = <T>(params: GraderParams, name: string, schema: z.ZodType<T>): T | undefined => {
+  const raw = params.metadata?.[name]
+  if (raw === undefined) return undefined
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    throw new Error(`Invalid metadata.${name} for builtin:${name}: ${result.error.message}`)
+  }
+  return result.data
+}
+
+/** Build a result that scores 1 on pass and 0 on fail */
+const verdict = (pass: boolean, reasoning: string): GraderResult => ({ pass, score: pass ? 1 : 0, reasoning })
+
+/** Get the working directory, which file and command checks require */
+const requireCwd = (params: GraderParams, name: string): string => {
+  if (!params.cwd) {
+    throw new Error(`builtin:${name} needs a working directory (cwd)`)
+  }
+  return params.cwd
+}
+
+/** Stat a path, or undefined when it does not exist */
+const statPath = (path: string) => stat(path).catch(() => undefined)
+
+// ============================================================================
+// Text Graders
+// ============================================================================
+
+/** Output equals the hint (or `metadata.exact.expected`), ignoring surrounding whitespace */
+const exact: Grader = async (params) => {
+  const config = readConfig(params, 'exact', ExactConfigSchema) ?? {}
+  const expected = config.expected ?? params.hint
+  if (expected === undefined) {
+    throw new Error('builtin:exact needs a hint or metadata.exact.expected')
+  }
+
+  const normalize = (text: string) => (config.ignoreCase ? text.trim().toLowerCase() : text.trim())
+  const pass = normalize(params.output) === normalize(expected)
+  return verdict(pass, pass ? 'Output matches exactly' : `Output does not equal '${expected}'`)
+}
+
+/** Output contains the hint (or every string in `metadata.contains.expected`) */
+const contains: Grader = async (params) => {
+  const config = readConfig(params, 'contains', ContainsConfigSchema) ?? {}
+  const expected = config.expected ?? params.hint
+  if (expected === undefined) {
+    throw new Error('builtin:contains needs a hint or metadata.contains.expected')
+  }
+
+  const normalize = (text: string) => (config.ignoreCase ? text.toLowerCase() : text)
+  const needles = Array.isArray(expected) ? expected : [expected]
+  const missing = needles.filter((needle) => !normalize(params.output).includes(normalize(needle)))
+  return {
+    pass: missing.length === 0,
+    score: needles.length > 0 ? (needles.length - missing.length) / needles.length : 1,
+    reasoning: missing.length === 0 ? 'Output contains all expected text' : `Missing: ${missing.join(', ')}`,
+  }
+}
+
+/** Output matches the hint (or `metadata.regex.pattern`) as a regular expression */
+const regex: Grader = async (params) => {
+  const config = readConfig(params, 'regex', RegexConfigSchema) ?? {}
+  const pattern = config.pattern ?? params.hint
+  if (pattern === undefined) {
+    throw new Error('builtin:regex needs a hint or metadata.regex.pattern')
+  }
+
+  const pass = new RegExp(pattern, config.flags).test(params.output)
+  return verdict(pass, pass ? `Output matches /${pattern}/` : `Output does not match /${pattern}/`)
+}
+
+/** Output parses as JSON and satisfies `metadata.json.schema` when given */
+const json: Grader = async (params) => {
+  const config = readConfig(params, 'json', JsonConfigSchema) ?? {}
+
+  let value: unknown
+  try {
+    value = JSON.parse(params.output)
+  } catch {
+    return verdict(false, 'Output is not valid JSON')
+  }
+  if (config.schema === undefined) {
+    return verdict(true, 'Output is valid JSON')
+  }
+
+  const result = z.fromJSONSchema(config.schema).safeParse(value)
+  return result.success
+    ? verdict(true, 'Output matches the JSON Schema')
+    : verdict(false, `Output does not match the JSON Schema: ${result.error.message}`)
+}
+
+/** Last number in the output is within `tolerance` of the expected value */
+const numeric: Grader = async (params) => {
+  const config = readConfig(params, 'numeric', NumericConfigSchema) ?? {}
+  const expected = config.expected ?? (params.hint !== undefined ? Number(params.hint) : undefined)
+  if (expected === undefined || Number.isNaN(expected)) {
+    throw new Error('builtin:numeric needs a numeric hint or metadata.numeric.expected')
+  }
+
+  const numbers = params.output.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/gi)
+  const actual = numbers ? Number(numbers.at(-1)) : undefined
+  if (actual === undefined) {
+    return verdict(false, 'Output contains no number')
+  }
+
+  const tolerance = config.tolerance ?? 0
+  const pass = Math.abs(actual - expected) <= tolerance
+  return verdict(pass, `Got ${actual}, expected ${expected} ± ${tolerance}`)
+}
+
+// ============================================================================
+// Trajectory and Workspace Graders
+// ============================================================================
+
+/** Required tools were called and forbidden ones were not (`metadata.tools`) */
+const tools: Grader = async (params) => {
+  const config = readConfig(params, 'tools', ToolsConfigSchema)
+  if (!config?.required && !config?.forbidden) {
+    throw new Error('builtin:tools needs metadata.tools.required or metadata.tools.forbidden')
+  }
+
+  const called = new Set((params.trajectory ?? []).flatMap((step) => (step.type === 'tool_call' ? [step.name] : [])))
+  const notCalled = (config.required ?? []).filter((name) => !called.has(name))
+  const calledForbidden = (config.forbidden ?? []).filter((name) => called.has(name))
+  const problems = [
+    ...(notCalled.length > 0 ? [`not called: ${notCalled.join(', ')}`] : []),
+    ...(calledForbidden.length > 0 ? [`forbidden but called: ${calledForbidden.join(', ')}`] : []),
+  ]
+  return verdict(
+    problems.length === 0,
+    problems.length === 0 ? 'Tool usage as expected' : `Tools ${problems.join('; ')}`,
+  )
+}
+
+/** Trajectory satisfies the rules in `metadata.expectations` */
+const expectations: Grader = async (params) => {
+  const config = readConfig(params, 'expectations', TrajectoryExpectationsSchema)
+  if (config === undefined) {
+    throw new Error('builtin:expectations needs metadata.expectations')
+  }
+  return evaluateExpectations(params.trajectory ?? [], config)
+}
+
+/** Files or directories exist or are missing, or files contain text, in the working directory (`metadata.file`) */
+const file: Grader = async (params) => {
+  const config = readConfig(params, 'file', FileConfigSchema)
+  if (!config?.exists && !config?.missing && !config?.contains) {
+    throw new Error('builtin:file needs metadata.file.exists, metadata.file.missing or metadata.file.contains')
+  }
+  const cwd = requireCwd(params, 'file')
+
+  const problems: string[] = []
+  for (const path of config.exists ?? []) {
+    if (!(await statPath(join(cwd, path)))) problems.push(`${path} does not exist`)
+  }
+  for (const path of config.missing ?? []) {
+    if (await statPath(join(cwd, path))) problems.push(`${path} exists`)
+  }
+  for (const [path, text] of Object.entries(config.contains ?? {})) {
+    const target = join(cwd, path)
+    const stats = await statPath(target)
+    if (!stats) problems.push(`${path} does not exist`)
+    else if (!stats.isFile()) problems.push(`${path} is not a file`)
+    else if (!(await Bun.file(target).text()).includes(text)) problems.push(`${path} does not contain '${text}'`)
+  }
+
+  return verdict(problems.length === 0, problems.length === 0 ? 'Files as expected' : problems.join('; '))
+}
+
+/**
+ * Create the grader that checks a shell command in `metadata.command` exits 0 in the working directory.
+ *
+ * @remarks
+ * `withGraderLimits` stops waiting at the grader timeout, so the command is
+ * killed by then at the latest instead of running on in the workspace. The
+ * whole process group is killed, so commands the shell started stop too.
+ *
+ * @param graderTimeout - Grader call timeout in milliseconds (0 for none)
+ * @returns Grader function
+ */
+const createCommandGrader =
+  (graderTimeout = 0): Grader =>
+  async (params) => {
+    const config = readConfig(params, 'command', CommandConfigSchema)
+    if (config === undefined) {
+      throw new Error('builtin:command needs metadata.command')
+    }
+    const cwd = requireCwd(params, 'command')
+    const { run, timeout: commandTimeout = DEFAULT_HARNESS_TIMEOUT } =
+      typeof config === 'string' ? { run: config } : config
+    const timeout = graderTimeout > 0 ? Math.min(commandTimeout, graderTimeout) : commandTimeout
+
+    const { stdout, stderr, exitCode, timedOut } = await runCommandWithTimeout(['sh', '-c', run], { cwd, timeout })
+    if (timedOut) {
+      return verdict(false, `'${run}' timed out after ${timeout}ms`)
+    }
+    const tail = (stderr.trim() || stdout.trim()).split('\n').slice(-5).join('\n')
+    return {
+      ...verdict(exitCode === 0, `'${run}' exited with code ${exitCode}${tail ? `: ${tail}` : ''}`),
+      outcome: { exitCode },
+    }
+  }
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Built-in graders by name.
+ *
+ * @public
+ */
+export const BUILTIN_GRADERS: Record<string, Grader> = {
+  exact,
+  contains,
+  regex,
+  json,
+  numeric,
+  tools,
+  expectations,
+  file,
+  command: createCommandGrader(),
+}
+
+/** Prefix that selects a built-in grader in `--grader` */
+export const BUILTIN_GRADER_PREFIX = 'builtin:'
+
+/**
+ * Look up a built-in grader.
+ *
+ * @remarks
+ * Pass the grader call timeout the grader will be run with, so `command`
+ * kills its shell command before the call is abandoned.
+ *
+ * @param name - Grader name (without the `builtin:` prefix)
+ * @param options - Grader call timeout in milliseconds (0 or omitted for none)
+ * @returns Grader function
+ * @throws Error listing the available graders if the name is unknown
+ *
+ * @public
+ */
+export const getBuiltinGrader = (name: string, options: { timeout?: number } = {}): Grader => {
+  const grader = Object.hasOwn(BUILTIN_GRADERS, name) ? BUILTIN_GRADERS[name] : undefined
+  if (!grader) {
+    throw new Error(`Unknown builtin grader: ${name} (available: ${Object.keys(BUILTIN_GRADERS).join(', ')})`)
+  }
+  return name === 'command' && options.timeout ? createCommandGrader(options.timeout) : grader
+}
@@ -0,0 +1,218 @@
+/**
+ * Trajectory expectations: declarative checks on how the agent worked.
+ *
+ * @remarks
+ * A prompt's `metadata.expectations` lists rules about the trajectory rather
+ * than the final answer: tool order, forbidden tools, tool call and turn
+ * budgets, "call X before Y" preconditions, and repeated identical calls.
+ * `evaluateExpectations` checks every rule and records one verdict per rule
+ * under `scores`. The `builtin:expectations` grader runs it per result.
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod'
+import type { GraderResult, GraderVerdict, TrajectoryStep } from '../schemas.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Tool call step of a trajectory */
+type ToolCallStep = Extract<TrajectoryStep, { type: 'tool_call' }>
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** One tool name or several */
+const ToolNamesSchema = z.union([z.string(), z.array(z.string()).min(1)])
+
+/**
+ * A precondition: every call to `tool` needs an earlier call to `requires`.
+ *
+ * @remarks
+ * With `sameInput`, the earlier call must also have the same value for that
+ * input field, e.g. `file_path` for "read a file before writing it".
+ */
+export const RequireBeforeRuleSchema = z.object({
+  /** Tool (or tools) being checked */
+  tool: ToolNamesSchema,
+  /** Tool (or tools) that must have been called earlier */
+  requires: ToolNamesSchema,
+  /** Input field whose value must match between the two calls */
+  sameInput: z.string().optional(),
+})
+
+/** Precondition rule type */
+export type RequireBeforeRule = z.infer<typeof RequireBeforeRuleSchema>
+
+/**
+ * Trajectory expectations schema (`metadata.expectations`).
+ *
+ * @remarks
+ * Every rule is optional; at least one must be set.
+ */
+export const TrajectoryExpectationsSchema = z
+  .object({
+    /** Tools that must be called in this order (other calls may come in between) */
+    toolOrder: z.array(z.string()).min(1).optional(),
+    /** Tools that must not be called */
+    forbiddenTools: z.array(z.string()).optional(),
+    /** Most tool calls allowed */
+    maxToolCalls: z.number().int().nonnegative().optional(),
+    /** Most agent turns (`message` steps) allowed */
+    maxTurns: z.number().int().nonnegative().optional(),
+    /** Tools that may only be called after another tool */
+    requireBefore: z.array(RequireBeforeRuleSchema).min(1).optional(),
+    /** Fail when the same tool is called twice with identical input */
+    noRepeatedCalls: z.boolean().optional(),
+  })
+  .refine((expectations) => Object.values(expectations).some((value) => value !== undefined), {
+    message: 'At least one expectation is required',
+  })
+
+/** Trajectory expectations type */
+export type TrajectoryExpectations = z.infer<typeof TrajectoryExpectationsSchema>
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Normalize one or several tool names to a list */
+const toNames = (names: string | string[]): string[] => (Array.isArray(names) ? names : [names])
+
+/** Read a field from a tool call's input object */
+const inputField = (call: ToolCallStep, field: string): unknown =>
+  call.input && typeof call.input === 'object' ? (call.input as Record<string, unknown>)[field] : undefined
+
+/** Build a rule verdict that scores 1 on pass and 0 on fail */
+const ruleVerdict = (pass: boolean, reasoning: string): GraderVerdict => ({ pass, score: pass ? 1 : 0, reasoning })
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/** Tools appear in the expected order */
+const checkToolOrder = (calls: ToolCallStep[], order: string[]): GraderVerdict => {
+  let matched = 0
+  for (const call of calls) {
+    if (call.name === order[matched]) matched++
+    if (matched === order.length) break
+  }
+  const expected = order.join(' → ')
+  return matched === order.length
+    ? ruleVerdict(true, `Tools called in order: ${expected}`)
+    : ruleVerdict(
+        false,
+        `Expected tool order ${expected}; ${matched === 0 ? 'none matched' : `matched ${order.slice(0, matched).join(' → ')}`}, then no ${order[matched]}`,
+      )
+}
+
+/** None of the forbidden tools were called */
+const checkForbiddenTools = (calls: ToolCallStep[], forbidden: string[]): GraderVerdict => {
+  const counts = new Map<string, number>()
+  for (const call of calls) {
+    if (forbidden.includes(call.name)) counts.set(call.name, (counts.get(call.name) ?? 0) + 1)
+  }
+  return counts.size === 0
+    ? ruleVerdict(true, 'No forbidden tools called')
+    : ruleVerdict(
+        false,
+        `Forbidden tools called: ${[...counts].map(([name, count]) => `${name} (${count}×)`).join(', ')}`,
+      )
+}
+
+/** A count stays within its limit */
+const checkMax = (count: number, max: number, label: string): GraderVerdict =>
+  ruleVerdict(count <= max, `${count} ${label} (max ${max})`)
+
+/** Every checked tool call has an earlier required call */
+const checkRequireBefore = (calls: ToolCallStep[], rules: RequireBeforeRule[]): GraderVerdict => {
+  const problems: string[] = []
+
+  for (const { tool, requires, sameInput } of rules) {
+    const tools = toNames(tool)
+    const required = toNames(requires)
+
+    calls.forEach((call, index) => {
+      if (!tools.includes(call.name)) return
+      const value = sameInput ? inputField(call, sameInput) : undefined
+      const satisfied = calls
+        .slice(0, index)
+        .some(
+          (earlier) =>
+            required.includes(earlier.name) && (!sameInput || Bun.deepEquals(inputField(earlier, sameInput), value)),
+        )
+      if (!satisfied) {
+        const target = sameInput ? ` (${sameInput}=${JSON.stringify(value)})` : ''
+        problems.push(`${call.name}${target} called without an earlier ${required.join(' or ')}`)
+      }
+    })
+  }
+
+  return problems.length === 0
+    ? ruleVerdict(true, 'All tool preconditions met')
+    : ruleVerdict(false, problems.join('; '))
+}
+
+/** No tool is called twice with identical input */
+const checkNoRepeatedCalls = (calls: ToolCallStep[]): GraderVerdict => {
+  const counts = new Map<string, number>()
+  for (const call of calls) {
+    const key = `${call.name} ${JSON.stringify(call.input ?? null)}`
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  const repeated = [...counts].filter(([, count]) => count > 1)
+  return repeated.length === 0
+    ? ruleVerdict(true, 'No repeated identical calls')
+    : ruleVerdict(false, `Repeated identical calls: ${repeated.map(([key, count]) => `${key} (${count}×)`).join(', ')}`)
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Check a trajectory against its expectations.
+ *
+ * @remarks
+ * Each rule that is set becomes a verdict under `scores`, keyed by the rule
+ * name. The result passes only if every rule passes, and its score is the
+ * share of rules that passed. Reasoning lists the failed rules, or notes that
+ * all were met.
+ *
+ * @param trajectory - Agent trajectory
+ * @param expectations - Rules to check
+ * @returns Grader result with one verdict per rule
+ *
+ * @public
+ */
+export const evaluateExpectations = (
+  trajectory: TrajectoryStep[],
+  expectations: TrajectoryExpectations,
+): GraderResult => {
+  const calls = trajectory.filter((step): step is ToolCallStep => step.type === 'tool_call')
+  const turns = trajectory.filter((step) => step.type === 'message').length
+  const { toolOrder, forbiddenTools, maxToolCalls, maxTurns, requireBefore, noRepeatedCalls } = expectations
+
+  const scores: Record<string, GraderVerdict> = {}
+  if (toolOrder) scores.toolOrder = checkToolOrder(calls, toolOrder)
+  if (forbiddenTools) scores.forbiddenTools = checkForbiddenTools(calls, forbiddenTools)
+  if (maxToolCalls !== undefined) scores.maxToolCalls = checkMax(calls.length, maxToolCalls, 'tool calls')
+  if (maxTurns !== undefined) scores.maxTurns = checkMax(turns, maxTurns, 'turns')
+  if (requireBefore) scores.requireBefore = checkRequireBefore(calls, requireBefore)
+  if (noRepeatedCalls) scores.noRepeatedCalls = checkNoRepeatedCalls(calls)
+
+  const verdicts = Object.entries(scores)
+  const failed = verdicts.filter(([, verdict]) => !verdict.pass)
+  return {
+    pass: failed.length === 0,
+    score: verdicts.length > 0 ? (verdicts.length - failed.length) / verdicts.length : 1,
+    reasoning:
+      failed.length === 0
+        ? `All ${verdicts.length} trajectory expectations met`
+        : failed.map(([name, verdict]) => `${name}: ${verdict.reasoning}`).join('\n'),
+    scores,
+  }
+}
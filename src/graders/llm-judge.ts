@@ -0,0 +1,393 @@
+/**
+ * Built-in LLM-as-judge grader driven by rubric files.
+ *
+ * @remarks
+ * Loads a rubric (markdown with YAML frontmatter, or plain YAML) listing
+ * weighted criteria, asks a model behind an OpenAI-compatible
+ * `/chat/completions` endpoint to score each criterion, and turns the verdict
+ * into a `GraderResult` with one `scores` entry per criterion.
+ *
+ * Passing a rubric path (`.md`, `.yaml`, `.yml`) to `--grader` selects this grader.
+ * The endpoint is configured via environment variables:
+ * - `JUDGE_BASE_URL` (default: https://api.openai.com/v1)
+ * - `JUDGE_MODEL` (overridden by the rubric's `model`)
+ * - `JUDGE_API_KEY` (falls back to `OPENAI_API_KEY`)
+ * - `JUDGE_CACHE_DIR` (optional on-disk verdict cache)
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { hashContent, resolvePath } from '../core.ts'
+import { DEFAULT_HARNESS_TIMEOUT, DEFAULT_JUDGE_BASE_URL } from '../schemas/constants.ts'
+import type { Grader, GraderResult, GraderVerdict, TrajectoryStep } from '../schemas.ts'
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Judge rubric schema.
+ *
+ * @remarks
+ * In markdown rubrics these keys live in the YAML frontmatter and the body
+ * becomes `instructions`.
+ */
+export const JudgeRubricSchema = z.object({
+  /** Free-form guidance for the judge */
+  instructions: z.string().optional(),
+  /** Criteria scored independently, each from 0 to 1 */
+  criteria: z
+    .array(
+      z.object({
+        /** Criterion name (key in the result's `scores`) */
+        name: z.string().min(1),
+        /** What the judge should check */
+        description: z.string(),
+        /** Weight in the overall score (default: 1) */
+        weight: z.number().nonnegative().default(1),
+      }),
+    )
+    .min(1),
+  /** Overall score needed to pass (default: 0.5) */
+  passThreshold: z.number().min(0).max(1).default(0.5),
+  /** Model name (overrides `JUDGE_MODEL`) */
+  model: z.string().optional(),
+})
+
+/** Judge rubric type */
+export type JudgeRubric = z.infer<typeof JudgeRubricSchema>
+
+/** Verdict the judge model must return */
+const JudgeVerdictSchema = z.object({
+  criteria: z.record(
+    z.string(),
+    z.object({
+      score: z.number().min(0).max(1),
+      reasoning: z.string().optional(),
+    }),
+  ),
+  reasoning: z.string().optional(),
+})
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Endpoint and cache settings for the judge */
+export type JudgeConfig = {
+  /** Base URL of the OpenAI-compatible API (without `/chat/completions`) */
+  baseUrl: string
+  /** Model name (the rubric's `model` takes precedence) */
+  model?: string
+  /** Bearer token, if the endpoint needs one */
+  apiKey?: string
+  /** Directory for cached verdicts (in-memory only when unset) */
+  cacheDir?: string
+  /** Request timeout in milliseconds */
+  timeout?: number
+  /** Number of trailing trajectory steps shown to the judge (default: 20) */
+  maxTrajectorySteps?: number
+}
+
+/** Chat message sent to the judge */
+type ChatMessage = { role: 'system' | 'user'; content: string }
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** File extensions treated as judge rubrics by the grader loader */
+export const RUBRIC_EXTENSIONS = ['.md', '.yaml', '.yml']
+
+/** Default number of trajectory steps in the excerpt */
+const DEFAULT_TRAJECTORY_STEPS = 20
+
+/** Characters kept from each step's text in the excerpt */
+const STEP_PREVIEW_LENGTH = 300
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Read judge settings from environment variables.
+ *
+ * @returns Judge configuration
+ *
+ * @public
+ */
+export const getJudgeConfigFromEnv = (): JudgeConfig => ({
+  baseUrl: process.env.JUDGE_BASE_URL ?? DEFAULT_JUDGE_BASE_URL,
+  model: process.env.JUDGE_MODEL,
+  apiKey: process.env.JUDGE_API_KEY ?? process.env.OPENAI_API_KEY,
+  cacheDir: process.env.JUDGE_CACHE_DIR,
+})
+
+/**
+ * Load and validate a rubric file.
+ *
+ * @remarks
+ * Markdown rubrics hold the settings in `---` YAML frontmatter; the body is
+ * used as `instructions`. YAML rubrics hold every key, including `instructions`.
+ *
+ * @param path - Path to a `.md`, `.yaml` or `.yml` rubric
+ * @returns Parsed rubric
+ * @throws Error if the file is missing or the rubric is invalid
+ *
+ * @public
+ */
+export const loadRubric = async (path: string): Promise<JudgeRubric> => {
+  const file = Bun.file(resolvePath(path))
+  if (!(await file.exists())) {
+    throw new Error(`Rubric not found: ${path}`)
+  }
+  const text = await file.text()
+
+  let raw: unknown
+  try {
+    if (path.endsWith('.md')) {
+      const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/)
+      if (!match) {
+        throw new Error('markdown rubrics need YAML frontmatter with criteria')
+      }
+      const frontmatter = Bun.YAML.parse(match[1] ?? '') as Record<string, unknown>
+      const body = match[2]?.trim()
+      raw = { ...frontmatter, ...(body && { instructions: body }) }
+    } else {
+      raw = Bun.YAML.parse(text)
+    }
+  } catch (error) {
+    throw new Error(`Invalid rubric ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result = JudgeRubricSchema.safeParse(raw)
+  if (!result.success) {
+    throw new Error(`Invalid rubric ${path}: ${result.error.message}`)
+  }
+  return result.data
+}
+
+// ============================================================================
+// Prompt Construction
+// ============================================================================
+
+/**
+ * Summarize the tail of a trajectory, one line per step.
+ *
+ * @param trajectory - Trajectory steps
+ * @param maxSteps - Number of trailing steps to include
+ * @returns Excerpt text (empty when there are no steps)
+ *
+ * @public
+ */
+export const formatTrajectoryExcerpt = (trajectory: TrajectoryStep[], maxSteps = DEFAULT_TRAJECTORY_STEPS): string => {
+  const clip = (text: string) => (text.length > STEP_PREVIEW_LENGTH ? `${text.slice(0, STEP_PREVIEW_LENGTH)}...` : text)
+  const steps = trajectory.slice(-maxSteps).map((step) => {
+    switch (step.type) {
+      case 'tool_call':
+        return `[tool_call] ${step.name} (${step.status})${step.input !== undefined ? ` ${clip(JSON.stringify(step.input))}` : ''}`
+      case 'plan':
+        return `[plan] ${clip(JSON.stringify(step.entries))}`
+      default:
+        return `[${step.type}] ${clip(step.content.replace(/\s+/g, ' '))}`
+    }
+  })
+
+  const omitted = trajectory.length - steps.length
+  return [...(omitted > 0 ? [`(${omitted} earlier steps omitted)`] : []), ...steps].join('\n')
+}
+
+/**
+ * Build the chat messages sent to the judge.
+ *
+ * @param rubric - Rubric with criteria
+ * @param params - Grader input
+ * @param maxTrajectorySteps - Number of trailing trajectory steps to include
+ * @returns System and user messages
+ */
+const buildJudgeMessages = (
+  rubric: JudgeRubric,
+  params: Parameters<Grader>[0],
+  maxTrajectorySteps: number,
+): ChatMessage[] => {
+  const criteria = rubric.criteria.map((c) => `- ${c.name}: ${c.description}`).join('\n')
+  const system = [
+    'You are an impartial judge grading the output of an AI agent.',
+    ...(rubric.instructions ? ['', rubric.instructions] : []),
+    '',
+    'Score each criterion from 0 (not met) to 1 (fully met):',
+    criteria,
+    '',
+    'Respond with only a JSON object of the form:',
+    '{"criteria": {"<criterion name>": {"score": <0-1>, "reasoning": "<why>"}}, "reasoning": "<overall summary>"}',
+  ].join('\n')
+
+  const input = Array.isArray(params.input)
+    ? params.input.map((turn, i) => `Turn ${i + 1}: ${turn}`).join('\n')
+    : params.input
+  const excerpt = params.trajectory ? formatTrajectoryExcerpt(params.trajectory, maxTrajectorySteps) : ''
+  const user = [
+    `## Input\n${input}`,
+    ...(params.hint ? [`## Hint\n${params.hint}`] : []),
+    ...(excerpt ? [`## Trajectory (excerpt)\n${excerpt}`] : []),
+    `## Output\n${params.output}`,
+  ].join('\n\n')
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ]
+}
+
+// ============================================================================
+// Verdict Parsing
+// ============================================================================
+
+/**
+ * Parse the judge's reply into a grader result.
+ *
+ * @remarks
+ * Accepts the JSON object bare or inside a code fence. The overall score is
+ * the weighted mean of the criterion scores; each criterion passes on its own
+ * when it reaches the rubric's `passThreshold`.
+ *
+ * @param content - Message content returned by the model
+ * @param rubric - Rubric the verdict answers
+ * @returns Grader result with per-criterion `scores`
+ * @throws Error if the reply is not a valid verdict or misses a criterion
+ *
+ * @public
+ */
+export const parseJudgeVerdict = (content: string, rubric: JudgeRubric): GraderResult => {
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new Error(`Judge reply has no JSON verdict: ${content.slice(0, 100)}`)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1))
+  } catch {
+    throw new Error(`Judge verdict is not valid JSON: ${content.slice(0, 100)}`)
+  }
+
+  const result = JudgeVerdictSchema.safeParse(parsed)
+  if (!result.success) {
+    throw new Error(`Invalid judge verdict: ${result.error.message}`)
+  }
+  const verdict = result.data
+
+  const scores: Record<string, GraderVerdict> = {}
+  let totalWeight = 0
+  let weightedSum = 0
+  for (const { name, weight } of rubric.criteria) {
+    const criterion = verdict.criteria[name]
+    if (!criterion) {
+      throw new Error(`Judge verdict is missing criterion '${name}'`)
+    }
+    scores[name] = {
+      pass: criterion.score >= rubric.passThreshold,
+      score: criterion.score,
+      ...(criterion.reasoning && { reasoning: criterion.reasoning }),
+    }
+    totalWeight += weight
+    weightedSum += weight * criterion.score
+  }
+
+  const score = totalWeight > 0 ? weightedSum / totalWeight : 0
+  return {
+    pass: score >= rubric.passThreshold,
+    score,
+    ...(verdict.reasoning && { reasoning: verdict.reasoning }),
+    scores,
+  }
+}
+
+// ============================================================================
+// Grader Factory
+// ============================================================================
+
+/**
+ * Create an LLM-as-judge grader.
+ *
+ * @remarks
+ * Verdicts are cached by a hash of the model and the exact messages, in
+ * memory and (with `cacheDir`) on disk, so re-grading unchanged results
+ * makes no requests.
+ *
+ * @param rubric - Rubric with criteria
+ * @param config - Endpoint and cache settings
+ * @returns Grader function
+ * @throws Error if no model is configured
+ *
+ * @public
+ */
+export const createJudgeGrader = (rubric: JudgeRubric, config: JudgeConfig): Grader => {
+  const model = rubric.model ?? config.model
+  if (!model) {
+    throw new Error("Judge model not set: add 'model' to the rubric or set JUDGE_MODEL")
+  }
+
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+  const cacheDir = config.cacheDir ? resolvePath(config.cacheDir) : undefined
+  const cache = new Map<string, GraderResult>()
+
+  return async (params) => {
+    const messages = buildJudgeMessages(rubric, params, config.maxTrajectorySteps ?? DEFAULT_TRAJECTORY_STEPS)
+    const key = hashContent({ model, rubric, messages })
+
+    const cached = cache.get(key)
+    if (cached) return cached
+    const cacheFile = cacheDir ? join(cacheDir, `${key}.json`) : undefined
+    if (cacheFile && (await Bun.file(cacheFile).exists())) {
+      const result = (await Bun.file(cacheFile).json()) as GraderResult
+      cache.set(key, result)
+      return result
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({ model, messages, temperature: 0, response_format: { type: 'json_object' } }),
+      signal: AbortSignal.timeout(config.timeout ?? DEFAULT_HARNESS_TIMEOUT),
+    })
+    if (!response.ok) {
+      const body = await response.text()
+      throw new Error(`Judge request failed with status ${response.status}: ${body.slice(0, 200)}`)
+    }
+
+    const data = (await response.json()) as { choices?: { message?: { content?: string } }[] }
+    const content = data.choices?.[0]?.message?.content
+    if (!content) {
+      throw new Error('Judge response has no message content')
+    }
+
+    const result = parseJudgeVerdict(content, rubric)
+    cache.set(key, result)
+    if (cacheDir && cacheFile) {
+      await mkdir(cacheDir, { recursive: true })
+      await Bun.write(cacheFile, JSON.stringify(result))
+    }
+    return result
+  }
+}
+
+/**
+ * Load a rubric file as a judge grader configured from the environment.
+ *
+ * @param rubricPath - Path to a `.md`, `.yaml` or `.yml` rubric
+ * @returns Grader function
+ * @throws Error if the rubric is invalid or no model is configured
+ *
+ * @public
+ */
+export const loadJudgeGrader = async (rubricPath: string): Promise<Grader> => {
+  return createJudgeGrader(await loadRubric(rubricPath), getJudgeConfigFromEnv())
+}
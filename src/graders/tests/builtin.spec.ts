@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the built-in deterministic graders.
+ *
+ * @remarks
+ * Tests for:
+ * - Text graders: exact, contains, regex, json, numeric
+ * - Trajectory and workspace graders: tools, file, command
+ * - Selection via loadGrader and named composites
+ *
+ * @packageDocumentation
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { loadGraders } from '../../schemas/grader-composite.ts'
+import { loadGrader } from '../../schemas/grader-loader.ts'
+import { getBuiltinGrader } from '../builtin.ts'
+
+const grade = (name: string, params: Partial<Parameters<ReturnType<typeof getBuiltinGrader>>[0]>) =>
+  getBuiltinGrader(name)({ input: 'q', output: '', ...params })
+
+// ============================================================================
+// Text Graders
+// ============================================================================
+
+describe('builtin text graders', () => {
+  test('exact compares trimmed output to the hint', async () => {
+    expect((await grade('exact', { output: ' 42\n', hint: '42' })).pass).toBe(true)
+    expect((await grade('exact', { output: 'Paris', hint: 'paris' })).pass).toBe(false)
+    expect(
+      (await grade('exact', { output: 'Paris', metadata: { exact: { expected: 'paris', ignoreCase: true } } })).pass,
+    ).toBe(true)
+  })
+
+  test('contains scores the share of expected strings found', async () => {
+    expect((await grade('contains', { output: 'The answer is 4', hint: '4' })).pass).toBe(true)
+
+    const result = await grade('contains', {
+      output: 'Alpha and beta',
+      metadata: { contains: { expected: ['alpha', 'gamma'], ignoreCase: true } },
+    })
+    expect(result.pass).toBe(false)
+    expect(result.score).toBe(0.5)
+    expect(result.reasoning).toBe('Missing: gamma')
+  })
+
+  test('regex matches the hint or a configured pattern', async () => {
+    expect((await grade('regex', { output: 'v1.2.3', hint: '^v\\d+\\.\\d+' })).pass).toBe(true)
+    expect(
+      (await grade('regex', { output: 'HELLO', metadata: { regex: { pattern: 'hello', flags: 'i' } } })).pass,
+    ).toBe(true)
+  })
+
+  test('json checks parsing and the JSON Schema', async () => {
+    const schema = { type: 'object', properties: { n: { type: 'number' } }, required: ['n'] }
+
+    expect((await grade('json', { output: 'not json' })).pass).toBe(false)
+    expect((await grade('json', { output: '[1]' })).pass).toBe(true)
+    expect((await grade('json', { output: '{"n": 1}', metadata: { json: { schema } } })).pass).toBe(true)
+    expect((await grade('json', { output: '{"n": "1"}', metadata: { json: { schema } } })).pass).toBe(false)
+  })
+
+  test('numeric compares the last number within a tolerance', async () => {
+    expect((await grade('numeric', { output: 'About 3.14159 total', hint: '3.14' })).pass).toBe(false)
+    expect(
+      (
+        await grade('numeric', {
+          output: 'Step 1 gives 1,000.4',
+          metadata: { numeric: { expected: 1000, tolerance: 0.5 } },
+        })
+      ).pass,
+    ).toBe(true)
+    expect((await grade('numeric', { output: 'none', hint: '1' })).reasoning).toBe('Output contains no number')
+  })
+
+  test('reports missing configuration and invalid metadata', async () => {
+    await expect(grade('exact', {})).rejects.toThrow('builtin:exact needs a hint')
+    await expect(grade('regex', { metadata: { regex: { flags: 1 } } })).rejects.toThrow('Invalid metadata.regex')
+  })
+})
+
+// ============================================================================
+// Trajectory and Workspace Graders
+// ============================================================================
+
+describe('builtin trajectory and workspace graders', () => {
+  const cwd = join(tmpdir(), `builtin-graders-${process.pid}`)
+
+  beforeAll(async () => {
+    await mkdir(join(cwd, 'src'), { recursive: true })
+    await Bun.write(join(cwd, 'out.txt'), 'hello world')
+  })
+
+  afterAll(async () => {
+    await rm(cwd, { recursive: true, force: true })
+  })
+
+  test('tools checks required and forbidden calls', async () => {
+    const trajectory = [{ type: 'tool_call' as const, name: 'Read', status: 'completed', timestamp: 0 }]
+
+    expect((await grade('tools', { trajectory, metadata: { tools: { required: ['Read'] } } })).pass).toBe(true)
+
+    const result = await grade('tools', {
+      trajectory,
+      metadata: { tools: { required: ['Write'], forbidden: ['Read'] } },
+    })
+    expect(result.pass).toBe(false)
+    expect(result.reasoning).toBe('Tools not called: Write; forbidden but called: Read')
+  })
+
+  test('file checks existence and contents in cwd', async () => {
+    expect(
+      (await grade('file', { cwd, metadata: { file: { exists: ['out.txt'], contains: { 'out.txt': 'world' } } } }))
+        .pass,
+    ).toBe(true)
+
+    const result = await grade('file', { cwd, metadata: { file: { exists: ['nope.txt'], missing: ['out.txt'] } } })
+    expect(result.reasoning).toBe('nope.txt does not exist; out.txt exists')
+    await expect(grade('file', { metadata: { file: { exists: ['a'] } } })).rejects.toThrow('needs a working directory')
+  })
+
+  test('file treats directories as existing', async () => {
+    expect((await grade('file', { cwd, metadata: { file: { exists: ['src'], missing: ['build'] } } })).pass).toBe(true)
+
+    const result = await grade('file', { cwd, metadata: { file: { missing: ['src'], contains: { src: 'x' } } } })
+    expect(result.reasoning).toBe('src exists; src is not a file')
+  })
+
+  test('command passes on exit 0 in cwd', async () => {
+    expect((await grade('command', { cwd, metadata: { command: 'grep -q hello out.txt' } })).pass).toBe(true)
+
+    const result = await grade('command', { cwd, metadata: { command: { run: 'echo broken >&2; exit 3' } } })
+    expect(result.pass).toBe(false)
+    expect(result.reasoning).toBe("'echo broken >&2; exit 3' exited with code 3: broken")
+    expect(result.outcome).toEqual({ exitCode: 3 })
+  })
+
+  test('command stops at its own timeout without waiting for child processes', async () => {
+    const grader = await loadGrader('builtin:command', { timeout: 0 })
+    const startTime = Date.now()
+    const result = await grader({
+      input: 'q',
+      output: '',
+      cwd,
+      metadata: { command: { run: 'sleep 4; true', timeout: 300 } },
+    })
+
+    expect(result.pass).toBe(false)
+    expect(result.reasoning).toBe("'sleep 4; true' timed out after 300ms")
+    expect(Date.now() - startTime).toBeLessThan(2000)
+  })
+
+  test('command is killed when the grader call times out', async () => {
+    const grader = await loadGrader('builtin:command', { timeout: 200 })
+    const metadata = { command: { run: 'sleep 0.5 && touch late.txt', timeout: 10000 } }
+
+    await expect(grader({ input: 'q', output: '', cwd, metadata })).rejects.toThrow('Grader timed out after 200ms')
+    await Bun.sleep(600)
+    expect(await Bun.file(join(cwd, 'late.txt')).exists()).toBe(false)
+  })
+})
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+describe('builtin grader selection', () => {
+  test('loadGrader resolves builtin:<name>', async () => {
+    const grader = await loadGrader('builtin:contains')
+    expect((await grader({ input: 'q', output: 'abc', hint: 'b' })).pass).toBe(true)
+    await expect(loadGrader('builtin:nope')).rejects.toThrow('Unknown builtin grader: nope')
+    await expect(loadGrader('builtin:constructor')).rejects.toThrow('Unknown builtin grader: constructor')
+    await expect(loadGrader('builtin:toString')).rejects.toThrow('Unknown builtin grader: toString')
+  })
+
+  test('builtins combine under their own names', async () => {
+    const grader = await loadGraders(['builtin:contains', 'strict:builtin:exact'])
+    const result = await grader({ input: 'q', output: 'abc', hint: 'b' })
+
+    expect(Object.keys(result.scores ?? {})).toEqual(['contains', 'strict'])
+    expect(result.pass).toBe(false)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for trajectory expectations.
+ *
+ * @remarks
+ * Tests for:
+ * - evaluateExpectations: each rule, per-rule scores and the overall verdict
+ * - builtin:expectations: reading and validating `metadata.expectations`
+ *
+ * @packageDocumentation
+ */
+
+import { describe, expect, test } from 'bun:test'
+import type { TrajectoryStep } from '../../schemas.ts'
+import { getBuiltinGrader } from '../builtin.ts'
+import { evaluateExpectations } from '../expectations.ts'
+
+const call = (name: string, input?: unknown): TrajectoryStep => ({
+  type: 'tool_call',
+  name,
+  status: 'completed',
+  input,
+  timestamp: 0,
+})
+
+const trajectory: TrajectoryStep[] = [
+  { type: 'message', content: 'Looking at the file', timestamp: 0 },
+  call('Read', { file_path: 'a.ts' }),
+  call('Edit', { file_path: 'a.ts' }),
+  call('Write', { file_path: 'b.ts' }),
+  call('Bash', { command: 'bun test' }),
+  call('Bash', { command: 'bun test' }),
+  { type: 'message', content: 'Done', timestamp: 1 },
+]
+
+// ============================================================================
+// evaluateExpectations
+// ============================================================================
+
+describe('evaluateExpectations', () => {
+  test('passes when every rule holds', () => {
+    const result = evaluateExpectations(trajectory, {
+      toolOrder: ['Read', 'Edit', 'Bash'],
+      forbiddenTools: ['WebFetch'],
+      maxToolCalls: 5,
+      maxTurns: 2,
+    })
+
+    expect(result.pass).toBe(true)
+    expect(result.score).toBe(1)
+    expect(result.reasoning).toBe('All 4 trajectory expectations met')
+    expect(Object.keys(result.scores ?? {})).toEqual(['toolOrder', 'forbiddenTools', 'maxToolCalls', 'maxTurns'])
+  })
+
+  test('reports where the tool order broke', () => {
+    const result = evaluateExpectations(trajectory, { toolOrder: ['Edit', 'Read'] })
+
+    expect(result.pass).toBe(false)
+    expect(result.scores?.toolOrder?.reasoning).toBe('Expected tool order Edit → Read; matched Edit, then no Read')
+  })
+
+  test('checks forbidden tools and budgets', () => {
+    const result = evaluateExpectations(trajectory, { forbiddenTools: ['Bash'], maxToolCalls: 3, maxTurns: 1 })
+
+    expect(result.score).toBe(0)
+    expect(result.reasoning).toBe(
+      'forbiddenTools: Forbidden tools called: Bash (2×)\nmaxToolCalls: 5 tool calls (max 3)\nmaxTurns: 2 turns (max 1)',
+    )
+  })
+
+  test('requires an earlier call, optionally on the same input', () => {
+    const anyRead = evaluateExpectations(trajectory, { requireBefore: [{ tool: ['Edit', 'Write'], requires: 'Read' }] })
+    expect(anyRead.pass).toBe(true)
+
+    const sameFile = evaluateExpectations(trajectory, {
+      requireBefore: [{ tool: ['Edit', 'Write'], requires: 'Read', sameInput: 'file_path' }],
+    })
+    expect(sameFile.pass).toBe(false)
+    expect(sameFile.scores?.requireBefore?.reasoning).toBe('Write (file_path="b.ts") called without an earlier Read')
+  })
+
+  test('flags repeated identical calls and scores the share of rules passed', () => {
+    const result = evaluateExpectations(trajectory, { noRepeatedCalls: true, maxTurns: 5 })
+
+    expect(result.pass).toBe(false)
+    expect(result.score).toBe(0.5)
+    expect(result.scores?.noRepeatedCalls?.reasoning).toBe('Repeated identical calls: Bash {"command":"bun test"} (2×)')
+  })
+})
+
+// ============================================================================
+// builtin:expectations
+// ============================================================================
+
+describe('builtin:expectations', () => {
+  const grader = getBuiltinGrader('expectations')
+
+  test('reads metadata.expectations', async () => {
+    const result = await grader({
+      input: 'q',
+      output: 'Done',
+      trajectory,
+      metadata: { expectations: { maxToolCalls: 10 } },
+    })
+
+    expect(result.pass).toBe(true)
+    expect(result.scores?.maxToolCalls).toEqual({ pass: true, score: 1, reasoning: '5 tool calls (max 10)' })
+  })
+
+  test('rejects missing or empty expectations', async () => {
+    await expect(grader({ input: 'q', output: '' })).rejects.toThrow('builtin:expectations needs metadata.expectations')
+    await expect(grader({ input: 'q', output: '', metadata: { expectations: {} } })).rejects.toThrow(
+      'At least one expectation is required',
+    )
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for the LLM-as-judge grader.
+ *
+ * @remarks
+ * Tests for:
+ * - loadRubric: markdown frontmatter and YAML rubrics
+ * - parseJudgeVerdict: weighting, code fences and missing criteria
+ * - createJudgeGrader: requests against a local mock endpoint and verdict caching
+ *
+ * @packageDocumentation
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdir, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Server } from 'bun'
+import { loadGrader } from '../../schemas/grader-loader.ts'
+import {
+  createJudgeGrader,
+  formatTrajectoryExcerpt,
+  type JudgeRubric,
+  loadRubric,
+  parseJudgeVerdict,
+} from '../llm-judge.ts'
+
+const tempDir = join(tmpdir(), `llm-judge-${process.pid}`)
+
+const rubric: JudgeRubric = {
+  criteria: [
+    { name: 'correctness', description: 'The answer is right', weight: 3 },
+    { name: 'clarity', description: 'The answer is clear', weight: 1 },
+  ],
+  passThreshold: 0.7,
+}
+
+beforeAll(async () => {
+  await mkdir(tempDir, { recursive: true })
+})
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+// ============================================================================
+// loadRubric
+// ============================================================================
+
+describe('loadRubric', () => {
+  test('reads markdown frontmatter and uses the body as instructions', async () => {
+    const path = join(tempDir, 'rubric.md')
+    await Bun.write(
+      path,
+      `---
+model: judge-model
+criteria:
+  - name: correctness
+    description: The answer is right
+    weight: 2
+---
+Be strict about arithmetic.
+`,
+    )
+
+    const loaded = await loadRubric(path)
+
+    expect(loaded).toEqual({
+      model: 'judge-model',
+      criteria: [{ name: 'correctness', description: 'The answer is right', weight: 2 }],
+      passThreshold: 0.5,
+      instructions: 'Be strict about arithmetic.',
+    })
+  })
+
+  test('reads YAML rubrics', async () => {
+    const path = join(tempDir, 'rubric.yaml')
+    await Bun.write(path, 'passThreshold: 0.8\ncriteria:\n  - name: tone\n    description: Polite\n')
+
+    const loaded = await loadRubric(path)
+
+    expect(loaded.passThreshold).toBe(0.8)
+    expect(loaded.criteria[0]?.weight).toBe(1)
+  })
+
+  test('rejects rubrics without criteria', async () => {
+    const path = join(tempDir, 'empty.md')
+    await Bun.write(path, '# Just a heading\n')
+
+    await expect(loadRubric(path)).rejects.toThrow('Invalid rubric')
+  })
+})
+
+// ============================================================================
+// parseJudgeVerdict / formatTrajectoryExcerpt
+// ============================================================================
+
+describe('parseJudgeVerdict', () => {
+  test('weights criteria and records each under scores', () => {
+    const content =
+      '```json\n{"criteria": {"correctness": {"score": 1, "reasoning": "right"}, "clarity": {"score": 0.2}}, "reasoning": "mostly good"}\n```'
+
+    const result = parseJudgeVerdict(content, rubric)
+
+    expect(result.score).toBeCloseTo(0.8)
+    expect(result.pass).toBe(true)
+    expect(result.reasoning).toBe('mostly good')
+    expect(result.scores).toEqual({
+      correctness: { pass: true, score: 1, reasoning: 'right' },
+      clarity: { pass: false, score: 0.2 },
+    })
+  })
+
+  test('rejects replies without a verdict or with a missing criterion', () => {
+    expect(() => parseJudgeVerdict('I cannot grade this', rubric)).toThrow('no JSON verdict')
+    expect(() => parseJudgeVerdict('{"criteria": {"correctness": {"score": 1}}}', rubric)).toThrow(
+      "missing criterion 'clarity'",
+    )
+  })
+})
+
+describe('formatTrajectoryExcerpt', () => {
+  test('keeps the last steps and notes the omitted ones', () => {
+    const excerpt = formatTrajectoryExcerpt(
+      [
+        { type: 'thought', content: 'first', timestamp: 0 },
+        { type: 'tool_call', name: 'Read', status: 'completed', input: { file_path: 'a.ts' }, timestamp: 1 },
+        { type: 'message', content: 'done\nnow', timestamp: 2 },
+      ],
+      2,
+    )
+
+    expect(excerpt).toBe(
+      '(1 earlier steps omitted)\n[tool_call] Read (completed) {"file_path":"a.ts"}\n[message] done now',
+    )
+  })
+})
+
+// ============================================================================
+// createJudgeGrader (mock endpoint)
+// ============================================================================
+
+describe('createJudgeGrader', () => {
+  let server: Server<undefined>
+  let requests: Record<string, unknown>[] = []
+  let reply = ''
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        requests.push({ ...((await req.json()) as Record<string, unknown>), auth: req.headers.get('authorization') })
+        if (reply === 'error') return new Response('overloaded', { status: 503 })
+        return Response.json({ choices: [{ message: { role: 'assistant', content: reply } }] })
+      },
+    })
+  })
+
+  afterAll(() => {
+    server.stop(true)
+  })
+
+  beforeEach(() => {
+    requests = []
+    reply = '{"criteria": {"correctness": {"score": 1}, "clarity": {"score": 1}}}'
+  })
+
+  const params = {
+    input: 'What is 2+2?',
+    output: '4',
+    hint: 'four',
+    trajectory: [{ type: 'message' as const, content: '4', timestamp: 0 }],
+  }
+
+  test('sends input, hint, trajectory and output to the model', async () => {
+    const grader = createJudgeGrader(rubric, { baseUrl: server.url.href, model: 'mock', apiKey: 'k' })
+
+    const result = await grader(params)
+
+    expect(result.pass).toBe(true)
+    expect(result.score).toBe(1)
+    const [request] = requests
+    expect(request?.model).toBe('mock')
+    expect(request?.auth).toBe('Bearer k')
+    const messages = request?.messages as { role: string; content: string }[]
+    expect(messages[0]?.content).toContain('- correctness: The answer is right')
+    expect(messages[1]?.content).toContain('## Input\nWhat is 2+2?')
+    expect(messages[1]?.content).toContain('## Hint\nfour')
+    expect(messages[1]?.content).toContain('## Trajectory (excerpt)\n[message] 4')
+    expect(messages[1]?.content).toContain('## Output\n4')
+  })
+
+  test('caches verdicts in memory and on disk', async () => {
+    const cacheDir = join(tempDir, 'cache')
+    const config = { baseUrl: server.url.href, model: 'mock', cacheDir }
+
+    await createJudgeGrader(rubric, config)(params)
+    const grader = createJudgeGrader(rubric, config)
+    await grader(params)
+    await grader(params)
+
+    expect(requests).toHaveLength(1)
+    expect(await readdir(cacheDir)).toHaveLength(1)
+  })
+
+  test('surfaces HTTP errors', async () => {
+    reply = 'error'
+    const grader = createJudgeGrader(rubric, { baseUrl: server.url.href, model: 'mock' })
+
+    await expect(grader(params)).rejects.toThrow('Judge request failed with status 503: overloaded')
+  })
+
+  test('requires a model', () => {
+    expect(() => createJudgeGrader(rubric, { baseUrl: server.url.href })).toThrow('Judge model not set')
+  })
+
+  test('is selected by loadGrader for rubric files', async () => {
+    const path = join(tempDir, 'loader-rubric.yml')
+    await Bun.write(
+      path,
+      'model: mock\ncriteria:\n  - name: correctness\n    description: Right\n  - name: clarity\n    description: Clear\n',
+    )
+    const previous = process.env.JUDGE_BASE_URL
+    process.env.JUDGE_BASE_URL = server.url.href
+
+    try {
+      const grader = await loadGrader(path)
+      const result = await grader(params)
+      expect(Object.keys(result.scores ?? {})).toEqual(['correctness', 'clarity'])
+    } finally {
+      if (previous === undefined) delete process.env.JUDGE_BASE_URL
+      else process.env.JUDGE_BASE_URL = previous
+    }
+  })
+})
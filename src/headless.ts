@@ -24,43 +24,145 @@
 
 // Schema definitions and parsing
 export {
+  AccumulateConfigSchema,
+  EnvMapSchema,
   HeadlessAdapterSchema,
+  HeadlessAdapterV2Schema,
+  mergeHeadlessConfig,
   OutputConfigSchema,
   OutputEventExtractSchema,
   OutputEventMappingSchema,
   OutputEventMatchSchema,
   PromptConfigSchema,
   parseHeadlessConfig,
+  parsePromptEnv,
   ResultConfigSchema,
   ResumeConfigSchema,
+  RetryOnSchema,
+  resolveHeadlessProfiles,
+  SandboxConfigSchema,
+  SandboxMountSchema,
   safeParseHeadlessConfig,
+  ToolCorrelationSchema,
+  UsageConfigSchema,
+  UsagePricingSchema,
 } from './headless/headless.schemas.ts'
 // Types
 export type {
+  AccumulateConfig,
+  EnvMap,
   HeadlessAdapterConfig,
+  HeadlessAdapterV2Config,
   OutputConfig,
   OutputEventExtract,
   OutputEventMapping,
   OutputEventMatch,
   PromptConfig,
+  ResolveProfileOptions,
   ResultConfig,
   ResumeConfig,
+  RetryOn,
+  SandboxConfig,
+  SandboxMount,
+  ToolCorrelation,
+  UsageConfig,
+  UsagePricing,
 } from './headless/headless.types.ts'
+export type {
+  AdapterInference,
+  InferAdapterOptions,
+  InferredAdapterSchema,
+  InferredEventGroup,
+} from './headless/headless-adapter-infer.ts'
+// Adapter inference
+export { inferAdapterSchema } from './headless/headless-adapter-infer.ts'
+export type {
+  AdapterIssue,
+  AdapterTestReport,
+  MappingReport,
+  UnmappedLine,
+} from './headless/headless-adapter-test.ts'
+// Adapter linting and dry runs
+export { lintAdapterSchema, testAdapterSchema } from './headless/headless-adapter-test.ts'
 // CLI entry point
 export { headless } from './headless/headless-cli.ts'
+export type {
+  FixtureFile,
+  FixtureLine,
+  FixtureRecorder,
+  FixtureReplayer,
+  FixtureTurn,
+  SessionFixture,
+} from './headless/headless-fixtures.ts'
+// Record and replay fixtures
+export { createFixtureRecorder, createFixtureReplayer } from './headless/headless-fixtures.ts'
 export type { HistoryBuilder, HistoryBuilderConfig, HistoryTurn } from './headless/headless-history-builder.ts'
 // History builder
 export { createHistoryBuilder } from './headless/headless-history-builder.ts'
+export type { JsonPathSegment, JsonPathSelector } from './headless/headless-jsonpath.ts'
+// JSONPath
+export { compileJsonPath, queryJsonPath } from './headless/headless-jsonpath.ts'
+export type {
+  MockAction,
+  MockEvent,
+  MockResponse,
+  MockScenario,
+  MockTurnContext,
+} from './headless/headless-mock-agent.ts'
+// Mock agent
+export {
+  buildMockTurn,
+  loadMockScenario,
+  MockEventSchema,
+  MockResponseSchema,
+  MockScenarioSchema,
+  mockAgent,
+  selectMockResponse,
+} from './headless/headless-mock-agent.ts'
 export type {
   OutputParser,
   ParsedResult,
   ParsedUpdate,
   ResultParseResult,
   SessionUpdateType,
+  TokenUsage,
+  ValueMatcher,
 } from './headless/headless-output-parser.ts'
 // Output parser
-export { createOutputParser, jsonPath, jsonPathString } from './headless/headless-output-parser.ts'
+export {
+  addTokenUsage,
+  computeUsageCost,
+  createOutputParser,
+  jsonPath,
+  jsonPathString,
+  matchesValue,
+} from './headless/headless-output-parser.ts'
+export type {
+  CachedSessionManager,
+  ClearCacheOptions,
+  ResponseCacheConfig,
+  ResponseCacheEntry,
+  ResponseCacheStats,
+  ResponseCacheSummary,
+} from './headless/headless-response-cache.ts'
+// Response cache
+export {
+  clearResponseCache,
+  createCachedSessionManager,
+  summarizeResponseCache,
+} from './headless/headless-response-cache.ts'
+export type { SandboxRunOptions } from './headless/headless-sandbox.ts'
+// Sandbox
+export {
+  buildSandboxCommand,
+  getSandboxRuntime,
+  getSandboxWorkdir,
+  removeSandboxContainer,
+} from './headless/headless-sandbox.ts'
+// Schema files (extends and profiles)
+export { loadHeadlessConfig, resolveHeadlessConfigFile } from './headless/headless-schema-loader.ts'
 export type {
+  CreateSessionOptions,
   ProcessExitInfo,
   PromptResult,
   Session,
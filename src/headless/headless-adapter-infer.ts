@@ -0,0 +1,445 @@
+/**
+ * Draft adapter schemas inferred from captured agent output.
+ *
+ * @remarks
+ * Groups the JSON events in a sample transcript by their type-like field
+ * (`type`, `event`, `kind`), including typed items inside content arrays
+ * such as `message.content[*].type`. Each group is classified by its type
+ * name and fields into an `outputEvents` mapping with extract paths, or
+ * into the result event. The session id, token usage and tool call
+ * correlation are found the same way.
+ *
+ * The draft is a starting point: flags the sample cannot show (prompt,
+ * output format, resume) are placeholders, and every guess is listed in
+ * the notes for review.
+ *
+ * @packageDocumentation
+ */
+
+import type { z } from 'zod'
+import {
+  HeadlessAdapterSchema,
+  type OutputEventMapping,
+  PassthroughTypeMapSchema,
+  type ToolCorrelation,
+  type UsageConfig,
+} from './headless.schemas.ts'
+import { jsonPath } from './headless-output-parser.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Draft schema, as written to disk (defaults not applied) */
+export type InferredAdapterSchema = z.input<typeof HeadlessAdapterSchema>
+
+/** One group of sample events sharing a type value */
+export type InferredEventGroup = {
+  /** JSONPath of the type field (e.g., `$.type` or `$.message.content[*].type`) */
+  path: string
+  /** Type value shared by the group */
+  value: string
+  /** Events or content items in the group */
+  count: number
+  /** What the group was mapped to (undefined when skipped) */
+  role?: 'thought' | 'tool_call' | 'tool_result' | 'message' | 'plan' | 'result' | 'container'
+}
+
+/** Options for {@link inferAdapterSchema} */
+export type InferAdapterOptions = {
+  /** Adapter name (default: `inferred-agent`) */
+  name?: string
+  /** Command to run the agent (default: `[name]`) */
+  command?: string[]
+}
+
+/** Inferred draft schema with the evidence behind it */
+export type AdapterInference = {
+  /** Draft adapter schema */
+  schema: InferredAdapterSchema
+  /** Event groups found in the sample */
+  groups: InferredEventGroup[]
+  /** Guesses and placeholders to review */
+  notes: string[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Fields that name an event's type, in order of preference */
+const TYPE_FIELDS = ['type', 'event', 'kind', 'event_type', 'eventType']
+
+/** Field candidates for extract paths, in order of preference */
+const FIELDS = {
+  text: ['text', 'content', 'message', 'delta.text', 'delta', 'thinking', 'thought', 'reasoning', 'output_text'],
+  thought: ['thinking', 'thought', 'reasoning', 'text', 'content', 'delta.thinking', 'delta.text'],
+  title: ['name', 'tool_name', 'tool', 'title', 'function.name', 'command'],
+  input: ['input', 'arguments', 'args', 'parameters', 'function.arguments'],
+  output: ['output', 'content', 'result', 'response'],
+  result: ['result', 'final_output', 'output', 'response', 'text', 'content', 'message'],
+  startId: ['id', 'call_id', 'tool_call_id', 'tool_use_id'],
+  resultId: ['tool_use_id', 'tool_call_id', 'call_id', 'id'],
+}
+
+/** Type values that look like the end of a turn */
+const FINAL_TYPE = /(^|[._-])(result|final|done|complete|completed|finish|finished|end)([._-]|$)/i
+
+/** Keys holding a session id */
+const SESSION_ID_KEY = /^(session_?id|thread_?id|conversation_?id)$/i
+
+/** Token count keys in usage objects */
+const USAGE_KEYS = {
+  inputTokens: ['input_tokens', 'prompt_tokens', 'inputTokens', 'promptTokens'],
+  outputTokens: ['output_tokens', 'completion_tokens', 'outputTokens', 'completionTokens'],
+  cacheReadTokens: ['cache_read_input_tokens', 'cached_input_tokens', 'cacheReadTokens'],
+  cacheWriteTokens: ['cache_creation_input_tokens', 'cacheWriteTokens'],
+} as const
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type JsonObject = Record<string, unknown>
+
+/** Working state for one event group */
+type Group = InferredEventGroup & { items: JsonObject[]; field: string; nested: boolean }
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** Append a key to a JSONPath, quoting keys that are not identifiers */
+const childPath = (base: string, key: string): string =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${base}.${key}` : `${base}['${key.replace(/'/g, "\\'")}']`
+
+/** First type-like field holding a string */
+const typeFieldOf = (item: JsonObject): string | undefined =>
+  TYPE_FIELDS.find((field) => typeof item[field] === 'string' && item[field] !== '')
+
+/**
+ * First candidate path whose value has the wanted kind in most items.
+ *
+ * @returns Relative JSONPath (e.g., `$.text`), or undefined
+ */
+const pickPath = (items: JsonObject[], candidates: string[], kind: 'string' | 'any'): string | undefined => {
+  for (const candidate of candidates) {
+    const path = `$.${candidate}`
+    const hits = items.filter((item) => {
+      const value = jsonPath(item, path)
+      return kind === 'string' ? typeof value === 'string' : value !== undefined && value !== null
+    }).length
+    if (hits > 0 && hits >= items.length / 2) return path
+  }
+  return undefined
+}
+
+/** Paths to arrays of typed objects in an event (`$.content`, `$.message.content`) */
+const typedArrays = (event: JsonObject): { path: string; items: JsonObject[] }[] => {
+  const found: { path: string; items: JsonObject[] }[] = []
+  const visit = (value: unknown, path: string, depth: number) => {
+    if (!isObject(value) || depth > 2) return
+    for (const [key, child] of Object.entries(value)) {
+      const childAt = childPath(path, key)
+      if (Array.isArray(child)) {
+        const items = child.filter(isObject)
+        if (items.length > 0 && items.some((item) => typeFieldOf(item))) found.push({ path: childAt, items })
+      } else {
+        visit(child, childAt, depth + 1)
+      }
+    }
+  }
+  visit(event, '$', 0)
+  return found
+}
+
+/** First path to a session id in an event (top level or one object down) */
+const findSessionIdPath = (event: JsonObject): string | undefined => {
+  for (const [key, value] of Object.entries(event)) {
+    if (SESSION_ID_KEY.test(key) && typeof value === 'string' && value) return childPath('$', key)
+  }
+  for (const [key, value] of Object.entries(event)) {
+    if (!isObject(value)) continue
+    for (const [innerKey, inner] of Object.entries(value)) {
+      if (SESSION_ID_KEY.test(innerKey) && typeof inner === 'string' && inner) {
+        return childPath(childPath('$', key), innerKey)
+      }
+    }
+  }
+  return undefined
+}
+
+/** Usage paths for an event with a token count object, or undefined */
+const findUsagePaths = (event: JsonObject): Omit<UsageConfig, 'match' | 'pricing'> | undefined => {
+  for (const base of ['$.usage', '$.message.usage', '$.token_usage', '$.tokenUsage']) {
+    const usage = jsonPath(event, base)
+    if (!isObject(usage)) continue
+    const paths: Omit<UsageConfig, 'match' | 'pricing'> = {}
+    for (const [field, keys] of Object.entries(USAGE_KEYS) as [keyof typeof USAGE_KEYS, readonly string[]][]) {
+      const key = keys.find((candidate) => typeof usage[candidate] === 'number')
+      if (key) paths[field] = childPath(base, key)
+    }
+    if (paths.inputTokens || paths.outputTokens) return paths
+  }
+  return undefined
+}
+
+/** Role of a group, from its type name and fields */
+const classify = (group: Group): InferredEventGroup['role'] => {
+  const name = group.value.toLowerCase()
+  const has = (candidates: string[], kind: 'string' | 'any' = 'any') => !!pickPath(group.items, candidates, kind)
+
+  if (/tool_?result|tool_?output|function_call_output|tool_?response|tool_?end/.test(name)) return 'tool_result'
+  if (/think|thought|reason/.test(name)) return 'thought'
+  if (/tool|function_call|command|call/.test(name) && has(FIELDS.title, 'string')) return 'tool_call'
+  if (/plan|todo/.test(name)) return 'plan'
+  if (/message|text|assistant|content|delta|agent|answer|response|output/.test(name) && has(FIELDS.text, 'string')) {
+    return 'message'
+  }
+  return undefined
+}
+
+/** Mapping for a classified group */
+const toMapping = (group: Group, correlated: boolean): OutputEventMapping | undefined => {
+  const match = { path: group.path, value: group.value }
+  const extract: Record<string, string> = {}
+  const add = (key: string, path: string | undefined) => {
+    if (path) extract[key] = path
+  }
+
+  switch (group.role) {
+    case 'thought':
+    case 'message':
+      add('content', pickPath(group.items, group.role === 'thought' ? FIELDS.thought : FIELDS.text, 'string'))
+      return {
+        match,
+        emitAs: group.role,
+        extract,
+        ...(/delta|chunk/.test(group.value.toLowerCase()) && { accumulate: true }),
+      }
+    case 'tool_call':
+      add('title', pickPath(group.items, FIELDS.title, 'string'))
+      add('input', pickPath(group.items, FIELDS.input, 'any'))
+      add('status', pickPath(group.items, ['status'], 'string') ?? "'pending'")
+      return { match, emitAs: 'tool_call', extract }
+    case 'tool_result':
+      if (!correlated) add('title', pickPath(group.items, FIELDS.title, 'string'))
+      add('output', pickPath(group.items, FIELDS.output, 'any'))
+      add('status', pickPath(group.items, ['status'], 'string') ?? "'completed'")
+      return { match, emitAs: 'tool_call', extract }
+    case 'plan':
+      return { match, emitAs: 'plan' }
+    default:
+      return undefined
+  }
+}
+
+/** Whether a type value looks like the end of a turn (and not a tool result) */
+const isFinalType = (value: string): boolean => FINAL_TYPE.test(value) && !/tool|function/i.test(value)
+
+/** Fields passthrough mode reads from each event */
+const PASSTHROUGH_PATHS: Record<string, string[]> = {
+  content: ['$.content'],
+  title: ['$.name', '$.title'],
+  status: ['$.status', "'pending'"],
+  input: ['$.input'],
+  output: ['$.output'],
+}
+
+/** Whether passthrough mode would read the same updates as the mappings */
+const fitsPassthrough = (mappings: OutputEventMapping[], groups: Group[], field: string): boolean =>
+  mappings.length > 0 &&
+  groups.every((group) => !group.nested && group.field === field && group.role !== 'tool_result') &&
+  mappings.every(
+    (mapping) =>
+      !mapping.accumulate &&
+      Object.entries(mapping.extract ?? {}).every(([key, path]) => PASSTHROUGH_PATHS[key]?.includes(path)),
+  )
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+/**
+ * Infer a draft adapter schema from a sample JSONL transcript.
+ *
+ * @remarks
+ * The result event is the last top-level group whose type name looks final
+ * (`result`, `done`, `complete`), or else the type of the last event. Usage
+ * is read from the result event when it carries token counts, so turns are
+ * not counted twice. When every mapped group is keyed by one top-level type
+ * field and reads only the fields passthrough mode reads, the draft uses
+ * `outputMode: 'passthrough'` with a `passthroughTypeMap` instead of
+ * `outputEvents`.
+ *
+ * @param stdout - Captured agent stdout (JSONL)
+ * @param options - Adapter name and command
+ * @returns Draft schema, event groups and review notes
+ * @throws Error if the sample has no typed JSON events, or only typed
+ *   content items and no typed top-level event
+ *
+ * @public
+ */
+export const inferAdapterSchema = (stdout: string, options: InferAdapterOptions = {}): AdapterInference => {
+  const name = options.name ?? 'inferred-agent'
+  const notes: string[] = []
+  const events = stdout
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        const event: unknown = JSON.parse(line)
+        return isObject(event) ? [event] : []
+      } catch {
+        return []
+      }
+    })
+
+  // Group events and typed content items by type value
+  const groups = new Map<string, Group>()
+  const addItem = (item: JsonObject, base: string, nested: boolean): Group | undefined => {
+    const field = typeFieldOf(item)
+    if (!field) return undefined
+    const path = childPath(base, field)
+    const value = item[field] as string
+    const key = `${path}\u0000${value}`
+    let group = groups.get(key)
+    if (!group) {
+      group = { path, value, count: 0, items: [], field, nested }
+      groups.set(key, group)
+    }
+    group.count++
+    group.items.push(item)
+    return group
+  }
+  const containers = new Set<string>()
+  let lastTopLevel: Group | undefined
+  for (const event of events) {
+    lastTopLevel = addItem(event, '$', false) ?? lastTopLevel
+    const arrays = typedArrays(event)
+    for (const { path, items } of arrays) {
+      for (const item of items) addItem(item, `${path}[*]`, true)
+    }
+    const field = typeFieldOf(event)
+    if (field && arrays.length > 0) containers.add(`${childPath('$', field)}\u0000${event[field]}`)
+  }
+
+  if (groups.size === 0) {
+    throw new Error('No typed JSON events in the sample (expected a "type", "event" or "kind" field)')
+  }
+  if (!lastTopLevel) {
+    throw new Error(
+      'No top-level event with a type field found in sample (only nested content items are typed), so the result event cannot be inferred',
+    )
+  }
+
+  // Result event
+  const topLevel = [...groups.values()].filter((group) => !group.nested)
+  const finals = topLevel.filter((group) => isFinalType(group.value))
+  const resultGroup = finals.find((group) => /result/i.test(group.value)) ?? finals.at(-1) ?? lastTopLevel
+  resultGroup.role = 'result'
+  let contentPath = pickPath(resultGroup.items, FIELDS.result, 'string')
+  if (!contentPath) {
+    contentPath = '$.result'
+    notes.push(`result.contentPath: no text field on "${resultGroup.value}" events; check the path`)
+  }
+  if (finals.length === 0) {
+    notes.push(`result: no final-looking event type; using the last event type "${resultGroup.value}"`)
+  }
+
+  // Mappings
+  for (const group of groups.values()) {
+    if (group.role) continue
+    if (containers.has(`${group.path}\u0000${group.value}`)) {
+      group.role = 'container'
+      continue
+    }
+    group.role = classify(group)
+  }
+  const mapped = [...groups.values()].filter(
+    (group) => group.role && group.role !== 'result' && group.role !== 'container',
+  )
+
+  const starts = mapped.filter((group) => group.role === 'tool_call')
+  const results = mapped.filter((group) => group.role === 'tool_result')
+  let correlate: ToolCorrelation | undefined
+  if (starts.length > 0 && results.length > 0) {
+    const startItems = starts.flatMap((group) => group.items)
+    const resultItems = results.flatMap((group) => group.items)
+    const resultIdPath = pickPath(resultItems, FIELDS.resultId, 'string')
+    const startIdPath = pickPath(startItems, FIELDS.startId, 'string')
+    // Start events must not carry the result id field, or they would be read as results
+    if (resultIdPath && startIdPath && !startItems.some((item) => jsonPath(item, resultIdPath) !== undefined)) {
+      correlate = { startIdPath, resultIdPath }
+    } else {
+      notes.push('correlate: tool results could not be paired with tool calls by id; add correlate by hand')
+    }
+  }
+
+  const outputEvents = mapped.flatMap((group) => toMapping(group, !!correlate) ?? [])
+  for (const mapping of outputEvents) {
+    if ((mapping.emitAs === 'message' || mapping.emitAs === 'thought') && !mapping.extract?.content) {
+      notes.push(`outputEvents: no text field found for "${mapping.match.value}" events; add extract.content`)
+    }
+  }
+  const skipped = [...groups.values()].filter((group) => !group.role)
+  if (skipped.length > 0) {
+    notes.push(`Not mapped: ${skipped.map((group) => `${group.value} (${group.count})`).join(', ')}`)
+  }
+
+  // Session id and resume
+  const sessionIdPath = events.map(findSessionIdPath).find((path) => path !== undefined)
+  if (sessionIdPath) {
+    notes.push(`resume.flag: '--resume' is a placeholder; use the CLI's resume flag (session id at ${sessionIdPath})`)
+  } else {
+    notes.push("sessionMode: no session id found, so the draft uses 'iterative' (history replayed into each prompt)")
+  }
+
+  // Usage, preferring the result event so turns are not counted twice
+  let usage: UsageConfig | undefined
+  const usageEvent = resultGroup.items.find((item) => findUsagePaths(item))
+  const usageSource = usageEvent ?? events.findLast((event) => findUsagePaths(event) && typeFieldOf(event))
+  const usageField = usageSource && typeFieldOf(usageSource)
+  if (usageSource && usageField) {
+    usage = {
+      match: { path: childPath('$', usageField), value: usageSource[usageField] as string },
+      ...findUsagePaths(usageSource),
+    }
+  }
+
+  // Passthrough needs every group keyed by one field, so any top-level group's field will do
+  const typeField = lastTopLevel.field
+  const passthrough = !correlate && fitsPassthrough(outputEvents, mapped, typeField)
+  const draft: InferredAdapterSchema = {
+    version: 1,
+    name,
+    command: options.command ?? [name],
+    sessionMode: sessionIdPath ? 'stream' : 'iterative',
+    prompt: { flag: '-p' },
+    output: { flag: '', value: '' },
+    ...(sessionIdPath && { resume: { flag: '--resume', sessionIdPath } }),
+    ...(passthrough
+      ? {
+          outputMode: 'passthrough' as const,
+          passthroughTypeMap: PassthroughTypeMapSchema.parse({
+            typeField,
+            typeValues: Object.fromEntries(outputEvents.map((mapping) => [mapping.match.value, mapping.emitAs])),
+          }),
+        }
+      : { outputEvents }),
+    ...(correlate && { correlate }),
+    result: { matchPath: resultGroup.path, matchValue: resultGroup.value, contentPath },
+    ...(usage && { usage }),
+  }
+  notes.push("prompt.flag and output: '-p' and no output flag are placeholders; use the CLI's JSON streaming flags")
+
+  const parsed = HeadlessAdapterSchema.safeParse(draft)
+  if (!parsed.success) {
+    throw new Error(`Inferred schema is invalid: ${parsed.error.message}`)
+  }
+
+  return {
+    schema: draft,
+    groups: [...groups.values()].map(({ path, value, count, role }) => ({ path, value, count, role })),
+    notes,
+  }
+}
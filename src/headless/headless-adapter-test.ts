@@ -0,0 +1,318 @@
+/**
+ * Adapter schema linting and dry runs against captured agent output.
+ *
+ * @remarks
+ * `parseHeadlessConfig` only checks a schema's shape. This module finds
+ * mistakes that parse fine but misbehave at run time (invalid JSONPath,
+ * settings ignored by the session mode, mappings that can never match), and
+ * runs captured agent stdout through the schema's output parser to show
+ * which mappings matched, which lines were left unmapped, whether the
+ * `result` and `resume.sessionIdPath` matchers fired, and the trajectory a
+ * capture would record.
+ *
+ * @packageDocumentation
+ */
+
+import { extractTrajectory } from '../core/trajectory.ts'
+import type { TrajectoryStep } from '../schemas.ts'
+import type { HeadlessAdapterConfig, OutputEventMatch } from './headless.schemas.ts'
+import { compileJsonPath } from './headless-jsonpath.ts'
+import { createOutputParser, type TokenUsage } from './headless-output-parser.ts'
+import { createTurnCollector, type Session } from './headless-session-manager.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A problem found in a schema or its sample output */
+export type AdapterIssue = {
+  /** Errors break parsing; warnings are likely mistakes */
+  level: 'error' | 'warning'
+  /** Schema field the issue is about (e.g., `outputEvents[2].match.path`) */
+  path: string
+  /** What is wrong and what happens at run time */
+  message: string
+}
+
+/** How often one `outputEvents` mapping matched */
+export type MappingReport = {
+  /** Index in `outputEvents` */
+  index: number
+  /** Update type the mapping emits */
+  emitAs: string
+  /** Readable match criteria */
+  match: string
+  /** Lines this mapping handled (the first matching mapping wins) */
+  matched: number
+}
+
+/** A sample line no mapping or result matcher handled */
+export type UnmappedLine = {
+  /** Line number in the sample (1-based) */
+  line: number
+  /** Line text */
+  text: string
+}
+
+/** Dry run of a schema against sample output */
+export type AdapterTestReport = {
+  /** Non-empty lines in the sample */
+  lines: number
+  /** Lines that are not JSON */
+  nonJsonLines: number
+  /** Per-mapping match counts (empty in passthrough mode) */
+  mappings: MappingReport[]
+  /** JSON lines that produced no update and are not the result */
+  unmapped: UnmappedLine[]
+  /** Lines matching `result`, and the output a capture would record */
+  result: { matched: number; output: string }
+  /** Session id found with `resume.sessionIdPath` (only with `resume`) */
+  sessionId?: { path: string; value?: string }
+  /** Token usage summed over the sample (only when `usage` matched) */
+  usage?: TokenUsage
+  /** Trajectory a capture would record */
+  trajectory: TrajectoryStep[]
+  /** Schema and sample issues */
+  issues: AdapterIssue[]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Check a JSONPath (or a quoted literal, where literals are allowed) */
+const checkPath = (issues: AdapterIssue[], path: string, value: string, allowLiteral = false): void => {
+  if (allowLiteral && /^'.*'$/.test(value)) return
+  try {
+    compileJsonPath(value)
+  } catch (error) {
+    issues.push({
+      level: 'error',
+      path,
+      message: `Invalid JSONPath ${JSON.stringify(value)}: ${error instanceof Error ? error.message : error}`,
+    })
+  }
+}
+
+/** Readable form of match criteria */
+const describeMatch = (path: string, match: Pick<OutputEventMatch, 'value' | 'regex' | 'in'>): string => {
+  if (match.regex !== undefined) return `${path} ~ /${match.regex}/`
+  if (match.in !== undefined) return `${path} in [${match.in.join(', ')}]`
+  return `${path} = ${match.value}`
+}
+
+/** Parse a line as JSON, or undefined */
+const parseJson = (line: string): unknown => {
+  try {
+    return JSON.parse(line)
+  } catch {
+    return undefined
+  }
+}
+
+// ============================================================================
+// Lint
+// ============================================================================
+
+/**
+ * Find likely mistakes in a parsed adapter schema.
+ *
+ * @remarks
+ * Checks every JSONPath, settings the session mode ignores, stdin prompts
+ * without a `stdinFormat`, mappings shadowed by an earlier identical match,
+ * and extracts that leave steps empty.
+ *
+ * @param schema - Parsed adapter schema
+ * @returns Issues, errors first
+ *
+ * @public
+ */
+export const lintAdapterSchema = (schema: HeadlessAdapterConfig): AdapterIssue[] => {
+  const issues: AdapterIssue[] = []
+  const warn = (path: string, message: string) => issues.push({ level: 'warning', path, message })
+  const { sessionMode, prompt, output, outputEvents = [] } = schema
+
+  // Prompt and session mode
+  if (prompt.stdin && !prompt.stdinFormat) {
+    warn(
+      'prompt.stdinFormat',
+      "prompt.stdin is set without stdinFormat, so prompts are written as plain text; set 'json' for CLIs that read JSON user messages",
+    )
+  }
+  if (sessionMode === 'persistent' && prompt.flag) {
+    warn('prompt.flag', 'Ignored in persistent mode: each turn is written to stdin')
+  }
+  if (sessionMode === 'stream' && !schema.resume) {
+    warn('resume', 'Stream mode without resume: each turn of a multi-turn prompt starts a new conversation')
+  }
+  if (sessionMode !== 'stream' && schema.resume) {
+    warn('resume', `Only used in stream mode (sessionMode is '${sessionMode}')`)
+  }
+  if (sessionMode !== 'iterative' && schema.historyTemplate !== undefined) {
+    warn('historyTemplate', `Only used in iterative mode (sessionMode is '${sessionMode}')`)
+  }
+  if (!output.flag && output.value) {
+    warn('output.value', 'Ignored because output.flag is empty')
+  }
+
+  // Output parsing
+  if (schema.outputMode === 'passthrough') {
+    if (!schema.passthroughTypeMap) {
+      warn('passthroughTypeMap', "outputMode 'passthrough' needs passthroughTypeMap; outputEvents are used instead")
+    }
+  } else if (outputEvents.length === 0) {
+    warn('outputEvents', 'No output events: trajectories will only hold the final output')
+  }
+
+  const seen = new Map<string, number>()
+  outputEvents.forEach((mapping, index) => {
+    const base = `outputEvents[${index}]`
+    checkPath(issues, `${base}.match.path`, mapping.match.path)
+    for (const [key, value] of Object.entries(mapping.extract ?? {})) {
+      checkPath(issues, `${base}.extract.${key}`, value, true)
+    }
+    if (typeof mapping.accumulate === 'object' && mapping.accumulate.until) {
+      checkPath(issues, `${base}.accumulate.until.path`, mapping.accumulate.until.path)
+    }
+
+    const criteria = describeMatch(mapping.match.path, mapping.match)
+    const earlier = seen.get(criteria)
+    if (earlier !== undefined) {
+      warn(`${base}.match`, `Same match as outputEvents[${earlier}], which is tried first, so this never matches`)
+    } else {
+      seen.set(criteria, index)
+    }
+
+    if ((mapping.emitAs === 'message' || mapping.emitAs === 'thought') && !mapping.extract?.content) {
+      warn(`${base}.extract.content`, `Missing: ${mapping.emitAs} steps will be empty`)
+    }
+    // Correlated result events take the name of their start event
+    if (mapping.emitAs === 'tool_call' && !mapping.extract?.title && !schema.correlate) {
+      warn(`${base}.extract.title`, 'Missing: tool call steps will have no name')
+    }
+  })
+
+  if (schema.correlate && !outputEvents.some((mapping) => mapping.emitAs === 'tool_call')) {
+    warn('correlate', 'No outputEvents emit tool_call, so there is nothing to correlate')
+  }
+
+  // Result, resume and usage paths
+  checkPath(issues, 'result.matchPath', schema.result.matchPath)
+  checkPath(issues, 'result.contentPath', schema.result.contentPath)
+  if (schema.resume) {
+    checkPath(issues, 'resume.sessionIdPath', schema.resume.sessionIdPath)
+  }
+  if (schema.usage) {
+    const { match, pricing, ...paths } = schema.usage
+    if (match) checkPath(issues, 'usage.match.path', match.path)
+    for (const [key, value] of Object.entries(paths)) {
+      if (typeof value === 'string') checkPath(issues, `usage.${key}`, value)
+    }
+    if (Object.values(paths).every((value) => value === undefined)) {
+      warn('usage', 'No token paths set: usage and cost will never be reported')
+    }
+    if (pricing && !paths.inputTokens && !paths.outputTokens) {
+      warn('usage.pricing', 'Set without inputTokens or outputTokens: cost stays 0')
+    }
+  }
+
+  return issues.sort((a, b) => (a.level === b.level ? 0 : a.level === 'error' ? -1 : 1))
+}
+
+// ============================================================================
+// Dry Run
+// ============================================================================
+
+/**
+ * Run captured agent stdout through an adapter schema.
+ *
+ * @remarks
+ * Each line goes through the same parser and turn collector as a live
+ * capture, as if the whole sample were one turn read to the end. Mapping
+ * counts follow the parser's rule that the first matching mapping wins.
+ * Sample issues (mappings or matchers that never fired, lines a single turn
+ * would stop before) are added to the lint issues.
+ *
+ * @param schema - Parsed adapter schema
+ * @param stdout - Captured agent stdout (JSONL)
+ * @returns Dry run report
+ *
+ * @public
+ */
+export const testAdapterSchema = (schema: HeadlessAdapterConfig, stdout: string): AdapterTestReport => {
+  const issues = lintAdapterSchema(schema)
+  const warn = (path: string, message: string) => issues.push({ level: 'warning', path, message })
+  const parser = createOutputParser(schema)
+  const outputEvents =
+    schema.outputMode === 'passthrough' && schema.passthroughTypeMap ? [] : (schema.outputEvents ?? [])
+  const mappingParsers = outputEvents.map((mapping) => createOutputParser({ ...schema, outputEvents: [mapping] }))
+  const mappings: MappingReport[] = outputEvents.map((mapping, index) => ({
+    index,
+    emitAs: mapping.emitAs,
+    match: describeMatch(mapping.match.path, mapping.match),
+    matched: 0,
+  }))
+
+  const session: Session = { id: 'adapter-test', cwd: process.cwd(), active: true, turnCount: 1 }
+  const startTime = Date.now()
+  const collector = createTurnCollector(session, parser, undefined, () => {}, 0, false)
+
+  const unmapped: UnmappedLine[] = []
+  let lines = 0
+  let nonJsonLines = 0
+  let results = 0
+  let afterFirstResult = 0
+
+  stdout.split('\n').forEach((text, index) => {
+    if (!text.trim()) return
+    lines++
+    if (results > 0) afterFirstResult++
+    if (parseJson(text) === undefined) {
+      nonJsonLines++
+      return
+    }
+
+    const mapped = mappingParsers.findIndex((mappingParser) => mappingParser.parseLine(text) !== null)
+    if (mapped !== -1) mappings[mapped]!.matched++
+
+    const isResult = parser.parseResult(text).isResult
+    if (isResult) results++
+    if (!isResult && parser.parseLine(text) === null) {
+      unmapped.push({ line: index + 1, text })
+    }
+
+    collector.processLine(text)
+  })
+
+  const { output, updates, cliSessionId, usage } = collector.finish()
+
+  for (const mapping of mappings) {
+    if (mapping.matched === 0) {
+      warn(`outputEvents[${mapping.index}]`, `Matched no sample lines (${mapping.match})`)
+    }
+  }
+  if (results === 0) {
+    warn('result', 'Matched no sample lines: a turn only ends when the process exits or times out')
+  }
+  if (schema.resume && !cliSessionId) {
+    warn('resume.sessionIdPath', 'Matched no sample lines: later turns cannot resume the session')
+  }
+  if (schema.usage && !usage) {
+    warn('usage', 'Matched no sample lines: no token usage will be recorded')
+  }
+  if (schema.sessionMode !== 'persistent' && afterFirstResult > 0) {
+    warn('result', `${afterFirstResult} lines follow the first result; a single turn stops reading at the result`)
+  }
+
+  return {
+    lines,
+    nonJsonLines,
+    mappings,
+    unmapped,
+    result: { matched: results, output },
+    ...(schema.resume && { sessionId: { path: schema.resume.sessionIdPath, value: cliSessionId } }),
+    ...(usage && { usage }),
+    trajectory: extractTrajectory(updates, startTime),
+    issues,
+  }
+}
@@ -10,7 +10,7 @@
  * 2. Spawns the CLI process per schema's command + flags
  * 3. Parses stdout using schema's outputEvents mappings
  * 4. Emits session update notifications
- * 5. Manages session state for multi-turn (stream or iterative mode)
+ * 5. Manages session state for multi-turn (stream, iterative, or persistent mode)
  *
  * @packageDocumentation
  */
@@ -18,7 +18,8 @@
 import { createInterface } from 'node:readline'
 import { parseArgs } from 'node:util'
 import { PROTOCOL_VERSION } from '../schemas/constants.ts'
-import { type HeadlessAdapterConfig, parseHeadlessConfig } from './headless.schemas.ts'
+import type { HeadlessAdapterConfig } from './headless.schemas.ts'
+import { loadHeadlessConfig } from './headless-schema-loader.ts'
 import { createSessionManager, type SessionManager } from './headless-session-manager.ts'
 
 // ============================================================================
@@ -349,6 +350,7 @@ export const headless = async (args: string[]): Promise<void> => {
     args,
     options: {
       schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
       verbose: { type: 'boolean', short: 'v' },
       help: { type: 'boolean', short: 'h' },
     },
@@ -357,10 +359,11 @@ export const headless = async (args: string[]): Promise<void> => {
 
   if (values.help) {
     console.log(`
-Usage: agent-eval-harness headless --schema <path> [--verbose]
+Usage: agent-eval-harness headless --schema <path> [--profile <name>] [--verbose]
 
 Arguments:
   -s, --schema    Path to headless adapter schema (JSON)
+  --profile       Schema profile to apply (version 2 schemas)
   -v, --verbose   Show constructed commands (for debugging)
   -h, --help      Show this help message
 
@@ -374,7 +377,7 @@ Schema Format:
     "version": 1,
     "name": "my-agent",
     "command": ["my-agent-cli"],
-    "sessionMode": "stream" | "iterative",
+    "sessionMode": "stream" | "iterative" | "persistent",
     "prompt": { "flag": "-p" },
     "output": { "flag": "--output-format", "value": "stream-json" },
     "outputEvents": [...],
@@ -408,8 +411,7 @@ Examples:
 
   let schema: HeadlessAdapterConfig
   try {
-    const rawSchema = await schemaFile.json()
-    schema = parseHeadlessConfig(rawSchema)
+    schema = await loadHeadlessConfig(schemaPath, { profile: values.profile })
   } catch (error) {
     console.error(`Error: invalid schema: ${error instanceof Error ? error.message : String(error)}`)
     process.exit(1)
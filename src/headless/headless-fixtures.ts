@@ -0,0 +1,207 @@
+/**
+ * Record-and-replay fixtures for headless agent sessions.
+ *
+ * @remarks
+ * Recording saves each session's raw stdout lines, exit info, stderr and
+ * timing to a fixture directory. Replaying serves those turns back to the
+ * session manager in place of the agent, so adapter schemas, graders and
+ * pipelines can be tested without the agent CLI or a paid model.
+ *
+ * Fixtures are keyed by the session's first prompt and stored as
+ * `<hash>.json`. A file holds every session recorded for that prompt in one
+ * run (trials, retries); replay hands them out in recorded order and wraps
+ * around.
+ *
+ * @packageDocumentation
+ */
+
+import { join } from 'node:path'
+import { hashContent } from '../core/checkpoint.ts'
+import type { ProcessExitInfo } from './headless-session-manager.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One raw stdout line and when it was read */
+export type FixtureLine = {
+  /** Milliseconds since the turn started */
+  at: number
+  /** Raw stdout line */
+  line: string
+}
+
+/** One recorded turn */
+export type FixtureTurn = {
+  /** Prompt text sent for this turn (without iterative history) */
+  input: string
+  /** Raw stdout lines read during the turn */
+  lines: FixtureLine[]
+  /** Process exit information */
+  exitInfo?: ProcessExitInfo
+  /** Agent stderr written during the turn */
+  stderr?: string
+  /** Turn duration in milliseconds */
+  duration: number
+}
+
+/** One recorded session */
+export type SessionFixture = {
+  /** Turns in order */
+  turns: FixtureTurn[]
+}
+
+/** A fixture file, stored as `<key>.json` */
+export type FixtureFile = {
+  /** Fixture format version */
+  version: 1
+  /** Adapter name from the schema that recorded it */
+  adapter: string
+  /** First prompt of every session in the file */
+  input: string
+  /** Sessions in recorded order */
+  sessions: SessionFixture[]
+}
+
+/** Records turns into a fixture directory */
+export type FixtureRecorder = {
+  /** Append a finished turn to a session's fixture and write the file */
+  recordTurn: (sessionId: string, turn: FixtureTurn) => Promise<void>
+  /** Forget a session */
+  release: (sessionId: string) => void
+}
+
+/** Serves recorded turns from a fixture directory */
+export type FixtureReplayer = {
+  /**
+   * Find the recorded turn for a session's next prompt.
+   *
+   * @throws Error if no session was recorded for the first prompt, or the
+   *   recording has no matching turn
+   */
+  nextTurn: (sessionId: string, input: string) => Promise<FixtureTurn>
+  /** Forget a session */
+  release: (sessionId: string) => void
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Fixture file path for a session's first prompt */
+const fixturePath = (fixtureDir: string, input: string): string => join(fixtureDir, `${hashContent(input)}.json`)
+
+/** Shorten a prompt for error messages */
+const preview = (input: string): string => JSON.stringify(input.length > 60 ? `${input.slice(0, 60)}…` : input)
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Create a recorder that writes sessions to a fixture directory.
+ *
+ * @remarks
+ * The first session recorded for a prompt replaces any fixture left from an
+ * earlier run; later sessions for the same prompt are appended to it. The
+ * file is rewritten after every turn, so an interrupted run keeps what it
+ * recorded.
+ *
+ * @param fixtureDir - Directory to write fixtures to
+ * @param adapter - Adapter name stored in each file
+ * @returns Fixture recorder
+ *
+ * @public
+ */
+export const createFixtureRecorder = (fixtureDir: string, adapter: string): FixtureRecorder => {
+  const files = new Map<string, FixtureFile>()
+  const active = new Map<string, { path: string; session: SessionFixture }>()
+  // Writes to one file are chained so an older snapshot never lands last
+  const writes = new Map<string, Promise<void>>()
+
+  const recordTurn = async (sessionId: string, turn: FixtureTurn): Promise<void> => {
+    let entry = active.get(sessionId)
+    if (!entry) {
+      const path = fixturePath(fixtureDir, turn.input)
+      let file = files.get(path)
+      if (!file) {
+        file = { version: 1, adapter, input: turn.input, sessions: [] }
+        files.set(path, file)
+      }
+      entry = { path, session: { turns: [] } }
+      file.sessions.push(entry.session)
+      active.set(sessionId, entry)
+    }
+    entry.session.turns.push(turn)
+
+    const { path } = entry
+    const content = JSON.stringify(files.get(path), null, 2)
+    const write = (writes.get(path) ?? Promise.resolve()).then(async () => {
+      await Bun.write(path, content)
+    })
+    writes.set(path, write)
+    await write
+  }
+
+  return { recordTurn, release: (sessionId) => active.delete(sessionId) }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Create a replayer that serves sessions from a fixture directory.
+ *
+ * @remarks
+ * A session is bound to a recording on its first prompt. Sessions with the
+ * same first prompt get the file's recordings in order, wrapping around
+ * when there are more sessions than recordings. Each later prompt must
+ * match the recorded turn's input.
+ *
+ * @param fixtureDir - Directory holding recorded fixtures
+ * @returns Fixture replayer
+ *
+ * @public
+ */
+export const createFixtureReplayer = (fixtureDir: string): FixtureReplayer => {
+  const files = new Map<string, Promise<FixtureFile | undefined>>()
+  const uses = new Map<string, number>()
+  const bound = new Map<string, { session: SessionFixture; turn: number }>()
+
+  const loadFile = (path: string): Promise<FixtureFile | undefined> => {
+    let file = files.get(path)
+    if (!file) {
+      file = Bun.file(path)
+        .json()
+        .then((json: FixtureFile) => (json.version === 1 && json.sessions?.length ? json : undefined))
+        .catch(() => undefined)
+      files.set(path, file)
+    }
+    return file
+  }
+
+  const nextTurn = async (sessionId: string, input: string): Promise<FixtureTurn> => {
+    let entry = bound.get(sessionId)
+    if (!entry) {
+      const path = fixturePath(fixtureDir, input)
+      const file = await loadFile(path)
+      if (!file) {
+        throw new Error(`No recorded session for prompt ${preview(input)} in ${fixtureDir}`)
+      }
+      const used = uses.get(path) ?? 0
+      uses.set(path, used + 1)
+      entry = { session: file.sessions[used % file.sessions.length]!, turn: 0 }
+      bound.set(sessionId, entry)
+    }
+
+    const turn = entry.session.turns[entry.turn]
+    if (!turn || turn.input !== input) {
+      throw new Error(`Recorded session has no turn ${entry.turn + 1} for prompt ${preview(input)}`)
+    }
+    entry.turn++
+    return turn
+  }
+
+  return { nextTurn, release: (sessionId) => bound.delete(sessionId) }
+}
@@ -0,0 +1,646 @@
+/**
+ * JSONPath engine for headless adapter schemas.
+ *
+ * @remarks
+ * Implements the JSONPath subset adapter schemas need to reach into deeply
+ * nested agent events:
+ * - `$.a.b`, `$['a']`, `$["a b"]` - Child access (dot or bracket notation)
+ * - `$.a[0]`, `$.a[-1]` - Array index, negative from the end
+ * - `$.a[1:3]`, `$.a[::2]`, `$.a[-2:]` - Array slices
+ * - `$.a[*]`, `$.a.*` - Wildcard over array items or object values
+ * - `$..name`, `$..[0]`, `$..*` - Recursive descent
+ * - `$.a[0,2]`, `$['x','y']` - Unions
+ * - `$.a[?(@.type == 'tool_use')]` - Filters
+ *
+ * Filter expressions support `==`, `!=`, `<`, `<=`, `>`, `>=`, regex match
+ * (`@.name =~ /^mcp__/i`), membership (`@.type in ['a', 'b']`), existence
+ * (`@.id`), `!`, `&&`, `||` and parentheses. Operands are `@` (current item)
+ * and `$` (root) paths, strings, numbers, `true`, `false`, `null` and lists.
+ *
+ * Compiled paths are cached, since schemas evaluate the same handful of
+ * paths against every output line.
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Selector within a path segment */
+export type JsonPathSelector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: FilterExpression }
+
+/** One step of a compiled path: `.a`, `[0, 1]`, `..b`, etc. */
+export type JsonPathSegment = {
+  /** Whether the segment applies to all descendants (`..`) */
+  descendant: boolean
+  /** Selectors whose results are unioned */
+  selectors: JsonPathSelector[]
+}
+
+/** Operand in a filter expression */
+type FilterOperand =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'list'; values: unknown[] }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'query'; root: '@' | '$'; segments: JsonPathSegment[] }
+
+/** Comparison operators in filter expressions */
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~' | 'in'
+
+/** Parsed filter expression */
+type FilterExpression =
+  | { kind: 'or' | 'and'; left: FilterExpression; right: FilterExpression }
+  | { kind: 'not'; expression: FilterExpression }
+  | { kind: 'compare'; operator: ComparisonOperator; left: FilterOperand; right: FilterOperand }
+  | { kind: 'exists'; operand: FilterOperand }
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Characters that end an unquoted member name */
+const NAME_TERMINATORS = new Set([...'.[]()=!<>&|,~\'" \t\r\n'])
+
+/**
+ * Parses a JSONPath expression into segments.
+ *
+ * @param path - JSONPath expression starting with `$`
+ * @returns Parsed segments
+ * @throws Error describing the first syntax error
+ */
+const parsePath = (path: string): JsonPathSegment[] => {
+  let pos = 0
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid JSONPath "${path}" at position ${pos}: ${message}`)
+  }
+
+  const peek = (offset = 0): string => path[pos + offset] ?? ''
+
+  const skipSpaces = (): void => {
+    while (/\s/.test(peek())) pos++
+  }
+
+  const expect = (token: string): void => {
+    skipSpaces()
+    if (!path.startsWith(token, pos)) fail(`expected '${token}'`)
+    pos += token.length
+  }
+
+  const readName = (): string => {
+    const start = pos
+    while (pos < path.length && !NAME_TERMINATORS.has(peek())) pos++
+    if (pos === start) fail('expected a member name')
+    return path.slice(start, pos)
+  }
+
+  const readString = (): string => {
+    const quote = peek()
+    pos++
+    let value = ''
+    while (pos < path.length && peek() !== quote) {
+      if (peek() === '\\') {
+        pos++
+        const escaped = peek()
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+      } else {
+        value += peek()
+      }
+      pos++
+    }
+    if (peek() !== quote) fail('unterminated string')
+    pos++
+    return value
+  }
+
+  const readNumber = (): number | undefined => {
+    const match = path.slice(pos).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/)
+    if (!match) return undefined
+    pos += match[0].length
+    return Number(match[0])
+  }
+
+  const readInteger = (): number | undefined => {
+    const match = path.slice(pos).match(/^-?\d+/)
+    if (!match) return undefined
+    pos += match[0].length
+    return Number.parseInt(match[0], 10)
+  }
+
+  const parseBracketSelector = (): JsonPathSelector => {
+    skipSpaces()
+    const char = peek()
+
+    if (char === "'" || char === '"') {
+      return { kind: 'name', name: readString() }
+    }
+    if (char === '*') {
+      pos++
+      return { kind: 'wildcard' }
+    }
+    if (char === '?') {
+      pos++
+      return { kind: 'filter', expression: parseOr() }
+    }
+
+    // Index or slice
+    const start = readInteger()
+    skipSpaces()
+    if (peek() !== ':') {
+      if (start === undefined) fail('expected a selector')
+      return { kind: 'index', index: start! }
+    }
+    pos++
+    skipSpaces()
+    const end = readInteger()
+    skipSpaces()
+    let step: number | undefined
+    if (peek() === ':') {
+      pos++
+      skipSpaces()
+      step = readInteger()
+    }
+    return { kind: 'slice', start, end, step }
+  }
+
+  const parseBracket = (): JsonPathSelector[] => {
+    pos++ // '['
+    const selectors = [parseBracketSelector()]
+    skipSpaces()
+    while (peek() === ',') {
+      pos++
+      selectors.push(parseBracketSelector())
+      skipSpaces()
+    }
+    expect(']')
+    return selectors
+  }
+
+  /** Parses segments following `$` or `@` until a non-path character */
+  const parseSegments = (): JsonPathSegment[] => {
+    const segments: JsonPathSegment[] = []
+    while (pos < path.length) {
+      if (path.startsWith('..', pos)) {
+        pos += 2
+        if (peek() === '[') {
+          segments.push({ descendant: true, selectors: parseBracket() })
+        } else if (peek() === '*') {
+          pos++
+          segments.push({ descendant: true, selectors: [{ kind: 'wildcard' }] })
+        } else {
+          segments.push({ descendant: true, selectors: [{ kind: 'name', name: readName() }] })
+        }
+      } else if (peek() === '.') {
+        pos++
+        if (peek() === '*') {
+          pos++
+          segments.push({ descendant: false, selectors: [{ kind: 'wildcard' }] })
+        } else {
+          segments.push({ descendant: false, selectors: [{ kind: 'name', name: readName() }] })
+        }
+      } else if (peek() === '[') {
+        segments.push({ descendant: false, selectors: parseBracket() })
+      } else {
+        break
+      }
+    }
+    return segments
+  }
+
+  const parseOperand = (): FilterOperand => {
+    skipSpaces()
+    const char = peek()
+
+    if (char === '@' || char === '$') {
+      pos++
+      return { kind: 'query', root: char, segments: parseSegments() }
+    }
+    if (char === "'" || char === '"') {
+      return { kind: 'literal', value: readString() }
+    }
+    if (char === '[') {
+      pos++
+      const values: unknown[] = []
+      skipSpaces()
+      while (peek() !== ']') {
+        const operand = parseOperand()
+        if (operand.kind !== 'literal') fail('lists may only contain literals')
+        values.push((operand as { value: unknown }).value)
+        skipSpaces()
+        if (peek() === ',') pos++
+        else if (peek() !== ']') fail("expected ',' or ']'")
+        skipSpaces()
+      }
+      pos++
+      return { kind: 'list', values }
+    }
+    if (char === '/') {
+      pos++
+      let source = ''
+      while (pos < path.length && peek() !== '/') {
+        if (peek() === '\\') {
+          source += peek()
+          pos++
+        }
+        source += peek()
+        pos++
+      }
+      if (peek() !== '/') fail('unterminated regex')
+      pos++
+      const flags = path.slice(pos).match(/^[gimsuy]*/)?.[0] ?? ''
+      pos += flags.length
+      try {
+        return { kind: 'regex', regex: new RegExp(source, flags.replace('g', '')) }
+      } catch {
+        return fail(`invalid regex /${source}/`)
+      }
+    }
+    for (const [word, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (path.startsWith(word, pos) && NAME_TERMINATORS.has(peek(word.length) || ' ')) {
+        pos += word.length
+        return { kind: 'literal', value }
+      }
+    }
+    const number = readNumber()
+    if (number !== undefined) {
+      return { kind: 'literal', value: number }
+    }
+    return fail('expected a filter operand')
+  }
+
+  const parseComparison = (): FilterExpression => {
+    skipSpaces()
+    if (peek() === '!' && peek(1) !== '=') {
+      pos++
+      return { kind: 'not', expression: parseComparison() }
+    }
+    if (peek() === '(') {
+      pos++
+      const inner = parseOr()
+      expect(')')
+      return inner
+    }
+
+    const left = parseOperand()
+    skipSpaces()
+    const operator = (['==', '!=', '<=', '>=', '=~', '<', '>'] as const).find((op) => path.startsWith(op, pos))
+    if (operator) {
+      pos += operator.length
+      return { kind: 'compare', operator, left, right: parseOperand() }
+    }
+    if (path.startsWith('in', pos) && /[\s[]/.test(peek(2))) {
+      pos += 2
+      return { kind: 'compare', operator: 'in', left, right: parseOperand() }
+    }
+    return { kind: 'exists', operand: left }
+  }
+
+  const parseAnd = (): FilterExpression => {
+    let left = parseComparison()
+    skipSpaces()
+    while (path.startsWith('&&', pos)) {
+      pos += 2
+      left = { kind: 'and', left, right: parseComparison() }
+      skipSpaces()
+    }
+    return left
+  }
+
+  const parseOr = (): FilterExpression => {
+    let left = parseAnd()
+    skipSpaces()
+    while (path.startsWith('||', pos)) {
+      pos += 2
+      left = { kind: 'or', left, right: parseAnd() }
+      skipSpaces()
+    }
+    return left
+  }
+
+  if (peek() !== '$') fail("path must start with '$'")
+  pos++
+  const segments = parseSegments()
+  if (pos < path.length) fail(`unexpected '${peek()}'`)
+  return segments
+}
+
+/** Cache of compiled paths (errors are cached too) */
+const compiledPaths = new Map<string, JsonPathSegment[] | Error>()
+
+/**
+ * Compiles a JSONPath expression, caching the result.
+ *
+ * @param path - JSONPath expression starting with `$`
+ * @returns Parsed segments
+ * @throws Error if the path has a syntax error
+ */
+export const compileJsonPath = (path: string): JsonPathSegment[] => {
+  let compiled = compiledPaths.get(path)
+  if (!compiled) {
+    try {
+      compiled = parsePath(path)
+    } catch (error) {
+      compiled = error instanceof Error ? error : new Error(String(error))
+    }
+    compiledPaths.set(path, compiled)
+  }
+  if (compiled instanceof Error) throw compiled
+  return compiled
+}
+
+/**
+ * Checks whether a segment selects at most one node.
+ *
+ * @param segment - Path segment
+ * @returns True for a single name or index selector without descent
+ */
+export const isSingularSegment = (segment: JsonPathSegment): boolean => {
+  const [selector] = segment.selectors
+  return (
+    !segment.descendant && segment.selectors.length === 1 && (selector?.kind === 'name' || selector?.kind === 'index')
+  )
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** Whether a value can have children */
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null
+
+/** Children of a container in document order */
+const childrenOf = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value
+  if (isContainer(value)) return Object.values(value)
+  return []
+}
+
+/** A node and all of its descendants, in document order */
+const descendantsOf = (value: unknown): unknown[] => {
+  const nodes: unknown[] = [value]
+  for (const child of childrenOf(value)) {
+    nodes.push(...descendantsOf(child))
+  }
+  return nodes
+}
+
+/** Array indices selected by a slice, Python-style */
+const sliceIndices = (length: number, start?: number, end?: number, step = 1): number[] => {
+  if (step === 0) return []
+  const normalize = (n: number) => (n < 0 ? Math.max(length + n, step > 0 ? 0 : -1) : Math.min(n, length))
+  const indices: number[] = []
+  if (step > 0) {
+    const from = start === undefined ? 0 : normalize(start)
+    const to = end === undefined ? length : normalize(end)
+    for (let i = from; i < to; i += step) indices.push(i)
+  } else {
+    const from = start === undefined ? length - 1 : Math.min(normalize(start), length - 1)
+    const to = end === undefined ? -1 : normalize(end)
+    for (let i = from; i > to; i += step) indices.push(i)
+  }
+  return indices
+}
+
+/** Structural equality for filter comparisons */
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (isContainer(a) && isContainer(b)) return JSON.stringify(a) === JSON.stringify(b)
+  return false
+}
+
+/**
+ * Resolves a filter operand to a value.
+ *
+ * @remarks
+ * Queries resolve to their first match; `undefined` means no match.
+ */
+const resolveOperand = (operand: FilterOperand, current: unknown, root: unknown): unknown => {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value
+    case 'list':
+      return operand.values
+    case 'regex':
+      return operand.regex
+    case 'query':
+      return evaluateSegments(operand.segments, [operand.root === '@' ? current : root], root)[0]
+  }
+}
+
+const compare = (operator: ComparisonOperator, left: unknown, right: unknown): boolean => {
+  switch (operator) {
+    case '==':
+      return valuesEqual(left, right)
+    case '!=':
+      return !valuesEqual(left, right)
+    case '=~': {
+      if (typeof left !== 'string') return false
+      if (right instanceof RegExp) return right.test(left)
+      return typeof right === 'string' && new RegExp(right).test(left)
+    }
+    case 'in':
+      return Array.isArray(right) && right.some((item) => valuesEqual(left, item))
+    default: {
+      const comparable =
+        (typeof left === 'number' && typeof right === 'number') ||
+        (typeof left === 'string' && typeof right === 'string')
+      if (!comparable) return false
+      const [a, b] = [left as number | string, right as number | string]
+      if (operator === '<') return a < b
+      if (operator === '<=') return a <= b
+      if (operator === '>') return a > b
+      return a >= b
+    }
+  }
+}
+
+const testFilter = (expression: FilterExpression, current: unknown, root: unknown): boolean => {
+  switch (expression.kind) {
+    case 'and':
+      return testFilter(expression.left, current, root) && testFilter(expression.right, current, root)
+    case 'or':
+      return testFilter(expression.left, current, root) || testFilter(expression.right, current, root)
+    case 'not':
+      return !testFilter(expression.expression, current, root)
+    case 'exists':
+      return expression.operand.kind === 'query'
+        ? evaluateSegments(expression.operand.segments, [expression.operand.root === '@' ? current : root], root)
+            .length > 0
+        : Boolean(resolveOperand(expression.operand, current, root))
+    case 'compare':
+      return compare(
+        expression.operator,
+        resolveOperand(expression.left, current, root),
+        resolveOperand(expression.right, current, root),
+      )
+  }
+}
+
+const applySelector = (selector: JsonPathSelector, node: unknown, root: unknown, out: unknown[]): void => {
+  switch (selector.kind) {
+    case 'name':
+      if (isContainer(node) && !Array.isArray(node) && Object.hasOwn(node, selector.name)) {
+        out.push(node[selector.name])
+      }
+      return
+    case 'index':
+      if (Array.isArray(node)) {
+        const index = selector.index < 0 ? node.length + selector.index : selector.index
+        if (index >= 0 && index < node.length) out.push(node[index])
+      }
+      return
+    case 'wildcard':
+      out.push(...childrenOf(node))
+      return
+    case 'slice':
+      if (Array.isArray(node)) {
+        for (const index of sliceIndices(node.length, selector.start, selector.end, selector.step)) {
+          out.push(node[index])
+        }
+      }
+      return
+    case 'filter':
+      for (const child of childrenOf(node)) {
+        if (testFilter(selector.expression, child, root)) out.push(child)
+      }
+  }
+}
+
+/**
+ * Applies compiled segments to a list of nodes.
+ *
+ * @param segments - Compiled path segments
+ * @param nodes - Starting nodes
+ * @param root - Document root (for `$` inside filters)
+ * @returns All matched nodes, in document order
+ */
+export const evaluateSegments = (segments: JsonPathSegment[], nodes: unknown[], root: unknown): unknown[] => {
+  let current = nodes
+  for (const segment of segments) {
+    const next: unknown[] = []
+    for (const node of current) {
+      const targets = segment.descendant ? descendantsOf(node) : [node]
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          applySelector(selector, target, root, next)
+        }
+      }
+    }
+    current = next
+  }
+  return current
+}
+
+// ============================================================================
+// Public Helpers
+// ============================================================================
+
+/**
+ * Returns every node matched by a JSONPath expression.
+ *
+ * @remarks
+ * Literal strings in single quotes (e.g., `'pending'`) yield themselves.
+ * Invalid paths yield no nodes.
+ *
+ * @param obj - Object to query
+ * @param path - JSONPath expression
+ * @returns Matched nodes (empty if none)
+ */
+export const queryJsonPath = (obj: unknown, path: string): unknown[] => {
+  if (path.startsWith("'") && path.endsWith("'") && path.length >= 2) {
+    return [path.slice(1, -1)]
+  }
+  try {
+    return evaluateSegments(compileJsonPath(path), [obj], obj)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Extracts a value from an object using a JSONPath expression.
+ *
+ * @remarks
+ * Singular paths (only names and indices, e.g. `$.message.content[0].text`)
+ * return the value or undefined.
+ *
+ * Other paths (wildcards, slices, filters, `..`) return an array of all
+ * matches. When nothing matches, the result is an empty array if the path
+ * reached a container before branching (e.g., `$.items[*]` on `items: []`),
+ * and undefined otherwise. This keeps the historical `$.array[*]` behavior
+ * of returning the array items.
+ *
+ * Literal strings in single quotes (e.g., `'pending'`) are returned as-is.
+ *
+ * @param obj - Object to extract from
+ * @param path - JSONPath expression
+ * @returns Extracted value, array of matches, or undefined
+ */
+export const jsonPath = (obj: unknown, path: string): unknown => {
+  // Handle literal strings (e.g., "'pending'")
+  if (path.startsWith("'") && path.endsWith("'") && path.length >= 2) {
+    return path.slice(1, -1)
+  }
+
+  let segments: JsonPathSegment[]
+  try {
+    segments = compileJsonPath(path)
+  } catch {
+    return undefined
+  }
+
+  const branchAt = segments.findIndex((segment) => !isSingularSegment(segment))
+  if (branchAt === -1) {
+    return evaluateSegments(segments, [obj], obj)[0]
+  }
+
+  const [base] = evaluateSegments(segments.slice(0, branchAt), [obj], obj)
+  if (!isContainer(base)) {
+    return undefined
+  }
+  return evaluateSegments(segments.slice(branchAt), [base], obj)
+}
+
+/**
+ * Extracts a string value from an object using JSONPath.
+ *
+ * @remarks
+ * Multi-valued paths join their non-null matches with newlines (objects are
+ * JSON-encoded), so `$.content[?(@.type=='text')].text` yields all text blocks.
+ *
+ * @param obj - Object to extract from
+ * @param path - JSONPath expression
+ * @returns String value or undefined
+ */
+export const jsonPathString = (obj: unknown, path: string): string | undefined => {
+  const value = jsonPath(obj, path)
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  let singular = true
+  try {
+    singular = compileJsonPath(path).every(isSingularSegment)
+  } catch {
+    // Literal string
+  }
+
+  if (!singular && Array.isArray(value)) {
+    const parts = value
+      .filter((item) => item !== undefined && item !== null)
+      .map((item) => (isContainer(item) ? JSON.stringify(item) : String(item)))
+    return parts.length > 0 ? parts.join('\n') : undefined
+  }
+  return String(value)
+}
@@ -0,0 +1,418 @@
+/**
+ * Mock agent CLI for developing adapter schemas offline.
+ *
+ * @remarks
+ * `mock-agent` behaves like a headless agent CLI: it takes a prompt as an
+ * argument or as stdin lines and prints JSONL events scripted by a scenario
+ * file. Scenarios cover thoughts, messages, tool calls, results, error
+ * events, stderr output, delays, crashes and resume ids, so a schema's
+ * `outputEvents`, `result`, `resume`, `retryOn` and timeout handling can be
+ * exercised with `headless --schema` or `capture` without a real agent.
+ *
+ * Event lines (one JSON object per line):
+ * - `{"type":"system","subtype":"init","session_id":...}` when the process starts
+ * - `{"type":"thought","text":...}`
+ * - `{"type":"message","text":...}`
+ * - `{"type":"tool_use","id":...,"name":...,"input":...}`
+ * - `{"type":"tool_result","tool_use_id":...,"status":...,"output":...}`
+ * - `{"type":"error","message":...}`
+ * - `{"type":"result","result":...,"session_id":...,"usage":...}`
+ *
+ * @packageDocumentation
+ */
+
+import { createInterface } from 'node:readline'
+import { parseArgs } from 'node:util'
+import { z } from 'zod'
+import { resolvePath } from '../core/output.ts'
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * One scripted step of a mock turn.
+ *
+ * @remarks
+ * String fields may use `{{prompt}}`, `{{turn}}` and `{{sessionId}}`.
+ */
+export const MockEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('thought'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('message'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('tool_call'),
+    name: z.string(),
+    /** Tool call id (default: `tool_<n>`) */
+    id: z.string().optional(),
+    input: z.unknown().optional(),
+    /** Tool output; a `tool_result` line follows when `output` or `status` is set */
+    output: z.unknown().optional(),
+    status: z.enum(['completed', 'failed']).optional(),
+  }),
+  z.object({
+    type: z.literal('result'),
+    /** Final answer (default: the turn's last message) */
+    text: z.string().optional(),
+    usage: z.object({ input_tokens: z.number(), output_tokens: z.number() }).partial().optional(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('stderr'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('delay'),
+    ms: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('exit'),
+    /** Exit code; the process stops here, even in persistent mode */
+    code: z.number().int().default(1),
+  }),
+  z.object({
+    type: z.literal('raw'),
+    /** Line printed as-is (strings) or as JSON (objects), to mimic a real agent's format */
+    line: z.union([z.string(), z.record(z.string(), z.unknown())]),
+  }),
+])
+
+/** Mock event type */
+export type MockEvent = z.infer<typeof MockEventSchema>
+
+/** A scripted response, chosen by the first rule that matches the prompt */
+export const MockResponseSchema = z.object({
+  /** Regular expression tested against the prompt */
+  match: z.string().optional(),
+  /** Only for resumed (`true`) or fresh (`false`) sessions */
+  resumed: z.boolean().optional(),
+  /** Steps of the turn, in order */
+  events: z.array(MockEventSchema),
+})
+
+/** Mock response type */
+export type MockResponse = z.infer<typeof MockResponseSchema>
+
+/** Scenario file for `mock-agent` (JSON or YAML) */
+export const MockScenarioSchema = z.object({
+  /** Session id reported in `init` and `result` events (default: random; `--resume` keeps its id) */
+  sessionId: z.string().optional(),
+  /** Responses, tried in order */
+  responses: z.array(MockResponseSchema).min(1),
+})
+
+/** Mock scenario type */
+export type MockScenario = z.infer<typeof MockScenarioSchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Values available to `{{...}}` placeholders */
+export type MockTurnContext = {
+  /** Prompt text of the turn */
+  prompt: string
+  /** Turn number within this process (1-based) */
+  turn: number
+  /** Session id reported by the mock */
+  sessionId: string
+}
+
+/** What the mock does for one step */
+export type MockAction =
+  | { kind: 'stdout'; line: string }
+  | { kind: 'stderr'; text: string }
+  | { kind: 'delay'; ms: number }
+  | { kind: 'exit'; code: number }
+
+// ============================================================================
+// Scenario Handling
+// ============================================================================
+
+/**
+ * Load and validate a scenario file.
+ *
+ * @param path - Path to a `.json`, `.yaml` or `.yml` scenario
+ * @returns Parsed scenario
+ * @throws Error if the file is missing or the scenario is invalid
+ *
+ * @public
+ */
+export const loadMockScenario = async (path: string): Promise<MockScenario> => {
+  const file = Bun.file(resolvePath(path))
+  if (!(await file.exists())) {
+    throw new Error(`Scenario not found: ${path}`)
+  }
+
+  let raw: unknown
+  try {
+    const text = await file.text()
+    raw = path.endsWith('.yaml') || path.endsWith('.yml') ? Bun.YAML.parse(text) : JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid scenario ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result = MockScenarioSchema.safeParse(raw)
+  if (!result.success) {
+    throw new Error(`Invalid scenario ${path}: ${result.error.message}`)
+  }
+  return result.data
+}
+
+/**
+ * Pick the response for a prompt.
+ *
+ * @param scenario - Mock scenario
+ * @param prompt - Prompt text
+ * @param resumed - Whether the process was started with `--resume`
+ * @returns First matching response, or undefined
+ *
+ * @public
+ */
+export const selectMockResponse = (
+  scenario: MockScenario,
+  prompt: string,
+  resumed: boolean,
+): MockResponse | undefined =>
+  scenario.responses.find(
+    (response) =>
+      (response.match === undefined || new RegExp(response.match).test(prompt)) &&
+      (response.resumed === undefined || response.resumed === resumed),
+  )
+
+/** Replace `{{...}}` placeholders in every string of a value */
+const fill = <T>(value: T, context: MockTurnContext): T => {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(prompt|turn|sessionId)\}\}/g, (_, name: keyof MockTurnContext) =>
+      String(context[name]),
+    ) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fill(item, context)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item, context)])) as T
+  }
+  return value
+}
+
+/**
+ * Turn a response's events into the mock's actions.
+ *
+ * @remarks
+ * Placeholders are filled first. A `result` without `text` reports the
+ * turn's last message.
+ *
+ * @param events - Scripted events
+ * @param context - Placeholder values
+ * @returns Lines to print, stderr to write, delays and exits, in order
+ *
+ * @public
+ */
+export const buildMockTurn = (events: MockEvent[], context: MockTurnContext): MockAction[] => {
+  const actions: MockAction[] = []
+  const print = (event: Record<string, unknown>) => actions.push({ kind: 'stdout', line: JSON.stringify(event) })
+  let lastMessage = ''
+  let toolCount = 0
+
+  for (const event of fill(events, context)) {
+    switch (event.type) {
+      case 'thought':
+        print({ type: 'thought', text: event.text })
+        break
+      case 'message':
+        lastMessage = event.text
+        print({ type: 'message', text: event.text })
+        break
+      case 'tool_call': {
+        const id = event.id ?? `tool_${++toolCount}`
+        print({ type: 'tool_use', id, name: event.name, input: event.input ?? {} })
+        if (event.output !== undefined || event.status) {
+          print({ type: 'tool_result', tool_use_id: id, status: event.status ?? 'completed', output: event.output })
+        }
+        break
+      }
+      case 'result':
+        print({
+          type: 'result',
+          result: event.text ?? lastMessage,
+          session_id: context.sessionId,
+          ...(event.usage && { usage: event.usage }),
+        })
+        break
+      case 'error':
+        print({ type: 'error', message: event.message })
+        break
+      case 'stderr':
+        actions.push({ kind: 'stderr', text: event.text })
+        break
+      case 'delay':
+        actions.push({ kind: 'delay', ms: event.ms })
+        break
+      case 'exit':
+        actions.push({ kind: 'exit', code: event.code })
+        break
+      case 'raw':
+        actions.push({ kind: 'stdout', line: typeof event.line === 'string' ? event.line : JSON.stringify(event.line) })
+        break
+    }
+  }
+
+  return actions
+}
+
+/** Run actions in order; an `exit` action ends the process */
+const performActions = async (actions: MockAction[]): Promise<void> => {
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'stdout':
+        await Bun.write(Bun.stdout, `${action.line}\n`)
+        break
+      case 'stderr':
+        await Bun.write(Bun.stderr, action.text.endsWith('\n') ? action.text : `${action.text}\n`)
+        break
+      case 'delay':
+        await Bun.sleep(action.ms)
+        break
+      case 'exit':
+        process.exit(action.code)
+    }
+  }
+}
+
+/** Read the prompt from a stdin line, unwrapping JSON user messages */
+const promptFromLine = (line: string): string => {
+  try {
+    const parsed = JSON.parse(line)
+    const content = parsed?.message?.content
+    return typeof content === 'string' ? content : line
+  } catch {
+    return line
+  }
+}
+
+// ============================================================================
+// CLI Entry Point
+// ============================================================================
+
+/**
+ * Mock agent CLI handler.
+ *
+ * @remarks
+ * Unknown flags are ignored, so schema flags such as output format,
+ * auto-approve or cwd flags can be passed through unchanged.
+ *
+ * @param args - Command line arguments (after 'mock-agent')
+ */
+export const mockAgent = async (args: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      scenario: { type: 'string' },
+      prompt: { type: 'string', short: 'p' },
+      resume: { type: 'string' },
+      stdin: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+    strict: false,
+  })
+
+  if (values.help) {
+    console.log(`
+Usage: agent-eval-harness mock-agent --scenario <file> [-p <prompt> | <prompt> | --stdin] [--resume <id>]
+
+Scripted stand-in for a headless agent CLI, for developing adapter schemas.
+Prints JSONL events from a scenario file for each prompt.
+
+Options:
+  --scenario        Scenario file (.json, .yaml, .yml) (required)
+  -p, --prompt      Prompt text (default: last positional argument)
+  --stdin           Read prompts from stdin, one turn per line, until EOF
+                    (JSON lines with message.content are unwrapped)
+  --resume          Resume a session: keeps this id and matches 'resumed' responses
+  -h, --help        Show this help message
+
+Unknown flags are ignored, so schema output/auto-approve/cwd flags pass through.
+
+Scenario:
+  {"sessionId": "mock-1", "responses": [
+    {"match": "weather", "events": [
+      {"type": "thought", "text": "Checking the forecast"},
+      {"type": "tool_call", "name": "get_weather", "input": {"city": "Paris"}, "output": "Sunny"},
+      {"type": "message", "text": "It is sunny"},
+      {"type": "result", "usage": {"input_tokens": 12, "output_tokens": 4}}]},
+    {"events": [{"type": "stderr", "text": "rate limited"}, {"type": "exit", "code": 1}]}]}
+
+  Event types: thought, message, tool_call, result, error, stderr, delay (ms),
+  exit (code), raw (line). Strings may use {{prompt}}, {{turn}}, {{sessionId}}.
+  The first response whose 'match' regex and 'resumed' flag fit is used.
+
+Output lines:
+  {"type":"system","subtype":"init","session_id":...}
+  {"type":"thought","text":...}            {"type":"message","text":...}
+  {"type":"tool_use","id","name","input"}  {"type":"tool_result","tool_use_id","status","output"}
+  {"type":"error","message":...}           {"type":"result","result","session_id","usage"}
+
+Examples:
+  # Try a schema against the mock
+  agent-eval-harness headless --schema mock-schema.json
+
+  # One turn by hand
+  agent-eval-harness mock-agent --scenario scenario.json -p "What is the weather?"
+`)
+    return
+  }
+
+  if (typeof values.scenario !== 'string') {
+    console.error('Error: --scenario is required')
+    process.exit(1)
+  }
+
+  let scenario: MockScenario
+  try {
+    scenario = await loadMockScenario(values.scenario)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  const resumeId = typeof values.resume === 'string' ? values.resume : undefined
+  const sessionId = resumeId ?? scenario.sessionId ?? `mock-${crypto.randomUUID()}`
+  let turn = 0
+
+  const runTurn = async (prompt: string): Promise<void> => {
+    turn++
+    const response = selectMockResponse(scenario, prompt, resumeId !== undefined)
+    if (!response) {
+      await Bun.write(Bun.stderr, `mock-agent: no response matches prompt: ${prompt}\n`)
+      process.exit(1)
+    }
+    await performActions(buildMockTurn(response.events, { prompt, turn, sessionId }))
+  }
+
+  await Bun.write(Bun.stdout, `${JSON.stringify({ type: 'system', subtype: 'init', session_id: sessionId })}\n`)
+
+  if (values.stdin) {
+    const lines = createInterface({ input: process.stdin, terminal: false })
+    for await (const line of lines) {
+      if (line.trim()) await runTurn(promptFromLine(line))
+    }
+    return
+  }
+
+  const prompt = typeof values.prompt === 'string' ? values.prompt : positionals.at(-1)
+  if (prompt === undefined) {
+    console.error('Error: a prompt is required (-p, positional argument, or --stdin)')
+    process.exit(1)
+  }
+  await runTurn(prompt)
+}
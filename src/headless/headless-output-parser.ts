@@ -3,12 +3,23 @@
  *
  * @remarks
  * Uses schema-defined mappings to convert CLI JSON output into session updates.
- * Supports JSONPath-like expressions for matching and extraction.
+ * Supports JSONPath expressions (see `headless-jsonpath.ts`) for matching and extraction.
  *
  * @packageDocumentation
  */
 
-import type { HeadlessAdapterConfig, OutputEventMapping, PassthroughTypeMap } from './headless.schemas.ts'
+import type { HeadlessAdapterConfig, OutputEventMapping, PassthroughTypeMap, UsagePricing } from './headless.schemas.ts'
+import {
+  compileJsonPath,
+  evaluateSegments,
+  isSingularSegment,
+  type JsonPathSegment,
+  jsonPath,
+  jsonPathString,
+  queryJsonPath,
+} from './headless-jsonpath.ts'
+
+export { jsonPath, jsonPathString }
 
 // ============================================================================
 // Types
@@ -25,6 +36,14 @@ export type ParsedUpdate = {
   status?: string
   input?: unknown
   output?: unknown
+  /** Tool call id (tool_call updates, when the schema configures `correlate`) */
+  toolCallId?: string
+  /** Whether the update starts a tool call or reports its result (with `toolCallId`) */
+  toolCallPhase?: 'start' | 'result'
+  /** Streaming delta to concatenate with preceding deltas (mapping has `accumulate`) */
+  delta?: boolean
+  /** Delta starts a new step (first delta of a turn, or after an `accumulate.until` event) */
+  deltaBreak?: boolean
   timestamp: number
   raw: unknown
 }
@@ -44,118 +63,128 @@ export type NotResult = {
 /** Parse result for final output */
 export type ResultParseResult = ParsedResult | NotResult
 
+/** Token counts extracted via the schema's `usage` paths */
+export type TokenUsage = {
+  inputTokens?: number
+  outputTokens?: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
+}
+
 // ============================================================================
-// JSONPath Implementation
+// Matching
 // ============================================================================
 
+/** Match criteria shared by output events, results and usage */
+export type ValueMatcher = {
+  /** Exact value, or `*` for any non-null value */
+  value?: string
+  /** Regular expression tested against string values */
+  regex?: string
+  /** Accepted values */
+  in?: string[]
+}
+
+/** Compiled regexes by source */
+const regexCache = new Map<string, RegExp>()
+
 /**
- * Extracts a value from an object using a simple JSONPath expression.
+ * Tests a value extracted by JSONPath against match criteria.
  *
  * @remarks
- * Supports:
- * - `$.field` - Root field access
- * - `$.nested.field` - Nested field access
- * - `$.array[0]` - Array index access
- * - `$.array[*]` - Array wildcard (returns all items)
- * - `$.array[0].field` - Combined array and field access
- * - `'literal'` - Literal string values (single quotes)
+ * Numbers and booleans are compared by their string form, so `"0"` matches
+ * an exit code of `0`. Objects and arrays only match `*`.
  *
- * @param obj - Object to extract from
- * @param path - JSONPath expression
- * @returns Extracted value, array of values (for wildcard), or undefined
+ * @param actual - Extracted value
+ * @param matcher - Match criteria
+ * @returns True if the value matches
  */
-export const jsonPath = (obj: unknown, path: string): unknown => {
-  // Handle literal strings (e.g., "'pending'")
-  if (path.startsWith("'") && path.endsWith("'")) {
-    return path.slice(1, -1)
-  }
-
-  // Handle JSONPath expressions (e.g., "$.type", "$.message.content[0].text")
-  if (!path.startsWith('$.')) {
-    return undefined
+export const matchesValue = (actual: unknown, matcher: ValueMatcher): boolean => {
+  if (actual === undefined || actual === null) return false
+  if (matcher.value === '*') return true
+
+  const text =
+    typeof actual === 'string' || typeof actual === 'number' || typeof actual === 'boolean' ? String(actual) : undefined
+  if (text === undefined) return false
+
+  if (matcher.regex !== undefined) {
+    let regex = regexCache.get(matcher.regex)
+    if (!regex) {
+      regex = new RegExp(matcher.regex)
+      regexCache.set(matcher.regex, regex)
+    }
+    return regex.test(text)
   }
+  if (matcher.in !== undefined) return matcher.in.includes(text)
+  return text === matcher.value
+}
 
-  // Parse path into segments, handling both dot notation and array indices
-  // e.g., "message.content[0].text" -> ["message", "content", 0, "text"]
-  // e.g., "message.content[*].type" -> ["message", "content", "*", "type"]
-  const segments: (string | number | '*')[] = []
-  const pathBody = path.slice(2) // Remove "$."
-
-  // Split by dots first, then handle array indices within each part
-  for (const part of pathBody.split('.')) {
-    if (!part) continue
-
-    // Check for array wildcard: "content[*]"
-    const wildcardMatch = part.match(/^([^[]*)\[\*\]$/)
-    if (wildcardMatch) {
-      const propName = wildcardMatch[1]
-      if (propName) {
-        segments.push(propName)
-      }
-      segments.push('*')
-      continue
-    }
+/**
+ * Tests whether any node at a JSONPath matches the criteria.
+ *
+ * @param event - Parsed JSON event
+ * @param path - JSONPath expression
+ * @param matcher - Match criteria
+ * @returns True if at least one matched node satisfies the criteria
+ */
+const matchesPath = (event: unknown, path: string, matcher: ValueMatcher): boolean =>
+  queryJsonPath(event, path).some((node) => matchesValue(node, matcher))
 
-    // Check for array index: "content[0]" or just "[0]"
-    const arrayMatch = part.match(/^([^[]*)\[(\d+)\]$/)
-    if (arrayMatch) {
-      const propName = arrayMatch[1]
-      const indexStr = arrayMatch[2]
-      if (propName) {
-        segments.push(propName)
-      }
-      if (indexStr) {
-        segments.push(parseInt(indexStr, 10))
-      }
-    } else {
-      segments.push(part)
-    }
+/**
+ * Legacy item matching for array results: objects with a `type` property are
+ * matched on their type, everything else on the item itself.
+ */
+const matchesItem = (item: unknown, matcher: ValueMatcher): boolean => {
+  if (matcher.value !== '*' && typeof item === 'object' && item !== null && 'type' in item) {
+    return matchesValue((item as Record<string, unknown>).type, matcher)
   }
+  return matchesValue(item, matcher)
+}
 
-  let current: unknown = obj
+// ============================================================================
+// Token Usage
+// ============================================================================
 
-  for (const segment of segments) {
-    if (current === null || current === undefined) {
-      return undefined
-    }
+/** Token usage fields, in a fixed order */
+const TOKEN_USAGE_KEYS = ['inputTokens', 'outputTokens', 'cacheReadTokens', 'cacheWriteTokens'] as const
 
-    if (segment === '*') {
-      // Array wildcard - return array as-is for further processing
-      if (!Array.isArray(current)) {
-        return undefined
-      }
-      return current
-    } else if (typeof segment === 'number') {
-      // Array index access
-      if (!Array.isArray(current)) {
-        return undefined
-      }
-      current = current[segment]
-    } else {
-      // Property access
-      if (typeof current !== 'object') {
-        return undefined
-      }
-      current = (current as Record<string, unknown>)[segment]
+/**
+ * Adds two token usage records field by field.
+ *
+ * @remarks
+ * A field is present in the result if it is present in either input.
+ *
+ * @param a - First usage (may be undefined)
+ * @param b - Second usage (may be undefined)
+ * @returns Summed usage, or undefined if both are undefined
+ */
+export const addTokenUsage = (a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined => {
+  if (!a) return b
+  if (!b) return a
+  const sum: TokenUsage = {}
+  for (const key of TOKEN_USAGE_KEYS) {
+    if (a[key] !== undefined || b[key] !== undefined) {
+      sum[key] = (a[key] ?? 0) + (b[key] ?? 0)
     }
   }
-
-  return current
+  return sum
 }
 
 /**
- * Extracts a string value from an object using JSONPath.
+ * Computes USD cost from token usage and a price table.
  *
- * @param obj - Object to extract from
- * @param path - JSONPath expression
- * @returns String value or undefined
+ * @param usage - Token usage
+ * @param pricing - Prices in USD per million tokens
+ * @returns Cost in USD
  */
-export const jsonPathString = (obj: unknown, path: string): string | undefined => {
-  const value = jsonPath(obj, path)
-  if (value === undefined || value === null) {
-    return undefined
-  }
-  return String(value)
+export const computeUsageCost = (usage: TokenUsage, pricing: UsagePricing): number => {
+  return (
+    ((usage.inputTokens ?? 0) * pricing.input +
+      (usage.outputTokens ?? 0) * pricing.output +
+      (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? 0) +
+      (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? 0)) /
+    1_000_000
+  )
 }
 
 // ============================================================================
@@ -232,6 +261,10 @@ const parsePassthrough = (line: string, typeMap: PassthroughTypeMap): ParsedUpda
  * 2. Extract content using JSONPath expressions
  * 3. Emit session update objects
  *
+ * When the schema configures `correlate`, `tool_call` updates are tagged with
+ * `toolCallId` and `toolCallPhase` so start and result events can be merged.
+ * Updates from mappings with `accumulate` are flagged as `delta`.
+ *
  * Supports two modes:
  * - 'jsonpath' (default): Uses outputEvents for complex pattern matching
  * - 'passthrough': Direct type mapping for well-structured output
@@ -240,7 +273,11 @@ const parsePassthrough = (line: string, typeMap: PassthroughTypeMap): ParsedUpda
  * @returns Parser function for individual lines
  */
 export const createOutputParser = (config: HeadlessAdapterConfig) => {
-  const { result, outputMode = 'jsonpath', outputEvents = [], passthroughTypeMap } = config
+  const { result, outputMode = 'jsonpath', outputEvents = [], passthroughTypeMap, usage, correlate, resume } = config
+  const resultMatcher: ValueMatcher = { value: result.matchValue, regex: result.matchRegex, in: result.matchIn }
+  const boundaries = outputEvents.flatMap((mapping) =>
+    typeof mapping.accumulate === 'object' && mapping.accumulate.until ? [mapping.accumulate.until] : [],
+  )
 
   /**
    * Parses a single JSON line from CLI output.
@@ -269,41 +306,48 @@ export const createOutputParser = (config: HeadlessAdapterConfig) => {
 
     // Try each mapping until one matches
     for (const mapping of outputEvents) {
-      const matchValue = jsonPath(event, mapping.match.path)
+      let segments: JsonPathSegment[]
+      try {
+        segments = compileJsonPath(mapping.match.path)
+      } catch {
+        continue
+      }
 
-      // Handle array results from wildcard paths (e.g., $.message.content[*])
-      if (Array.isArray(matchValue)) {
+      // Multi-valued paths (e.g., $.message.content[*].type or
+      // $..content[?(@.type=='tool_use')]) emit one update per matched item.
+      // The item is the node selected by the last wildcard/slice/filter/descent;
+      // the remainder of the path is evaluated relative to it.
+      const branchAt = segments.findLastIndex((segment) => !isSingularSegment(segment))
+      if (branchAt !== -1) {
+        const rest = segments.slice(branchAt + 1)
         const updates: ParsedUpdate[] = []
-        for (const item of matchValue) {
-          // Check if this array item matches the expected value
-          if (mapping.match.value === '*') {
-            // Wildcard: match any non-null item
-            if (item !== undefined && item !== null) {
-              updates.push(createUpdate(item, mapping))
-            }
-          } else if (typeof item === 'object' && item !== null && 'type' in item) {
-            // For objects with 'type' property, check nested match
-            const itemType = (item as Record<string, unknown>).type
-            if (itemType === mapping.match.value) {
-              updates.push(createUpdate(item, mapping))
-            }
-          } else if (item === mapping.match.value) {
-            // For primitives, direct match
+        for (const item of evaluateSegments(segments.slice(0, branchAt + 1), [event], event)) {
+          const matched =
+            rest.length > 0
+              ? matchesValue(evaluateSegments(rest, [item], event)[0], mapping.match)
+              : matchesItem(item, mapping.match)
+          if (matched) {
             updates.push(createUpdate(item, mapping))
           }
         }
         if (updates.length > 0) {
           return updates
         }
-      } else {
-        // Single value matching (original behavior)
-        if (mapping.match.value === '*') {
-          if (matchValue !== undefined && matchValue !== null) {
-            return createUpdate(event, mapping)
-          }
-        } else if (matchValue === mapping.match.value) {
-          return createUpdate(event, mapping)
+        continue
+      }
+
+      const matchValue = evaluateSegments(segments, [event], event)[0]
+
+      // Array values at singular paths are matched item by item
+      if (Array.isArray(matchValue)) {
+        const updates = matchValue
+          .filter((item) => matchesItem(item, mapping.match))
+          .map((item) => createUpdate(item, mapping))
+        if (updates.length > 0) {
+          return updates
         }
+      } else if (matchesValue(matchValue, mapping.match)) {
+        return createUpdate(event, mapping)
       }
     }
 
@@ -344,6 +388,22 @@ export const createOutputParser = (config: HeadlessAdapterConfig) => {
       }
     }
 
+    if (mapping.accumulate) {
+      update.delta = true
+    }
+
+    if (correlate && update.type === 'tool_call') {
+      const resultId = jsonPathString(event, correlate.resultIdPath)
+      const startId = resultId === undefined ? jsonPathString(event, correlate.startIdPath) : undefined
+      if (resultId !== undefined) {
+        update.toolCallId = resultId
+        update.toolCallPhase = 'result'
+      } else if (startId !== undefined) {
+        update.toolCallId = startId
+        update.toolCallPhase = 'start'
+      }
+    }
+
     return update
   }
 
@@ -361,12 +421,7 @@ export const createOutputParser = (config: HeadlessAdapterConfig) => {
       return { isResult: false }
     }
 
-    const matchValue = jsonPath(event, result.matchPath)
-    // Support wildcard "*" to match any non-null value
-    const matches =
-      result.matchValue === '*' ? matchValue !== undefined && matchValue !== null : matchValue === result.matchValue
-
-    if (matches) {
+    if (matchesPath(event, result.matchPath, resultMatcher)) {
       const content = jsonPathString(event, result.contentPath)
       return {
         isResult: true,
@@ -378,9 +433,84 @@ export const createOutputParser = (config: HeadlessAdapterConfig) => {
     return { isResult: false }
   }
 
+  /**
+   * Extracts token usage from a JSON line.
+   *
+   * @param line - JSON string from CLI stdout
+   * @returns Token counts found on the line, or null if none (or no `usage` config)
+   */
+  const parseUsage = (line: string): TokenUsage | null => {
+    if (!usage) return null
+
+    let event: unknown
+    try {
+      event = JSON.parse(line)
+    } catch {
+      return null
+    }
+
+    if (usage.match && !matchesPath(event, usage.match.path, usage.match)) {
+      return null
+    }
+
+    const tokens: TokenUsage = {}
+    for (const key of TOKEN_USAGE_KEYS) {
+      const path = usage[key]
+      if (!path) continue
+      const value = jsonPath(event, path)
+      const count = typeof value === 'string' && value.trim() ? Number(value) : value
+      if (typeof count === 'number' && Number.isFinite(count)) {
+        tokens[key] = count
+      }
+    }
+
+    return Object.keys(tokens).length > 0 ? tokens : null
+  }
+
+  /**
+   * Checks if a JSON line closes accumulated deltas (`accumulate.until`).
+   *
+   * @param line - JSON string from CLI stdout
+   * @returns True if the line matches any mapping's `until` criteria
+   */
+  const parseBoundary = (line: string): boolean => {
+    if (boundaries.length === 0) return false
+
+    let event: unknown
+    try {
+      event = JSON.parse(line)
+    } catch {
+      return false
+    }
+
+    return boundaries.some((until) => matchesPath(event, until.path, until))
+  }
+
+  /**
+   * Extracts the CLI session ID from a JSON line (`resume.sessionIdPath`).
+   *
+   * @param line - JSON string from CLI stdout
+   * @returns Session ID found on the line, or undefined (or no `resume` config)
+   */
+  const parseSessionId = (line: string): string | undefined => {
+    if (!resume) return undefined
+
+    let event: unknown
+    try {
+      event = JSON.parse(line)
+    } catch {
+      return undefined
+    }
+
+    return jsonPathString(event, resume.sessionIdPath) || undefined
+  }
+
   return {
     parseLine,
     parseResult,
+    parseUsage,
+    parseBoundary,
+    parseSessionId,
   }
 }
 
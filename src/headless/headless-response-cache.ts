@@ -0,0 +1,315 @@
+/**
+ * Response cache for headless agent sessions.
+ *
+ * @remarks
+ * Wraps a session manager so each agent turn is looked up in a cache directory
+ * before the agent is spawned. A hit replays the recorded `ParsedUpdate` stream
+ * and `PromptResult`; a miss runs the agent and records a successful turn.
+ *
+ * The key for a turn hashes the adapter schema, the run's working directory
+ * template, a user-supplied salt, the session's cache key (per-prompt env,
+ * workspace spec, trial number) and every prompt of the conversation so far.
+ * Changing any of these misses the cache.
+ *
+ * Entries are JSON files named by key, so the cache can be inspected, copied
+ * and cleared with ordinary file tools as well as `cache stats`/`cache clear`.
+ * Update timestamps are stored as offsets from the start of the turn and
+ * re-stamped from the start of the replay, so cached turns keep their timing.
+ *
+ * @packageDocumentation
+ */
+
+import { readdir, rm, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { hashContent } from '../core/checkpoint.ts'
+import type { CreateSessionOptions, PromptResult, Session, SessionManager } from './headless-session-manager.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the cache key is built from, besides the conversation */
+export type ResponseCacheConfig = {
+  /** Directory holding cache entries */
+  cacheDir: string
+  /** Adapter schema as loaded from disk */
+  schema: unknown
+  /** Working directory template (`--workspace-dir` base, or the shared cwd) */
+  cwdTemplate: string
+  /** User-supplied salt; change it to invalidate every entry */
+  salt?: string
+  /** Called before each prompt sent to the agent, e.g. to wait for a rate limit slot (cache hits skip it) */
+  beforeAgentRequest?: () => Promise<void>
+}
+
+/** Hit and miss counts for one run */
+export type ResponseCacheStats = {
+  /** Turns replayed from the cache */
+  hits: number
+  /** Turns that ran the agent */
+  misses: number
+  /** Turns recorded to the cache */
+  writes: number
+}
+
+/** A session manager that serves turns from the response cache */
+export type CachedSessionManager = SessionManager & {
+  /** Hit and miss counts so far */
+  stats: () => ResponseCacheStats
+}
+
+/** One cached turn, stored as `<key>.json` */
+export type ResponseCacheEntry = {
+  /** Entry format version (version 1 entries held absolute timestamps and are ignored) */
+  version: 2
+  /** Cache key (also the file name) */
+  key: string
+  /** Hash of the adapter schema, for invalidating one adapter's entries */
+  schemaHash: string
+  /** When the turn was recorded (epoch ms) */
+  createdAt: number
+  /** Recorded turn result (update timestamps are ms offsets from the turn start) */
+  result: PromptResult
+}
+
+/** Summary of a cache directory */
+export type ResponseCacheSummary = {
+  /** Number of entries */
+  entries: number
+  /** Total size in bytes */
+  bytes: number
+  /** Oldest entry time (epoch ms) */
+  oldest?: number
+  /** Newest entry time (epoch ms) */
+  newest?: number
+  /** Entry count per adapter schema hash */
+  schemas: Record<string, number>
+}
+
+/** Which entries `clearResponseCache` removes (all when empty) */
+export type ClearCacheOptions = {
+  /** Only entries recorded before this time (epoch ms) */
+  before?: number
+  /** Only entries for this adapter schema hash */
+  schemaHash?: string
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Cache entry file extension */
+const ENTRY_EXTENSION = '.json'
+
+/** Whether a turn is worth replaying: it finished on its own with exit 0 */
+const isCacheable = (result: PromptResult): boolean =>
+  !result.exitInfo || (!result.exitInfo.timedOut && result.exitInfo.exitCode === 0)
+
+/** Shift update timestamps by `delta` ms (to and from turn start offsets) */
+const shiftTimestamps = (result: PromptResult, delta: number): PromptResult => ({
+  ...result,
+  updates: result.updates.map((update) => ({ ...update, timestamp: update.timestamp + delta })),
+})
+
+/** Read a cache entry, or undefined when it is missing or unreadable */
+const readEntry = async (path: string): Promise<ResponseCacheEntry | undefined> => {
+  const file = Bun.file(path)
+  if (!(await file.exists())) return undefined
+  try {
+    const entry = (await file.json()) as ResponseCacheEntry
+    return entry.version === 2 && entry.result ? entry : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** List the entry files in a cache directory */
+const listEntryFiles = async (cacheDir: string): Promise<string[]> => {
+  try {
+    const names = await readdir(cacheDir)
+    return names.filter((name) => name.endsWith(ENTRY_EXTENSION)).map((name) => join(cacheDir, name))
+  } catch {
+    return []
+  }
+}
+
+// ============================================================================
+// Cached Session Manager
+// ============================================================================
+
+/**
+ * Wrap a session manager with the response cache.
+ *
+ * @remarks
+ * Sessions are created lazily: the agent session is only started on the first
+ * miss. A miss after replayed turns first re-sends those prompts to the new
+ * session, so the agent sees the whole conversation. Turns that time out or
+ * exit non-zero are not recorded.
+ *
+ * `create` accepts a `cacheKey` in its options; sessions with different cache
+ * keys never share entries (e.g. separate trials of one prompt). Rate limits
+ * belong in `beforeAgentRequest`, so hits are served without waiting for them.
+ *
+ * @param sessions - Session manager that runs the agent
+ * @param config - Cache directory and key inputs
+ * @returns Session manager with hit/miss stats
+ *
+ * @public
+ */
+export const createCachedSessionManager = (
+  sessions: SessionManager,
+  config: ResponseCacheConfig,
+): CachedSessionManager => {
+  const schemaHash = hashContent(config.schema)
+  const baseKey = { schema: schemaHash, cwdTemplate: config.cwdTemplate, salt: config.salt ?? '' }
+  const counts: ResponseCacheStats = { hits: 0, misses: 0, writes: 0 }
+
+  type CachedSession = {
+    stub: Session
+    options: CreateSessionOptions
+    /** Prompts sent so far */
+    inputs: string[]
+    /** Agent session, once a miss needed one */
+    real?: Session
+    /** Number of prompts the agent session has seen */
+    sent: number
+  }
+  const cached = new Map<string, CachedSession>()
+
+  const entryPath = (key: string) => join(config.cacheDir, `${key}${ENTRY_EXTENSION}`)
+
+  const create = async (cwd: string, options: CreateSessionOptions = {}): Promise<Session> => {
+    const stub: Session = { id: `cache_${crypto.randomUUID()}`, cwd, active: true, turnCount: 0 }
+    cached.set(stub.id, { stub, options, inputs: [], sent: 0 })
+    return stub
+  }
+
+  const prompt: SessionManager['prompt'] = async (sessionId, promptText, onUpdate) => {
+    const session = cached.get(sessionId)
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`)
+    }
+
+    session.inputs.push(promptText)
+    session.stub.turnCount++
+    const key = hashContent({
+      ...baseKey,
+      env: session.options.env ?? null,
+      cacheKey: session.options.cacheKey ?? null,
+      inputs: session.inputs,
+    })
+
+    const entry = await readEntry(entryPath(key))
+    if (entry) {
+      counts.hits++
+      const replayed = shiftTimestamps(entry.result, Date.now())
+      for (const update of replayed.updates) onUpdate?.(update)
+      return { ...replayed, cached: true }
+    }
+
+    counts.misses++
+    session.real ??= await sessions.create(session.stub.cwd, session.options)
+    // Bring the agent up to date with turns that were replayed from the cache
+    while (session.sent < session.inputs.length - 1) {
+      await config.beforeAgentRequest?.()
+      await sessions.prompt(session.real.id, session.inputs[session.sent]!)
+      session.sent++
+    }
+    await config.beforeAgentRequest?.()
+    const turnStart = Date.now()
+    const result = await sessions.prompt(session.real.id, promptText, onUpdate)
+    session.sent++
+
+    if (isCacheable(result)) {
+      const record: ResponseCacheEntry = {
+        version: 2,
+        key,
+        schemaHash,
+        createdAt: Date.now(),
+        result: shiftTimestamps(result, -turnStart),
+      }
+      await Bun.write(entryPath(key), JSON.stringify(record))
+      counts.writes++
+    }
+    return result
+  }
+
+  const cancel = (sessionId: string): void => {
+    const session = cached.get(sessionId)
+    if (!session) return
+    session.stub.active = false
+    if (session.real) sessions.cancel(session.real.id)
+  }
+
+  const get = (sessionId: string): Session | undefined => {
+    const session = cached.get(sessionId)
+    return session?.real ?? session?.stub
+  }
+
+  const destroy = (sessionId: string): void => {
+    const session = cached.get(sessionId)
+    if (session?.real) sessions.destroy(session.real.id)
+    cached.delete(sessionId)
+  }
+
+  return { create, prompt, cancel, get, destroy, stats: () => ({ ...counts }) }
+}
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+
+/**
+ * Summarize a response cache directory.
+ *
+ * @param cacheDir - Cache directory
+ * @returns Entry count, size, age range and entries per adapter schema
+ *
+ * @public
+ */
+export const summarizeResponseCache = async (cacheDir: string): Promise<ResponseCacheSummary> => {
+  const summary: ResponseCacheSummary = { entries: 0, bytes: 0, schemas: {} }
+
+  for (const path of await listEntryFiles(cacheDir)) {
+    const entry = await readEntry(path)
+    if (!entry) continue
+    summary.entries++
+    summary.bytes += (await stat(path)).size
+    summary.oldest = Math.min(summary.oldest ?? entry.createdAt, entry.createdAt)
+    summary.newest = Math.max(summary.newest ?? entry.createdAt, entry.createdAt)
+    summary.schemas[entry.schemaHash] = (summary.schemas[entry.schemaHash] ?? 0) + 1
+  }
+
+  return summary
+}
+
+/**
+ * Remove entries from a response cache directory.
+ *
+ * @remarks
+ * Without filters every entry is removed. Unreadable entry files are removed
+ * as well, since they can never be replayed.
+ *
+ * @param cacheDir - Cache directory
+ * @param options - Age and schema filters
+ * @returns Number of entries removed
+ *
+ * @public
+ */
+export const clearResponseCache = async (cacheDir: string, options: ClearCacheOptions = {}): Promise<number> => {
+  let removed = 0
+
+  for (const path of await listEntryFiles(cacheDir)) {
+    const entry = await readEntry(path)
+    const matches =
+      !entry ||
+      ((options.before === undefined || entry.createdAt < options.before) &&
+        (options.schemaHash === undefined || entry.schemaHash === options.schemaHash))
+    if (matches) {
+      await rm(path, { force: true })
+      removed++
+    }
+  }
+
+  return removed
+}
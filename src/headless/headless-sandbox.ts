@@ -0,0 +1,118 @@
+/**
+ * Container sandbox for headless CLI agents.
+ *
+ * @remarks
+ * Wraps the agent command in `docker run` / `podman run` so destructive tools
+ * only reach the bind-mounted workspace. Runtime defaults (network off,
+ * workspace at `/workspace`) are applied here.
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_SANDBOX_WORKDIR } from '../schemas/constants.ts'
+import type { SandboxConfig } from './headless.schemas.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for wrapping one agent process in a container */
+export type SandboxRunOptions = {
+  /** Agent command to run inside the container */
+  args: string[]
+  /** Host working directory, bind-mounted at the sandbox `workdir` */
+  cwd: string
+  /** Variables forwarded from the runtime CLI's environment (names only) */
+  envNames?: string[]
+  /** Container name, used to force-remove it after a kill */
+  name: string
+}
+
+// ============================================================================
+// Command Building
+// ============================================================================
+
+/**
+ * Get the container CLI for a sandbox.
+ *
+ * @param sandbox - Sandbox configuration
+ * @returns Runtime executable name
+ *
+ * @public
+ */
+export const getSandboxRuntime = (sandbox: SandboxConfig): string => sandbox.runtime ?? 'docker'
+
+/**
+ * Get the container path the workspace is mounted at.
+ *
+ * @param sandbox - Sandbox configuration
+ * @returns Container working directory
+ *
+ * @public
+ */
+export const getSandboxWorkdir = (sandbox: SandboxConfig): string => sandbox.workdir ?? DEFAULT_SANDBOX_WORKDIR
+
+/**
+ * Build the container command that runs an agent process.
+ *
+ * @remarks
+ * Environment variables are passed as `-e NAME` so values are read from the
+ * runtime CLI's environment instead of appearing in its arguments.
+ *
+ * @param sandbox - Sandbox configuration
+ * @param options - Agent command, workspace and container name
+ * @returns Full command array for Bun.spawn
+ *
+ * @public
+ */
+export const buildSandboxCommand = (sandbox: SandboxConfig, options: SandboxRunOptions): string[] => {
+  const { args, cwd, envNames = [], name } = options
+  const workdir = getSandboxWorkdir(sandbox)
+
+  const command = [getSandboxRuntime(sandbox), 'run', '--rm', '-i', '--name', name]
+  command.push('--network', sandbox.network ?? 'none')
+  command.push('-v', `${cwd}:${workdir}`, '-w', workdir)
+
+  for (const mount of sandbox.mounts ?? []) {
+    command.push('-v', `${mount.source}:${mount.target}${mount.readonly === false ? '' : ':ro'}`)
+  }
+  if (sandbox.cpus !== undefined) {
+    command.push('--cpus', String(sandbox.cpus))
+  }
+  if (sandbox.memory) {
+    command.push('--memory', sandbox.memory)
+  }
+  if (sandbox.user) {
+    command.push('--user', sandbox.user)
+  }
+  for (const envName of envNames) {
+    command.push('-e', envName)
+  }
+  if (sandbox.runArgs) {
+    command.push(...sandbox.runArgs)
+  }
+
+  command.push(sandbox.image, ...args)
+  return command
+}
+
+/**
+ * Force-remove a sandbox container.
+ *
+ * @remarks
+ * `--rm` cleans up containers that exit on their own. Killing the runtime CLI
+ * (timeout, cancel) can leave the container running, so it is removed here.
+ * Fire-and-forget: failures (e.g. already removed) are ignored.
+ *
+ * @param sandbox - Sandbox configuration
+ * @param name - Container name
+ *
+ * @public
+ */
+export const removeSandboxContainer = (sandbox: SandboxConfig, name: string): void => {
+  try {
+    Bun.spawn([getSandboxRuntime(sandbox), 'rm', '-f', name], { stdout: 'ignore', stderr: 'ignore' })
+  } catch {
+    // Runtime not available; nothing to clean up
+  }
+}
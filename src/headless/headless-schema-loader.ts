@@ -0,0 +1,111 @@
+/**
+ * Adapter schema file loading with inheritance and profiles.
+ *
+ * @remarks
+ * Version 1 files load as they are. Version 2 files are resolved into a
+ * version 1 config: `extends` bases are loaded relative to the file and deep
+ * merged in order (bases may be version 1 or 2), the file's own fields are
+ * merged on top, and then the selected profile. Cycles in `extends` are
+ * reported with the chain of files.
+ *
+ * @packageDocumentation
+ */
+
+import { dirname, resolve } from 'node:path'
+import {
+  type HeadlessAdapterConfig,
+  HeadlessAdapterV2Schema,
+  mergeHeadlessConfig,
+  parseHeadlessConfig,
+  type ResolveProfileOptions,
+  resolveHeadlessProfiles,
+} from './headless.schemas.ts'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Read a schema file and merge its `extends` chain */
+const readSchemaDocument = async (path: string, chain: string[]): Promise<Record<string, unknown>> => {
+  if (chain.includes(path)) {
+    throw new Error(`Schema extends cycle: ${[...chain, path].join(' -> ')}`)
+  }
+
+  const file = Bun.file(path)
+  if (!(await file.exists())) {
+    const parent = chain.at(-1)
+    throw new Error(
+      parent ? `Base schema not found: ${path} (extended by ${parent})` : `Schema file not found: ${path}`,
+    )
+  }
+
+  let json: unknown
+  try {
+    json = await file.json()
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error(`Schema must be a JSON object: ${path}`)
+  }
+
+  const document = json as Record<string, unknown>
+  if (document.version !== 2) return document
+
+  const parsed = HeadlessAdapterV2Schema.safeParse(document)
+  if (!parsed.success) {
+    throw new Error(`Invalid version 2 schema ${path}: ${parsed.error.message}`)
+  }
+
+  const { extends: bases, ...fields } = parsed.data
+  let merged: Record<string, unknown> = {}
+  for (const base of [bases ?? []].flat()) {
+    merged = mergeHeadlessConfig(merged, await readSchemaDocument(resolve(dirname(path), base), [...chain, path]))
+  }
+  return mergeHeadlessConfig(merged, fields)
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load a schema file and resolve it into a raw version 1 config.
+ *
+ * @remarks
+ * The result is what {@link loadHeadlessConfig} validates. Callers hash it
+ * to key checkpoints and caches, so editing a base schema or switching
+ * profiles invalidates them like editing the file itself.
+ *
+ * @param schemaPath - Path to the schema file
+ * @param options - Profile selection
+ * @returns Raw version 1 configuration (not yet validated)
+ * @throws Error if a file is missing or not JSON, `extends` has a cycle, or
+ *   the profile does not exist
+ *
+ * @public
+ */
+export const resolveHeadlessConfigFile = async (
+  schemaPath: string,
+  options: ResolveProfileOptions = {},
+): Promise<unknown> => {
+  const document = await readSchemaDocument(resolve(schemaPath), [])
+  // Bases were merged in, so the resolved document has no extends left
+  return resolveHeadlessProfiles(document, options)
+}
+
+/**
+ * Load, resolve and validate a schema file.
+ *
+ * @param schemaPath - Path to the schema file
+ * @param options - Profile selection
+ * @returns Validated HeadlessAdapterConfig
+ * @throws Error if the file cannot be resolved
+ * @throws ZodError if the resolved config is invalid
+ *
+ * @public
+ */
+export const loadHeadlessConfig = async (
+  schemaPath: string,
+  options: ResolveProfileOptions = {},
+): Promise<HeadlessAdapterConfig> => parseHeadlessConfig(await resolveHeadlessConfigFile(schemaPath, options))
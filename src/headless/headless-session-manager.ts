@@ -4,7 +4,8 @@
  * @remarks
  * Manages the lifecycle of CLI agent sessions including:
  * - Process spawning and tracking
- * - Stream mode (persistent process) vs iterative mode (new process per turn)
+ * - Stream mode (resume per turn), iterative mode (history per turn), and
+ *   persistent mode (one long-lived process per session)
  * - Output parsing and update emission
  * - Session state management
  *
@@ -12,9 +13,18 @@
  */
 
 import type { Subprocess } from 'bun'
-import type { HeadlessAdapterConfig } from './headless.schemas.ts'
+import { DEFAULT_STDERR_LIMIT } from '../schemas/constants.ts'
+import type { EnvMap, HeadlessAdapterConfig, SandboxConfig } from './headless.schemas.ts'
+import { createFixtureRecorder, createFixtureReplayer, type FixtureLine } from './headless-fixtures.ts'
 import { createHistoryBuilder, type HistoryBuilder } from './headless-history-builder.ts'
-import { createOutputParser, type OutputParser, type ParsedUpdate } from './headless-output-parser.ts'
+import {
+  addTokenUsage,
+  createOutputParser,
+  type OutputParser,
+  type ParsedUpdate,
+  type TokenUsage,
+} from './headless-output-parser.ts'
+import { buildSandboxCommand, getSandboxWorkdir, removeSandboxContainer } from './headless-sandbox.ts'
 
 // ============================================================================
 // Types
@@ -26,8 +36,18 @@ export type Session = {
   id: string
   /** Working directory for this session */
   cwd: string
-  /** Subprocess (stream mode only) */
+  /** Resolved CLI process environment (undefined inherits the harness environment) */
+  env?: Record<string, string>
+  /** Values masked in debug output (interpolated or secret-named env values) */
+  secrets?: string[]
+  /** Variables assigned by the schema or prompt (forwarded into a sandbox) */
+  envNames?: string[]
+  /** Subprocess (current turn, or the long-lived process in persistent mode) */
   process?: Subprocess
+  /** Unconsumed stdout carried over between turns (persistent mode only) */
+  stdoutBuffer?: string
+  /** Bounded stderr capture for the current process */
+  stderr?: StderrCollector
   /** History builder (iterative mode only) */
   history?: HistoryBuilder
   /** Session ID from CLI (for resume, stream mode) */
@@ -38,6 +58,22 @@ export type Session = {
   turnCount: number
 }
 
+/** Bounded stderr capture for a spawned process */
+export type StderrCollector = {
+  /** Returns stderr captured since the last call and clears it */
+  take: () => string
+  /** Resolves when the stderr stream closes */
+  closed: Promise<void>
+}
+
+/** Options for creating a session */
+export type CreateSessionOptions = {
+  /** Per-prompt environment overrides, applied on top of the schema's `env` */
+  env?: EnvMap
+  /** Extra data identifying the run in the response cache (ignored without one) */
+  cacheKey?: unknown
+}
+
 /** Process exit information for debugging */
 export type ProcessExitInfo = {
   /** Exit code (null if killed by signal or timed out) */
@@ -61,6 +97,14 @@ export type PromptResult = {
   cliSessionId?: string
   /** Process exit information */
   exitInfo?: ProcessExitInfo
+  /** Agent stderr written during this turn (capped, tail kept; omitted when empty) */
+  stderr?: string
+  /** Tail of raw stdout for this turn (only when the schema has `retryOn.stdout` patterns) */
+  stdout?: string
+  /** Token usage summed over this turn's events (requires schema `usage`) */
+  usage?: TokenUsage
+  /** Whether the turn was replayed from the response cache */
+  cached?: boolean
 }
 
 /** Session manager configuration */
@@ -71,6 +115,16 @@ export type SessionManagerConfig = {
   timeout?: number
   /** Whether to show debug output (constructed commands, raw stdout) */
   verbose?: boolean
+  /** Maximum stderr characters kept per turn (default: DEFAULT_STDERR_LIMIT) */
+  stderrLimit?: number
+  /** Container sandbox for every spawned process (overrides the schema's `sandbox`) */
+  sandbox?: SandboxConfig
+  /** Record each turn's raw stdout, exit info and timing to this fixture directory */
+  recordDir?: string
+  /** Replay turns recorded in this fixture directory instead of running the agent */
+  replayDir?: string
+  /** With `replayDir`, wait out the recorded time between stdout lines */
+  replayTiming?: boolean
   /**
    * Debug mode - shows detailed output for troubleshooting.
    * When enabled:
@@ -93,26 +147,41 @@ export type SessionManagerConfig = {
  * The session manager is the core orchestrator for CLI agent interaction:
  *
  * **Stream mode:**
- * - Spawns one process per session
- * - Keeps process alive across turns
- * - Uses stdin/stdout for communication
+ * - Spawns a new process per turn
+ * - Continues the conversation via the schema's resume flag
  * - Supports session resume via CLI flags
  *
+ * **Persistent mode:**
+ * - Spawns one process per session in `create()`
+ * - Writes each turn to the open stdin
+ * - Uses the `result` matcher to detect the end of each turn
+ *
  * **Iterative mode:**
  * - Spawns a new process per turn
  * - Accumulates history in prompts
  * - No persistent process state
  *
+ * **Record and replay:**
+ * - `recordDir` saves every turn's raw stdout lines as a fixture
+ * - `replayDir` feeds recorded lines to the output parser without spawning
+ *   anything, in any session mode
+ *
  * @param config - Session manager configuration
  * @returns Session manager with create, prompt, and cancel methods
  */
 export const createSessionManager = (config: SessionManagerConfig) => {
-  const { schema, verbose = false, debug = false } = config
+  const { schema, verbose = false, debug = false, stderrLimit = DEFAULT_STDERR_LIMIT } = config
+  // Raw stdout is only kept when retry patterns need it
+  const stdoutLimit = schema.retryOn?.stdout?.length ? stderrLimit : 0
   // Use schema timeout if available, otherwise default to 60000ms
   const schemaTimeout = 'timeout' in schema ? (schema.timeout ?? 60000) : 60000
   const timeout = config.timeout ?? schemaTimeout
   const sessions = new Map<string, Session>()
   const outputParser = createOutputParser(schema)
+  const sandbox = config.sandbox ?? schema.sandbox
+  const recorder = config.recordDir ? createFixtureRecorder(config.recordDir, schema.name) : undefined
+  const replayer = config.replayDir ? createFixtureReplayer(config.replayDir) : undefined
+  let containerCount = 0
 
   /**
    * Debug logging helper - only logs when debug mode is enabled.
@@ -127,22 +196,81 @@ export const createSessionManager = (config: SessionManagerConfig) => {
     }
   }
 
+  /**
+   * Spawns the CLI process for a session, capturing its stderr.
+   *
+   * @remarks
+   * With a sandbox, the command runs in a fresh container that is
+   * force-removed if the runtime CLI is killed.
+   */
+  const spawnProcess = (session: Session, args: string[], stdin: 'pipe' | 'ignore'): Subprocess => {
+    let command = args
+    let containerName: string | undefined
+    if (sandbox) {
+      containerName = `agent-eval-${session.id}-${++containerCount}`
+      command = buildSandboxCommand(sandbox, {
+        args,
+        cwd: session.cwd,
+        envNames: session.envNames,
+        name: containerName,
+      })
+      debugLog('sandbox', maskSecrets(command.join(' '), session.secrets))
+    }
+
+    const process = Bun.spawn(command, {
+      cwd: session.cwd,
+      env: session.env,
+      stdin,
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    if (sandbox && containerName) {
+      const name = containerName
+      process.exited.then(() => {
+        if (process.signalCode) removeSandboxContainer(sandbox, name)
+      })
+    }
+    session.process = process
+    session.stderr = createStderrCollector(process, stderrLimit, (chunk) => debugLog('stderr', chunk.trimEnd()))
+    return process
+  }
+
   /**
    * Creates a new session.
    *
    * @param cwd - Working directory for the session
+   * @param options - Session options (per-prompt environment overrides)
    * @returns Created session
+   * @throws Error if an env value references an unset `${VAR}`
    */
-  const create = async (cwd: string): Promise<Session> => {
+  const create = async (cwd: string, options: CreateSessionOptions = {}): Promise<Session> => {
     const id = generateSessionId()
 
+    // Replayed sessions never start a process, so they need no environment
+    if (replayer) {
+      const session: Session = { id, cwd, active: true, turnCount: 0 }
+      sessions.set(id, session)
+      return session
+    }
+
+    const { env, assigned, secrets } = resolveEnv(schema, options.env)
+
     const session: Session = {
       id,
       cwd,
+      env,
+      secrets,
+      envNames: Object.keys(assigned),
       active: true,
       turnCount: 0,
     }
 
+    // Debug output: show assigned variables with secrets masked
+    if ((verbose || debug) && Object.keys(assigned).length > 0) {
+      const pairs = Object.entries(assigned).map(([key, value]) => `${key}=${maskSecrets(value, secrets)}`)
+      console.error(`[headless] Env: ${pairs.join(' ')}${schema.envAllowlist ? ' (allowlist)' : ''}`)
+    }
+
     // Initialize mode-specific state
     if (schema.sessionMode === 'iterative') {
       // Normalize historyTemplate: v2 schemas can have object format, convert to string
@@ -158,6 +286,14 @@ export const createSessionManager = (config: SessionManagerConfig) => {
       })
     }
 
+    // Persistent mode pays the agent startup cost once, here
+    if (schema.sessionMode === 'persistent') {
+      const args = buildCommand(session)
+      const process = spawnProcess(session, args, 'pipe')
+      session.stdoutBuffer = ''
+      debugLog('process', `Spawned persistent process (pid ${process.pid})`)
+    }
+
     sessions.set(id, session)
     return session
   }
@@ -181,21 +317,60 @@ export const createSessionManager = (config: SessionManagerConfig) => {
     }
 
     session.turnCount++
+    const collector = createTurnCollector(session, outputParser, onUpdate, debugLog, stdoutLimit, !!recorder)
 
-    if (schema.sessionMode === 'stream') {
-      return promptStream(session, promptText, onUpdate)
+    if (replayer) {
+      return promptReplay(session, promptText, collector)
     }
 
-    return promptIterative(session, promptText, onUpdate)
+    const result =
+      schema.sessionMode === 'stream'
+        ? await promptStream(session, promptText, collector)
+        : schema.sessionMode === 'persistent'
+          ? await promptPersistent(session, promptText, collector)
+          : await promptIterative(session, promptText, collector)
+
+    await recorder?.recordTurn(session.id, {
+      input: promptText,
+      lines: collector.lines,
+      exitInfo: result.exitInfo,
+      ...(result.stderr && { stderr: result.stderr }),
+      duration: collector.elapsed(),
+    })
+    return result
   }
 
   /**
-   * Stream mode: send prompt via stdin to persistent process.
+   * Replay: feed the recorded turn's stdout lines to the parser.
+   *
+   * @remarks
+   * With `replayTiming`, each line is delivered at its recorded offset and
+   * the turn lasts as long as it did when recorded.
+   */
+  const promptReplay = async (
+    session: Session,
+    promptText: string,
+    collector: TurnCollector,
+  ): Promise<PromptResult> => {
+    const turn = await replayer!.nextTurn(session.id, promptText)
+    debugLog('replay', `Replaying ${turn.lines.length} lines for turn ${session.turnCount}`)
+
+    for (const { at, line } of turn.lines) {
+      if (config.replayTiming) await Bun.sleep(Math.max(0, at - collector.elapsed()))
+      if (collector.processLine(line)) break
+    }
+    if (config.replayTiming) await Bun.sleep(Math.max(0, turn.duration - collector.elapsed()))
+
+    return collector.finish(turn.exitInfo, turn.stderr)
+  }
+
+  /**
+   * Stream mode: spawn new process per turn, resuming the CLI session.
    */
   const promptStream = async (
     session: Session,
     promptText: string,
-    onUpdate?: UpdateCallback,
+    collector: TurnCollector,
   ): Promise<PromptResult> => {
     // Build command for first turn or if no process exists
     if (!session.process || session.process.killed) {
@@ -204,38 +379,45 @@ export const createSessionManager = (config: SessionManagerConfig) => {
       // Choose stdin mode based on schema configuration
       const stdinMode = schema.prompt.stdin ? 'pipe' : 'ignore'
 
-      session.process = Bun.spawn(args, {
-        cwd: session.cwd,
-        stdin: stdinMode,
-        stdout: 'pipe',
-        stderr: 'inherit',
-      })
+      spawnProcess(session, args, stdinMode)
 
       // If using stdin, write the prompt and close stdin
       // (stream mode spawns new process per turn, so stdin should close after writing)
       if (schema.prompt.stdin && session.process) {
-        writePromptToStdin(session.process, promptText, true)
+        writePromptToStdin(session.process, promptText, true, schema.prompt.stdinFormat)
       }
     } else {
       // Subsequent turns: spawn new process with resume flag
       const args = buildCommand(session, promptText)
       const stdinMode = schema.prompt.stdin ? 'pipe' : 'ignore'
 
-      session.process = Bun.spawn(args, {
-        cwd: session.cwd,
-        stdin: stdinMode,
-        stdout: 'pipe',
-        stderr: 'inherit',
-      })
+      spawnProcess(session, args, stdinMode)
 
       // If using stdin, write the prompt and close stdin
       // (stream mode spawns new process per turn, so stdin should close after writing)
       if (schema.prompt.stdin && session.process) {
-        writePromptToStdin(session.process, promptText, true)
+        writePromptToStdin(session.process, promptText, true, schema.prompt.stdinFormat)
       }
     }
 
-    return collectOutput(session, outputParser, onUpdate, timeout, debugLog)
+    return collectOutput(session, collector, timeout, debugLog)
+  }
+
+  /**
+   * Persistent mode: write the turn to the long-lived process stdin.
+   */
+  const promptPersistent = async (
+    session: Session,
+    promptText: string,
+    collector: TurnCollector,
+  ): Promise<PromptResult> => {
+    if (!session.process || session.process.killed || session.process.exitCode !== null) {
+      throw new Error(`Persistent process is not running for session: ${session.id}`)
+    }
+
+    writePromptToStdin(session.process, promptText, false, schema.prompt.stdinFormat)
+
+    return collectOutput(session, collector, timeout, debugLog, true)
   }
 
   /**
@@ -244,7 +426,7 @@ export const createSessionManager = (config: SessionManagerConfig) => {
   const promptIterative = async (
     session: Session,
     promptText: string,
-    onUpdate?: UpdateCallback,
+    collector: TurnCollector,
   ): Promise<PromptResult> => {
     // Build full prompt with history
     const fullPrompt = session.history?.buildPrompt(promptText) ?? promptText
@@ -253,34 +435,34 @@ export const createSessionManager = (config: SessionManagerConfig) => {
     const args = buildCommand(session, fullPrompt)
     const stdinMode = schema.prompt.stdin ? 'pipe' : 'ignore'
 
-    session.process = Bun.spawn(args, {
-      cwd: session.cwd,
-      stdin: stdinMode,
-      stdout: 'pipe',
-      stderr: 'inherit',
-    })
+    spawnProcess(session, args, stdinMode)
 
     // If using stdin, write the prompt and close stdin
     // (iterative mode spawns new process per turn, so stdin should close after writing)
     if (schema.prompt.stdin && session.process) {
-      writePromptToStdin(session.process, fullPrompt, true)
+      writePromptToStdin(session.process, fullPrompt, true, schema.prompt.stdinFormat)
     }
 
-    const result = await collectOutput(session, outputParser, onUpdate, timeout, debugLog)
+    const result = await collectOutput(session, collector, timeout, debugLog)
 
     // Store in history for next turn
     session.history?.addTurn(promptText, result.output)
 
     // Clean up process
     session.process = undefined
+    session.stderr = undefined
 
     return result
   }
 
   /**
    * Builds the command array for spawning the CLI.
+   *
+   * @remarks
+   * Omitting `promptText` builds the command without prompt arguments,
+   * as used when spawning a persistent process.
    */
-  const buildCommand = (session: Session, promptText: string): string[] => {
+  const buildCommand = (session: Session, promptText?: string): string[] => {
     const args = [...schema.command]
 
     // Add output format flags (only if non-empty)
@@ -293,9 +475,9 @@ export const createSessionManager = (config: SessionManagerConfig) => {
       args.push(...schema.autoApprove)
     }
 
-    // Add cwd flag if specified
+    // Add cwd flag if specified (the container path when sandboxed)
     if (schema.cwdFlag) {
-      args.push(schema.cwdFlag, session.cwd)
+      args.push(schema.cwdFlag, sandbox ? getSandboxWorkdir(sandbox) : session.cwd)
     }
 
     // Add resume flag if available (stream mode, after first turn)
@@ -304,7 +486,7 @@ export const createSessionManager = (config: SessionManagerConfig) => {
     }
 
     // Add prompt flag and text (skip if using stdin)
-    if (!schema.prompt.stdin) {
+    if (promptText !== undefined && !schema.prompt.stdin) {
       if (schema.prompt.flag) {
         args.push(schema.prompt.flag, promptText)
       } else {
@@ -315,8 +497,8 @@ export const createSessionManager = (config: SessionManagerConfig) => {
 
     // Debug output: show constructed command
     if (verbose || debug) {
-      const stdinNote = schema.prompt.stdin ? ' (+ stdin)' : ''
-      console.error(`[headless] Command: ${args.join(' ')}${stdinNote}`)
+      const stdinNote = schema.prompt.stdin || promptText === undefined ? ' (+ stdin)' : ''
+      console.error(`[headless] Command: ${maskSecrets(args.join(' '), session.secrets)}${stdinNote}`)
     }
 
     return args
@@ -356,6 +538,8 @@ export const createSessionManager = (config: SessionManagerConfig) => {
   const destroy = (sessionId: string): void => {
     cancel(sessionId)
     sessions.delete(sessionId)
+    recorder?.release(sessionId)
+    replayer?.release(sessionId)
   }
 
   return {
@@ -381,6 +565,88 @@ const generateSessionId = (): string => {
   return `sess_${crypto.randomUUID()}`
 }
 
+/** Matches `${VAR}` placeholders in env values */
+const ENV_PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g
+
+/** Env var names whose values are masked even without interpolation */
+const SECRET_ENV_NAME = /KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL/i
+
+/** Replacement for masked values */
+const SECRET_MASK = '***'
+
+/**
+ * Resolves the CLI process environment for a session.
+ *
+ * @remarks
+ * Layers, lowest precedence first:
+ * 1. Harness environment (all of it, or only `envAllowlist` names)
+ * 2. Schema `env`
+ * 3. Per-prompt overrides
+ *
+ * `${VAR}` placeholders are read from the harness environment, not from
+ * earlier layers. Returns `env: undefined` when nothing is configured so
+ * the process inherits the harness environment unchanged.
+ *
+ * @param schema - Headless adapter configuration
+ * @param overrides - Per-prompt environment overrides
+ * @returns Resolved environment, assigned variables, and secret values
+ * @throws Error if a placeholder references an unset variable
+ *
+ * @internal
+ */
+export const resolveEnv = (
+  schema: Pick<HeadlessAdapterConfig, 'env' | 'envAllowlist'>,
+  overrides?: EnvMap,
+): { env?: Record<string, string>; assigned: Record<string, string>; secrets: string[] } => {
+  const assigned: Record<string, string> = {}
+  const secrets: string[] = []
+
+  for (const [key, template] of Object.entries({ ...schema.env, ...overrides })) {
+    let interpolated = false
+    const value = template.replace(ENV_PLACEHOLDER, (_, name: string) => {
+      const resolved = process.env[name]
+      if (resolved === undefined) {
+        throw new Error(`Environment variable not set: ${name} (referenced by env.${key})`)
+      }
+      interpolated = true
+      return resolved
+    })
+    assigned[key] = value
+    if (value && (interpolated || SECRET_ENV_NAME.test(key))) {
+      secrets.push(value)
+    }
+  }
+
+  if (!schema.envAllowlist && Object.keys(assigned).length === 0) {
+    return { env: undefined, assigned, secrets }
+  }
+
+  const inherited: Record<string, string> = {}
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && (!schema.envAllowlist || schema.envAllowlist.includes(key))) {
+      inherited[key] = value
+    }
+  }
+
+  return { env: { ...inherited, ...assigned }, assigned, secrets }
+}
+
+/**
+ * Replaces secret values in text for debug output.
+ *
+ * @param text - Text to mask
+ * @param secrets - Secret values to replace
+ * @returns Text with each secret replaced by `***`
+ *
+ * @internal
+ */
+export const maskSecrets = (text: string, secrets: string[] = []): string => {
+  // Longest first so a secret containing another is masked whole
+  return [...secrets]
+    .sort((a, b) => b.length - a.length)
+    .reduce((masked, secret) => masked.replaceAll(secret, SECRET_MASK), text)
+}
+
 /**
  * Writes a prompt to a process stdin stream.
  *
@@ -397,18 +663,24 @@ const generateSessionId = (): string => {
  *
  * **Closing stdin:** When `closeAfterWrite` is true, the stdin stream is
  * closed after writing. This is required for CLIs that read from stdin
- * with `-` and wait for EOF before processing (e.g., Codex). For stream
+ * with `-` and wait for EOF before processing (e.g., Codex). For persistent
  * mode sessions where stdin stays open for subsequent prompts, pass false.
  *
  * @param process - Subprocess with stdin stream
  * @param prompt - Prompt text to write
  * @param closeAfterWrite - Whether to close stdin after writing (default: false)
+ * @param format - Stdin format from the schema (default: 'text')
  *
  * @internal
  */
-const writePromptToStdin = (process: Subprocess, prompt: string, closeAfterWrite = false): void => {
+const writePromptToStdin = (
+  process: Subprocess,
+  prompt: string,
+  closeAfterWrite = false,
+  format: 'text' | 'json' = 'text',
+): void => {
   if (process.stdin && typeof process.stdin !== 'number') {
-    process.stdin.write(`${prompt}\n`)
+    process.stdin.write(`${formatStdinPrompt(prompt, format)}\n`)
     process.stdin.flush()
     if (closeAfterWrite) {
       process.stdin.end()
@@ -417,26 +689,262 @@ const writePromptToStdin = (process: Subprocess, prompt: string, closeAfterWrite
 }
 
 /**
- * Collects output from a running process.
+ * Formats a prompt as a single stdin line.
+ *
+ * @remarks
+ * JSON format emits a user message object, the shape used by interactive
+ * JSON stdin protocols (e.g., `--input-format stream-json`).
+ *
+ * @param prompt - Prompt text
+ * @param format - Stdin format from the schema
+ * @returns Line to write (without trailing newline)
+ *
+ * @internal
+ */
+const formatStdinPrompt = (prompt: string, format: 'text' | 'json'): string => {
+  if (format === 'json') {
+    return JSON.stringify({ type: 'user', message: { role: 'user', content: prompt } })
+  }
+  return prompt
+}
+
+/**
+ * Starts draining a process's stderr into a bounded buffer.
+ *
+ * @remarks
+ * Reading continuously keeps a chatty agent from blocking on a full pipe.
+ * Only the last `limit` characters are kept, since crash traces end there;
+ * dropped output is noted with a `[... N chars truncated]` prefix.
+ *
+ * @param process - Subprocess spawned with `stderr: 'pipe'`
+ * @param limit - Maximum characters kept between `take()` calls
+ * @param onChunk - Optional callback for each decoded chunk (debug logging)
+ * @returns Collector to take captured stderr from
+ *
+ * @internal
+ */
+export const createStderrCollector = (
+  process: Subprocess,
+  limit: number,
+  onChunk?: (chunk: string) => void,
+): StderrCollector => {
+  let buffer = ''
+  let truncated = 0
+
+  const drain = async (): Promise<void> => {
+    const stderr = process.stderr
+    if (!stderr || typeof stderr === 'number') return
+
+    const decoder = new TextDecoder()
+    try {
+      for await (const value of stderr) {
+        const chunk = decoder.decode(value, { stream: true })
+        onChunk?.(chunk)
+        buffer += chunk
+        if (buffer.length > limit) {
+          truncated += buffer.length - limit
+          buffer = buffer.slice(-limit)
+        }
+      }
+    } catch {
+      // Stream errors end capture; whatever was read is kept
+    }
+  }
+
+  const take = (): string => {
+    const text = truncated > 0 ? `[... ${truncated} chars truncated]\n${buffer}` : buffer
+    buffer = ''
+    truncated = 0
+    return text
+  }
+
+  return { take, closed: drain() }
+}
+
+/** Parses one turn's stdout lines into updates and a prompt result */
+export type TurnCollector = {
+  /** Parses one stdout line, emitting updates; returns true for the final result */
+  processLine: (line: string) => boolean
+  /** Builds the prompt result from what was parsed */
+  finish: (exitInfo?: ProcessExitInfo, stderr?: string) => PromptResult
+  /** Milliseconds since the turn started */
+  elapsed: () => number
+  /** Lines parsed so far (only when recording) */
+  lines: FixtureLine[]
+}
+
+/**
+ * Creates the line collector for one turn.
+ *
+ * @remarks
+ * Shared by live turns, which read lines from the process stdout, replayed
+ * turns, which read them from a fixture, and `adapter test`, which reads them
+ * from a sample file.
  *
  * @param session - Active session
  * @param parser - Output parser
  * @param onUpdate - Update callback
- * @param timeoutMs - Timeout in ms
  * @param logDebug - Debug logging function
- * @returns Collected output and updates
+ * @param stdoutLimit - Raw stdout characters to keep for the result (0 for none)
+ * @param recordLines - Whether to keep every line with its offset
+ * @returns Turn collector
+ *
+ * @internal
  */
-const collectOutput = async (
+export const createTurnCollector = (
   session: Session,
   parser: OutputParser,
   onUpdate: UpdateCallback | undefined,
-  timeoutMs: number,
   logDebug: (category: string, message: string, data?: unknown) => void,
-): Promise<PromptResult> => {
+  stdoutLimit: number,
+  recordLines: boolean,
+): TurnCollector => {
+  const startedAt = Date.now()
   const updates: ParsedUpdate[] = []
+  const lines: FixtureLine[] = []
   let output = ''
+  let stdoutTail = ''
   let cliSessionId: string | undefined
+  let usage: TokenUsage | undefined
   const accumulatedMessages: string[] = []
+  // The first delta of a turn always starts a new step
+  let deltaBreak = true
+  let openDeltaMessage = false
+
+  const elapsed = () => Date.now() - startedAt
+
+  const processLine = (line: string): boolean => {
+    logDebug('line', `Processing line: ${line.slice(0, 100)}${line.length > 100 ? '...' : ''}`)
+
+    if (recordLines) {
+      lines.push({ at: elapsed(), line })
+    }
+
+    if (stdoutLimit > 0) {
+      stdoutTail += `${line}\n`
+      // Trim occasionally rather than on every line
+      if (stdoutTail.length > stdoutLimit * 2) {
+        stdoutTail = stdoutTail.slice(-stdoutLimit)
+      }
+    }
+
+    // Parse as update first (so updates are emitted even for result lines)
+    const update = parser.parseLine(line)
+    if (update !== null) {
+      // Handle both single updates and arrays of updates (from wildcard matches)
+      const updatesToProcess = Array.isArray(update) ? update : [update]
+
+      for (const singleUpdate of updatesToProcess) {
+        logDebug('parse', `Matched event: ${singleUpdate.type}`, {
+          title: singleUpdate.title,
+          status: singleUpdate.status,
+          content: singleUpdate.content?.slice(0, 50),
+        })
+
+        if (singleUpdate.delta && deltaBreak) {
+          singleUpdate.deltaBreak = true
+        }
+        deltaBreak = false
+
+        updates.push(singleUpdate)
+        onUpdate?.(singleUpdate)
+
+        // Accumulate message content for fallback (streamed deltas join into one message)
+        if (singleUpdate.type === 'message' && singleUpdate.content) {
+          if (singleUpdate.delta && openDeltaMessage && !singleUpdate.deltaBreak) {
+            accumulatedMessages[accumulatedMessages.length - 1] += singleUpdate.content
+          } else {
+            accumulatedMessages.push(singleUpdate.content)
+          }
+        }
+        openDeltaMessage = singleUpdate.type === 'message' && singleUpdate.delta === true
+
+        // Extract CLI session ID if available
+        if (!cliSessionId && singleUpdate.raw && typeof singleUpdate.raw === 'object') {
+          const raw = singleUpdate.raw as Record<string, unknown>
+          if (typeof raw.session_id === 'string') {
+            cliSessionId = raw.session_id
+            session.cliSessionId = cliSessionId
+            logDebug('session', `Extracted CLI session ID: ${cliSessionId}`)
+          }
+        }
+      }
+    } else {
+      logDebug('parse', 'No matching event mapping for line')
+    }
+
+    // Session ID from any line matching the schema's `resume.sessionIdPath`
+    const lineSessionId = cliSessionId ? undefined : parser.parseSessionId(line)
+    if (lineSessionId) {
+      cliSessionId = lineSessionId
+      session.cliSessionId = cliSessionId
+      logDebug('session', `Extracted CLI session ID: ${cliSessionId}`)
+    }
+
+    if (parser.parseBoundary(line)) {
+      deltaBreak = true
+      logDebug('parse', 'Delta boundary')
+    }
+
+    const lineUsage = parser.parseUsage(line)
+    if (lineUsage) {
+      usage = addTokenUsage(usage, lineUsage)
+      logDebug('usage', 'Extracted token usage', lineUsage)
+    }
+
+    // Check for final result (after emitting update)
+    const resultCheck = parser.parseResult(line)
+    if (resultCheck.isResult) {
+      output = resultCheck.content
+      logDebug('result', `Found result: ${output.slice(0, 100)}${output.length > 100 ? '...' : ''}`)
+      return true
+    }
+    return false
+  }
+
+  const finish = (exitInfo?: ProcessExitInfo, stderr?: string): PromptResult => {
+    // Fallback: if result contentPath didn't yield output, use accumulated messages
+    if (!output && accumulatedMessages.length > 0) {
+      output = accumulatedMessages.join('\n')
+      logDebug('fallback', `Using accumulated messages as output (${accumulatedMessages.length} messages)`)
+    }
+
+    return {
+      output,
+      updates,
+      cliSessionId,
+      exitInfo,
+      ...(stderr && { stderr }),
+      ...(stdoutLimit > 0 && { stdout: stdoutTail.slice(-stdoutLimit) }),
+      ...(usage && { usage }),
+    }
+  }
+
+  return { processLine, finish, elapsed, lines }
+}
+
+/**
+ * Collects output from a running process.
+ *
+ * @remarks
+ * When `keepAlive` is true (persistent mode), the process is left running
+ * after the result line, and any stdout read past it is stored on the
+ * session for the next turn.
+ *
+ * @param session - Active session
+ * @param collector - Line collector for this turn
+ * @param timeoutMs - Timeout in ms
+ * @param logDebug - Debug logging function
+ * @param keepAlive - Whether the process outlives this turn (default: false)
+ * @returns Collected output and updates
+ */
+const collectOutput = async (
+  session: Session,
+  collector: TurnCollector,
+  timeoutMs: number,
+  logDebug: (category: string, message: string, data?: unknown) => void,
+  keepAlive = false,
+): Promise<PromptResult> => {
   let timedOut = false
 
   const stdout = session.process?.stdout
@@ -446,7 +954,9 @@ const collectOutput = async (
 
   const reader = stdout.getReader()
   const decoder = new TextDecoder()
-  let buffer = ''
+  // Persistent sessions resume from stdout read past the previous turn's result
+  let buffer = keepAlive ? (session.stdoutBuffer ?? '') : ''
+  let stdoutClosed = false
 
   // Track timeout with a timer ID so we can clear it
   let timeoutId: Timer | undefined
@@ -460,9 +970,22 @@ const collectOutput = async (
   try {
     const readLoop = async (): Promise<'complete'> => {
       readLines: while (true) {
+        // Process complete lines, leaving anything after the result in the buffer
+        let newlineIndex = buffer.indexOf('\n')
+        while (newlineIndex !== -1) {
+          const line = buffer.slice(0, newlineIndex)
+          buffer = buffer.slice(newlineIndex + 1)
+
+          if (line.trim() && collector.processLine(line)) {
+            break readLines // Exit both loops immediately on result
+          }
+          newlineIndex = buffer.indexOf('\n')
+        }
+
         const { done, value } = await reader.read()
 
         if (done) {
+          stdoutClosed = true
           logDebug('process', 'Process stdout closed')
           break
         }
@@ -471,59 +994,6 @@ const collectOutput = async (
         logDebug('raw', `Received ${chunk.length} bytes`)
 
         buffer += chunk
-
-        // Process complete lines
-        const lines = buffer.split('\n')
-        buffer = lines.pop() ?? ''
-
-        for (const line of lines) {
-          if (!line.trim()) continue
-
-          logDebug('line', `Processing line: ${line.slice(0, 100)}${line.length > 100 ? '...' : ''}`)
-
-          // Parse as update first (so updates are emitted even for result lines)
-          const update = parser.parseLine(line)
-          if (update !== null) {
-            // Handle both single updates and arrays of updates (from wildcard matches)
-            const updatesToProcess = Array.isArray(update) ? update : [update]
-
-            for (const singleUpdate of updatesToProcess) {
-              logDebug('parse', `Matched event: ${singleUpdate.type}`, {
-                title: singleUpdate.title,
-                status: singleUpdate.status,
-                content: singleUpdate.content?.slice(0, 50),
-              })
-
-              updates.push(singleUpdate)
-              onUpdate?.(singleUpdate)
-
-              // Accumulate message content for fallback
-              if (singleUpdate.type === 'message' && singleUpdate.content) {
-                accumulatedMessages.push(singleUpdate.content)
-              }
-
-              // Extract CLI session ID if available
-              if (!cliSessionId && singleUpdate.raw && typeof singleUpdate.raw === 'object') {
-                const raw = singleUpdate.raw as Record<string, unknown>
-                if (typeof raw.session_id === 'string') {
-                  cliSessionId = raw.session_id
-                  session.cliSessionId = cliSessionId
-                  logDebug('session', `Extracted CLI session ID: ${cliSessionId}`)
-                }
-              }
-            }
-          } else {
-            logDebug('parse', 'No matching event mapping for line')
-          }
-
-          // Check for final result (after emitting update)
-          const resultCheck = parser.parseResult(line)
-          if (resultCheck.isResult) {
-            output = resultCheck.content
-            logDebug('result', `Found result: ${output.slice(0, 100)}${output.length > 100 ? '...' : ''}`)
-            break readLines // Exit both loops immediately on result
-          }
-        }
       }
       return 'complete'
     }
@@ -547,15 +1017,13 @@ const collectOutput = async (
     reader.releaseLock()
   }
 
-  // Fallback: if result contentPath didn't yield output, use accumulated messages
-  if (!output && accumulatedMessages.length > 0) {
-    output = accumulatedMessages.join('\n')
-    logDebug('fallback', `Using accumulated messages as output (${accumulatedMessages.length} messages)`)
+  if (keepAlive) {
+    session.stdoutBuffer = buffer
   }
 
-  // Get exit info from process
+  // Get exit info from process (a persistent process that is still running has none)
   let exitInfo: ProcessExitInfo | undefined
-  if (session.process) {
+  if (session.process && (!keepAlive || timedOut || stdoutClosed)) {
     try {
       // Wait for process to exit (with a short timeout to not block)
       const exitCode = await Promise.race([
@@ -578,12 +1046,13 @@ const collectOutput = async (
     }
   }
 
-  return {
-    output,
-    updates,
-    cliSessionId,
-    exitInfo,
+  // Let an exited process flush the rest of its stderr before taking it
+  if (session.stderr && exitInfo) {
+    await Promise.race([session.stderr.closed, new Promise((resolve) => setTimeout(resolve, 500))])
   }
+  const stderr = session.stderr?.take()
+
+  return collector.finish(exitInfo, stderr)
 }
 
 /** Session manager type */
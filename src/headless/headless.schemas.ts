@@ -11,6 +11,23 @@
 
 import { z } from 'zod'
 
+// ============================================================================
+// Match Helpers
+// ============================================================================
+
+/** Regular expression source that compiles */
+const RegexSourceSchema = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source)
+      return true
+    } catch {
+      return false
+    }
+  },
+  { message: 'Invalid regular expression' },
+)
+
 // ============================================================================
 // Output Event Mapping Schema
 // ============================================================================
@@ -19,15 +36,26 @@ import { z } from 'zod'
  * Schema for matching CLI output to session update types.
  *
  * @remarks
- * Uses JSONPath-like patterns to match events in CLI JSON output
- * and map them to session update types.
+ * Uses JSONPath patterns to match events in CLI JSON output and map them to
+ * session update types. Exactly one of `value`, `regex` or `in` must be set:
+ * - `value` - Exact match, or `"*"` for any non-null value
+ * - `regex` - Regular expression tested against string values
+ * - `in` - List of accepted values
  */
-export const OutputEventMatchSchema = z.object({
-  /** JSONPath to match event type in CLI output (e.g., "$.type") */
-  path: z.string(),
-  /** Value to match at the path (e.g., "tool_use") */
-  value: z.string(),
-})
+export const OutputEventMatchSchema = z
+  .object({
+    /** JSONPath to match event type in CLI output (e.g., "$.type") */
+    path: z.string(),
+    /** Value to match at the path (e.g., "tool_use") */
+    value: z.string().optional(),
+    /** Regular expression to test at the path (e.g., "^mcp__") */
+    regex: RegexSourceSchema.optional(),
+    /** Accepted values at the path (e.g., ["tool_use", "server_tool_use"]) */
+    in: z.array(z.string()).optional(),
+  })
+  .refine((match) => [match.value, match.regex, match.in].filter((v) => v !== undefined).length === 1, {
+    message: 'Exactly one of value, regex or in is required',
+  })
 
 /** Output event match type */
 export type OutputEventMatch = z.infer<typeof OutputEventMatchSchema>
@@ -63,6 +91,22 @@ export const OutputEventExtractSchema = z
 /** Output event extract type */
 export type OutputEventExtract = z.infer<typeof OutputEventExtractSchema>
 
+/**
+ * Schema for accumulating streamed deltas into one step.
+ *
+ * @remarks
+ * Consecutive `message` or `thought` updates from an accumulating mapping
+ * are concatenated into a single trajectory step. The step closes when any
+ * other update arrives, the turn ends, or an event matching `until` is seen.
+ */
+export const AccumulateConfigSchema = z.object({
+  /** Event that closes the current step (e.g., `content_block_stop`) */
+  until: OutputEventMatchSchema.optional(),
+})
+
+/** Accumulate configuration type */
+export type AccumulateConfig = z.infer<typeof AccumulateConfigSchema>
+
 /**
  * Schema for mapping CLI output events to session update types.
  *
@@ -71,6 +115,7 @@ export type OutputEventExtract = z.infer<typeof OutputEventExtractSchema>
  * 1. How to match events (match.path + match.value)
  * 2. What session update type to emit (emitAs)
  * 3. What content to extract (extract)
+ * 4. Whether matches are streaming deltas to concatenate (accumulate)
  */
 export const OutputEventMappingSchema = z.object({
   /** Matching criteria for CLI output */
@@ -79,11 +124,38 @@ export const OutputEventMappingSchema = z.object({
   emitAs: z.enum(['thought', 'tool_call', 'message', 'plan']),
   /** Content extraction configuration */
   extract: OutputEventExtractSchema.optional(),
+  /** Concatenate consecutive matches into one step (`true` or `{ until }`) */
+  accumulate: z.union([z.boolean(), AccumulateConfigSchema]).optional(),
 })
 
 /** Output event mapping type */
 export type OutputEventMapping = z.infer<typeof OutputEventMappingSchema>
 
+// ============================================================================
+// Tool Call Correlation Schema
+// ============================================================================
+
+/**
+ * Schema for correlating tool call start and result events.
+ *
+ * @remarks
+ * Agents like Claude emit a `tool_use` event and a later `tool_result` event
+ * referencing it by id. When configured, `tool_call` updates carry the id
+ * found at `resultIdPath` (result events) or `startIdPath` (start events),
+ * and trajectory extraction merges each pair into one step with input,
+ * output, final status and duration. Paths are evaluated against the matched
+ * event or item, like `extract` paths.
+ */
+export const ToolCorrelationSchema = z.object({
+  /** JSONPath to the call id on start events (e.g., "$.id") */
+  startIdPath: z.string(),
+  /** JSONPath to the referenced call id on result events (e.g., "$.tool_use_id") */
+  resultIdPath: z.string(),
+})
+
+/** Tool correlation type */
+export type ToolCorrelation = z.infer<typeof ToolCorrelationSchema>
+
 // ============================================================================
 // Prompt Configuration Schema
 // ============================================================================
@@ -103,7 +175,11 @@ export const PromptConfigSchema = z
     flag: z.string().optional(),
     /** Use stdin to pass prompt instead of command args */
     stdin: z.boolean().optional(),
-    /** Format for stdin input in stream mode */
+    /**
+     * Format for stdin input:
+     * - 'text': Write the prompt as a raw text line (default)
+     * - 'json': Write a JSON user message line (`{"type":"user","message":{...}}`)
+     */
     stdinFormat: z.enum(['text', 'json']).optional(),
   })
   .refine((data) => !(data.flag && data.stdin), {
@@ -153,19 +229,178 @@ export type ResumeConfig = z.infer<typeof ResumeConfigSchema>
 
 /**
  * Schema for final result extraction.
+ *
+ * @remarks
+ * Exactly one of `matchValue`, `matchRegex` or `matchIn` must be set; they
+ * behave like `value`, `regex` and `in` on output event matches.
  */
-export const ResultConfigSchema = z.object({
-  /** JSONPath to match result type (e.g., "$.type") */
-  matchPath: z.string(),
-  /** Value indicating final result (e.g., "result") */
-  matchValue: z.string(),
-  /** JSONPath to extract result content */
-  contentPath: z.string(),
-})
+export const ResultConfigSchema = z
+  .object({
+    /** JSONPath to match result type (e.g., "$.type") */
+    matchPath: z.string(),
+    /** Value indicating final result (e.g., "result") */
+    matchValue: z.string().optional(),
+    /** Regular expression indicating final result (e.g., "^turn\\.(completed|failed)$") */
+    matchRegex: RegexSourceSchema.optional(),
+    /** Values indicating final result */
+    matchIn: z.array(z.string()).optional(),
+    /** JSONPath to extract result content */
+    contentPath: z.string(),
+  })
+  .refine(
+    (result) => [result.matchValue, result.matchRegex, result.matchIn].filter((v) => v !== undefined).length === 1,
+    { message: 'Exactly one of matchValue, matchRegex or matchIn is required' },
+  )
 
 /** Result configuration type */
 export type ResultConfig = z.infer<typeof ResultConfigSchema>
 
+// ============================================================================
+// Usage Configuration Schema
+// ============================================================================
+
+/**
+ * Schema for token prices, in USD per million tokens.
+ */
+export const UsagePricingSchema = z.object({
+  /** Price per million input tokens */
+  input: z.number().nonnegative(),
+  /** Price per million output tokens */
+  output: z.number().nonnegative(),
+  /** Price per million cache-read tokens (defaults to 0) */
+  cacheRead: z.number().nonnegative().optional(),
+  /** Price per million cache-write tokens (defaults to 0) */
+  cacheWrite: z.number().nonnegative().optional(),
+})
+
+/** Usage pricing type */
+export type UsagePricing = z.infer<typeof UsagePricingSchema>
+
+/**
+ * Schema for token usage extraction.
+ *
+ * @remarks
+ * Token counts are read with JSONPath from every event matching `match`
+ * (or every JSON line when omitted) and summed per prompt. Point `match`
+ * at events that carry per-turn totals (e.g., Claude's `result` event)
+ * so counts are not added twice.
+ */
+export const UsageConfigSchema = z.object({
+  /** Events carrying usage (default: every JSON line) */
+  match: OutputEventMatchSchema.optional(),
+  /** JSONPath to input tokens (e.g., "$.usage.input_tokens") */
+  inputTokens: z.string().optional(),
+  /** JSONPath to output tokens */
+  outputTokens: z.string().optional(),
+  /** JSONPath to cache-read tokens */
+  cacheReadTokens: z.string().optional(),
+  /** JSONPath to cache-write tokens */
+  cacheWriteTokens: z.string().optional(),
+  /** Token prices for computing USD cost */
+  pricing: UsagePricingSchema.optional(),
+})
+
+/** Usage configuration type */
+export type UsageConfig = z.infer<typeof UsageConfigSchema>
+
+// ============================================================================
+// Retry Schema
+// ============================================================================
+
+/**
+ * Schema for classifying failed attempts as transient.
+ *
+ * @remarks
+ * Used with `--retries`. An attempt is retried when it timed out (unless
+ * `timeout` is false), exited with one of `exitCodes`, or its stderr / raw
+ * stdout matches one of the patterns. Patterns are case-insensitive regular
+ * expressions; `stderr` patterns are also tested against error messages.
+ *
+ * Without `retryOn`, every timeout, non-zero exit and error is retried.
+ */
+export const RetryOnSchema = z.object({
+  /** Exit codes worth retrying (e.g., [75]) */
+  exitCodes: z.array(z.number().int()).optional(),
+  /** Patterns tested against stderr (e.g., ["429", "rate limit"]) */
+  stderr: z.array(RegexSourceSchema).optional(),
+  /** Patterns tested against raw stdout (e.g., ["overloaded_error"]) */
+  stdout: z.array(RegexSourceSchema).optional(),
+  /** Retry timed-out attempts (default: true) */
+  timeout: z.boolean().optional(),
+})
+
+/** Retry conditions type */
+export type RetryOn = z.infer<typeof RetryOnSchema>
+
+// ============================================================================
+// Sandbox Schema
+// ============================================================================
+
+/**
+ * Schema for an extra bind mount in the sandbox container.
+ */
+export const SandboxMountSchema = z.object({
+  /** Host path */
+  source: z.string(),
+  /** Path inside the container */
+  target: z.string(),
+  /** Mount read-only (default: true) */
+  readonly: z.boolean().optional(),
+})
+
+/** Sandbox mount type */
+export type SandboxMount = z.infer<typeof SandboxMountSchema>
+
+/**
+ * Schema for running the CLI inside a container.
+ *
+ * @remarks
+ * Each spawned process runs via `<runtime> run --rm -i` with the session's
+ * working directory bind-mounted at `workdir`. Networking is off unless
+ * `network` names another mode. Only variables from the schema's `env` and
+ * per-prompt overrides are forwarded into the container.
+ */
+export const SandboxConfigSchema = z.object({
+  /** Container CLI (default: docker) */
+  runtime: z.enum(['docker', 'podman']).optional(),
+  /** Image that provides the agent CLI */
+  image: z.string(),
+  /** Container path of the bind-mounted workspace (default: /workspace) */
+  workdir: z.string().optional(),
+  /** Additional bind mounts (read-only by default) */
+  mounts: z.array(SandboxMountSchema).optional(),
+  /** Network mode (default: none) */
+  network: z.string().optional(),
+  /** CPU limit (e.g., 2) */
+  cpus: z.number().positive().optional(),
+  /** Memory limit (e.g., "4g") */
+  memory: z.string().optional(),
+  /** User to run as (e.g., "1000:1000") */
+  user: z.string().optional(),
+  /** Extra arguments passed to `run` before the image */
+  runArgs: z.array(z.string()).optional(),
+})
+
+/** Sandbox configuration type */
+export type SandboxConfig = z.infer<typeof SandboxConfigSchema>
+
+// ============================================================================
+// Environment Schema
+// ============================================================================
+
+/**
+ * Schema for environment variables passed to the CLI process.
+ *
+ * @remarks
+ * Values may reference the harness environment with `${VAR}` placeholders
+ * (e.g., `"ANTHROPIC_API_KEY": "${CLAUDE_KEY_B}"`). Interpolated values are
+ * treated as secrets and masked in debug output.
+ */
+export const EnvMapSchema = z.record(z.string(), z.string())
+
+/** Environment map type */
+export type EnvMap = z.infer<typeof EnvMapSchema>
+
 // ============================================================================
 // Passthrough Type Mapping Schema
 // ============================================================================
@@ -232,10 +467,12 @@ export const HeadlessAdapterSchema = z.object({
 
   /**
    * Session mode determines how multi-turn conversations work:
-   * - 'stream': Keep process alive, multi-turn via stdin
+   * - 'stream': New process per turn, multi-turn via resume flag
    * - 'iterative': New process per turn, accumulate context in prompt
+   * - 'persistent': One long-lived process per session, each turn written to stdin
+   *   and terminated by the `result` matcher
    */
-  sessionMode: z.enum(['stream', 'iterative']),
+  sessionMode: z.enum(['stream', 'iterative', 'persistent']),
 
   /** Default timeout for this agent in milliseconds (can be overridden per-prompt) */
   timeout: z.number().optional(),
@@ -255,6 +492,18 @@ export const HeadlessAdapterSchema = z.object({
   /** Working directory flag (if CLI needs explicit --cwd) */
   cwdFlag: z.string().optional(),
 
+  /** Environment variables for the CLI process (supports `${VAR}` interpolation) */
+  env: EnvMapSchema.optional(),
+
+  /**
+   * Harness environment variables the CLI process may inherit.
+   *
+   * @remarks
+   * When set, every other variable is cleared before `env` is applied.
+   * Include `PATH` and `HOME` if the CLI needs them.
+   */
+  envAllowlist: z.array(z.string()).optional(),
+
   /**
    * Output parsing mode:
    * - 'jsonpath': Use outputEvents for complex JSONPath-based parsing (default)
@@ -268,9 +517,21 @@ export const HeadlessAdapterSchema = z.object({
   /** Type mapping for passthrough mode */
   passthroughTypeMap: PassthroughTypeMapSchema.optional(),
 
+  /** Merge tool call start/result events by id (jsonpath mode) */
+  correlate: ToolCorrelationSchema.optional(),
+
   /** Final result extraction configuration */
   result: ResultConfigSchema,
 
+  /** Token usage extraction and pricing */
+  usage: UsageConfigSchema.optional(),
+
+  /** Conditions under which failed attempts are retried (with `--retries`) */
+  retryOn: RetryOnSchema.optional(),
+
+  /** Run the CLI inside a docker/podman container */
+  sandbox: SandboxConfigSchema.optional(),
+
   /**
    * Template for formatting conversation history (iterative mode only).
    *
@@ -295,6 +556,132 @@ export const HeadlessAdapterSchema = z.object({
 /** Headless adapter configuration type */
 export type HeadlessAdapterConfig = z.infer<typeof HeadlessAdapterSchema>
 
+// ============================================================================
+// Schema Version 2
+// ============================================================================
+
+/**
+ * Schema for version 2 adapter schema files.
+ *
+ * @remarks
+ * Version 2 files hold the same fields as version 1, plus:
+ * - `extends`: base schema files (paths relative to this file), deep merged
+ *   in order before this file's own fields
+ * - `profiles`: named overrides deep merged on top, selected with `--profile`
+ * - `defaultProfile`: profile applied when none is selected
+ *
+ * Merging replaces arrays and values, merges objects key by key, and removes
+ * keys set to `null`. Fields are only checked once the file is resolved to a
+ * version 1 config, so base files and profiles may hold partial settings.
+ *
+ * Example (two models sharing one base):
+ * ```json
+ * {
+ *   "version": 2,
+ *   "extends": "./claude-base.json",
+ *   "defaultProfile": "sonnet",
+ *   "profiles": {
+ *     "sonnet": { "command": ["claude", "--model", "sonnet"] },
+ *     "opus": { "command": ["claude", "--model", "opus"], "timeout": 300000 }
+ *   }
+ * }
+ * ```
+ */
+export const HeadlessAdapterV2Schema = z
+  .object({
+    /** Schema version */
+    version: z.literal(2),
+    /** Base schema file(s), relative to this file */
+    extends: z.union([z.string(), z.array(z.string())]).optional(),
+    /** Named overrides selected with `--profile` */
+    profiles: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+    /** Profile applied when none is selected */
+    defaultProfile: z.string().optional(),
+  })
+  .catchall(z.unknown())
+
+/** Version 2 adapter schema file type */
+export type HeadlessAdapterV2Config = z.infer<typeof HeadlessAdapterV2Schema>
+
+/** Options for resolving a schema file */
+export type ResolveProfileOptions = {
+  /** Profile to apply (default: the file's `defaultProfile`) */
+  profile?: string
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Deep merges schema settings with override semantics.
+ *
+ * @remarks
+ * Objects merge key by key, arrays and other values replace, and `null`
+ * removes the key (e.g., `"resume": null` drops a base's resume block).
+ *
+ * @param base - Base settings
+ * @param override - Settings that win
+ * @returns Merged settings (inputs are not modified)
+ *
+ * @public
+ */
+export const mergeHeadlessConfig = (
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> => {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key]
+    } else if (isPlainObject(value) && isPlainObject(merged[key])) {
+      merged[key] = mergeHeadlessConfig(merged[key], value)
+    } else if (value !== undefined) {
+      merged[key] = value
+    }
+  }
+  return merged
+}
+
+/**
+ * Resolves a schema file's profiles into a version 1 config.
+ *
+ * @remarks
+ * Version 1 configs are returned unchanged. Version 2 configs have their
+ * selected profile merged in and `profiles`, `defaultProfile` and `version`
+ * replaced by `version: 1`. `extends` must already be resolved (see
+ * `loadHeadlessConfig`), since it names files.
+ *
+ * @param config - Raw configuration object
+ * @param options - Profile selection
+ * @returns Raw version 1 configuration (not yet validated)
+ * @throws Error if `extends` is unresolved, the profile does not exist, or a
+ *   profile is requested from a version 1 config
+ *
+ * @public
+ */
+export const resolveHeadlessProfiles = (config: unknown, options: ResolveProfileOptions = {}): unknown => {
+  if (!isPlainObject(config) || config.version !== 2) {
+    if (options.profile !== undefined) {
+      throw new Error(`Profile '${options.profile}' requested, but the schema is not version 2 and has no profiles`)
+    }
+    return config
+  }
+
+  const { extends: bases, profiles = {}, defaultProfile, version: _, ...fields } = HeadlessAdapterV2Schema.parse(config)
+  if (bases !== undefined) {
+    throw new Error('Schema uses extends; load it from a file with loadHeadlessConfig to resolve base schemas')
+  }
+
+  const name = options.profile ?? defaultProfile
+  if (name === undefined) return { ...fields, version: 1 }
+  const profile = profiles[name]
+  if (!profile) {
+    const available = Object.keys(profiles)
+    throw new Error(`Unknown profile '${name}' (available: ${available.length > 0 ? available.join(', ') : 'none'})`)
+  }
+  return { ...mergeHeadlessConfig(fields, profile), version: 1 }
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
@@ -302,20 +689,58 @@ export type HeadlessAdapterConfig = z.infer<typeof HeadlessAdapterSchema>
 /**
  * Validates and parses a headless adapter configuration.
  *
+ * @remarks
+ * Accepts version 1 configs, and version 2 configs without `extends`, whose
+ * profile is applied first (see {@link resolveHeadlessProfiles}).
+ *
  * @param config - Raw configuration object (e.g., from JSON file)
+ * @param options - Profile selection (version 2 only)
  * @returns Validated HeadlessAdapterConfig
  * @throws ZodError if validation fails
+ * @throws Error if the profile cannot be resolved
  */
-export const parseHeadlessConfig = (config: unknown): HeadlessAdapterConfig => {
-  return HeadlessAdapterSchema.parse(config)
+export const parseHeadlessConfig = (config: unknown, options?: ResolveProfileOptions): HeadlessAdapterConfig => {
+  return HeadlessAdapterSchema.parse(resolveHeadlessProfiles(config, options))
 }
 
 /**
  * Safely validates a headless adapter configuration.
  *
+ * @remarks
+ * Version 2 configs get their default profile applied. Configs that cannot
+ * be resolved (`extends`, an unknown default profile) are validated as-is
+ * and fail on their version.
+ *
  * @param config - Raw configuration object
  * @returns Result with success/failure and data or error
  */
 export const safeParseHeadlessConfig = (config: unknown) => {
-  return HeadlessAdapterSchema.safeParse(config)
+  let resolved = config
+  try {
+    resolved = resolveHeadlessProfiles(config)
+  } catch {
+    // Fall through to report the unresolved config as invalid
+  }
+  return HeadlessAdapterSchema.safeParse(resolved)
+}
+
+/**
+ * Reads per-prompt environment overrides from prompt metadata.
+ *
+ * @remarks
+ * Overrides live under `metadata.env` in the prompt JSONL and are applied
+ * on top of the schema's `env` map, e.g.
+ * `{"id": "t1", "input": "...", "metadata": {"env": {"MODEL": "opus"}}}`.
+ *
+ * @param metadata - Prompt case metadata
+ * @returns Environment overrides, or undefined when none are set
+ * @throws Error if `metadata.env` is not a map of strings
+ */
+export const parsePromptEnv = (metadata?: Record<string, unknown>): EnvMap | undefined => {
+  if (metadata?.env === undefined) return undefined
+  const result = EnvMapSchema.safeParse(metadata.env)
+  if (!result.success) {
+    throw new Error('Invalid metadata.env: expected an object of string values')
+  }
+  return result.data
 }
@@ -8,12 +8,22 @@
  */
 
 export type {
+  AccumulateConfig,
+  EnvMap,
   HeadlessAdapterConfig,
+  HeadlessAdapterV2Config,
   OutputConfig,
   OutputEventExtract,
   OutputEventMapping,
   OutputEventMatch,
   PromptConfig,
+  ResolveProfileOptions,
   ResultConfig,
   ResumeConfig,
+  RetryOn,
+  SandboxConfig,
+  SandboxMount,
+  ToolCorrelation,
+  UsageConfig,
+  UsagePricing,
 } from './headless.schemas.ts'
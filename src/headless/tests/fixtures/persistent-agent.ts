@@ -0,0 +1,44 @@
+/**
+ * Test fixture: long-lived agent speaking a JSONL protocol on stdin/stdout.
+ *
+ * @remarks
+ * Emits an `init` event on startup, then for each stdin line emits an
+ * `assistant` message and a `result` event. Plain text and JSON user
+ * message lines are both accepted. Each event carries the fixture's pid and
+ * the `FIXTURE_MODEL` / `HOME` environment values for assertions. Inputs
+ * starting with `stderr:` write the rest of the line to stderr first.
+ * Result events report `usage` with 10 input tokens and `turn` output tokens.
+ * Inputs starting with `deltas:` also stream the rest, split on spaces, as
+ * `delta` events, with a `stop` event in place of each `|`.
+ */
+
+import { createInterface } from 'node:readline'
+
+const emit = (event: Record<string, unknown>) =>
+  console.log(JSON.stringify({ ...event, pid: process.pid, model: process.env.FIXTURE_MODEL, home: process.env.HOME }))
+
+emit({ type: 'init' })
+
+let turn = 0
+const rl = createInterface({ input: process.stdin, terminal: false })
+
+rl.on('line', (line) => {
+  turn++
+  let text = line
+  try {
+    const parsed = JSON.parse(line)
+    text = parsed?.message?.content ?? line
+  } catch {
+    // Plain text line
+  }
+  if (text.startsWith('stderr:')) {
+    console.error(text.slice('stderr:'.length))
+  }
+  if (text.startsWith('deltas:')) {
+    for (const piece of text.slice('deltas:'.length).split(' ')) {
+      emit(piece === '|' ? { type: 'stop' } : { type: 'delta', text: piece })
+    }
+  }
+  emit({ type: 'assistant', text: `echo: ${text}` })
+  emit({ type: 'result', result: `turn ${turn}: ${text}`, usage: { input_tokens: 10, output_tokens: turn } })
+})
@@ -0,0 +1,125 @@
+/**
+ * Tests for adapter schema inference.
+ *
+ * @remarks
+ * Tests cover:
+ * - Mappings for typed content array items, with correlation, resume and usage
+ * - Passthrough drafts for events already in session update shape
+ * - Result fallback and review notes
+ * - Samples without typed top-level events
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import { inferAdapterSchema } from '../headless-adapter-infer.ts'
+import { testAdapterSchema } from '../headless-adapter-test.ts'
+
+const claudeSample = [
+  { type: 'system', subtype: 'init', session_id: 's-1' },
+  { type: 'assistant', message: { content: [{ type: 'thinking', thinking: 'Let me look' }] }, session_id: 's-1' },
+  {
+    type: 'assistant',
+    message: { content: [{ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } }] },
+    session_id: 's-1',
+  },
+  {
+    type: 'user',
+    message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] },
+    session_id: 's-1',
+  },
+  { type: 'assistant', message: { content: [{ type: 'text', text: 'All good' }] }, session_id: 's-1' },
+  { type: 'result', result: 'All good', session_id: 's-1', usage: { input_tokens: 10, output_tokens: 5 } },
+]
+  .map((event) => JSON.stringify(event))
+  .join('\n')
+
+// ============================================================================
+// inferAdapterSchema
+// ============================================================================
+
+describe('inferAdapterSchema', () => {
+  test('maps typed content items, correlates tool calls and finds resume and usage', () => {
+    const { schema, groups, notes } = inferAdapterSchema(claudeSample, { name: 'claude' })
+
+    expect(schema.sessionMode).toBe('stream')
+    expect(schema.command).toEqual(['claude'])
+    expect(schema.resume).toEqual({ flag: '--resume', sessionIdPath: '$.session_id' })
+    expect(schema.outputEvents).toEqual([
+      {
+        match: { path: '$.message.content[*].type', value: 'thinking' },
+        emitAs: 'thought',
+        extract: { content: '$.thinking' },
+      },
+      {
+        match: { path: '$.message.content[*].type', value: 'tool_use' },
+        emitAs: 'tool_call',
+        extract: { title: '$.name', input: '$.input', status: "'pending'" },
+      },
+      {
+        match: { path: '$.message.content[*].type', value: 'tool_result' },
+        emitAs: 'tool_call',
+        extract: { output: '$.content', status: "'completed'" },
+      },
+      {
+        match: { path: '$.message.content[*].type', value: 'text' },
+        emitAs: 'message',
+        extract: { content: '$.text' },
+      },
+    ])
+    expect(schema.correlate).toEqual({ startIdPath: '$.id', resultIdPath: '$.tool_use_id' })
+    expect(schema.result).toEqual({ matchPath: '$.type', matchValue: 'result', contentPath: '$.result' })
+    expect(schema.usage).toEqual({
+      match: { path: '$.type', value: 'result' },
+      inputTokens: '$.usage.input_tokens',
+      outputTokens: '$.usage.output_tokens',
+    })
+    expect(groups.find((group) => group.value === 'assistant')?.role).toBe('container')
+    expect(notes).toContain('Not mapped: system (1)')
+  })
+
+  test('produces a draft that parses the sample it came from', () => {
+    const schema = parseHeadlessConfig(inferAdapterSchema(claudeSample).schema)
+    const report = testAdapterSchema(schema, claudeSample)
+
+    expect(report.trajectory.map((step) => step.type)).toEqual(['thought', 'tool_call', 'message'])
+    expect(report.trajectory[1]).toMatchObject({ name: 'Read', status: 'completed', output: 'ok' })
+    expect(report.result.output).toBe('All good')
+    expect(report.issues.filter((issue) => issue.level === 'error')).toEqual([])
+  })
+
+  test('uses passthrough mode when events already have the update shape', () => {
+    const sample = [
+      '{"event":"reasoning","content":"hmm"}',
+      '{"event":"tool_call","name":"ls","input":{}}',
+      '{"event":"message","content":"done"}',
+      '{"event":"turn.completed","content":"done"}',
+    ].join('\n')
+
+    const { schema } = inferAdapterSchema(sample)
+
+    expect(schema.outputMode).toBe('passthrough')
+    expect(schema.passthroughTypeMap).toEqual({
+      typeField: 'event',
+      typeValues: { reasoning: 'thought', tool_call: 'tool_call', message: 'message' },
+    })
+    expect(schema.outputEvents).toBeUndefined()
+    expect(schema.result).toEqual({ matchPath: '$.event', matchValue: 'turn.completed', contentPath: '$.content' })
+  })
+
+  test('falls back to the last event type and iterative mode, and notes the guesses', () => {
+    const { schema, notes } = inferAdapterSchema('{"type":"message","text":"hi"}\n{"type":"answer","value":1}')
+
+    expect(schema.sessionMode).toBe('iterative')
+    expect(schema.result).toEqual({ matchPath: '$.type', matchValue: 'answer', contentPath: '$.result' })
+    expect(notes.some((note) => note.startsWith('result: no final-looking event type'))).toBe(true)
+    expect(notes.some((note) => note.startsWith('result.contentPath'))).toBe(true)
+    expect(notes.some((note) => note.startsWith('sessionMode'))).toBe(true)
+    expect(() => inferAdapterSchema('not json\n[1]')).toThrow('No typed JSON events')
+  })
+
+  test('reports samples where only nested content items are typed', () => {
+    const sample = '{"message":{"content":[{"type":"text","text":"hi"}]}}'
+
+    expect(() => inferAdapterSchema(sample)).toThrow('No top-level event with a type field found in sample')
+  })
+})
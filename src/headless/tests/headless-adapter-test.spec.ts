@@ -0,0 +1,139 @@
+/**
+ * Tests for adapter schema linting and dry runs.
+ *
+ * @remarks
+ * Tests cover:
+ * - lintAdapterSchema warnings for mode mismatches, stdin prompts and shadowed mappings
+ * - lintAdapterSchema errors for invalid JSONPath
+ * - testAdapterSchema mapping counts, unmapped lines, result, session id and usage
+ * - testAdapterSchema trajectory and sample warnings
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import { lintAdapterSchema, testAdapterSchema } from '../headless-adapter-test.ts'
+
+const schema = parseHeadlessConfig({
+  version: 1,
+  name: 'sample',
+  command: ['agent'],
+  sessionMode: 'stream',
+  prompt: { flag: '-p' },
+  output: { flag: '--output-format', value: 'stream-json' },
+  resume: { flag: '--resume', sessionIdPath: '$.session_id' },
+  outputEvents: [
+    { match: { path: '$.type', value: 'message' }, emitAs: 'message', extract: { content: '$.text' } },
+    {
+      match: { path: '$.type', value: 'tool_use' },
+      emitAs: 'tool_call',
+      extract: { title: '$.name', status: "'pending'" },
+    },
+    { match: { path: '$.type', value: 'plan' }, emitAs: 'plan', extract: { content: '$.entries' } },
+  ],
+  result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+  usage: { match: { path: '$.type', value: 'result' }, outputTokens: '$.usage.output_tokens' },
+})
+
+const sample = [
+  '{"type":"system","subtype":"init","session_id":"abc"}',
+  '{"type":"message","text":"Reading the file"}',
+  '{"type":"tool_use","name":"Read"}',
+  'Warning: not json',
+  '{"type":"message","text":"Done"}',
+  '{"type":"result","result":"Done","session_id":"abc","usage":{"output_tokens":7}}',
+].join('\n')
+
+// ============================================================================
+// lintAdapterSchema
+// ============================================================================
+
+describe('lintAdapterSchema', () => {
+  test('accepts a consistent schema', () => {
+    expect(lintAdapterSchema(schema)).toEqual([])
+  })
+
+  test('warns about settings the session mode or prompt mode ignores', () => {
+    const issues = lintAdapterSchema(
+      parseHeadlessConfig({
+        ...schema,
+        sessionMode: 'persistent',
+        prompt: { stdin: true },
+        historyTemplate: 'Previous: {{history}}',
+        outputEvents: [
+          ...schema.outputEvents!,
+          { match: { path: '$.type', value: 'message' }, emitAs: 'thought', extract: { content: '$.text' } },
+        ],
+      }),
+    )
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'prompt.stdinFormat',
+      'resume',
+      'historyTemplate',
+      'outputEvents[3].match',
+    ])
+    expect(issues.every((issue) => issue.level === 'warning')).toBe(true)
+  })
+
+  test('reports invalid JSONPath as errors first', () => {
+    const issues = lintAdapterSchema(
+      parseHeadlessConfig({
+        ...schema,
+        resume: undefined,
+        outputEvents: [{ match: { path: '$.type', value: 'message' }, emitAs: 'message', extract: { content: '$[' } }],
+        result: { ...schema.result, contentPath: 'result' },
+      }),
+    )
+
+    expect(issues.map((issue) => [issue.level, issue.path])).toEqual([
+      ['error', 'outputEvents[0].extract.content'],
+      ['error', 'result.contentPath'],
+      ['warning', 'resume'],
+    ])
+  })
+})
+
+// ============================================================================
+// testAdapterSchema
+// ============================================================================
+
+describe('testAdapterSchema', () => {
+  test('reports matches, unmapped lines, result, session id and usage', () => {
+    const report = testAdapterSchema(schema, sample)
+
+    expect(report.lines).toBe(6)
+    expect(report.nonJsonLines).toBe(1)
+    expect(report.mappings.map((mapping) => mapping.matched)).toEqual([2, 1, 0])
+    expect(report.unmapped).toEqual([{ line: 1, text: '{"type":"system","subtype":"init","session_id":"abc"}' }])
+    expect(report.result).toEqual({ matched: 1, output: 'Done' })
+    expect(report.sessionId).toEqual({ path: '$.session_id', value: 'abc' })
+    expect(report.usage).toEqual({ outputTokens: 7 })
+    expect(report.trajectory.map((step) => step.type)).toEqual(['message', 'tool_call', 'message'])
+    expect(report.issues.map((issue) => [issue.path, issue.message])).toEqual([
+      ['outputEvents[2]', 'Matched no sample lines ($.type = plan)'],
+    ])
+  })
+
+  test('warns when the result and session id never match', () => {
+    const report = testAdapterSchema(
+      parseHeadlessConfig({ ...schema, resume: { flag: '--resume', sessionIdPath: '$.sessionId' } }),
+      `${sample}\n{"type":"message","text":"late"}`,
+    )
+    const noResult = testAdapterSchema(schema, '{"type":"message","text":"hi"}')
+
+    expect(report.sessionId?.value).toBeUndefined()
+    expect(report.issues.map((issue) => issue.path)).toContain('resume.sessionIdPath')
+    expect(report.issues.find((issue) => issue.path === 'result')?.message).toBe(
+      '1 lines follow the first result; a single turn stops reading at the result',
+    )
+    expect(noResult.result.matched).toBe(0)
+    expect(noResult.result.output).toBe('hi')
+    expect(noResult.issues.map((issue) => issue.path)).toEqual([
+      'outputEvents[1]',
+      'outputEvents[2]',
+      'result',
+      'resume.sessionIdPath',
+      'usage',
+    ])
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Tests for record-and-replay fixtures.
+ *
+ * @remarks
+ * Tests cover:
+ * - Recording sessions of the persistent fixture agent
+ * - Replaying them without spawning the agent or resolving its env
+ * - Handing out recordings in order and reporting missing ones
+ * - Recorded timing with replayTiming
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { hashContent } from '../../core/checkpoint.ts'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import type { FixtureFile } from '../headless-fixtures.ts'
+import { createSessionManager, type SessionManager } from '../headless-session-manager.ts'
+
+const fixtureDir = join(tmpdir(), `agent-fixtures-${process.pid}`)
+
+const schema = parseHeadlessConfig({
+  version: 1,
+  name: 'persistent-fixture',
+  command: ['bun', join(import.meta.dir, 'fixtures', 'persistent-agent.ts')],
+  sessionMode: 'persistent',
+  timeout: 10000,
+  prompt: { stdin: true },
+  output: { flag: '', value: '' },
+  outputEvents: [
+    {
+      match: { path: '$.type', value: 'assistant' },
+      emitAs: 'message',
+      extract: { content: '$.text' },
+    },
+  ],
+  result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+  usage: {
+    match: { path: '$.type', value: 'result' },
+    inputTokens: '$.usage.input_tokens',
+    outputTokens: '$.usage.output_tokens',
+  },
+})
+
+/** Same parsing, but an agent that cannot start and needs an unset variable */
+const unavailableSchema = parseHeadlessConfig({
+  ...schema,
+  command: ['agent-that-does-not-exist'],
+  env: { API_KEY: `\${AGENT_FIXTURE_UNSET_KEY}` },
+})
+
+/** Run one conversation and return each turn's output */
+const converse = async (sessions: SessionManager, inputs: string[]) => {
+  const session = await sessions.create(process.cwd())
+  try {
+    const outputs: string[] = []
+    for (const input of inputs) outputs.push((await sessions.prompt(session.id, input)).output)
+    return outputs
+  } finally {
+    sessions.destroy(session.id)
+  }
+}
+
+afterEach(async () => {
+  await rm(fixtureDir, { recursive: true, force: true })
+})
+
+// ============================================================================
+// Record and Replay
+// ============================================================================
+
+describe('createSessionManager - record and replay', () => {
+  test('replays recorded turns through the parser without the agent', async () => {
+    const recorded = await converse(createSessionManager({ schema, recordDir: fixtureDir }), ['hello', 'again'])
+
+    const sessions = createSessionManager({ schema: unavailableSchema, replayDir: fixtureDir })
+    const session = await sessions.create(process.cwd())
+    const first = await sessions.prompt(session.id, 'hello')
+    const second = await sessions.prompt(session.id, 'again')
+
+    expect(recorded).toEqual(['turn 1: hello', 'turn 2: again'])
+    expect([first.output, second.output]).toEqual(recorded)
+    expect(second.usage).toEqual({ inputTokens: 10, outputTokens: 2 })
+    expect(first.updates.map((update) => update.type)).toContain('message')
+    expect(session.process).toBeUndefined()
+  })
+
+  test('writes one file per first prompt with every recorded session', async () => {
+    const recorder = createSessionManager({ schema, recordDir: fixtureDir })
+    await converse(recorder, ['hello'])
+    await converse(recorder, ['hello', 'again'])
+
+    const file: FixtureFile = await Bun.file(join(fixtureDir, `${hashContent('hello')}.json`)).json()
+
+    expect(file.adapter).toBe('persistent-fixture')
+    expect(file.sessions.map((session) => session.turns.length)).toEqual([1, 2])
+    expect(file.sessions[0]?.turns[0]?.lines.at(-1)?.line).toContain('"type":"result"')
+  })
+
+  test('hands out recordings in order and reports missing ones', async () => {
+    const recorder = createSessionManager({ schema, recordDir: fixtureDir })
+    await converse(recorder, ['hello'])
+    await converse(recorder, ['hello', 'again'])
+
+    const replay = createSessionManager({ schema: unavailableSchema, replayDir: fixtureDir })
+
+    await expect(converse(replay, ['hello', 'again'])).rejects.toThrow(
+      'Recorded session has no turn 2 for prompt "again"',
+    )
+    expect(await converse(replay, ['hello', 'again'])).toEqual(['turn 1: hello', 'turn 2: again'])
+    await expect(converse(replay, ['unknown'])).rejects.toThrow('No recorded session for prompt "unknown"')
+  })
+
+  test('waits out recorded timing with replayTiming', async () => {
+    const file: FixtureFile = {
+      version: 1,
+      adapter: 'persistent-fixture',
+      input: 'slow',
+      sessions: [
+        {
+          turns: [
+            {
+              input: 'slow',
+              lines: [{ at: 80, line: '{"type":"result","result":"done"}' }],
+              exitInfo: { exitCode: 0, timedOut: false },
+              duration: 100,
+            },
+          ],
+        },
+      ],
+    }
+    await Bun.write(join(fixtureDir, `${hashContent('slow')}.json`), JSON.stringify(file))
+
+    const started = Date.now()
+    const outputs = await converse(
+      createSessionManager({ schema: unavailableSchema, replayDir: fixtureDir, replayTiming: true }),
+      ['slow'],
+    )
+
+    expect(outputs).toEqual(['done'])
+    expect(Date.now() - started).toBeGreaterThanOrEqual(95)
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the JSONPath engine.
+ *
+ * @remarks
+ * Tests cover:
+ * - Path syntax (dot/bracket notation, indices, slices, unions, descent)
+ * - Filter expressions
+ * - Singular vs multi-valued results from jsonPath
+ * - Syntax errors
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { compileJsonPath, jsonPath, jsonPathString, queryJsonPath } from '../headless-jsonpath.ts'
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const event = {
+  type: 'assistant',
+  'odd key': 'quoted',
+  message: {
+    content: [
+      { type: 'text', text: 'Looking at files' },
+      { type: 'tool_use', id: 'tu_1', name: 'Read', input: { path: 'a.ts' } },
+      { type: 'tool_use', id: 'tu_2', name: 'mcp__search', input: { query: 'x' } },
+      { type: 'text', text: 'Done' },
+    ],
+    usage: { input_tokens: 12, output_tokens: 30 },
+  },
+}
+
+// ============================================================================
+// Path Syntax
+// ============================================================================
+
+describe('queryJsonPath', () => {
+  describe('child access', () => {
+    test('dot and bracket notation', () => {
+      expect(queryJsonPath(event, '$.message.usage.input_tokens')).toEqual([12])
+      expect(queryJsonPath(event, "$['message']['usage']['output_tokens']")).toEqual([30])
+      expect(queryJsonPath(event, '$["odd key"]')).toEqual(['quoted'])
+    })
+
+    test('root path returns the document', () => {
+      expect(queryJsonPath(event, '$')).toEqual([event])
+    })
+
+    test('missing members yield no nodes', () => {
+      expect(queryJsonPath(event, '$.message.missing.deeper')).toEqual([])
+    })
+  })
+
+  describe('indices and slices', () => {
+    test('negative index counts from the end', () => {
+      expect(queryJsonPath(event, '$.message.content[-1].text')).toEqual(['Done'])
+      expect(queryJsonPath(event, '$.message.content[-5]')).toEqual([])
+    })
+
+    test('slices select ranges with optional step', () => {
+      const obj = { n: [0, 1, 2, 3, 4, 5] }
+      expect(queryJsonPath(obj, '$.n[1:3]')).toEqual([1, 2])
+      expect(queryJsonPath(obj, '$.n[-2:]')).toEqual([4, 5])
+      expect(queryJsonPath(obj, '$.n[::2]')).toEqual([0, 2, 4])
+      expect(queryJsonPath(obj, '$.n[::-1]')).toEqual([5, 4, 3, 2, 1, 0])
+      expect(queryJsonPath(obj, '$.n[:0]')).toEqual([])
+    })
+
+    test('unions combine selectors', () => {
+      expect(queryJsonPath(event, '$.message.content[0,3].text')).toEqual(['Looking at files', 'Done'])
+      expect(queryJsonPath(event, "$.message.usage['input_tokens','output_tokens']")).toEqual([12, 30])
+    })
+  })
+
+  describe('wildcards and descent', () => {
+    test('mid-path wildcard yields every match', () => {
+      expect(queryJsonPath(event, '$.message.content[*].type')).toEqual(['text', 'tool_use', 'tool_use', 'text'])
+      expect(queryJsonPath(event, '$.message.usage.*')).toEqual([12, 30])
+    })
+
+    test('recursive descent finds nested members', () => {
+      expect(queryJsonPath(event, '$..name')).toEqual(['Read', 'mcp__search'])
+      expect(queryJsonPath(event, '$..input.path')).toEqual(['a.ts'])
+    })
+
+    test('recursive descent with brackets', () => {
+      expect(queryJsonPath({ a: [1, { b: [2, 3] }] }, '$..[0]')).toEqual([1, 2])
+    })
+  })
+})
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+describe('filter expressions', () => {
+  test('equality on item members', () => {
+    expect(queryJsonPath(event, "$.message.content[?(@.type=='tool_use')].id")).toEqual(['tu_1', 'tu_2'])
+    expect(queryJsonPath(event, '$.message.content[?(@.type != "text")].name')).toEqual(['Read', 'mcp__search'])
+  })
+
+  test('filters without parentheses', () => {
+    expect(queryJsonPath(event, "$.message.content[?@.name == 'Read'].id")).toEqual(['tu_1'])
+  })
+
+  test('regex match with flags', () => {
+    expect(queryJsonPath(event, '$.message.content[?(@.name =~ /^MCP__/i)].id')).toEqual(['tu_2'])
+  })
+
+  test('membership in a list', () => {
+    const obj = { items: [{ k: 'a' }, { k: 'b' }, { k: 'c' }] }
+    expect(queryJsonPath(obj, "$.items[?(@.k in ['a', 'c'])].k")).toEqual(['a', 'c'])
+  })
+
+  test('existence, negation and boolean operators', () => {
+    expect(queryJsonPath(event, '$.message.content[?(@.input)].id')).toEqual(['tu_1', 'tu_2'])
+    expect(queryJsonPath(event, '$.message.content[?(!@.input)].text')).toEqual(['Looking at files', 'Done'])
+    expect(
+      queryJsonPath(event, "$.message.content[?(@.type == 'tool_use' && (@.name == 'Read' || @.id == 'x'))].id"),
+    ).toEqual(['tu_1'])
+  })
+
+  test('numeric comparisons and root references', () => {
+    const obj = { limit: 2, items: [{ n: 1 }, { n: 2 }, { n: 3 }] }
+    expect(queryJsonPath(obj, '$.items[?(@.n >= 2)].n')).toEqual([2, 3])
+    expect(queryJsonPath(obj, '$.items[?(@.n < $.limit)].n')).toEqual([1])
+  })
+
+  test('filters combine with recursive descent', () => {
+    expect(queryJsonPath(event, "$..[?(@.type == 'tool_use')].name")).toEqual(['Read', 'mcp__search'])
+  })
+})
+
+// ============================================================================
+// jsonPath Result Shape
+// ============================================================================
+
+describe('jsonPath', () => {
+  test('singular paths return the value itself', () => {
+    expect(jsonPath(event, '$.message.content[1].name')).toBe('Read')
+    expect(jsonPath(event, '$.message.content')).toBe(event.message.content)
+  })
+
+  test('multi-valued paths return an array of matches', () => {
+    expect(jsonPath(event, "$.message.content[?(@.type=='text')].text")).toEqual(['Looking at files', 'Done'])
+  })
+
+  test('multi-valued paths return [] when the branch point exists but nothing matches', () => {
+    expect(jsonPath(event, "$.message.content[?(@.type=='image')]")).toEqual([])
+    expect(jsonPath(event, "$.missing[?(@.type=='image')]")).toBeUndefined()
+  })
+
+  test('invalid paths return undefined', () => {
+    expect(jsonPath(event, '$.message[')).toBeUndefined()
+  })
+
+  test('jsonPathString joins multiple matches with newlines', () => {
+    expect(jsonPathString(event, "$.message.content[?(@.type=='text')].text")).toBe('Looking at files\nDone')
+    expect(jsonPathString(event, "$.message.content[?(@.type=='image')].text")).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// Syntax Errors
+// ============================================================================
+
+describe('compileJsonPath', () => {
+  test('reports the position of syntax errors', () => {
+    expect(() => compileJsonPath('type')).toThrow("path must start with '$'")
+    expect(() => compileJsonPath('$.a[')).toThrow('position 4')
+    expect(() => compileJsonPath("$.a[?(@.b == 'x']")).toThrow("expected ')'")
+    expect(() => compileJsonPath('$.a[?(@.b =~ /[/)]')).toThrow('invalid regex')
+  })
+
+  test('caches compiled paths', () => {
+    expect(compileJsonPath('$.a.b')).toBe(compileJsonPath('$.a.b'))
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Tests for the mock agent.
+ *
+ * @remarks
+ * Tests cover:
+ * - buildMockTurn event lines, placeholders and control actions
+ * - selectMockResponse matching on prompt and resume
+ * - loadMockScenario for YAML and invalid files
+ * - Driving the CLI through the session manager in stream mode with resume
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import { buildMockTurn, loadMockScenario, type MockScenario, selectMockResponse } from '../headless-mock-agent.ts'
+import { createSessionManager } from '../headless-session-manager.ts'
+
+const cliPath = join(import.meta.dir, '..', '..', '..', 'bin', 'cli.ts')
+const scenarioPath = join(tmpdir(), `mock-scenario-${process.pid}.yaml`)
+
+const context = { prompt: 'Weather in Paris?', turn: 1, sessionId: 'mock-1' }
+
+afterEach(async () => {
+  await rm(scenarioPath, { force: true })
+})
+
+// ============================================================================
+// buildMockTurn
+// ============================================================================
+
+describe('buildMockTurn', () => {
+  test('prints event lines and reports the last message as the result', () => {
+    const actions = buildMockTurn(
+      [
+        { type: 'thought', text: 'Looking up {{prompt}}' },
+        { type: 'tool_call', name: 'get_weather', input: { city: 'Paris' }, output: 'Sunny' },
+        { type: 'message', text: 'It is sunny' },
+        { type: 'result', usage: { input_tokens: 12, output_tokens: 4 } },
+      ],
+      context,
+    )
+
+    expect(actions.map((action) => (action.kind === 'stdout' ? JSON.parse(action.line) : action))).toEqual([
+      { type: 'thought', text: 'Looking up Weather in Paris?' },
+      { type: 'tool_use', id: 'tool_1', name: 'get_weather', input: { city: 'Paris' } },
+      { type: 'tool_result', tool_use_id: 'tool_1', status: 'completed', output: 'Sunny' },
+      { type: 'message', text: 'It is sunny' },
+      { type: 'result', result: 'It is sunny', session_id: 'mock-1', usage: { input_tokens: 12, output_tokens: 4 } },
+    ])
+  })
+
+  test('keeps stderr, delays, exits and raw lines as actions', () => {
+    const actions = buildMockTurn(
+      [
+        { type: 'raw', line: 'not json' },
+        { type: 'raw', line: { kind: 'custom', turn: '{{turn}}' } },
+        { type: 'stderr', text: 'rate limited' },
+        { type: 'delay', ms: 10 },
+        { type: 'exit', code: 2 },
+      ],
+      context,
+    )
+
+    expect(actions).toEqual([
+      { kind: 'stdout', line: 'not json' },
+      { kind: 'stdout', line: '{"kind":"custom","turn":"1"}' },
+      { kind: 'stderr', text: 'rate limited' },
+      { kind: 'delay', ms: 10 },
+      { kind: 'exit', code: 2 },
+    ])
+  })
+})
+
+// ============================================================================
+// selectMockResponse / loadMockScenario
+// ============================================================================
+
+describe('selectMockResponse', () => {
+  const scenario: MockScenario = {
+    responses: [
+      { match: 'weather', events: [{ type: 'message', text: 'weather' }] },
+      { resumed: true, events: [{ type: 'message', text: 'resumed' }] },
+      { events: [{ type: 'message', text: 'default' }] },
+    ],
+  }
+
+  test('uses the first response that fits the prompt and resume state', () => {
+    expect(selectMockResponse(scenario, 'the weather today', false)?.events).toEqual([
+      { type: 'message', text: 'weather' },
+    ])
+    expect(selectMockResponse(scenario, 'hello', true)?.events).toEqual([{ type: 'message', text: 'resumed' }])
+    expect(selectMockResponse(scenario, 'hello', false)?.events).toEqual([{ type: 'message', text: 'default' }])
+    expect(selectMockResponse({ responses: [{ match: '^x', events: [] }] }, 'hello', false)).toBeUndefined()
+  })
+})
+
+describe('loadMockScenario', () => {
+  test('reads YAML scenarios and applies defaults', async () => {
+    await Bun.write(scenarioPath, 'responses:\n  - events:\n      - type: exit\n')
+
+    const scenario = await loadMockScenario(scenarioPath)
+
+    expect(scenario.responses[0]?.events).toEqual([{ type: 'exit', code: 1 }])
+  })
+
+  test('rejects missing and invalid scenarios', async () => {
+    await expect(loadMockScenario(scenarioPath)).rejects.toThrow('Scenario not found')
+
+    await Bun.write(scenarioPath, 'responses: []\n')
+    await expect(loadMockScenario(scenarioPath)).rejects.toThrow('Invalid scenario')
+  })
+})
+
+// ============================================================================
+// CLI with the session manager
+// ============================================================================
+
+describe('mock-agent CLI', () => {
+  test('serves a stream-mode schema with tool calls, resume and crashes', async () => {
+    await Bun.write(
+      scenarioPath,
+      [
+        'sessionId: mock-session',
+        'responses:',
+        '  - match: crash',
+        '    events:',
+        '      - { type: stderr, text: boom }',
+        '      - { type: exit, code: 3 }',
+        '  - resumed: true',
+        '    events:',
+        '      - { type: result, text: "resumed {{sessionId}}: {{prompt}}" }',
+        '  - events:',
+        '      - { type: tool_call, name: Read, input: { file_path: a.ts }, output: ok }',
+        '      - { type: message, text: "first: {{prompt}}" }',
+        '      - { type: result }',
+      ].join('\n'),
+    )
+    const schema = parseHeadlessConfig({
+      version: 1,
+      name: 'mock',
+      command: ['bun', cliPath, 'mock-agent', '--scenario', scenarioPath],
+      sessionMode: 'stream',
+      timeout: 10000,
+      prompt: { flag: '-p' },
+      output: { flag: '--output-format', value: 'stream-json' },
+      resume: { flag: '--resume', sessionIdPath: '$.session_id' },
+      outputEvents: [
+        { match: { path: '$.type', value: 'message' }, emitAs: 'message', extract: { content: '$.text' } },
+        {
+          match: { path: '$.type', value: 'tool_use' },
+          emitAs: 'tool_call',
+          extract: { title: '$.name', status: "'pending'", input: '$.input' },
+        },
+      ],
+      result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+    })
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const first = await sessions.prompt(session.id, 'hello')
+      const second = await sessions.prompt(session.id, 'again')
+      const crash = await sessions.prompt(session.id, 'crash now')
+
+      expect(first.output).toBe('first: hello')
+      expect(first.updates.map((update) => update.type)).toEqual(['tool_call', 'message'])
+      expect(second.output).toBe('resumed mock-session: again')
+      expect(crash.exitInfo?.exitCode).toBe(3)
+      expect(crash.stderr).toBe('boom\n')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Tests for the agent response cache.
+ *
+ * @remarks
+ * Tests cover:
+ * - createCachedSessionManager hits, misses and key inputs (salt, cache key)
+ * - Replaying updates and catching the agent up after cached turns
+ * - Timing of replayed turns
+ * - Skipping failed turns
+ * - summarizeResponseCache and clearResponseCache filters
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { extractTrajectory, measureResponseTiming } from '../../core/trajectory.ts'
+import type { ParsedUpdate } from '../headless-output-parser.ts'
+import {
+  clearResponseCache,
+  createCachedSessionManager,
+  type ResponseCacheConfig,
+  summarizeResponseCache,
+} from '../headless-response-cache.ts'
+import type { PromptResult, Session, SessionManager } from '../headless-session-manager.ts'
+
+const cacheDir = join(tmpdir(), `response-cache-${process.pid}`)
+
+/** Fake agent: echoes each prompt 40ms into the turn and records what it was sent */
+const createFakeSessions = (exitCode = 0) => {
+  const prompts: { sessionId: string; text: string }[] = []
+  let created = 0
+
+  const sessions: SessionManager = {
+    create: async (cwd: string): Promise<Session> => ({ id: `s${++created}`, cwd, active: true, turnCount: 0 }),
+    prompt: async (sessionId: string, text: string): Promise<PromptResult> => {
+      prompts.push({ sessionId, text })
+      const update: ParsedUpdate = { type: 'message', content: `echo: ${text}`, timestamp: Date.now() + 40, raw: {} }
+      return { output: `echo: ${text}`, updates: [update], exitInfo: { exitCode, timedOut: false } }
+    },
+    cancel: () => {},
+    get: () => undefined,
+    destroy: () => {},
+  }
+
+  return { sessions, prompts, created: () => created }
+}
+
+const config: ResponseCacheConfig = { cacheDir, schema: { name: 'fake' }, cwdTemplate: '/work' }
+
+/** Run one conversation through a cached session manager */
+const converse = async (sessions: SessionManager, inputs: string[], cacheKey?: unknown) => {
+  const session = await sessions.create('/work/p1', { cacheKey })
+  const results: PromptResult[] = []
+  for (const input of inputs) results.push(await sessions.prompt(session.id, input))
+  sessions.destroy(session.id)
+  return results
+}
+
+afterEach(async () => {
+  await rm(cacheDir, { recursive: true, force: true })
+})
+
+// ============================================================================
+// createCachedSessionManager
+// ============================================================================
+
+describe('createCachedSessionManager', () => {
+  test('records a miss and replays it without starting the agent', async () => {
+    const first = createFakeSessions()
+    const firstCache = createCachedSessionManager(first.sessions, config)
+    await converse(firstCache, ['hello'])
+
+    const second = createFakeSessions()
+    const secondCache = createCachedSessionManager(second.sessions, config)
+    const session = await secondCache.create('/work/p1')
+    const replayed: ParsedUpdate[] = []
+    const result = await secondCache.prompt(session.id, 'hello', (update) => replayed.push(update))
+
+    expect(firstCache.stats()).toEqual({ hits: 0, misses: 1, writes: 1 })
+    expect(secondCache.stats()).toEqual({ hits: 1, misses: 0, writes: 0 })
+    expect(second.created()).toBe(0)
+    expect(result.output).toBe('echo: hello')
+    expect(result.cached).toBe(true)
+    expect(replayed.map((update) => update.content)).toEqual(['echo: hello'])
+  })
+
+  test('replays update timing relative to the replayed turn', async () => {
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['hello'])
+
+    const cached = createCachedSessionManager(createFakeSessions().sessions, config)
+    const session = await cached.create('/work/p1')
+    const startTime = Date.now()
+    const result = await cached.prompt(session.id, 'hello')
+    const timing = measureResponseTiming(result.updates, startTime)
+
+    expect(result.cached).toBe(true)
+    expect(timing.firstResponse).toBeGreaterThanOrEqual(40)
+    expect(timing.firstResponse).toBeLessThan(1000)
+    expect(timing.timeToFirstToken).toBe(timing.firstResponse)
+    expect(extractTrajectory(result.updates, startTime)[0]?.timestamp).toBe(timing.firstResponse)
+  })
+
+  test('misses when the salt or cache key changes', async () => {
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['hello'], { trial: 1 })
+
+    const fake = createFakeSessions()
+    await converse(createCachedSessionManager(fake.sessions, config), ['hello'], { trial: 2 })
+    await converse(createCachedSessionManager(fake.sessions, { ...config, salt: 'v2' }), ['hello'], { trial: 1 })
+
+    expect(fake.prompts).toHaveLength(2)
+  })
+
+  test('sends replayed turns to the agent before the first miss', async () => {
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['one'])
+
+    const fake = createFakeSessions()
+    const results = await converse(createCachedSessionManager(fake.sessions, config), ['one', 'two'])
+
+    expect(results.map((result) => result.cached ?? false)).toEqual([true, false])
+    expect(fake.prompts).toEqual([
+      { sessionId: 's1', text: 'one' },
+      { sessionId: 's1', text: 'two' },
+    ])
+  })
+
+  test('calls beforeAgentRequest for agent prompts only', async () => {
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['one'])
+
+    let requests = 0
+    const beforeAgentRequest = async () => {
+      requests++
+    }
+    await converse(createCachedSessionManager(createFakeSessions().sessions, { ...config, beforeAgentRequest }), [
+      'one',
+      'two',
+    ])
+
+    // 'one' is a hit but is re-sent to the agent before the 'two' miss
+    expect(requests).toBe(2)
+  })
+
+  test('does not record failed turns', async () => {
+    const cached = createCachedSessionManager(createFakeSessions(1).sessions, config)
+    await converse(cached, ['hello'])
+
+    expect(cached.stats()).toEqual({ hits: 0, misses: 1, writes: 0 })
+    expect((await summarizeResponseCache(cacheDir)).entries).toBe(0)
+  })
+})
+
+// ============================================================================
+// summarizeResponseCache / clearResponseCache
+// ============================================================================
+
+describe('response cache maintenance', () => {
+  test('summarizes entries per schema', async () => {
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['a', 'b'])
+    await converse(
+      createCachedSessionManager(createFakeSessions().sessions, { ...config, schema: { name: 'other' } }),
+      ['a'],
+    )
+
+    const summary = await summarizeResponseCache(cacheDir)
+
+    expect(summary.entries).toBe(3)
+    expect(summary.bytes).toBeGreaterThan(0)
+    expect(Object.values(summary.schemas).sort()).toEqual([1, 2])
+    expect(summary.oldest).toBeLessThanOrEqual(summary.newest ?? 0)
+  })
+
+  test('clears by schema, by age, or everything', async () => {
+    const other = { ...config, schema: { name: 'other' } }
+    await converse(createCachedSessionManager(createFakeSessions().sessions, config), ['a'])
+    await converse(createCachedSessionManager(createFakeSessions().sessions, other), ['a'])
+    const { schemas } = await summarizeResponseCache(cacheDir)
+    const [fakeHash] = Object.keys(schemas)
+
+    expect(await clearResponseCache(cacheDir, { before: 0 })).toBe(0)
+    expect(await clearResponseCache(cacheDir, { schemaHash: fakeHash })).toBe(1)
+    expect(await clearResponseCache(cacheDir)).toBe(1)
+    expect(await clearResponseCache(join(cacheDir, 'missing'))).toBe(0)
+  })
+})
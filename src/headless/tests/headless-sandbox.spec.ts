@@ -0,0 +1,126 @@
+/**
+ * Tests for the container sandbox.
+ *
+ * @remarks
+ * Tests cover:
+ * - buildSandboxCommand defaults, limits and mounts
+ * - Session manager wrapping commands via a fake runtime CLI
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { chmod, mkdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import { buildSandboxCommand } from '../headless-sandbox.ts'
+import { createSessionManager } from '../headless-session-manager.ts'
+
+// ============================================================================
+// buildSandboxCommand
+// ============================================================================
+
+describe('buildSandboxCommand', () => {
+  test('applies defaults: docker, network off, workspace mount', () => {
+    const command = buildSandboxCommand(
+      { image: 'agent:latest' },
+      { args: ['claude', '-p', 'hi'], cwd: '/tmp/ws', name: 'c1' },
+    )
+
+    expect(command).toEqual([
+      'docker',
+      'run',
+      '--rm',
+      '-i',
+      '--name',
+      'c1',
+      '--network',
+      'none',
+      '-v',
+      '/tmp/ws:/workspace',
+      '-w',
+      '/workspace',
+      'agent:latest',
+      'claude',
+      '-p',
+      'hi',
+    ])
+  })
+
+  test('adds limits, mounts, user, env names and run args', () => {
+    const command = buildSandboxCommand(
+      {
+        runtime: 'podman',
+        image: 'agent',
+        workdir: '/src',
+        network: 'bridge',
+        cpus: 2,
+        memory: '4g',
+        user: '1000:1000',
+        mounts: [
+          { source: '/data', target: '/data' },
+          { source: '/cache', target: '/cache', readonly: false },
+        ],
+        runArgs: ['--pids-limit', '256'],
+      },
+      { args: ['agent'], cwd: '/ws', envNames: ['API_KEY'], name: 'c2' },
+    )
+
+    expect(command[0]).toBe('podman')
+    expect(command.join(' ')).toContain('--network bridge -v /ws:/src -w /src')
+    expect(command.join(' ')).toContain('-v /data:/data:ro -v /cache:/cache')
+    expect(command.join(' ')).toContain('--cpus 2 --memory 4g --user 1000:1000 -e API_KEY --pids-limit 256 agent agent')
+  })
+})
+
+// ============================================================================
+// Session Manager Integration
+// ============================================================================
+
+describe('createSessionManager - sandbox', () => {
+  const binDir = join(tmpdir(), `fake-runtime-${process.pid}`)
+  const argsFile = join(binDir, 'args.txt')
+
+  beforeAll(async () => {
+    await mkdir(binDir, { recursive: true })
+    // Fake runtime: records its arguments and prints a result event
+    const script = `#!/bin/sh\necho "$@" > "${argsFile}"\necho '{"type":"result","result":"sandboxed"}'\n`
+    await Bun.write(join(binDir, 'docker'), script)
+    await chmod(join(binDir, 'docker'), 0o755)
+  })
+
+  afterAll(async () => {
+    await rm(binDir, { recursive: true, force: true })
+  })
+
+  test('runs the command through the runtime with the workspace mounted', async () => {
+    const schema = parseHeadlessConfig({
+      version: 1,
+      name: 'sandboxed',
+      command: ['agent'],
+      sessionMode: 'iterative',
+      prompt: { flag: '-p' },
+      output: { flag: '', value: '' },
+      cwdFlag: '--cwd',
+      env: { PATH: `${binDir}:${process.env.PATH}`, API_KEY: 'secret-value' },
+      result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+      sandbox: { image: 'agent:latest', memory: '2g' },
+    })
+
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(binDir)
+
+    try {
+      const result = await sessions.prompt(session.id, 'hello')
+      expect(result.output).toBe('sandboxed')
+
+      const args = (await Bun.file(argsFile).text()).trim()
+      expect(args).toStartWith(`run --rm -i --name agent-eval-${session.id}-1 --network none`)
+      expect(args).toContain(`-v ${binDir}:/workspace -w /workspace --memory 2g`)
+      expect(args).toContain('-e API_KEY')
+      expect(args).not.toContain('secret-value')
+      expect(args).toEndWith('agent:latest agent --cwd /workspace -p hello')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Tests for version 2 schema files.
+ *
+ * @remarks
+ * Tests cover:
+ * - mergeHeadlessConfig override semantics
+ * - parseHeadlessConfig with inline profiles and unresolved extends
+ * - loadHeadlessConfig extends chains, version 1 bases and profiles
+ * - Missing bases and extends cycles
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { mergeHeadlessConfig, parseHeadlessConfig, safeParseHeadlessConfig } from '../headless.schemas.ts'
+import { loadHeadlessConfig, resolveHeadlessConfigFile } from '../headless-schema-loader.ts'
+
+const schemaDir = join(tmpdir(), `schema-loader-${process.pid}`)
+
+const base = {
+  version: 1,
+  name: 'claude',
+  command: ['claude'],
+  sessionMode: 'stream',
+  timeout: 60000,
+  prompt: { flag: '-p' },
+  output: { flag: '--output-format', value: 'stream-json' },
+  autoApprove: ['--allowedTools', 'Read'],
+  resume: { flag: '--resume', sessionIdPath: '$.session_id' },
+  result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+}
+
+const writeSchema = (name: string, content: unknown) => Bun.write(join(schemaDir, name), JSON.stringify(content))
+
+afterEach(async () => {
+  await rm(schemaDir, { recursive: true, force: true })
+})
+
+// ============================================================================
+// Merging and inline profiles
+// ============================================================================
+
+describe('mergeHeadlessConfig', () => {
+  test('merges objects, replaces arrays and values, and removes null keys', () => {
+    expect(
+      mergeHeadlessConfig(base, {
+        timeout: 120000,
+        output: { value: 'json' },
+        autoApprove: ['--yolo'],
+        resume: null,
+      }),
+    ).toEqual({
+      ...base,
+      timeout: 120000,
+      output: { flag: '--output-format', value: 'json' },
+      autoApprove: ['--yolo'],
+      resume: undefined,
+    })
+    expect('resume' in mergeHeadlessConfig(base, { resume: null })).toBe(false)
+  })
+})
+
+describe('parseHeadlessConfig - version 2', () => {
+  const { version: _, ...fields } = base
+  const v2 = {
+    ...fields,
+    version: 2,
+    defaultProfile: 'fast',
+    profiles: { fast: { timeout: 30000 }, slow: { timeout: 300000, command: ['claude', '--model', 'opus'] } },
+  }
+
+  test('applies the selected or default profile and resolves to version 1', () => {
+    expect(parseHeadlessConfig(v2)).toMatchObject({ version: 1, timeout: 30000, command: ['claude'] })
+    expect(parseHeadlessConfig(v2, { profile: 'slow' })).toMatchObject({
+      timeout: 300000,
+      command: ['claude', '--model', 'opus'],
+    })
+    expect(safeParseHeadlessConfig(v2).success).toBe(true)
+  })
+
+  test('rejects unknown profiles, profiles on version 1 and unresolved extends', () => {
+    expect(() => parseHeadlessConfig(v2, { profile: 'medium' })).toThrow(
+      "Unknown profile 'medium' (available: fast, slow)",
+    )
+    expect(() => parseHeadlessConfig(base, { profile: 'fast' })).toThrow('is not version 2')
+    expect(() => parseHeadlessConfig({ ...v2, extends: './base.json' })).toThrow('loadHeadlessConfig')
+    expect(safeParseHeadlessConfig({ ...v2, extends: './base.json' }).success).toBe(false)
+  })
+})
+
+// ============================================================================
+// Schema files
+// ============================================================================
+
+describe('loadHeadlessConfig', () => {
+  test('merges extends chains over a version 1 base, then the profile', async () => {
+    await writeSchema('base.json', base)
+    await writeSchema('models/claude.json', {
+      version: 2,
+      extends: '../base.json',
+      autoApprove: ['--dangerously-skip-permissions'],
+      profiles: { opus: { command: ['claude', '--model', 'opus'] } },
+    })
+    await writeSchema('models/claude-slow.json', {
+      version: 2,
+      extends: ['./claude.json'],
+      name: 'claude-slow',
+      timeout: 300000,
+      resume: null,
+      sessionMode: 'iterative',
+      profiles: { opus: { timeout: 600000 } },
+    })
+
+    const schema = await loadHeadlessConfig(join(schemaDir, 'models', 'claude-slow.json'), { profile: 'opus' })
+
+    expect(schema).toMatchObject({
+      version: 1,
+      name: 'claude-slow',
+      command: ['claude', '--model', 'opus'],
+      sessionMode: 'iterative',
+      timeout: 600000,
+      autoApprove: ['--dangerously-skip-permissions'],
+      output: base.output,
+    })
+    expect(schema.resume).toBeUndefined()
+  })
+
+  test('resolves version 1 files unchanged', async () => {
+    await writeSchema('base.json', base)
+
+    expect(await resolveHeadlessConfigFile(join(schemaDir, 'base.json'))).toEqual(base)
+  })
+
+  test('reports missing files, missing bases and cycles', async () => {
+    await writeSchema('a.json', { version: 2, extends: './b.json' })
+    await writeSchema('b.json', { version: 2, extends: './a.json' })
+    await writeSchema('c.json', { version: 2, extends: './missing.json' })
+
+    await expect(loadHeadlessConfig(join(schemaDir, 'none.json'))).rejects.toThrow('Schema file not found')
+    await expect(loadHeadlessConfig(join(schemaDir, 'a.json'))).rejects.toThrow(
+      /Schema extends cycle: .*a\.json -> .*b\.json -> .*a\.json/,
+    )
+    await expect(loadHeadlessConfig(join(schemaDir, 'c.json'))).rejects.toThrow(
+      /Base schema not found: .*missing\.json \(extended by .*c\.json\)/,
+    )
+  })
+})
@@ -0,0 +1,371 @@
+/**
+ * Unit tests for the headless session manager.
+ *
+ * @remarks
+ * Spawns a fixture agent to exercise process lifecycle in persistent mode
+ * environment injection, stderr capture, token usage, and streaming deltas.
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { extractTrajectory } from '../../core/trajectory.ts'
+import { parseHeadlessConfig } from '../headless.schemas.ts'
+import { createSessionManager, createStderrCollector, maskSecrets, resolveEnv } from '../headless-session-manager.ts'
+
+const fixturesDir = join(import.meta.dir, 'fixtures')
+
+const persistentSchema = parseHeadlessConfig({
+  version: 1,
+  name: 'persistent-fixture',
+  command: ['bun', join(fixturesDir, 'persistent-agent.ts')],
+  sessionMode: 'persistent',
+  timeout: 10000,
+  prompt: { stdin: true },
+  output: { flag: '', value: '' },
+  outputEvents: [
+    {
+      match: { path: '$.type', value: 'assistant' },
+      emitAs: 'message',
+      extract: { content: '$.text' },
+    },
+  ],
+  result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.result' },
+})
+
+// ============================================================================
+// Persistent Mode
+// ============================================================================
+
+describe('createSessionManager - persistent mode', () => {
+  test('spawns the process once in create()', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      expect(session.process).toBeDefined()
+      expect(session.process?.killed).toBe(false)
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('reuses the same process across turns', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const first = await sessions.prompt(session.id, 'hello')
+      const second = await sessions.prompt(session.id, 'again')
+
+      expect(first.output).toBe('turn 1: hello')
+      expect(second.output).toBe('turn 2: again')
+      expect(first.updates.map((u) => u.content)).toEqual(['echo: hello'])
+      expect(second.updates.map((u) => u.content)).toEqual(['echo: again'])
+
+      const pid = session.process?.pid
+      const firstPid = (first.updates[0]?.raw as { pid: number }).pid
+      const secondPid = (second.updates[0]?.raw as { pid: number }).pid
+      expect(firstPid).toBe(pid!)
+      expect(secondPid).toBe(pid!)
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('leaves the process running between turns', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'hello')
+      expect(result.exitInfo).toBeUndefined()
+      expect(session.process?.exitCode).toBeNull()
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('writes JSON user messages when stdinFormat is json', async () => {
+    const schema = parseHeadlessConfig({
+      ...persistentSchema,
+      prompt: { stdin: true, stdinFormat: 'json' },
+    })
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'structured')
+      expect(result.output).toBe('turn 1: structured')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('throws when the process is no longer running', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      session.process?.kill()
+      await session.process?.exited
+      await expect(sessions.prompt(session.id, 'hello')).rejects.toThrow('Persistent process is not running')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
+
+// ============================================================================
+// Environment Injection
+// ============================================================================
+
+/** Builds a `${NAME}` env placeholder */
+const placeholder = (name: string) => `\${${name}}`
+
+describe('resolveEnv', () => {
+  test('inherits the harness environment when nothing is configured', () => {
+    const { env, assigned, secrets } = resolveEnv({})
+    expect(env).toBeUndefined()
+    expect(assigned).toEqual({})
+    expect(secrets).toEqual([])
+  })
+
+  test('interpolates placeholders and treats them as secrets', () => {
+    process.env.TEST_RESOLVE_KEY = 'sk-test-123'
+    try {
+      const { env, assigned, secrets } = resolveEnv({
+        env: { API_KEY: placeholder('TEST_RESOLVE_KEY'), MODEL: 'sonnet' },
+      })
+      expect(assigned).toEqual({ API_KEY: 'sk-test-123', MODEL: 'sonnet' })
+      expect(env?.API_KEY).toBe('sk-test-123')
+      expect(env?.PATH).toBe(process.env.PATH!)
+      expect(secrets).toEqual(['sk-test-123'])
+    } finally {
+      delete process.env.TEST_RESOLVE_KEY
+    }
+  })
+
+  test('masks secret-named variables without interpolation', () => {
+    const { secrets } = resolveEnv({ env: { AUTH_TOKEN: 'literal-token', MODEL: 'sonnet' } })
+    expect(secrets).toEqual(['literal-token'])
+  })
+
+  test('applies per-prompt overrides over schema env', () => {
+    const { assigned } = resolveEnv({ env: { MODEL: 'sonnet', REGION: 'us' } }, { MODEL: 'opus' })
+    expect(assigned).toEqual({ MODEL: 'opus', REGION: 'us' })
+  })
+
+  test('clears variables outside the allowlist', () => {
+    const { env } = resolveEnv({ envAllowlist: ['PATH'], env: { MODEL: 'sonnet' } })
+    expect(env).toEqual({ PATH: process.env.PATH!, MODEL: 'sonnet' })
+  })
+
+  test('throws when a placeholder references an unset variable', () => {
+    expect(() => resolveEnv({ env: { API_KEY: placeholder('TEST_RESOLVE_MISSING') } })).toThrow(
+      'Environment variable not set: TEST_RESOLVE_MISSING',
+    )
+  })
+})
+
+describe('maskSecrets', () => {
+  test('replaces every occurrence of each secret', () => {
+    expect(maskSecrets('agent --key sk-1 --again sk-1', ['sk-1'])).toBe('agent --key *** --again ***')
+  })
+
+  test('returns text unchanged without secrets', () => {
+    expect(maskSecrets('agent -p hello')).toBe('agent -p hello')
+  })
+})
+
+describe('createSessionManager - environment', () => {
+  test('passes schema env and per-prompt overrides to the process', async () => {
+    const schema = parseHeadlessConfig({ ...persistentSchema, env: { FIXTURE_MODEL: 'sonnet' } })
+    const sessions = createSessionManager({ schema })
+    const defaultSession = await sessions.create(process.cwd())
+    const overrideSession = await sessions.create(process.cwd(), { env: { FIXTURE_MODEL: 'opus' } })
+
+    try {
+      const first = await sessions.prompt(defaultSession.id, 'hello')
+      const second = await sessions.prompt(overrideSession.id, 'hello')
+      expect((first.updates[0]?.raw as { model: string }).model).toBe('sonnet')
+      expect((second.updates[0]?.raw as { model: string }).model).toBe('opus')
+    } finally {
+      sessions.destroy(defaultSession.id)
+      sessions.destroy(overrideSession.id)
+    }
+  })
+
+  test('hides variables outside the allowlist from the process', async () => {
+    const schema = parseHeadlessConfig({ ...persistentSchema, envAllowlist: ['PATH'] })
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'hello')
+      expect((result.updates[0]?.raw as { home?: string }).home).toBeUndefined()
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
+
+// ============================================================================
+// Stderr Capture
+// ============================================================================
+
+describe('createSessionManager - stderr', () => {
+  test('returns stderr written during a persistent turn', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const first = await sessions.prompt(session.id, 'stderr:rate limited')
+      // Give the stderr reader a moment to catch up with stdout
+      await Bun.sleep(50)
+      const second = await sessions.prompt(session.id, 'hello')
+      expect(`${first.stderr ?? ''}${second.stderr ?? ''}`).toBe('rate limited\n')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('returns stderr from a per-turn process and omits it when empty', async () => {
+    const schema = parseHeadlessConfig({
+      ...persistentSchema,
+      command: ['sh', '-c', 'echo "warning: slow" >&2; echo \'{"type":"result","result":"ok"}\'', 'sh'],
+      sessionMode: 'iterative',
+      prompt: { flag: '' },
+    })
+    const quietSchema = parseHeadlessConfig({
+      ...schema,
+      command: ['sh', '-c', 'echo \'{"type":"result","result":"ok"}\'', 'sh'],
+    })
+
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+    const quietSessions = createSessionManager({ schema: quietSchema })
+    const quietSession = await quietSessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'hello')
+      expect(result.output).toBe('ok')
+      expect(result.stderr).toBe('warning: slow\n')
+
+      const quiet = await quietSessions.prompt(quietSession.id, 'hello')
+      expect(quiet.stderr).toBeUndefined()
+    } finally {
+      sessions.destroy(session.id)
+      quietSessions.destroy(quietSession.id)
+    }
+  })
+})
+
+describe('createStderrCollector', () => {
+  test('keeps the tail when over the limit', async () => {
+    const proc = Bun.spawn(['sh', '-c', 'printf "0123456789" >&2'], { stdout: 'ignore', stderr: 'pipe' })
+    const collector = createStderrCollector(proc, 4)
+    await collector.closed
+
+    expect(collector.take()).toBe('[... 6 chars truncated]\n6789')
+    expect(collector.take()).toBe('')
+  })
+})
+
+// ============================================================================
+// Token Usage
+// ============================================================================
+
+describe('createSessionManager - usage', () => {
+  test('returns per-turn usage when the schema has a usage block', async () => {
+    const schema = parseHeadlessConfig({
+      ...persistentSchema,
+      usage: {
+        match: { path: '$.type', value: 'result' },
+        inputTokens: '$.usage.input_tokens',
+        outputTokens: '$.usage.output_tokens',
+      },
+    })
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const first = await sessions.prompt(session.id, 'hello')
+      const second = await sessions.prompt(session.id, 'again')
+      expect(first.usage).toEqual({ inputTokens: 10, outputTokens: 1 })
+      expect(second.usage).toEqual({ inputTokens: 10, outputTokens: 2 })
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('omits usage without a usage block', async () => {
+    const sessions = createSessionManager({ schema: persistentSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'hello')
+      expect(result.usage).toBeUndefined()
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
+
+// ============================================================================
+// Streaming Deltas
+// ============================================================================
+
+describe('createSessionManager - accumulate', () => {
+  const deltaSchema = parseHeadlessConfig({
+    ...persistentSchema,
+    outputEvents: [
+      {
+        match: { path: '$.type', value: 'delta' },
+        emitAs: 'message',
+        extract: { content: '$.text' },
+        accumulate: { until: { path: '$.type', value: 'stop' } },
+      },
+    ],
+  })
+
+  test('marks the first delta of each turn and after each boundary', async () => {
+    const sessions = createSessionManager({ schema: deltaSchema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const first = await sessions.prompt(session.id, 'deltas:Hel lo | wor ld')
+      const second = await sessions.prompt(session.id, 'deltas:ag ain')
+
+      expect(first.updates.map((u) => [u.content, u.delta, u.deltaBreak])).toEqual([
+        ['Hel', true, true],
+        ['lo', true, undefined],
+        ['wor', true, true],
+        ['ld', true, undefined],
+      ])
+      expect(second.updates[0]?.deltaBreak).toBe(true)
+      expect(
+        extractTrajectory([...first.updates, ...second.updates], 0).map(
+          (step) => step.type === 'message' && step.content,
+        ),
+      ).toEqual(['Hello', 'world', 'again'])
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+
+  test('joins deltas into one message for the fallback output', async () => {
+    const schema = parseHeadlessConfig({
+      ...deltaSchema,
+      result: { matchPath: '$.type', matchValue: 'result', contentPath: '$.missing' },
+    })
+    const sessions = createSessionManager({ schema })
+    const session = await sessions.create(process.cwd())
+
+    try {
+      const result = await sessions.prompt(session.id, 'deltas:Hel lo | wor ld')
+      expect(result.output).toBe('Hello\nworld')
+    } finally {
+      sessions.destroy(session.id)
+    }
+  })
+})
@@ -10,9 +10,21 @@
  */
 
 import { describe, expect, test } from 'bun:test'
-import { HeadlessAdapterSchema, parseHeadlessConfig, safeParseHeadlessConfig } from '../headless.schemas.ts'
+import {
+  HeadlessAdapterSchema,
+  parseHeadlessConfig,
+  parsePromptEnv,
+  safeParseHeadlessConfig,
+} from '../headless.schemas.ts'
 import { createHistoryBuilder } from '../headless-history-builder.ts'
-import { createOutputParser, jsonPath, jsonPathString } from '../headless-output-parser.ts'
+import {
+  addTokenUsage,
+  computeUsageCost,
+  createOutputParser,
+  jsonPath,
+  jsonPathString,
+  matchesValue,
+} from '../headless-output-parser.ts'
 
 // ============================================================================
 // Test Fixtures
@@ -88,6 +100,15 @@ describe('HeadlessAdapterSchema', () => {
       const result = HeadlessAdapterSchema.safeParse(validGeminiSchema)
       expect(result.success).toBe(true)
     })
+
+    test('validates persistent session mode', () => {
+      const result = HeadlessAdapterSchema.safeParse({
+        ...validClaudeSchema,
+        sessionMode: 'persistent',
+        prompt: { stdin: true, stdinFormat: 'json' },
+      })
+      expect(result.success).toBe(true)
+    })
   })
 
   describe('validates schema files from disk', () => {
@@ -292,6 +313,23 @@ describe('HeadlessAdapterSchema', () => {
       const result = HeadlessAdapterSchema.safeParse(invalid)
       expect(result.success).toBe(false)
     })
+
+    test('rejects output event match without exactly one criterion', () => {
+      for (const match of [{ path: '$.type' }, { path: '$.type', value: 'x', in: ['x'] }]) {
+        const invalid = { ...validClaudeSchema, outputEvents: [{ match, emitAs: 'message' }] }
+        const result = HeadlessAdapterSchema.safeParse(invalid)
+        expect(result.success).toBe(false)
+      }
+    })
+
+    test('rejects invalid match regex', () => {
+      const invalid = {
+        ...validClaudeSchema,
+        result: { matchPath: '$.type', matchRegex: '(', contentPath: '$.result' },
+      }
+      const result = HeadlessAdapterSchema.safeParse(invalid)
+      expect(result.success).toBe(false)
+    })
   })
 
   describe('parseHeadlessConfig', () => {
@@ -321,6 +359,38 @@ describe('HeadlessAdapterSchema', () => {
       expect(result.success).toBe(false)
     })
   })
+  describe('env configuration', () => {
+    test('accepts env map and allowlist', () => {
+      const keyRef = `\${CLAUDE_KEY_B}`
+      const config = parseHeadlessConfig({
+        ...validClaudeSchema,
+        env: { ANTHROPIC_API_KEY: keyRef, MODEL: 'opus' },
+        envAllowlist: ['PATH', 'HOME'],
+      })
+      expect(config.env).toEqual({ ANTHROPIC_API_KEY: keyRef, MODEL: 'opus' })
+      expect(config.envAllowlist).toEqual(['PATH', 'HOME'])
+    })
+
+    test('rejects non-string env values', () => {
+      const result = HeadlessAdapterSchema.safeParse({ ...validClaudeSchema, env: { PORT: 8080 } })
+      expect(result.success).toBe(false)
+    })
+  })
+})
+
+describe('parsePromptEnv', () => {
+  test('returns undefined without metadata.env', () => {
+    expect(parsePromptEnv(undefined)).toBeUndefined()
+    expect(parsePromptEnv({ category: 'ui' })).toBeUndefined()
+  })
+
+  test('returns env overrides from metadata', () => {
+    expect(parsePromptEnv({ env: { MODEL: 'opus' } })).toEqual({ MODEL: 'opus' })
+  })
+
+  test('throws for non-string values', () => {
+    expect(() => parsePromptEnv({ env: { MODEL: 1 } })).toThrow('Invalid metadata.env')
+  })
 })
 
 // ============================================================================
@@ -638,6 +708,157 @@ describe('createOutputParser', () => {
     })
   })
 
+  describe('parseLine with filters, regex and in matches', () => {
+    const matchConfig = parseHeadlessConfig({
+      ...validClaudeSchema,
+      outputEvents: [
+        {
+          match: { path: "$.message.content[?(@.type=='tool_use')].name", regex: '^mcp__' },
+          emitAs: 'tool_call',
+          extract: { title: '$.name', input: '$.input' },
+        },
+        {
+          match: { path: '$..[?(@.type == "text")]', value: '*' },
+          emitAs: 'message',
+          extract: { content: '$.text' },
+        },
+        {
+          match: { path: '$.type', in: ['thinking', 'reasoning'] },
+          emitAs: 'thought',
+          extract: { content: '$.text' },
+        },
+      ],
+      result: { matchPath: '$.type', matchRegex: '^turn\\.(completed|failed)$', contentPath: '$.result' },
+    })
+    const matchParser = createOutputParser(matchConfig)
+
+    test('emits one update per filtered item, extracting relative to the item', () => {
+      const line = JSON.stringify({
+        message: {
+          content: [
+            { type: 'tool_use', name: 'mcp__search', input: { q: 'x' } },
+            { type: 'tool_use', name: 'Read', input: {} },
+          ],
+        },
+      })
+      const result = matchParser.parseLine(line)
+      expect(result).toEqual([expect.objectContaining({ type: 'tool_call', title: 'mcp__search', input: { q: 'x' } })])
+    })
+
+    test('recursive descent filters reach nested items', () => {
+      const line = JSON.stringify({ wrapper: { blocks: [{ type: 'text', text: 'deep' }] } })
+      const result = matchParser.parseLine(line)
+      expect(result).toEqual([expect.objectContaining({ type: 'message', content: 'deep' })])
+    })
+
+    test('in lists match any listed value', () => {
+      const result = matchParser.parseLine(JSON.stringify({ type: 'reasoning', text: 'hmm' }))
+      expect(result).toEqual(expect.objectContaining({ type: 'thought', content: 'hmm' }))
+      expect(matchParser.parseLine(JSON.stringify({ type: 'other', text: 'x' }))).toBeNull()
+    })
+
+    test('result matchRegex matches the completion event', () => {
+      expect(matchParser.parseResult(JSON.stringify({ type: 'turn.failed', result: 'boom' }))).toEqual(
+        expect.objectContaining({ isResult: true, content: 'boom' }),
+      )
+      expect(matchParser.parseResult(JSON.stringify({ type: 'turn.started' })).isResult).toBe(false)
+    })
+  })
+
+  describe('parseLine with tool call correlation', () => {
+    const correlatedParser = createOutputParser(
+      parseHeadlessConfig({
+        ...validClaudeSchema,
+        outputEvents: [
+          {
+            match: { path: "$.message.content[?(@.type=='tool_use')]", value: '*' },
+            emitAs: 'tool_call',
+            extract: { title: '$.name', status: "'pending'", input: '$.input' },
+          },
+          {
+            match: { path: "$.message.content[?(@.type=='tool_result')]", value: '*' },
+            emitAs: 'tool_call',
+            extract: { status: "'completed'", output: '$.content' },
+          },
+          {
+            match: { path: '$.type', value: 'assistant' },
+            emitAs: 'message',
+            extract: { content: '$.message.text' },
+          },
+        ],
+        correlate: { startIdPath: '$.id', resultIdPath: '$.tool_use_id' },
+      }),
+    )
+
+    test('tags start and result updates with the call id', () => {
+      const start = correlatedParser.parseLine(
+        JSON.stringify({ message: { content: [{ type: 'tool_use', id: 'tu_1', name: 'Read', input: {} }] } }),
+      )
+      const result = correlatedParser.parseLine(
+        JSON.stringify({ message: { content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: 'ok' }] } }),
+      )
+      expect(start).toEqual([expect.objectContaining({ toolCallId: 'tu_1', toolCallPhase: 'start', title: 'Read' })])
+      expect(result).toEqual([expect.objectContaining({ toolCallId: 'tu_1', toolCallPhase: 'result', output: 'ok' })])
+    })
+
+    test('does not tag non-tool updates', () => {
+      const update = correlatedParser.parseLine(
+        JSON.stringify({ type: 'assistant', id: 'msg_1', message: { text: 'Hi' } }),
+      )
+      expect(update).toEqual(expect.objectContaining({ type: 'message' }))
+      expect(update).not.toHaveProperty('toolCallId')
+    })
+  })
+
+  describe('accumulate', () => {
+    const deltaParser = createOutputParser(
+      parseHeadlessConfig({
+        ...validClaudeSchema,
+        outputEvents: [
+          {
+            match: { path: '$.delta.type', value: 'text_delta' },
+            emitAs: 'message',
+            extract: { content: '$.delta.text' },
+            accumulate: { until: { path: '$.type', in: ['content_block_stop', 'message_stop'] } },
+          },
+          {
+            match: { path: '$.delta.type', value: 'thinking_delta' },
+            emitAs: 'thought',
+            extract: { content: '$.delta.thinking' },
+            accumulate: true,
+          },
+          ...validClaudeSchema.outputEvents,
+        ],
+      }),
+    )
+
+    test('flags updates from accumulating mappings as deltas', () => {
+      const text = deltaParser.parseLine(JSON.stringify({ delta: { type: 'text_delta', text: 'Hel' } }))
+      const thinking = deltaParser.parseLine(JSON.stringify({ delta: { type: 'thinking_delta', thinking: 'hm' } }))
+      const whole = deltaParser.parseLine(JSON.stringify({ type: 'assistant', message: { text: 'Hello' } }))
+      expect(text).toEqual(expect.objectContaining({ type: 'message', content: 'Hel', delta: true }))
+      expect(thinking).toEqual(expect.objectContaining({ type: 'thought', content: 'hm', delta: true }))
+      expect(whole).not.toHaveProperty('delta')
+    })
+
+    test('detects boundary events', () => {
+      expect(deltaParser.parseBoundary(JSON.stringify({ type: 'content_block_stop' }))).toBe(true)
+      expect(deltaParser.parseBoundary(JSON.stringify({ type: 'content_block_delta' }))).toBe(false)
+      expect(deltaParser.parseBoundary('not json')).toBe(false)
+      expect(parser.parseBoundary(JSON.stringify({ type: 'content_block_stop' }))).toBe(false)
+    })
+  })
+
+  describe('matchesValue', () => {
+    test('compares primitives by string form', () => {
+      expect(matchesValue(0, { value: '0' })).toBe(true)
+      expect(matchesValue(true, { in: ['true'] })).toBe(true)
+      expect(matchesValue({ a: 1 }, { value: 'x' })).toBe(false)
+      expect(matchesValue({ a: 1 }, { value: '*' })).toBe(true)
+      expect(matchesValue(null, { value: '*' })).toBe(false)
+    })
+  })
+
   describe('jsonPath with array wildcard', () => {
     test('extracts array with [*] wildcard', () => {
       const obj = { items: [{ id: 1 }, { id: 2 }] }
@@ -705,6 +926,101 @@ describe('createOutputParser', () => {
   })
 })
 
+// ============================================================================
+// Token Usage Tests
+// ============================================================================
+
+describe('token usage', () => {
+  const usageConfig = parseHeadlessConfig({
+    ...validClaudeSchema,
+    usage: {
+      match: { path: '$.type', value: 'result' },
+      inputTokens: '$.usage.input_tokens',
+      outputTokens: '$.usage.output_tokens',
+      cacheReadTokens: '$.usage.cache_read_input_tokens',
+      cacheWriteTokens: '$.usage.cache_creation_input_tokens',
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    },
+  })
+  const parser = createOutputParser(usageConfig)
+
+  describe('parseUsage', () => {
+    test('extracts token counts from matching events', () => {
+      const line = JSON.stringify({
+        type: 'result',
+        usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50, cache_creation_input_tokens: 10 },
+      })
+      expect(parser.parseUsage(line)).toEqual({
+        inputTokens: 100,
+        outputTokens: 20,
+        cacheReadTokens: 50,
+        cacheWriteTokens: 10,
+      })
+    })
+
+    test('ignores events that do not match', () => {
+      const line = JSON.stringify({ type: 'assistant', usage: { input_tokens: 100 } })
+      expect(parser.parseUsage(line)).toBeNull()
+    })
+
+    test('accepts numeric strings and skips missing fields', () => {
+      const line = JSON.stringify({ type: 'result', usage: { input_tokens: '42' } })
+      expect(parser.parseUsage(line)).toEqual({ inputTokens: 42 })
+    })
+
+    test('returns null without a usage config', () => {
+      const plain = createOutputParser(parseHeadlessConfig(validClaudeSchema))
+      expect(plain.parseUsage(JSON.stringify({ type: 'result', usage: { input_tokens: 1 } }))).toBeNull()
+    })
+  })
+
+  describe('parseSessionId', () => {
+    test('reads resume.sessionIdPath from any line', () => {
+      expect(parser.parseSessionId(JSON.stringify({ type: 'system', session_id: 'abc' }))).toBe('abc')
+      expect(parser.parseSessionId(JSON.stringify({ type: 'system' }))).toBeUndefined()
+      expect(parser.parseSessionId('not json')).toBeUndefined()
+    })
+
+    test('returns undefined without a resume config', () => {
+      const plain = createOutputParser(parseHeadlessConfig({ ...validClaudeSchema, resume: undefined }))
+      expect(plain.parseSessionId(JSON.stringify({ session_id: 'abc' }))).toBeUndefined()
+    })
+  })
+
+  describe('addTokenUsage', () => {
+    test('sums fields present in either record', () => {
+      expect(addTokenUsage({ inputTokens: 1, outputTokens: 2 }, { inputTokens: 3, cacheReadTokens: 4 })).toEqual({
+        inputTokens: 4,
+        outputTokens: 2,
+        cacheReadTokens: 4,
+      })
+    })
+
+    test('passes through when one side is undefined', () => {
+      expect(addTokenUsage(undefined, { inputTokens: 1 })).toEqual({ inputTokens: 1 })
+      expect(addTokenUsage(undefined, undefined)).toBeUndefined()
+    })
+  })
+
+  describe('computeUsageCost', () => {
+    test('prices each token class per million', () => {
+      const cost = computeUsageCost(
+        { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 0 },
+        { input: 3, output: 15, cacheRead: 0.3 },
+      )
+      expect(cost).toBeCloseTo(3 + 1.5 + 0.3, 10)
+    })
+  })
+
+  test('rejects negative prices', () => {
+    const result = HeadlessAdapterSchema.safeParse({
+      ...validClaudeSchema,
+      usage: { inputTokens: '$.usage.input_tokens', pricing: { input: -1, output: 1 } },
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
 // ============================================================================
 // Passthrough Mode Tests
 // ============================================================================
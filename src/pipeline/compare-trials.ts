@@ -32,7 +32,14 @@ import type {
   TrialsReliabilityMetrics,
 } from '../schemas.ts'
 import { TrialResultSchema } from '../schemas.ts'
-import { computeLatencyStats, percentile } from './compare-utils.ts'
+import {
+  computeCostStats,
+  computeGraderDimensions,
+  computeLatencyStats,
+  formatCostTable,
+  formatGraderTable,
+  percentile,
+} from './compare-utils.ts'
 import type {
   ComparisonGraderResult,
   LabeledRun,
@@ -259,6 +266,7 @@ const computeTrialsQualityMetrics = (results: TrialResult[]): QualityComputeResu
 
   const sorted = [...rawScores].sort((a, b) => a - b)
   const sum = rawScores.reduce((a, b) => a + b, 0)
+  const graders = computeGraderDimensions(results.flatMap((r) => r.trials.map((t) => t.scores)))
 
   return {
     metrics: {
@@ -267,6 +275,7 @@ const computeTrialsQualityMetrics = (results: TrialResult[]): QualityComputeResu
       medianScore: percentile(sorted, 0.5),
       p25Score: percentile(sorted, 0.25),
       p75Score: percentile(sorted, 0.75),
+      ...(graders && { graders }),
     },
     rawScores,
   }
@@ -282,7 +291,8 @@ type PerformanceComputeResult = {
  * Compute performance metrics from trial results.
  *
  * @remarks
- * Flattens all trial durations across all prompts into latency statistics.
+ * Flattens all trial durations across all prompts into latency statistics,
+ * and trial usage into token and cost totals when trials carry usage data.
  * Always returns a value since TrialEntry.duration is required.
  * Returns raw durations alongside metrics to avoid re-traversal for CI computation.
  *
@@ -291,11 +301,13 @@ type PerformanceComputeResult = {
  */
 const computeTrialsPerformanceMetrics = (results: TrialResult[]): PerformanceComputeResult => {
   const rawDurations = results.flatMap((r) => r.trials.map((t) => t.duration))
+  const cost = computeCostStats(results.flatMap((r) => r.trials.map((t) => t.usage)))
 
   return {
     metrics: {
       latency: computeLatencyStats(rawDurations),
       totalDuration: rawDurations.reduce((a, b) => a + b, 0),
+      ...(cost && { cost }),
     },
     rawDurations,
   }
@@ -742,6 +754,9 @@ const formatTrialsReportAsMarkdown = (report: TrialsComparisonReport): string =>
       }
     }
     lines.push('')
+
+    // Per-grader table (only with named graders)
+    lines.push(...formatGraderTable(report.quality))
   }
 
   // Performance table (always present)
@@ -769,6 +784,9 @@ const formatTrialsReportAsMarkdown = (report: TrialsComparisonReport): string =>
   }
   lines.push('')
 
+  // Cost table (only when some run reported usage)
+  lines.push(...formatCostTable(report.performance))
+
   // Head-to-head
   lines.push('## Head-to-Head')
   lines.push('')
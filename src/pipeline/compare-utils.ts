@@ -8,7 +8,7 @@
  * @packageDocumentation
  */
 
-import type { LatencyStats, ScoreDistribution } from '../schemas.ts'
+import type { CostStats, GraderDimension, GraderVerdict, LatencyStats, ScoreDistribution, Usage } from '../schemas.ts'
 
 /**
  * Compute percentile from sorted array using nearest rank method.
@@ -56,6 +56,45 @@ export const computeLatencyStats = (durations: number[]): LatencyStats => {
   }
 }
 
+/**
+ * Compute token and cost totals from per-result usage.
+ *
+ * @remarks
+ * Accepts `Usage` or `Timing` records (timing carries the usage fields).
+ * Results without usage data are skipped; `samples` counts the rest.
+ * Mean cost is over results with a `costUsd` value.
+ *
+ * @param usages - Usage records (undefined entries are skipped)
+ * @returns Cost statistics, or undefined when no result has usage data
+ *
+ * @public
+ */
+export const computeCostStats = (usages: (Usage | undefined)[]): CostStats | undefined => {
+  const present = usages.filter(
+    (u): u is Usage =>
+      u?.inputTokens !== undefined ||
+      u?.outputTokens !== undefined ||
+      u?.cacheReadTokens !== undefined ||
+      u?.cacheWriteTokens !== undefined ||
+      u?.costUsd !== undefined,
+  )
+  if (present.length === 0) return undefined
+
+  const sum = (values: (number | undefined)[]) => values.reduce<number>((total, v) => total + (v ?? 0), 0)
+  const costs = present.map((u) => u.costUsd).filter((v): v is number => v !== undefined)
+  const totalUsd = sum(costs)
+
+  return {
+    totalUsd,
+    meanUsd: costs.length > 0 ? totalUsd / costs.length : 0,
+    inputTokens: sum(present.map((u) => u.inputTokens)),
+    outputTokens: sum(present.map((u) => u.outputTokens)),
+    cacheReadTokens: sum(present.map((u) => u.cacheReadTokens)),
+    cacheWriteTokens: sum(present.map((u) => u.cacheWriteTokens)),
+    samples: present.length,
+  }
+}
+
 /**
  * Compute score distribution histogram.
  *
@@ -83,3 +122,93 @@ export const computeScoreDistribution = (scores: number[]): ScoreDistribution =>
 
   return dist
 }
+
+/**
+ * Compute per-grader quality from named grader verdicts.
+ *
+ * @remarks
+ * Each grader is its own dimension: its mean score and pass rate over the
+ * results it scored. Results without a `scores` map are ignored.
+ *
+ * @param scoresList - `scores` maps of graded results (undefined when absent)
+ * @returns Quality per grader name, or undefined if no result has named verdicts
+ *
+ * @public
+ */
+export const computeGraderDimensions = (
+  scoresList: (Record<string, GraderVerdict> | undefined)[],
+): Record<string, GraderDimension> | undefined => {
+  const totals = new Map<string, { scoreSum: number; passes: number; count: number }>()
+
+  for (const scores of scoresList) {
+    for (const [name, verdict] of Object.entries(scores ?? {})) {
+      const total = totals.get(name) ?? { scoreSum: 0, passes: 0, count: 0 }
+      total.scoreSum += verdict.score
+      total.passes += verdict.pass ? 1 : 0
+      total.count++
+      totals.set(name, total)
+    }
+  }
+
+  if (totals.size === 0) return undefined
+
+  const dimensions: Record<string, GraderDimension> = {}
+  for (const [name, { scoreSum, passes, count }] of totals) {
+    dimensions[name] = { avgScore: scoreSum / count, passRate: passes / count, count }
+  }
+  return dimensions
+}
+
+/**
+ * Format per-grader quality as a markdown table.
+ *
+ * @param quality - Quality metrics keyed by run label
+ * @returns Markdown lines, or none when no run has named graders
+ *
+ * @public
+ */
+export const formatGraderTable = (quality: Record<string, { graders?: Record<string, GraderDimension> }>): string[] => {
+  const names = [...new Set(Object.values(quality).flatMap((q) => Object.keys(q.graders ?? {})))]
+  if (names.length === 0) return []
+
+  const lines = ['## Graders', '']
+  lines.push(`| Run | ${names.map((name) => `${name} (avg / pass)`).join(' | ')} |`)
+  lines.push(`|-----|${names.map(() => '---------------').join('|')}|`)
+  for (const [label, q] of Object.entries(quality)) {
+    const cells = names.map((name) => {
+      const g = q.graders?.[name]
+      return g ? `${g.avgScore.toFixed(3)} / ${(g.passRate * 100).toFixed(1)}%` : '-'
+    })
+    lines.push(`| ${label} | ${cells.join(' | ')} |`)
+  }
+  lines.push('')
+  return lines
+}
+
+/**
+ * Format token and cost totals as a markdown table.
+ *
+ * @param performance - Performance metrics keyed by run label
+ * @returns Markdown lines, or none when no run reported usage
+ *
+ * @public
+ */
+export const formatCostTable = (performance: Record<string, { cost?: CostStats }>): string[] => {
+  if (!Object.values(performance).some((p) => p.cost)) return []
+
+  const lines = ['## Cost', '']
+  lines.push('| Run | Total (USD) | Mean (USD) | Input Tokens | Output Tokens | Cache Read | Cache Write |')
+  lines.push('|-----|-------------|------------|--------------|---------------|------------|-------------|')
+  for (const [label, p] of Object.entries(performance)) {
+    const c = p.cost
+    if (!c) {
+      lines.push(`| ${label} | - | - | - | - | - | - |`)
+      continue
+    }
+    lines.push(
+      `| ${label} | ${c.totalUsd.toFixed(4)} | ${c.meanUsd.toFixed(4)} | ${c.inputTokens} | ${c.outputTokens} | ${c.cacheReadTokens} | ${c.cacheWriteTokens} |`,
+    )
+  }
+  lines.push('')
+  return lines
+}
@@ -43,7 +43,14 @@ import type {
 } from '../schemas.ts'
 import { type CompareInputFormat, detectAndValidateFormat } from './compare-format-detection.ts'
 import { runTrialsCompare } from './compare-trials.ts'
-import { computeLatencyStats, computeScoreDistribution } from './compare-utils.ts'
+import {
+  computeCostStats,
+  computeGraderDimensions,
+  computeLatencyStats,
+  computeScoreDistribution,
+  formatCostTable,
+  formatGraderTable,
+} from './compare-utils.ts'
 import type {
   CompareConfig,
   ComparisonGrader,
@@ -364,6 +371,8 @@ export const runCompare = async (config: ExtendedCompareConfig): Promise<Compari
     const passes = results.filter((r) => r.score?.pass === true).length
     const fails = results.length - passes
 
+    const graders = computeGraderDimensions(results.map((r) => r.scores))
+
     quality[label] = {
       type: 'run',
       avgScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0,
@@ -371,6 +380,7 @@ export const runCompare = async (config: ExtendedCompareConfig): Promise<Compari
       passCount: passes,
       failCount: fails,
       scoreDistribution: computeScoreDistribution(scores),
+      ...(graders && { graders }),
     }
   }
 
@@ -381,11 +391,21 @@ export const runCompare = async (config: ExtendedCompareConfig): Promise<Compari
     const results = [...resultsMap.values()]
     const durations = results.map((r) => r.timing?.total ?? 0)
     const firstResponses = results.map((r) => r.timing?.firstResponse).filter((v): v is number => v !== undefined)
+    const firstTokens = results.map((r) => r.timing?.timeToFirstToken).filter((v): v is number => v !== undefined)
+
+    const toolDurations = results.flatMap((r: CaptureResult) =>
+      r.trajectory.flatMap((step) => (step.type === 'tool_call' && step.duration !== undefined ? [step.duration] : [])),
+    )
+
+    const cost = computeCostStats(results.map((r) => r.timing))
 
     performance[label] = {
       latency: computeLatencyStats(durations),
       firstResponse: firstResponses.length > 0 ? computeLatencyStats(firstResponses) : undefined,
+      ...(firstTokens.length > 0 && { timeToFirstToken: computeLatencyStats(firstTokens) }),
+      ...(toolDurations.length > 0 && { toolLatency: computeLatencyStats(toolDurations) }),
       totalDuration: durations.reduce((a, b) => a + b, 0),
+      ...(cost && { cost }),
     }
   }
 
@@ -582,6 +602,9 @@ const formatReportAsMarkdown = (report: ComparisonReport): string => {
   }
   lines.push('')
 
+  // Per-grader table (only with named graders)
+  lines.push(...formatGraderTable(report.quality))
+
   // Performance table
   lines.push('## Performance')
   lines.push('')
@@ -605,6 +628,28 @@ const formatReportAsMarkdown = (report: ComparisonReport): string => {
   }
   lines.push('')
 
+  // Tool latency table (only when some run has tool call durations)
+  if (Object.values(report.performance).some((p) => p.toolLatency)) {
+    lines.push('## Tool Latency')
+    lines.push('')
+    lines.push('| Run | P50 (ms) | P90 (ms) | P99 (ms) | Mean (ms) |')
+    lines.push('|-----|----------|----------|----------|-----------|')
+    for (const [label, p] of Object.entries(report.performance)) {
+      const t = p.toolLatency
+      if (!t) {
+        lines.push(`| ${label} | - | - | - | - |`)
+        continue
+      }
+      lines.push(
+        `| ${label} | ${t.p50.toFixed(0)} | ${t.p90.toFixed(0)} | ${t.p99.toFixed(0)} | ${t.mean.toFixed(0)} |`,
+      )
+    }
+    lines.push('')
+  }
+
+  // Cost table (only when some run reported usage)
+  lines.push(...formatCostTable(report.performance))
+
   // Reliability table
   lines.push('## Reliability')
   lines.push('')
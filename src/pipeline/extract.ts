@@ -11,8 +11,8 @@
 
 import { parseArgs } from 'node:util'
 import { loadJsonl, logProgress, writeOutput } from '../core.ts'
-import { parseHeadlessConfig } from '../headless/headless.schemas.ts'
 import { createOutputParser } from '../headless/headless-output-parser.ts'
+import { loadHeadlessConfig } from '../headless/headless-schema-loader.ts'
 import type { TrajectoryStep } from '../schemas.ts'
 import type { ExtractedResult, RawOutput } from './pipeline.types.ts'
 
@@ -27,6 +27,8 @@ const extractFromRaw = (rawOutput: RawOutput, parser: ReturnType<typeof createOu
   const trajectory: TrajectoryStep[] = []
   let finalOutput = ''
   let toolErrors = false
+  // Step that streamed deltas are concatenated into (accumulate mappings)
+  let openDelta: (TrajectoryStep & { type: 'thought' | 'message' }) | undefined
 
   // Parse each raw line
   for (const line of rawOutput.rawLines) {
@@ -37,18 +39,18 @@ const extractFromRaw = (rawOutput: RawOutput, parser: ReturnType<typeof createOu
       for (const update of updates) {
         const timestamp = Date.now() - rawOutput.timing.start
 
-        if (update.type === 'thought') {
-          trajectory.push({
-            type: 'thought',
-            content: update.content ?? '',
-            timestamp,
-          })
-        } else if (update.type === 'message') {
-          trajectory.push({
-            type: 'message',
-            content: update.content ?? '',
-            timestamp,
-          })
+        if (update.delta && openDelta?.type === update.type) {
+          openDelta.content += update.content ?? ''
+          continue
+        }
+        openDelta = undefined
+
+        if (update.type === 'thought' || update.type === 'message') {
+          const step = { type: update.type, content: update.content ?? '', timestamp }
+          trajectory.push(step)
+          if (update.delta) {
+            openDelta = step
+          }
         } else if (update.type === 'tool_call') {
           trajectory.push({
             type: 'tool_call',
@@ -69,13 +71,28 @@ const extractFromRaw = (rawOutput: RawOutput, parser: ReturnType<typeof createOu
       }
     }
 
+    if (parser.parseBoundary(line)) {
+      openDelta = undefined
+    }
+
     // Try to parse as result
     const result = parser.parseResult(line)
     if (result.isResult) {
       finalOutput = result.content
+      openDelta = undefined
     }
   }
 
+  // Agent stderr arrives after the turn's stdout
+  if (rawOutput.stderr) {
+    trajectory.push({
+      type: 'diagnostic',
+      source: 'stderr',
+      content: rawOutput.stderr,
+      timestamp: rawOutput.timing.end - rawOutput.timing.start,
+    })
+  }
+
   // If no explicit result, extract from messages
   if (!finalOutput) {
     finalOutput = trajectory
@@ -93,6 +110,7 @@ const extractFromRaw = (rawOutput: RawOutput, parser: ReturnType<typeof createOu
     toolErrors: toolErrors || !!rawOutput.error,
     metadata: rawOutput.metadata,
     timing: rawOutput.timing,
+    ...(rawOutput.workspaceDiff && { workspaceDiff: rawOutput.workspaceDiff }),
     ...(rawOutput.error && { error: rawOutput.error }),
   }
 }
@@ -104,12 +122,14 @@ const extractFromRaw = (rawOutput: RawOutput, parser: ReturnType<typeof createOu
  * @param rawOutputs - Raw outputs from run command
  * @param outputPath - Optional output file path
  * @param progress - Show progress to stderr
+ * @param profile - Schema profile to apply (version 2 schemas)
  */
 export const runExtract = async (
   schemaPath: string,
   rawOutputs: RawOutput[],
   outputPath?: string,
   progress = false,
+  profile?: string,
 ): Promise<void> => {
   // Load and validate schema
   const schemaFile = Bun.file(schemaPath)
@@ -117,8 +137,7 @@ export const runExtract = async (
     throw new Error(`Schema file not found: ${schemaPath}`)
   }
 
-  const rawSchema = await schemaFile.json()
-  const schema = parseHeadlessConfig(rawSchema)
+  const schema = await loadHeadlessConfig(schemaPath, { profile })
   const parser = createOutputParser(schema)
 
   logProgress(`Extracting with schema: ${schema.name}`, progress)
@@ -179,6 +198,7 @@ export const extract = async (args: string[]): Promise<void> => {
     args,
     options: {
       schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
       output: { type: 'string', short: 'o' },
       progress: { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h' },
@@ -197,6 +217,7 @@ Arguments:
 
 Options:
   -s, --schema      Path to headless adapter schema (required)
+  --profile         Schema profile to apply (version 2 schemas)
   -o, --output      Output file (default: stdout)
   --progress        Show progress to stderr
   -h, --help        Show this help message
@@ -237,5 +258,5 @@ Examples:
     rawOutputs = stdinOutputs
   }
 
-  await runExtract(values.schema, rawOutputs, values.output, values.progress)
+  await runExtract(values.schema, rawOutputs, values.output, values.progress, values.profile)
 }
@@ -12,7 +12,7 @@
 
 import { parseArgs } from 'node:util'
 import { loadJsonl, logProgress, writeOutput } from '../core.ts'
-import type { CaptureResult } from '../schemas.ts'
+import type { CaptureResult, GraderVerdict } from '../schemas.ts'
 import type { ExtractedResult, FormatStyle, GradedResult } from './pipeline.types.ts'
 
 /** Union of all formattable result types */
@@ -27,6 +27,20 @@ const isGraded = (
   return 'score' in result && result.score !== undefined
 }
 
+/**
+ * Get per-grader verdicts of a result (named graders only).
+ */
+const getScores = (result: FormattableResult): Record<string, GraderVerdict> | undefined => {
+  return 'scores' in result ? result.scores : undefined
+}
+
+/**
+ * Collect grader names across results, in first-seen order.
+ */
+const collectGraderNames = (results: FormattableResult[]): string[] => {
+  return [...new Set(results.flatMap((r) => Object.keys(getScores(r) ?? {})))]
+}
+
 /**
  * Format results as markdown report.
  *
@@ -55,6 +69,22 @@ const formatMarkdown = (results: FormattableResult[]): string => {
     )
     lines.push(`- **Average score**: ${avgScore.toFixed(3)}`)
     lines.push('')
+
+    // One row per named grader
+    const graderNames = collectGraderNames(gradedResults)
+    if (graderNames.length > 0) {
+      lines.push('| Grader | Pass Rate | Avg Score |')
+      lines.push('|--------|-----------|-----------|')
+      for (const name of graderNames) {
+        const verdicts = gradedResults.flatMap((r) => getScores(r)?.[name] ?? [])
+        const graderPassed = verdicts.filter((v) => v.pass).length
+        const graderAvg = verdicts.reduce((sum, v) => sum + v.score, 0) / verdicts.length
+        lines.push(
+          `| ${name} | ${graderPassed}/${verdicts.length} (${((graderPassed / verdicts.length) * 100).toFixed(1)}%) | ${graderAvg.toFixed(3)} |`,
+        )
+      }
+      lines.push('')
+    }
   }
 
   lines.push('## Results')
@@ -88,6 +118,14 @@ const formatMarkdown = (results: FormattableResult[]): string => {
         lines.push(`**Reasoning**: ${result.score.reasoning}`)
       }
       lines.push('')
+
+      const scores = getScores(result)
+      if (scores) {
+        for (const [name, verdict] of Object.entries(scores)) {
+          lines.push(`- ${name}: ${verdict.pass ? '✅' : '❌'} ${verdict.score.toFixed(3)}`)
+        }
+        lines.push('')
+      }
     }
 
     if (result.toolErrors) {
@@ -118,10 +156,14 @@ const formatCsv = (results: FormattableResult[]): string => {
 
   // Header
   const hasScores = results.some(isGraded)
+  const graderNames = collectGraderNames(results)
   const headers = ['id', 'input', 'hint', 'output', 'tool_errors', 'duration_ms']
   if (hasScores) {
     headers.push('pass', 'score', 'reasoning')
   }
+  for (const name of graderNames) {
+    headers.push(`${name}_pass`, `${name}_score`)
+  }
   lines.push(headers.join(','))
 
   // Data rows
@@ -150,6 +192,11 @@ const formatCsv = (results: FormattableResult[]): string => {
       }
     }
 
+    for (const name of graderNames) {
+      const verdict = getScores(result)?.[name]
+      row.push(verdict ? String(verdict.pass) : '', verdict ? verdict.score.toFixed(3) : '')
+    }
+
     lines.push(row.join(','))
   }
 
@@ -9,28 +9,32 @@
  */
 
 import { parseArgs } from 'node:util'
-import { loadJsonl, logProgress, writeOutput } from '../core.ts'
-import { loadGrader } from '../schemas/grader-loader.ts'
+import { loadJsonl, logProgress, withGradingWorkspace, writeOutput } from '../core.ts'
+import { DEFAULT_HARNESS_TIMEOUT } from '../schemas/constants.ts'
+import { type LoadGradersOptions, loadGraders, parseGraderCliOptions } from '../schemas/grader-composite.ts'
 import type { ExtractedResult, GradedResult } from './pipeline.types.ts'
 
 /**
  * Execute pipeline grade with configuration.
  *
- * @param graderPath - Path to grader module or executable
+ * @param graderSpecs - Grader path, or several `path`/`name:path` specs to combine
  * @param extractedResults - Extracted results from extract command
  * @param outputPath - Optional output file path
  * @param progress - Show progress to stderr
+ * @param graderOptions - Grader timeouts, retries and worker mode, and how several graders are aggregated
  */
 export const runGrade = async (
-  graderPath: string,
+  graderSpecs: string | string[],
   extractedResults: ExtractedResult[],
   outputPath?: string,
   progress = false,
+  graderOptions?: LoadGradersOptions,
 ): Promise<void> => {
   // Load grader
-  const grader = await loadGrader(graderPath)
+  const specs = Array.isArray(graderSpecs) ? graderSpecs : [graderSpecs]
+  const grader = await loadGraders(specs, graderOptions)
 
-  logProgress(`Grading with: ${graderPath}`, progress)
+  logProgress(`Grading with: ${specs.join(', ')}`, progress)
 
   let isFirstOutput = true
 
@@ -45,19 +49,27 @@ export const runGrade = async (
 
     logProgress(`[${i + 1}/${extractedResults.length}] ${extracted.id}`, progress)
 
-    // Apply grader
-    const score = await grader({
-      input: extracted.input,
-      output: extracted.output,
-      hint: extracted.hint,
-      trajectory: extracted.trajectory,
-      metadata: extracted.metadata,
-      cwd: extracted.cwd,
-    })
+    // Apply grader (restoring the archived workspace if the original is gone)
+    const { scores, ...score } = await withGradingWorkspace(
+      extracted.cwd,
+      extracted.workspaceDiff,
+      (cwd) =>
+        grader({
+          input: extracted.input,
+          output: extracted.output,
+          hint: extracted.hint,
+          trajectory: extracted.trajectory,
+          metadata: extracted.metadata,
+          cwd,
+          workspaceDiff: extracted.workspaceDiff,
+        }),
+      DEFAULT_HARNESS_TIMEOUT,
+    )
 
     const graded: GradedResult = {
       ...extracted,
       score,
+      ...(scores && { scores }),
     }
 
     // Merge outcome from grader if present
@@ -108,7 +120,13 @@ export const grade = async (args: string[]): Promise<void> => {
   const { values, positionals } = parseArgs({
     args,
     options: {
-      grader: { type: 'string', short: 'g' },
+      grader: { type: 'string', short: 'g', multiple: true },
+      aggregate: { type: 'string' },
+      weight: { type: 'string', multiple: true },
+      'pass-threshold': { type: 'string' },
+      'grader-timeout': { type: 'string' },
+      'grader-retries': { type: 'string' },
+      'grader-worker': { type: 'boolean', default: false },
       output: { type: 'string', short: 'o' },
       progress: { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h' },
@@ -126,7 +144,13 @@ Arguments:
   extracted.jsonl   Input file from 'extract' command (or pipe from stdin)
 
 Options:
-  -g, --grader      Path to grader (.ts/.js module or executable script) (required)
+  -g, --grader      Grader path (.ts/.js module or executable), or name:path; repeatable (required)
+  --aggregate       Combine graders: all, mean, min (default: all)
+  --weight          Grader weight for mean scores as name=value; repeatable (default: 1)
+  --pass-threshold  Score needed to pass with --aggregate mean (default: 0.5)
+  --grader-timeout  Timeout per grader call in ms, 0 for none (default: 60000)
+  --grader-retries  Retries after a grader throws or times out (default: 0)
+  --grader-worker   Keep executable graders running as JSONL workers
   -o, --output      Output file (default: stdout)
   --progress        Show progress to stderr
   -h, --help        Show this help message
@@ -134,6 +158,16 @@ Options:
 Graders:
   TS/JS modules must export a 'grade' function.
   Executable scripts (Python, etc.) use stdin/stdout JSON protocol.
+  Rubric files (.md/.yaml/.yml) run the built-in LLM judge; set JUDGE_MODEL,
+  JUDGE_BASE_URL and JUDGE_API_KEY for its OpenAI-compatible endpoint.
+  builtin:<name> selects a built-in grader (exact, contains, regex, json,
+  numeric, tools, expectations, file, command), configured via the prompt's
+  metadata.<name>.
+  Named graders (--grader name:path, repeated) each record a verdict in
+  'scores'; the aggregate becomes the overall pass/score.
+  Graders receive 'workspaceDiff' when the input has one. If its 'tarball'
+  is set and 'cwd' no longer exists, the workspace is restored to a temporary
+  directory for the grader.
 
 Examples:
   # From file
@@ -151,11 +185,26 @@ Examples:
     return
   }
 
-  if (!values.grader) {
+  if (!values.grader?.length) {
     console.error('Error: --grader is required')
     process.exit(1)
   }
 
+  let graderOptions: LoadGradersOptions
+  try {
+    graderOptions = parseGraderCliOptions({
+      aggregate: values.aggregate,
+      weight: values.weight,
+      passThreshold: values['pass-threshold'],
+      graderTimeout: values['grader-timeout'],
+      graderRetries: values['grader-retries'],
+      graderWorker: values['grader-worker'],
+    })
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
   // Load extracted results from file or stdin
   const inputPath = positionals[0]
   let extractedResults: ExtractedResult[]
@@ -171,5 +220,5 @@ Examples:
     extractedResults = stdinResults
   }
 
-  await runGrade(values.grader, extractedResults, values.output, values.progress)
+  await runGrade(values.grader, extractedResults, values.output, values.progress, graderOptions)
 }
@@ -10,7 +10,7 @@
  * @packageDocumentation
  */
 
-import type { GraderResult, TrajectoryStep, TrialEntry } from '../schemas.ts'
+import type { GraderVerdict, TrajectoryStep, TrialEntry, WorkspaceDiff } from '../schemas.ts'
 
 /**
  * Raw output from the `run` command.
@@ -38,6 +38,10 @@ export type RawOutput = {
   }
   /** Error message if execution failed */
   error?: string
+  /** Agent stderr (schema mode; other modes report stderr as `error`) */
+  stderr?: string
+  /** Workspace changes recorded by the producer, passed through to graders */
+  workspaceDiff?: WorkspaceDiff
 }
 
 /**
@@ -64,6 +68,8 @@ export type ExtractedResult = {
   metadata?: Record<string, unknown>
   /** Working directory path (optional, for git-based grading) */
   cwd?: string
+  /** Workspace changes; with a `tarball`, grading restores it when `cwd` is gone */
+  workspaceDiff?: WorkspaceDiff
   /** Timing metadata */
   timing: {
     start: number
@@ -82,8 +88,10 @@ export type ExtractedResult = {
  * Outcome field is merged from grader result if present.
  */
 export type GradedResult = ExtractedResult & {
-  /** Grader score */
-  score: GraderResult
+  /** Grader score (aggregated across named graders) */
+  score: GraderVerdict
+  /** Per-grader verdicts, keyed by grader name (with named graders) */
+  scores?: Record<string, GraderVerdict>
   /** Outcome data from grader (if grader returned outcome) */
   outcome?: Record<string, unknown>
 }
@@ -106,6 +114,8 @@ export type RunConfig = {
   mode: RunMode
   /** Path to schema file (for 'schema' mode) */
   schemaPath?: string
+  /** Schema profile to apply (version 2 schemas, 'schema' mode) */
+  profile?: string
   /** Command template (for 'simple' mode) - {} is replaced with prompt */
   simpleCommand?: string
   /** Shell template (for 'shell' mode) - $PROMPT env var is available */
@@ -116,6 +126,16 @@ export type RunConfig = {
   timeout?: number
   /** Show progress to stderr */
   progress?: boolean
+  /** Skip prompts already completed in the output file (requires an output path) */
+  resume?: boolean
+  /** With resume, re-run prompts whose recorded output has an error */
+  retryErrors?: boolean
+  /** Record each agent turn to this fixture directory (for 'schema' mode) */
+  recordDir?: string
+  /** Replay turns from this fixture directory instead of running the agent (for 'schema' mode) */
+  replayDir?: string
+  /** With `replayDir`, wait out the recorded time between stdout lines */
+  replayTiming?: boolean
 }
 
 /**
@@ -124,6 +144,8 @@ export type RunConfig = {
 export type ExtractConfig = {
   /** Path to schema file for output parsing */
   schemaPath: string
+  /** Schema profile to apply (version 2 schemas) */
+  profile?: string
   /** Show progress to stderr */
   progress?: boolean
 }
@@ -182,7 +204,7 @@ export type ComparisonRunData = {
   /** Execution trajectory (optional, varies by adapter) */
   trajectory?: TrajectoryStep[]
   /** Grader score (if run was graded) */
-  score?: GraderResult
+  score?: GraderVerdict
   /** Total duration in milliseconds */
   duration?: number
   /** Whether tool errors occurred */
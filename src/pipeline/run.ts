@@ -13,8 +13,18 @@
  */
 
 import { parseArgs } from 'node:util'
-import { loadPrompts, logProgress, writeOutput } from '../core.ts'
-import { parseHeadlessConfig } from '../headless/headless.schemas.ts'
+import {
+  hashContent,
+  loadPrompts,
+  logProgress,
+  prepareResume,
+  type RunFingerprint,
+  resolvePath,
+  writeCheckpoint,
+  writeOutput,
+} from '../core.ts'
+import { parseHeadlessConfig, parsePromptEnv } from '../headless/headless.schemas.ts'
+import { resolveHeadlessConfigFile } from '../headless/headless-schema-loader.ts'
 import { createSessionManager } from '../headless/headless-session-manager.ts'
 import { DEFAULT_HARNESS_TIMEOUT } from '../schemas/constants.ts'
 import type { RawOutput, RunConfig } from './pipeline.types.ts'
@@ -97,7 +107,8 @@ const runShell = async (
  *
  * @remarks
  * Processes prompts from stdin (if available) or from a file,
- * executing each and outputting RawOutput JSONL.
+ * executing each and outputting RawOutput JSONL. With `resume`, prompts
+ * already in the output file are skipped.
  *
  * @param config - Run configuration
  * @param prompts - Array of prompts to execute
@@ -111,19 +122,54 @@ export const runPipeline = async (
   const {
     mode,
     schemaPath,
+    profile,
     simpleCommand,
     shellTemplate,
     cwd,
     timeout = DEFAULT_HARNESS_TIMEOUT,
     progress = false,
+    resume = false,
+    retryErrors = false,
+    recordDir,
+    replayDir,
+    replayTiming = false,
   } = config
 
+  if (resume && !outputPath) {
+    throw new Error('Resume requires an output file')
+  }
+  if (profile && mode !== 'schema') {
+    throw new Error('--profile requires --schema')
+  }
+  if ((recordDir || replayDir) && mode !== 'schema') {
+    throw new Error('--record and --replay require --schema')
+  }
+  if (recordDir && replayDir) {
+    throw new Error('--record and --replay cannot be combined')
+  }
+
   const workingDir = cwd ?? process.cwd()
-  let isFirstOutput = true
+  let isFirstOutput = !resume
+
+  // Resume from the existing output or clear it, returning the prompts still to run
+  const initOutput = async (agentKey: RunFingerprint): Promise<typeof prompts> => {
+    if (!outputPath) return prompts
+
+    const fingerprint: RunFingerprint = { command: 'run', ...agentKey, prompts: hashContent(prompts) }
+    let completedIds = new Set<string>()
+    if (resume) {
+      const state = await prepareResume({ outputPath, fingerprint, retryErrors })
+      completedIds = state.completedIds
+      if (completedIds.size > 0) {
+        logProgress(`Resume: skipping ${completedIds.size} completed prompts`, progress)
+      }
+    }
+    if (completedIds.size === 0) {
+      await Bun.write(outputPath, '')
+      await writeCheckpoint(outputPath, fingerprint)
+    }
 
-  // Clear output file if specified
-  if (outputPath) {
-    await Bun.write(outputPath, '')
+    return prompts.filter((promptCase) => !completedIds.has(promptCase.id))
   }
 
   if (mode === 'schema') {
@@ -137,29 +183,34 @@ export const runPipeline = async (
       throw new Error(`Schema file not found: ${schemaPath}`)
     }
 
-    const rawSchema = await schemaFile.json()
+    const rawSchema = await resolveHeadlessConfigFile(schemaPath, { profile })
     const schema = parseHeadlessConfig(rawSchema)
+    const pending = await initOutput({ schema: hashContent(rawSchema) })
 
     const sessions = createSessionManager({
       schema,
       timeout,
       verbose: progress,
+      recordDir: recordDir ? resolvePath(recordDir) : undefined,
+      replayDir: replayDir ? resolvePath(replayDir) : undefined,
+      replayTiming,
     })
 
     logProgress(`Schema mode: ${schema.name}`, progress)
 
-    for (let i = 0; i < prompts.length; i++) {
-      const promptCase = prompts[i]
+    for (let i = 0; i < pending.length; i++) {
+      const promptCase = pending[i]
       if (!promptCase) continue
 
-      logProgress(`[${i + 1}/${prompts.length}] ${promptCase.id}`, progress)
+      logProgress(`[${i + 1}/${pending.length}] ${promptCase.id}`, progress)
 
       const startTime = Date.now()
       const rawLines: string[] = []
+      const stderrChunks: string[] = []
       let error: string | undefined
 
       try {
-        const session = await sessions.create(workingDir)
+        const session = await sessions.create(workingDir, { env: parsePromptEnv(promptCase.metadata) })
         const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
 
         for (const turnInput of inputs) {
@@ -168,6 +219,9 @@ export const runPipeline = async (
           for (const update of result.updates) {
             rawLines.push(JSON.stringify(update.raw))
           }
+          if (result.stderr) {
+            stderrChunks.push(result.stderr)
+          }
         }
 
         sessions.destroy(session.id)
@@ -189,6 +243,7 @@ export const runPipeline = async (
           total: endTime - startTime,
         },
         ...(error && { error }),
+        ...(stderrChunks.length > 0 && { stderr: stderrChunks.join('\n') }),
       }
 
       await writeOutput(JSON.stringify(output), outputPath, !isFirstOutput)
@@ -201,12 +256,13 @@ export const runPipeline = async (
     }
 
     logProgress(`Simple mode: ${simpleCommand}`, progress)
+    const pending = await initOutput({ template: hashContent(simpleCommand) })
 
-    for (let i = 0; i < prompts.length; i++) {
-      const promptCase = prompts[i]
+    for (let i = 0; i < pending.length; i++) {
+      const promptCase = pending[i]
       if (!promptCase) continue
 
-      logProgress(`[${i + 1}/${prompts.length}] ${promptCase.id}`, progress)
+      logProgress(`[${i + 1}/${pending.length}] ${promptCase.id}`, progress)
 
       const startTime = Date.now()
       const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
@@ -245,12 +301,13 @@ export const runPipeline = async (
     }
 
     logProgress(`Shell mode: ${shellTemplate}`, progress)
+    const pending = await initOutput({ template: hashContent(shellTemplate) })
 
-    for (let i = 0; i < prompts.length; i++) {
-      const promptCase = prompts[i]
+    for (let i = 0; i < pending.length; i++) {
+      const promptCase = pending[i]
       if (!promptCase) continue
 
-      logProgress(`[${i + 1}/${prompts.length}] ${promptCase.id}`, progress)
+      logProgress(`[${i + 1}/${pending.length}] ${promptCase.id}`, progress)
 
       const startTime = Date.now()
       const inputs = Array.isArray(promptCase.input) ? promptCase.input : [promptCase.input]
@@ -322,12 +379,18 @@ export const run = async (args: string[]): Promise<void> => {
     args,
     options: {
       schema: { type: 'string', short: 's' },
+      profile: { type: 'string' },
       simple: { type: 'string' },
       shell: { type: 'string' },
       output: { type: 'string', short: 'o' },
       cwd: { type: 'string', short: 'c' },
       timeout: { type: 'string', short: 't' },
       progress: { type: 'boolean', default: false },
+      resume: { type: 'boolean', default: false },
+      'retry-errors': { type: 'boolean', default: false },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      'replay-timing': { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h' },
     },
     allowPositionals: true,
@@ -348,10 +411,16 @@ Modes (choose one):
   --shell           Shell template with $PROMPT env variable
 
 Options:
+  --profile         Schema profile to apply (version 2 schemas, schema mode)
   -o, --output      Output file (default: stdout)
   -c, --cwd         Working directory for agent
   -t, --timeout     Request timeout in ms (default: ${DEFAULT_HARNESS_TIMEOUT})
   --progress        Show progress to stderr
+  --resume          Skip prompts already completed in the output file (requires -o)
+  --retry-errors    With --resume, re-run prompts whose output has an error
+  --record          Save each agent turn's raw stdout as fixtures in this directory (schema mode)
+  --replay          Serve turns from a --record directory instead of running the agent (schema mode)
+  --replay-timing   With --replay, reproduce the recorded delays between stdout lines
   -h, --help        Show this help message
 
 Examples:
@@ -383,6 +452,11 @@ Examples:
     process.exit(1)
   }
 
+  if (values.resume && !values.output) {
+    console.error('Error: --resume requires --output')
+    process.exit(1)
+  }
+
   // Load prompts from file or stdin
   const promptsPath = positionals[0]
   let prompts: Array<{ id: string; input: string | string[]; hint?: string; metadata?: Record<string, unknown> }>
@@ -402,11 +476,17 @@ Examples:
     {
       mode,
       schemaPath: values.schema,
+      profile: values.profile,
       simpleCommand: values.simple,
       shellTemplate: values.shell,
       cwd: values.cwd,
       timeout: values.timeout ? Number.parseInt(values.timeout, 10) : undefined,
       progress: values.progress,
+      resume: values.resume,
+      retryErrors: values['retry-errors'],
+      recordDir: values.record,
+      replayDir: values.replay,
+      replayTiming: values['replay-timing'],
     },
     prompts,
     values.output,
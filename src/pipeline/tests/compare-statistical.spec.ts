@@ -3,7 +3,7 @@
  *
  * @remarks
  * Tests verify confidence interval computation for the statistical strategy
- * in the compare command with CaptureResult format.
+ * in the compare command with CaptureResult format, plus tool latency stats.
  *
  * @packageDocumentation
  */
@@ -287,3 +287,46 @@ describe('runCompare statistical strategy', () => {
     expect(parsed.performance.high.confidenceIntervals.latencyMean).toBeInstanceOf(Array)
   })
 })
+
+describe('runCompare tool latency', () => {
+  test('reports tool call duration statistics when steps carry durations', async () => {
+    const timedPath = `${tempDir}/tool-latency-timed.jsonl`
+    const untimedPath = `${tempDir}/tool-latency-untimed.jsonl`
+    const outputPath = `${tempDir}/tool-latency.md`
+
+    const timed = createCaptureResult('p1', 1, true)
+    timed.trajectory = [
+      { type: 'tool_call', name: 'Read', status: 'completed', duration: 100, timestamp: 10 },
+      { type: 'tool_call', name: 'Bash', status: 'completed', duration: 300, timestamp: 200 },
+      { type: 'tool_call', name: 'Grep', status: 'pending', timestamp: 600 },
+    ]
+
+    await Bun.write(timedPath, JSON.stringify(timed))
+    await Bun.write(untimedPath, JSON.stringify(createCaptureResult('p1', 1, true)))
+
+    const report = await runCompare({
+      runs: [
+        { label: 'timed', path: timedPath },
+        { label: 'untimed', path: untimedPath },
+      ],
+      outputPath,
+      progress: false,
+    })
+
+    expect(report.performance.timed?.toolLatency).toEqual(expect.objectContaining({ min: 100, max: 300, mean: 200 }))
+    expect(report.performance.untimed?.toolLatency).toBeUndefined()
+
+    await runCompare({
+      runs: [
+        { label: 'timed', path: timedPath },
+        { label: 'untimed', path: untimedPath },
+      ],
+      outputPath,
+      format: 'markdown',
+      progress: false,
+    })
+    const markdown = await Bun.file(outputPath).text()
+    expect(markdown).toContain('## Tool Latency')
+    expect(markdown).toContain('| untimed | - | - | - | - |')
+  })
+})
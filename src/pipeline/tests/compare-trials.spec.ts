@@ -453,6 +453,45 @@ describe('runTrialsCompare', () => {
     expect(perf?.totalDuration).toBeGreaterThan(0)
   })
 
+  test('includes token and cost totals when trials carry usage', async () => {
+    const run1Path = `${tempDir}/cost-run1.jsonl`
+    const run2Path = `${tempDir}/cost-run2.jsonl`
+    const outputPath = `${tempDir}/cost-report.md`
+
+    const trial1 = createTrialResult('test-001', 0.9, 0.7, 2)
+    const usage = { inputTokens: 100, outputTokens: 20, costUsd: 0.01 }
+    const trial2 = { ...trial1, trials: trial1.trials.map((trial) => ({ ...trial, usage })) }
+
+    await Bun.write(run1Path, JSON.stringify(trial1))
+    await Bun.write(run2Path, JSON.stringify(trial2))
+
+    const report = await runTrialsCompare({
+      runs: [
+        { label: 'run1', path: run1Path },
+        { label: 'run2', path: run2Path },
+      ],
+      outputPath,
+      format: 'markdown',
+      progress: false,
+    })
+
+    expect(report.performance.run1?.cost).toBeUndefined()
+    expect(report.performance.run2?.cost).toEqual({
+      totalUsd: 0.02,
+      meanUsd: 0.01,
+      inputTokens: 200,
+      outputTokens: 40,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      samples: 2,
+    })
+
+    const content = await Bun.file(outputPath).text()
+    expect(content).toContain('## Cost')
+    expect(content).toContain('| run1 | - | - | - | - | - | - |')
+    expect(content).toContain('| run2 | 0.0200 | 0.0100 | 200 | 40 | 0 | 0 |')
+  })
+
   test('includes quality metrics when scores are present', async () => {
     const run1Path = `${tempDir}/qual-run1.jsonl`
     const run2Path = `${tempDir}/qual-run2.jsonl`
@@ -8,7 +8,14 @@
  */
 
 import { describe, expect, test } from 'bun:test'
-import { computeLatencyStats, computeScoreDistribution, percentile } from '../compare-utils.ts'
+import {
+  computeCostStats,
+  computeGraderDimensions,
+  computeLatencyStats,
+  computeScoreDistribution,
+  formatGraderTable,
+  percentile,
+} from '../compare-utils.ts'
 
 // ============================================================================
 // percentile Tests
@@ -126,3 +133,72 @@ describe('computeScoreDistribution', () => {
     expect(dist['0.8-1.0']).toBe(2) // 0.8, 1.0
   })
 })
+
+describe('computeCostStats', () => {
+  test('returns undefined without usage data', () => {
+    expect(computeCostStats([])).toBeUndefined()
+    expect(computeCostStats([undefined, {}])).toBeUndefined()
+  })
+
+  test('sums tokens and cost over results with usage', () => {
+    const stats = computeCostStats([
+      { inputTokens: 100, outputTokens: 10, costUsd: 0.5 },
+      undefined,
+      { inputTokens: 50, cacheReadTokens: 20, costUsd: 0.25 },
+    ])
+
+    expect(stats).toEqual({
+      totalUsd: 0.75,
+      meanUsd: 0.375,
+      inputTokens: 150,
+      outputTokens: 10,
+      cacheReadTokens: 20,
+      cacheWriteTokens: 0,
+      samples: 2,
+    })
+  })
+
+  test('reports zero cost when no result is priced', () => {
+    const stats = computeCostStats([{ inputTokens: 10 }])
+    expect(stats?.totalUsd).toBe(0)
+    expect(stats?.meanUsd).toBe(0)
+    expect(stats?.samples).toBe(1)
+  })
+})
+
+// ============================================================================
+// computeGraderDimensions / formatGraderTable Tests
+// ============================================================================
+
+describe('computeGraderDimensions', () => {
+  test('returns undefined without named graders', () => {
+    expect(computeGraderDimensions([undefined, undefined])).toBeUndefined()
+  })
+
+  test('computes per-grader averages over the results each grader scored', () => {
+    const dimensions = computeGraderDimensions([
+      { correctness: { pass: true, score: 1 }, style: { pass: false, score: 0.2 } },
+      undefined,
+      { correctness: { pass: false, score: 0.5 } },
+    ])
+
+    expect(dimensions).toEqual({
+      correctness: { avgScore: 0.75, passRate: 0.5, count: 2 },
+      style: { avgScore: 0.2, passRate: 0, count: 1 },
+    })
+  })
+})
+
+describe('formatGraderTable', () => {
+  test('renders one column per grader and dashes for missing ones', () => {
+    const lines = formatGraderTable({
+      a: { graders: { correctness: { avgScore: 0.75, passRate: 0.5, count: 2 } } },
+      b: {},
+    })
+
+    expect(lines).toContain('| Run | correctness (avg / pass) |')
+    expect(lines).toContain('| a | 0.750 / 50.0% |')
+    expect(lines).toContain('| b | - |')
+    expect(formatGraderTable({ a: {} })).toEqual([])
+  })
+})
@@ -11,14 +11,32 @@
 // Constants
 export {
   DEFAULT_CALIBRATION_SAMPLE_SIZE,
+  DEFAULT_GRADER_TIMEOUT,
   DEFAULT_HARNESS_TIMEOUT,
+  DEFAULT_JUDGE_BASE_URL,
+  DEFAULT_RETRY_BACKOFF,
+  DEFAULT_SANDBOX_WORKDIR,
   DEFAULT_TRIAL_COUNT,
   HEAD_LINES,
   MAX_CONTENT_LENGTH,
   TAIL_LINES,
 } from './schemas/constants.ts'
+// Named graders and composite scoring
+export {
+  aggregateVerdicts,
+  type CompositeGraderOptions,
+  createCompositeGrader,
+  type GraderAggregation,
+  type GraderCliOptions,
+  type LoadGradersOptions,
+  loadGraders,
+  loadGradersOrExit,
+  type NamedGrader,
+  parseGraderCliOptions,
+  parseGraderSpec,
+} from './schemas/grader-composite.ts'
 // Grader loader
-export { loadGrader, loadGraderOrExit } from './schemas/grader-loader.ts'
+export { type GraderLoadOptions, loadGrader, loadGraderOrExit, withGraderLimits } from './schemas/grader-loader.ts'
 // Core session types
 // JSON-RPC types (MCP compatibility)
 // MCP server configuration
@@ -27,6 +45,8 @@ export { loadGrader, loadGraderOrExit } from './schemas/grader-loader.ts'
 // Timing and richness
 // Result types
 export {
+  type Attempt,
+  AttemptSchema,
   type BalanceAnalysis,
   BalanceAnalysisSchema,
   type CalibrationSample,
@@ -40,10 +60,19 @@ export {
   ComparisonMetaSchema,
   type ComparisonReport,
   ComparisonReportSchema,
+  type CostStats,
+  CostStatsSchema,
+  DiagnosticStepSchema,
   EnvVariableSchema,
+  type GradeHistoryEntry,
+  GradeHistoryEntrySchema,
   type Grader,
+  type GraderDimension,
+  GraderDimensionSchema,
   type GraderResult,
   GraderResultSchema,
+  type GraderVerdict,
+  GraderVerdictSchema,
   type HeadToHead,
   HeadToHeadSchema,
   HttpHeaderSchema,
@@ -82,6 +111,8 @@ export {
   QualityMetricsSchema,
   type ReliabilityMetrics,
   ReliabilityMetricsSchema,
+  type RunCheckpoint,
+  RunCheckpointSchema,
   type ScoreDistribution,
   ScoreDistributionSchema,
   type Session,
@@ -125,8 +156,14 @@ export {
   TrialsQualityMetricsSchema,
   type TrialsReliabilityMetrics,
   TrialsReliabilityMetricsSchema,
+  type Usage,
+  UsageSchema,
   type ValidationResult,
   ValidationResultSchema,
+  type WorkspaceDiff,
+  WorkspaceDiffSchema,
+  type WorkspaceSpec,
+  WorkspaceSpecSchema,
 } from './schemas/schemas.ts'
 
 // Schemas CLI
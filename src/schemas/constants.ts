@@ -87,8 +87,23 @@ export const MAX_CONTENT_LENGTH = 500
 /** Default timeout for prompt evaluation in milliseconds */
 export const DEFAULT_HARNESS_TIMEOUT = 60000
 
+/** Default timeout for a single grader call in milliseconds */
+export const DEFAULT_GRADER_TIMEOUT = 60000
+
+/** Default cap on captured agent stderr per turn, in characters (tail is kept) */
+export const DEFAULT_STDERR_LIMIT = 64 * 1024
+
+/** Default base delay before retrying a failed attempt, in milliseconds (doubles per retry) */
+export const DEFAULT_RETRY_BACKOFF = 1000
+
+/** Default container path of the bind-mounted workspace in a sandbox */
+export const DEFAULT_SANDBOX_WORKDIR = '/workspace'
+
 /** Default number of trials for pass@k analysis */
 export const DEFAULT_TRIAL_COUNT = 5
 
 /** Default sample size for calibration */
 export const DEFAULT_CALIBRATION_SAMPLE_SIZE = 10
+
+/** Default base URL of the OpenAI-compatible endpoint used by the LLM judge grader */
+export const DEFAULT_JUDGE_BASE_URL = 'https://api.openai.com/v1'
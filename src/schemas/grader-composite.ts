@@ -0,0 +1,353 @@
+/**
+ * Named graders and composite scoring.
+ *
+ * @remarks
+ * Lets `--grader` be repeated with names (`correctness:./a.ts`, `style:./b.py`).
+ * The named graders run side by side and their verdicts are combined into one
+ * pass/score by a configurable aggregation, while each verdict is kept in the
+ * result's `scores` map.
+ *
+ * @packageDocumentation
+ */
+
+import { basename, extname } from 'node:path'
+import { BUILTIN_GRADER_PREFIX } from '../graders/builtin.ts'
+import { type GraderLoadOptions, loadGrader } from './grader-loader.ts'
+import type { Grader, GraderResult, GraderVerdict } from './schemas.ts'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How verdicts from several graders combine into one.
+ *
+ * @remarks
+ * - `all`: pass only if every grader passes; score is the weighted mean (default)
+ * - `mean`: score is the weighted mean; pass when it reaches the pass threshold
+ * - `min`: score is the lowest score; pass only if every grader passes
+ */
+export type GraderAggregation = 'all' | 'mean' | 'min'
+
+/** A grader with the name its verdict is recorded under */
+export type NamedGrader = {
+  /** Key in the result's `scores` map */
+  name: string
+  /** Grader function */
+  grader: Grader
+}
+
+/** Options for combining named graders */
+export type CompositeGraderOptions = {
+  /** Aggregation strategy (default: all) */
+  aggregate?: GraderAggregation
+  /** Weight per grader name for mean scores (default: 1 each) */
+  weights?: Record<string, number>
+  /** Score needed to pass with `mean` aggregation (default: 0.5) */
+  passThreshold?: number
+}
+
+/** Options for loading graders: how each runs and how their verdicts combine */
+export type LoadGradersOptions = CompositeGraderOptions & GraderLoadOptions
+
+/** Raw CLI values for the grader flags */
+export type GraderCliOptions = {
+  /** `--aggregate` value */
+  aggregate?: string
+  /** `--weight name=value` values */
+  weight?: string[]
+  /** `--pass-threshold` value */
+  passThreshold?: string
+  /** `--grader-timeout` value */
+  graderTimeout?: string
+  /** `--grader-retries` value */
+  graderRetries?: string
+  /** `--grader-worker` flag */
+  graderWorker?: boolean
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Valid aggregation strategies */
+const AGGREGATIONS: GraderAggregation[] = ['all', 'mean', 'min']
+
+/** Default pass threshold for `mean` aggregation */
+const DEFAULT_PASS_THRESHOLD = 0.5
+
+/** Grader names: a letter followed by letters, digits, `_` or `-` */
+const GRADER_NAME_PATTERN = /^[A-Za-z][\w-]*$/
+
+// ============================================================================
+// Spec Parsing
+// ============================================================================
+
+/**
+ * Split a `--grader` value into an optional name and a path.
+ *
+ * @remarks
+ * `name:path` names the grader; a plain path leaves it unnamed. The prefix
+ * only counts as a name when it matches `[A-Za-z][\w-]*`, so paths such as
+ * `./graders/a.ts` are never split. `builtin:<name>` is a built-in grader,
+ * not a name.
+ *
+ * @param spec - Value passed to `--grader`
+ * @returns Grader name (if given) and path
+ *
+ * @public
+ */
+export const parseGraderSpec = (spec: string): { name?: string; path: string } => {
+  if (spec.startsWith(BUILTIN_GRADER_PREFIX)) {
+    return { path: spec }
+  }
+  const colon = spec.indexOf(':')
+  if (colon > 0) {
+    const name = spec.slice(0, colon)
+    const path = spec.slice(colon + 1)
+    if (GRADER_NAME_PATTERN.test(name) && path) {
+      return { name, path }
+    }
+  }
+  return { path: spec }
+}
+
+/**
+ * Parse the raw grader CLI flags.
+ *
+ * @param options - Raw `--aggregate`, `--weight`, `--pass-threshold` and `--grader-*` values
+ * @returns Grader loading and aggregation options
+ * @throws Error describing the first invalid flag
+ *
+ * @public
+ */
+export const parseGraderCliOptions = ({
+  aggregate,
+  weight,
+  passThreshold,
+  graderTimeout,
+  graderRetries,
+  graderWorker,
+}: GraderCliOptions): LoadGradersOptions => {
+  const options: LoadGradersOptions = {}
+
+  if (aggregate !== undefined) {
+    if (!AGGREGATIONS.includes(aggregate as GraderAggregation)) {
+      throw new Error(`--aggregate must be one of: ${AGGREGATIONS.join(', ')}`)
+    }
+    options.aggregate = aggregate as GraderAggregation
+  }
+
+  if (weight && weight.length > 0) {
+    options.weights = {}
+    for (const entry of weight) {
+      const [name, value] = entry.split('=')
+      const parsed = Number(value)
+      if (!name || value === undefined || !Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`--weight must be name=<non-negative number>, got '${entry}'`)
+      }
+      options.weights[name] = parsed
+    }
+  }
+
+  if (passThreshold !== undefined) {
+    const parsed = Number(passThreshold)
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new Error('--pass-threshold must be a number between 0 and 1')
+    }
+    options.passThreshold = parsed
+  }
+
+  if (graderTimeout !== undefined) {
+    const parsed = Number(graderTimeout)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error('--grader-timeout must be a non-negative integer (milliseconds, 0 for none)')
+    }
+    options.timeout = parsed
+  }
+
+  if (graderRetries !== undefined) {
+    const parsed = Number(graderRetries)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error('--grader-retries must be a non-negative integer')
+    }
+    options.retries = parsed
+  }
+
+  if (graderWorker) {
+    options.worker = true
+  }
+
+  return options
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Combine named verdicts into a single grader result.
+ *
+ * @remarks
+ * Reasoning is joined as `name: reasoning`, outcomes are keyed by grader name,
+ * and the individual verdicts are returned under `scores`.
+ *
+ * @param verdicts - Verdicts keyed by grader name
+ * @param options - Aggregation options
+ * @returns Aggregated result carrying the individual verdicts
+ *
+ * @public
+ */
+export const aggregateVerdicts = (
+  verdicts: Record<string, GraderVerdict>,
+  { aggregate = 'all', weights = {}, passThreshold = DEFAULT_PASS_THRESHOLD }: CompositeGraderOptions = {},
+): GraderResult => {
+  const entries = Object.entries(verdicts)
+  const allPass = entries.every(([, verdict]) => verdict.pass)
+
+  let totalWeight = 0
+  let weightedSum = 0
+  for (const [name, verdict] of entries) {
+    const weight = weights[name] ?? 1
+    totalWeight += weight
+    weightedSum += weight * verdict.score
+  }
+  const mean = totalWeight > 0 ? weightedSum / totalWeight : 0
+
+  let pass: boolean
+  let score: number
+  switch (aggregate) {
+    case 'mean':
+      score = mean
+      pass = score >= passThreshold
+      break
+    case 'min':
+      score = entries.length > 0 ? Math.min(...entries.map(([, verdict]) => verdict.score)) : 0
+      pass = allPass
+      break
+    case 'all':
+      score = mean
+      pass = allPass
+      break
+  }
+
+  const reasoning = entries
+    .filter(([, verdict]) => verdict.reasoning)
+    .map(([name, verdict]) => `${name}: ${verdict.reasoning}`)
+    .join('\n')
+  const outcomes = entries.filter(([, verdict]) => verdict.outcome)
+
+  return {
+    pass,
+    score,
+    ...(reasoning && { reasoning }),
+    ...(outcomes.length > 0 && {
+      outcome: Object.fromEntries(outcomes.map(([name, verdict]) => [name, verdict.outcome])),
+    }),
+    scores: verdicts,
+  }
+}
+
+/**
+ * Create a grader that runs several named graders and aggregates them.
+ *
+ * @remarks
+ * Graders run concurrently with the same input. If any grader throws, the
+ * composite throws with the grader's name in the message.
+ *
+ * @param graders - Named graders (names must be unique)
+ * @param options - Aggregation options
+ * @returns Grader whose result carries per-grader `scores`
+ *
+ * @public
+ */
+export const createCompositeGrader = (graders: NamedGrader[], options: CompositeGraderOptions = {}): Grader => {
+  return async (params) => {
+    const results = await Promise.all(
+      graders.map(async ({ name, grader }) => {
+        try {
+          // Drop nested scores so each entry stays a single verdict
+          const { scores: _scores, ...verdict } = await grader(params)
+          return [name, verdict] as const
+        } catch (error) {
+          throw new Error(`Grader '${name}' failed: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }),
+    )
+    return aggregateVerdicts(Object.fromEntries(results), options)
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load one or more graders from `--grader` values.
+ *
+ * @remarks
+ * A single unnamed grader is returned as-is. Otherwise the graders are
+ * combined with `createCompositeGrader`; unnamed ones are named after their
+ * file (`./checks/style.py` → `style`, `builtin:regex` → `regex`). Timeouts
+ * and retries apply to each grader separately.
+ *
+ * @param specs - `--grader` values (`path` or `name:path`)
+ * @param options - Loading and aggregation options
+ * @returns Grader function
+ * @throws Error on a missing grader, duplicate name, or weight for an unknown name
+ *
+ * @public
+ */
+export const loadGraders = async (specs: string[], options: LoadGradersOptions = {}): Promise<Grader> => {
+  const parsed = specs.map(parseGraderSpec)
+  const [first] = parsed
+  if (!first) {
+    throw new Error('At least one grader is required')
+  }
+  if (parsed.length === 1 && !first.name) {
+    return loadGrader(first.path, options)
+  }
+
+  const graders: NamedGrader[] = []
+  for (const { name: specName, path } of parsed) {
+    const name =
+      specName ??
+      (path.startsWith(BUILTIN_GRADER_PREFIX)
+        ? path.slice(BUILTIN_GRADER_PREFIX.length)
+        : basename(path, extname(path)))
+    if (graders.some((entry) => entry.name === name)) {
+      throw new Error(`Duplicate grader name: ${name}`)
+    }
+    graders.push({ name, grader: await loadGrader(path, options) })
+  }
+
+  for (const name of Object.keys(options.weights ?? {})) {
+    if (!graders.some((entry) => entry.name === name)) {
+      throw new Error(`Weight given for unknown grader: ${name}`)
+    }
+  }
+
+  return createCompositeGrader(graders, options)
+}
+
+/**
+ * Load graders from CLI flag values, exiting on failure.
+ *
+ * @remarks
+ * CLI-friendly wrapper around `parseGraderCliOptions` and `loadGraders` that
+ * prints the error to stderr and calls `process.exit(1)` on failure.
+ *
+ * @param specs - `--grader` values
+ * @param cliOptions - Raw aggregation and grader run flag values
+ * @returns Grader function (never returns on failure)
+ *
+ * @public
+ */
+export const loadGradersOrExit = async (specs: string[], cliOptions: GraderCliOptions = {}): Promise<Grader> => {
+  try {
+    return await loadGraders(specs, parseGraderCliOptions(cliOptions))
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+}
@@ -4,19 +4,45 @@
  * @remarks
  * Supports loading graders from:
  * - TypeScript/JavaScript modules (import as ES module)
+ * - Rubric files (`.md`, `.yaml`, `.yml`) run by the built-in LLM judge
+ * - `builtin:<name>` for the built-in deterministic graders
  * - Executable scripts (Python, Ruby, shell, etc. via subprocess)
  *
  * Executable graders use stdin/stdout JSON protocol:
  * - Input: `{"input": "...", "output": "...", "expected": "...", "trajectory": [...]}`
  * - Output: `{"pass": true, "score": 1.0, "reasoning": "..."}`
  *
+ * In worker mode an executable grader is started once and kept alive: it reads
+ * one JSON input per line on stdin and writes one JSON result per line on stdout.
+ *
+ * Every loaded grader runs with a timeout and optional retries.
+ *
  * @packageDocumentation
  */
 
 import { resolvePath } from '../core.ts'
-import type { Grader, TrajectoryStep } from './schemas.ts'
+import { BUILTIN_GRADER_PREFIX, getBuiltinGrader } from '../graders/builtin.ts'
+import { loadJudgeGrader, RUBRIC_EXTENSIONS } from '../graders/llm-judge.ts'
+import { DEFAULT_GRADER_TIMEOUT, DEFAULT_RETRY_BACKOFF } from './constants.ts'
+import type { Grader, GraderResult, TrajectoryStep, WorkspaceDiff } from './schemas.ts'
 import { GraderResultSchema } from './schemas.ts'
 
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Options for running a loaded grader */
+export type GraderLoadOptions = {
+  /** Timeout per grader call in milliseconds; 0 disables (default: DEFAULT_GRADER_TIMEOUT) */
+  timeout?: number
+  /** Retries after a grader call throws or times out (default: 0) */
+  retries?: number
+  /** Base delay before the first retry in ms, doubled per retry (default: DEFAULT_RETRY_BACKOFF) */
+  retryBackoff?: number
+  /** Keep executable graders running as JSONL workers instead of one process per call */
+  worker?: boolean
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -31,6 +57,51 @@ const JS_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs']
 /** Check if a file path is a JavaScript/TypeScript module */
 const isJsModule = (path: string): boolean => JS_EXTENSIONS.some((ext) => path.endsWith(ext))
 
+/** Check if a file path is an LLM judge rubric */
+const isRubric = (path: string): boolean => RUBRIC_EXTENSIONS.some((ext) => path.endsWith(ext))
+
+/** Error thrown when a grader call exceeds its timeout */
+const timeoutError = (timeout: number): Error => new Error(`Grader timed out after ${timeout}ms`)
+
+/** Build the stdin JSON sent to an executable grader */
+const toExecInput = (params: Parameters<Grader>[0]): ExecGraderInput => ({
+  input: params.input,
+  output: params.output,
+  hint: params.hint,
+  trajectory: params.trajectory,
+  metadata: params.metadata,
+  cwd: params.cwd,
+  workspaceDiff: params.workspaceDiff,
+})
+
+/**
+ * Parse and validate one JSON result written by an executable grader.
+ *
+ * @param text - Raw stdout text (or one stdout line in worker mode)
+ * @returns Validated grader result
+ * @throws Error if the output is empty, not JSON, or not a grader result
+ */
+const parseExecOutput = (text: string): GraderResult => {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    throw new Error('Grader produced no output')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(trimmed)
+  } catch {
+    throw new Error(`Grader output is not valid JSON: ${trimmed.slice(0, 100)}`)
+  }
+
+  const result = GraderResultSchema.safeParse(parsed)
+  if (!result.success) {
+    throw new Error(`Invalid grader result: ${result.error.message}`)
+  }
+
+  return result.data
+}
+
 // ============================================================================
 // Executable Grader
 // ============================================================================
@@ -43,6 +114,7 @@ const isJsModule = (path: string): boolean => JS_EXTENSIONS.some((ext) => path.e
  * prompt JSONL (e.g., category, difficulty, tags). Use this to implement
  * category-specific grading logic or filter calibration samples.
  * The cwd field provides the working directory path for git-based outcome detection.
+ * The workspaceDiff field lists the files the agent changed (with `--artifacts-dir`).
  */
 type ExecGraderInput = {
   input: string | string[]
@@ -51,6 +123,7 @@ type ExecGraderInput = {
   trajectory?: TrajectoryStep[]
   metadata?: Record<string, unknown>
   cwd?: string
+  workspaceDiff?: WorkspaceDiff
 }
 
 /**
@@ -58,28 +131,20 @@ type ExecGraderInput = {
  *
  * @remarks
  * The script receives JSON on stdin and must output JSON on stdout.
- * Non-zero exit codes are treated as errors.
+ * Non-zero exit codes are treated as errors. A script still running at the
+ * timeout is killed.
  *
  * @param execPath - Absolute path to the executable script
+ * @param timeout - Timeout in milliseconds (0 for none)
  * @returns Grader function
  */
-const createExecGrader = (execPath: string): Grader => {
+const createExecGrader = (execPath: string, timeout: number): Grader => {
   return async (params) => {
-    const input: ExecGraderInput = {
-      input: params.input,
-      output: params.output,
-      hint: params.hint,
-      trajectory: params.trajectory,
-      metadata: params.metadata,
-      cwd: params.cwd,
-    }
-
-    const inputJson = JSON.stringify(input)
-
     const proc = Bun.spawn([execPath], {
-      stdin: new TextEncoder().encode(inputJson),
+      stdin: new TextEncoder().encode(JSON.stringify(toExecInput(params))),
       stdout: 'pipe',
       stderr: 'pipe',
+      ...(timeout > 0 && { timeout }),
     })
 
     const [stdout, stderr, exitCode] = await Promise.all([
@@ -88,28 +153,154 @@ const createExecGrader = (execPath: string): Grader => {
       proc.exited,
     ])
 
+    if (timeout > 0 && proc.signalCode && exitCode !== 0) {
+      throw timeoutError(timeout)
+    }
     if (exitCode !== 0) {
       throw new Error(`Grader exited with code ${exitCode}: ${stderr.trim() || 'No error output'}`)
     }
 
-    const trimmedStdout = stdout.trim()
-    if (!trimmedStdout) {
-      throw new Error('Grader produced no output')
+    return parseExecOutput(stdout)
+  }
+}
+
+/**
+ * Create a grader that keeps an executable running as a JSONL worker.
+ *
+ * @remarks
+ * The process is started on the first call and reused: each call writes one
+ * JSON input line to its stdin and reads one JSON result line from its stdout.
+ * Calls are sent one at a time. A worker that exits, or is killed after a
+ * timeout, is restarted on the next call. Worker stderr is passed through.
+ * The process does not keep the harness alive; it sees EOF on stdin when the
+ * harness exits.
+ *
+ * @param execPath - Absolute path to the executable script
+ * @param timeout - Timeout per call in milliseconds (0 for none)
+ * @returns Grader function
+ */
+const createExecWorkerGrader = (execPath: string, timeout: number): Grader => {
+  const start = () => {
+    const proc = Bun.spawn([execPath], { stdin: 'pipe', stdout: 'pipe', stderr: 'inherit' })
+    proc.unref()
+    return { proc, reader: proc.stdout.getReader(), buffer: '' }
+  }
+  type Worker = ReturnType<typeof start>
+
+  const decoder = new TextDecoder()
+  let worker: Worker | undefined
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const stop = (current: Worker) => {
+    current.proc.kill()
+    if (worker === current) worker = undefined
+  }
+
+  // Read the next complete line from the worker's stdout
+  const readLine = async (current: Worker): Promise<string> => {
+    while (true) {
+      const newline = current.buffer.indexOf('\n')
+      if (newline >= 0) {
+        const line = current.buffer.slice(0, newline)
+        current.buffer = current.buffer.slice(newline + 1)
+        if (line.trim()) return line
+        continue
+      }
+      const { done, value } = await current.reader.read()
+      if (done) {
+        const exitCode = await current.proc.exited
+        throw new Error(`Grader worker exited with code ${exitCode}`)
+      }
+      current.buffer += decoder.decode(value, { stream: true })
     }
+  }
+
+  const call = async (params: Parameters<Grader>[0]): Promise<GraderResult> => {
+    worker ??= start()
+    const current = worker
+    let timer: ReturnType<typeof setTimeout> | undefined
 
-    let parsed: unknown
     try {
-      parsed = JSON.parse(trimmedStdout)
-    } catch {
-      throw new Error(`Grader output is not valid JSON: ${trimmedStdout.slice(0, 100)}`)
+      current.proc.stdin.write(`${JSON.stringify(toExecInput(params))}\n`)
+      await current.proc.stdin.flush()
+
+      const line = await (timeout > 0
+        ? Promise.race([
+            readLine(current),
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => reject(timeoutError(timeout)), timeout)
+            }),
+          ])
+        : readLine(current))
+      return parseExecOutput(line)
+    } catch (error) {
+      // The worker's state is unknown after a failure, so start a fresh one next time
+      stop(current)
+      throw error
+    } finally {
+      clearTimeout(timer)
     }
+  }
+
+  return (params) => {
+    const result = queue.then(() => call(params))
+    queue = result.catch(() => {})
+    return result
+  }
+}
+
+// ============================================================================
+// Timeouts and Retries
+// ============================================================================
 
-    const result = GraderResultSchema.safeParse(parsed)
-    if (!result.success) {
-      throw new Error(`Invalid grader result: ${result.error.message}`)
+/**
+ * Wrap a grader with a timeout and retries.
+ *
+ * @remarks
+ * A call that throws, or does not settle within the timeout, is retried with
+ * exponential backoff. After the last attempt the error is rethrown, noting
+ * the attempt count when retries were allowed.
+ *
+ * @param grader - Grader to wrap
+ * @param options - Timeout and retry settings
+ * @returns Grader function
+ *
+ * @public
+ */
+export const withGraderLimits = (
+  grader: Grader,
+  { timeout = DEFAULT_GRADER_TIMEOUT, retries = 0, retryBackoff = DEFAULT_RETRY_BACKOFF }: GraderLoadOptions = {},
+): Grader => {
+  const callOnce: Grader = async (params) => {
+    if (timeout <= 0) return grader(params)
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    try {
+      return await Promise.race([
+        grader(params),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(timeoutError(timeout)), timeout)
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
     }
+  }
+
+  if (retries <= 0) return callOnce
 
-    return result.data
+  return async (params) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await callOnce(params)
+      } catch (error) {
+        if (attempt > retries) {
+          const message = error instanceof Error ? error.message : String(error)
+          throw new Error(`${message} (after ${attempt} attempts)`)
+        }
+        await Bun.sleep(retryBackoff * 2 ** (attempt - 1))
+      }
+    }
   }
 }
 
@@ -145,10 +336,17 @@ const loadModuleGrader = async (modulePath: string): Promise<Grader> => {
  *
  * @remarks
  * Detection logic:
+ * - `builtin:<name>` → Built-in deterministic grader (no file)
  * - `.ts`, `.js`, `.mjs`, `.cjs` → Import as ES module
- * - Everything else → Execute as subprocess
+ * - `.md`, `.yaml`, `.yml` → LLM judge with the file as its rubric
+ * - Everything else → Execute as subprocess (a JSONL worker with `worker`)
+ *
+ * The grader is wrapped by `withGraderLimits`. Worker graders time each call
+ * themselves from when it reaches the worker, so time spent queued behind
+ * other calls does not count against the timeout.
  *
  * @param graderPath - Path to the grader (relative or absolute)
+ * @param options - Timeout, retry and worker settings
  * @returns Grader function
  * @throws Error if grader not found or invalid
  *
@@ -160,10 +358,42 @@ const loadModuleGrader = async (modulePath: string): Promise<Grader> => {
  * // Python grader
  * const grader = await loadGrader('./grader.py')
  *
- * // Any executable
- * const grader = await loadGrader('./my-grader')
+ * // Any executable, kept running between calls
+ * const grader = await loadGrader('./my-grader', { worker: true, timeout: 10000 })
  * ```
+ *
+ * @public
  */
+export const loadGrader = async (graderPath: string, options: GraderLoadOptions = {}): Promise<Grader> => {
+  const timeout = options.timeout ?? DEFAULT_GRADER_TIMEOUT
+
+  if (graderPath.startsWith(BUILTIN_GRADER_PREFIX)) {
+    return withGraderLimits(getBuiltinGrader(graderPath.slice(BUILTIN_GRADER_PREFIX.length), { timeout }), options)
+  }
+
+  const resolvedPath = resolvePath(graderPath)
+
+  // Check file exists
+  const file = Bun.file(resolvedPath)
+  if (!(await file.exists())) {
+    throw new Error(`Grader not found: ${resolvedPath}`)
+  }
+
+  if (isJsModule(resolvedPath)) {
+    return withGraderLimits(await loadModuleGrader(resolvedPath), options)
+  }
+
+  if (isRubric(resolvedPath)) {
+    return withGraderLimits(await loadJudgeGrader(resolvedPath), options)
+  }
+
+  if (options.worker) {
+    // Calls wait in the worker's queue, so the worker times each call from when it is sent, not when it was queued
+    return withGraderLimits(createExecWorkerGrader(resolvedPath, timeout), { ...options, timeout: 0 })
+  }
+  return withGraderLimits(createExecGrader(resolvedPath, timeout), options)
+}
+
 /**
  * Load a grader from a file path, exiting on failure.
  *
@@ -173,31 +403,16 @@ const loadModuleGrader = async (modulePath: string): Promise<Grader> => {
  * try/catch pattern across CLI handlers.
  *
  * @param graderPath - Path to the grader (relative or absolute)
+ * @param options - Timeout, retry and worker settings
  * @returns Grader function (never returns on failure)
  *
  * @public
  */
-export const loadGraderOrExit = async (graderPath: string): Promise<Grader> => {
+export const loadGraderOrExit = async (graderPath: string, options: GraderLoadOptions = {}): Promise<Grader> => {
   try {
-    return await loadGrader(graderPath)
+    return await loadGrader(graderPath, options)
   } catch (error) {
     console.error(`Error: ${error instanceof Error ? error.message : error}`)
     process.exit(1)
   }
 }
-
-export const loadGrader = async (graderPath: string): Promise<Grader> => {
-  const resolvedPath = resolvePath(graderPath)
-
-  // Check file exists
-  const file = Bun.file(resolvedPath)
-  if (!(await file.exists())) {
-    throw new Error(`Grader not found: ${resolvedPath}`)
-  }
-
-  if (isJsModule(resolvedPath)) {
-    return loadModuleGrader(resolvedPath)
-  }
-
-  return createExecGrader(resolvedPath)
-}
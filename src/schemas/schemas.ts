@@ -174,6 +174,34 @@ export type McpServerConfig = z.infer<typeof McpServerSchema>
 // Harness Input Schemas
 // ============================================================================
 
+/**
+ * Workspace spec schema for a prompt's starting directory.
+ *
+ * @remarks
+ * Applied to the per-prompt directory created by `--workspace-dir`, in order:
+ * copy `template` or clone `repo`, check out `ref`, write `files`, run `setup`.
+ * `teardown` runs after grading. Setup failures are recorded as prompt errors.
+ */
+export const WorkspaceSpecSchema = z
+  .object({
+    /** Directory copied into the workspace */
+    template: z.string().optional(),
+    /** Git URL or path cloned into the workspace */
+    repo: z.string().optional(),
+    /** Commit, branch or tag to check out after copying or cloning */
+    ref: z.string().optional(),
+    /** Files to write, keyed by path relative to the workspace */
+    files: z.record(z.string(), z.string()).optional(),
+    /** Shell commands run in the workspace before the agent starts */
+    setup: z.array(z.string()).optional(),
+    /** Shell commands run in the workspace after grading */
+    teardown: z.array(z.string()).optional(),
+  })
+  .refine((spec) => !(spec.template && spec.repo), { message: 'Use either template or repo, not both' })
+
+/** Workspace spec type */
+export type WorkspaceSpec = z.infer<typeof WorkspaceSpecSchema>
+
 /**
  * Prompt case schema for evaluation inputs.
  *
@@ -195,6 +223,8 @@ export const PromptCaseSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional(),
   /** Optional per-case timeout override in milliseconds */
   timeout: z.number().optional(),
+  /** Optional starting state for the per-prompt workspace (requires `--workspace-dir`) */
+  workspace: WorkspaceSpecSchema.optional(),
 })
 
 /** Prompt case type */
@@ -205,13 +235,13 @@ export type PromptCase = z.infer<typeof PromptCaseSchema>
 // ============================================================================
 
 /**
- * Grader result schema.
+ * Grader verdict schema.
  *
  * @remarks
- * Result returned by user-provided grader functions.
- * - `outcome`: Optional structured outcome data detected by the grader
+ * Pass/score judgement from a single grader. Named graders (`--grader name:path`)
+ * each produce one, recorded under the result's `scores` map.
  */
-export const GraderResultSchema = z.object({
+export const GraderVerdictSchema = z.object({
   /** Whether the output passes the evaluation criteria */
   pass: z.boolean(),
   /** Numeric score from 0.0 to 1.0 */
@@ -222,6 +252,22 @@ export const GraderResultSchema = z.object({
   outcome: z.record(z.string(), z.unknown()).optional(),
 })
 
+/** Grader verdict type */
+export type GraderVerdict = z.infer<typeof GraderVerdictSchema>
+
+/**
+ * Grader result schema.
+ *
+ * @remarks
+ * Result returned by user-provided grader functions.
+ * - `outcome`: Optional structured outcome data detected by the grader
+ * - `scores`: Per-grader verdicts behind an aggregated result (composite graders)
+ */
+export const GraderResultSchema = GraderVerdictSchema.extend({
+  /** Verdicts of the individual named graders, keyed by name */
+  scores: z.record(z.string(), GraderVerdictSchema).optional(),
+})
+
 /** Grader result type */
 export type GraderResult = z.infer<typeof GraderResultSchema>
 
@@ -234,6 +280,7 @@ export type GraderResult = z.infer<typeof GraderResultSchema>
  * - `hint` provides grader context (renamed from `expected`)
  * - `metadata` contains arbitrary key-value pairs from the original prompt JSONL
  * - `cwd` is the working directory path (optional, enables git-based outcome detection)
+ * - `workspaceDiff` lists the files the agent changed (with `--artifacts-dir`)
  */
 export type Grader = (params: {
   input: string | string[]
@@ -242,6 +289,7 @@ export type Grader = (params: {
   trajectory?: TrajectoryStep[]
   metadata?: Record<string, unknown>
   cwd?: string
+  workspaceDiff?: WorkspaceDiff
 }) => Promise<GraderResult>
 
 // ============================================================================
@@ -285,6 +333,8 @@ export const ToolCallStepSchema = z.object({
   input: z.unknown().optional(),
   output: z.unknown().optional(),
   duration: z.number().optional(),
+  /** Agent-assigned call id (when the adapter correlates start/result events) */
+  toolCallId: z.string().optional(),
   timestamp: z.number(),
   stepId: z.string().optional(),
 })
@@ -297,6 +347,22 @@ export const PlanStepSchema = z.object({
   stepId: z.string().optional(),
 })
 
+/**
+ * Diagnostic trajectory step.
+ *
+ * @remarks
+ * Process output outside the agent's event stream, e.g. stderr warnings
+ * and crash traces captured at the end of a turn.
+ */
+export const DiagnosticStepSchema = z.object({
+  type: z.literal('diagnostic'),
+  /** Where the diagnostic came from */
+  source: z.literal('stderr'),
+  content: z.string(),
+  timestamp: z.number(),
+  stepId: z.string().optional(),
+})
+
 /**
  * Trajectory step schema (discriminated union).
  *
@@ -308,6 +374,7 @@ export const TrajectoryStepSchema = z.discriminatedUnion('type', [
   MessageStepSchema,
   ToolCallStepSchema,
   PlanStepSchema,
+  DiagnosticStepSchema,
 ])
 
 /** Trajectory step type */
@@ -320,6 +387,36 @@ export type IndexedStep = TrajectoryStep & { stepId: string }
 // Capture Result Schemas
 // ============================================================================
 
+/**
+ * Token usage and cost for a prompt.
+ *
+ * @remarks
+ * Token counts are adapter-dependent and only present if the adapter schema
+ * has a `usage` block and the agent reports them. `costUsd` is computed from
+ * the schema's `usage.pricing` table.
+ *
+ * @public
+ */
+export const UsageSchema = z.object({
+  /** Input tokens consumed (if available from headless adapter) */
+  inputTokens: z.number().optional(),
+  /** Output tokens generated (if available from headless adapter) */
+  outputTokens: z.number().optional(),
+  /** Input tokens read from the prompt cache */
+  cacheReadTokens: z.number().optional(),
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens: z.number().optional(),
+  /** Cost in USD (requires `usage.pricing` in the adapter schema) */
+  costUsd: z.number().optional(),
+})
+
+/**
+ * Usage type inferred from UsageSchema.
+ *
+ * @public
+ */
+export type Usage = z.infer<typeof UsageSchema>
+
 /**
  * Timing information for a capture result.
  *
@@ -329,8 +426,7 @@ export type IndexedStep = TrajectoryStep & { stepId: string }
  * - `total`: End-to-end duration including all turns
  * - `firstResponse`: Latency to first agent output (optional)
  *
- * Token counts are adapter-dependent and only present if the adapter
- * exposes usage information (e.g., Claude Code includes them, others may not).
+ * Also carries token usage and cost fields from {@link UsageSchema}.
  *
  * @public
  */
@@ -341,14 +437,13 @@ export const TimingSchema = z.object({
   end: z.number(),
   /** Time to first response (ms from start) */
   firstResponse: z.number().optional(),
+  /** Time to first message or thought content (ms from start) */
+  timeToFirstToken: z.number().optional(),
   /** Time to create session (ms) - measures agent initialization overhead */
   sessionCreation: z.number(),
   /** Total duration (end - start) in milliseconds */
   total: z.number(),
-  /** Input tokens consumed (if available from headless adapter) */
-  inputTokens: z.number().optional(),
-  /** Output tokens generated (if available from headless adapter) */
-  outputTokens: z.number().optional(),
+  ...UsageSchema.shape,
 })
 
 /**
@@ -358,6 +453,111 @@ export const TimingSchema = z.object({
  */
 export type Timing = z.infer<typeof TimingSchema>
 
+/**
+ * Execution attempt schema.
+ *
+ * @remarks
+ * Recorded per prompt (capture: `metadata.attempts`, trials: per entry)
+ * when retries are enabled with `--retries`.
+ */
+export const AttemptSchema = z.object({
+  /** Attempt number (1-indexed) */
+  attempt: z.number(),
+  /** Duration in milliseconds, excluding backoff */
+  duration: z.number(),
+  /** Process exit code of the last turn (null if killed) */
+  exitCode: z.number().nullable().optional(),
+  /** Whether the attempt timed out */
+  timedOut: z.boolean().optional(),
+  /** Error message, if the attempt threw */
+  error: z.string().optional(),
+  /** Retry condition the attempt matched (also set on a final attempt that ran out of retries) */
+  retryReason: z.string().optional(),
+})
+
+/**
+ * Execution attempt type.
+ *
+ * @public
+ */
+export type Attempt = z.infer<typeof AttemptSchema>
+
+/**
+ * Workspace diff schema.
+ *
+ * @remarks
+ * Changes an agent made to its per-prompt workspace, recorded with
+ * `--artifacts-dir`. File lists are relative to the workspace; `patch` and
+ * `tarball` are paths to artifact files, so results can be re-graded after
+ * the workspace is gone.
+ */
+export const WorkspaceDiffSchema = z.object({
+  /** Files created by the agent */
+  added: z.array(z.string()),
+  /** Files changed by the agent */
+  modified: z.array(z.string()),
+  /** Files removed by the agent */
+  deleted: z.array(z.string()),
+  /** Path to the unified patch (git format, binary-safe) */
+  patch: z.string(),
+  /** Path to a gzipped tarball of the final workspace (with `--tarball`) */
+  tarball: z.string().optional(),
+})
+
+/**
+ * Workspace diff type.
+ *
+ * @public
+ */
+export type WorkspaceDiff = z.infer<typeof WorkspaceDiffSchema>
+
+/**
+ * Grade history entry schema.
+ *
+ * @remarks
+ * Grader output replaced by the `regrade` command. Version 1 is the original
+ * grading; each regrade appends the values it replaced. Capture results use
+ * `score`/`outcome`; trial results use the metrics and per-trial `trials`.
+ */
+export const GradeHistoryEntrySchema = z.object({
+  /** Grading version these values came from (1 = original) */
+  version: z.number(),
+  /** Epoch ms when these values were replaced */
+  replacedAt: z.number(),
+  /** Previous grader result (capture) */
+  score: GraderVerdictSchema.optional(),
+  /** Previous per-grader verdicts (capture, with named graders) */
+  scores: z.record(z.string(), GraderVerdictSchema).optional(),
+  /** Previous outcome (capture) */
+  outcome: z.record(z.string(), z.unknown()).optional(),
+  /** Previous pass rate (trials) */
+  passRate: z.number().optional(),
+  /** Previous pass@k (trials) */
+  passAtK: z.number().optional(),
+  /** Previous pass^k (trials) */
+  passExpK: z.number().optional(),
+  /** Previous per-trial grades (trials) */
+  trials: z
+    .array(
+      z.object({
+        trialNum: z.number(),
+        pass: z.boolean().optional(),
+        score: z.number().optional(),
+        reasoning: z.string().optional(),
+        scores: z.record(z.string(), GraderVerdictSchema).optional(),
+        outcome: z.record(z.string(), z.unknown()).optional(),
+      }),
+    )
+    .optional(),
+})
+
+/**
+ * Grade history entry type.
+ *
+ * @public
+ */
+export type GradeHistoryEntry = z.infer<typeof GradeHistoryEntrySchema>
+
 /**
  * Trajectory richness level indicating the depth of captured agent activity.
  *
@@ -402,10 +602,18 @@ export const CaptureResultSchema = z.object({
   toolErrors: z.boolean(),
   /** Error messages (if any) */
   errors: z.array(z.string()).optional(),
-  /** Grader score (if grader was provided) */
-  score: GraderResultSchema.optional(),
+  /** Grader score (if grader was provided; aggregated across named graders) */
+  score: GraderVerdictSchema.optional(),
+  /** Grader error (the grader threw or timed out; the agent run itself is kept) */
+  graderError: z.string().optional(),
+  /** Per-grader verdicts, keyed by grader name (with named graders) */
+  scores: z.record(z.string(), GraderVerdictSchema).optional(),
   /** Outcome data from grader (if grader provided and returned outcome) */
   outcome: z.record(z.string(), z.unknown()).optional(),
+  /** Workspace changes (with `--artifacts-dir`) */
+  workspaceDiff: WorkspaceDiffSchema.optional(),
+  /** Grader output replaced by `regrade`, oldest first */
+  gradeHistory: z.array(GradeHistoryEntrySchema).optional(),
 })
 
 /** Capture result type */
@@ -451,14 +659,26 @@ export const TrialEntrySchema = z.object({
   trajectory: z.array(TrajectoryStepSchema),
   /** Duration in milliseconds */
   duration: z.number(),
+  /** Token usage and cost (if the adapter schema has a `usage` block) */
+  usage: UsageSchema.optional(),
   /** Pass/fail (if grader provided) */
   pass: z.boolean().optional(),
   /** Numeric score (if grader provided) */
   score: z.number().optional(),
   /** Grader reasoning (if grader provided) */
   reasoning: z.string().optional(),
+  /** Per-grader verdicts, keyed by grader name (with named graders) */
+  scores: z.record(z.string(), GraderVerdictSchema).optional(),
   /** Outcome data from grader (if grader provided and returned outcome) */
   outcome: z.record(z.string(), z.unknown()).optional(),
+  /** Execution attempts (only with `--retries`) */
+  attempts: z.array(AttemptSchema).optional(),
+  /** Error message if the trial threw */
+  error: z.string().optional(),
+  /** Grader error (the grader threw or timed out; the trial itself is kept) */
+  graderError: z.string().optional(),
+  /** Workspace changes (with `--artifacts-dir`) */
+  workspaceDiff: WorkspaceDiffSchema.optional(),
 })
 
 /** Trial entry type */
@@ -490,11 +710,37 @@ export const TrialResultSchema = z.object({
   trials: z.array(TrialEntrySchema),
   /** Metadata including agent info, workspaceDir, and custom fields */
   metadata: z.record(z.string(), z.unknown()).optional(),
+  /** Grader output replaced by `regrade`, oldest first */
+  gradeHistory: z.array(GradeHistoryEntrySchema).optional(),
 })
 
 /** Trial result type */
 export type TrialResult = z.infer<typeof TrialResultSchema>
 
+// ============================================================================
+// Run Checkpoint Schemas
+// ============================================================================
+
+/**
+ * Run checkpoint schema.
+ *
+ * @remarks
+ * Sidecar file (`<output>.checkpoint.json`) written when `capture`, `trials`
+ * or `run` starts a fresh output file. `--resume` compares its fingerprint
+ * against the current inputs before skipping completed ids.
+ */
+export const RunCheckpointSchema = z.object({
+  /** Checkpoint format version */
+  version: z.literal(1),
+  /** Inputs the output was produced from (command, schema hash, prompts hash, ...) */
+  fingerprint: z.record(z.string(), z.string()),
+  /** Epoch ms when the run started */
+  created: z.number(),
+})
+
+/** Run checkpoint type */
+export type RunCheckpoint = z.infer<typeof RunCheckpointSchema>
+
 // ============================================================================
 // Calibration Schemas
 // ============================================================================
@@ -616,6 +862,24 @@ export const QualityConfidenceIntervalsSchema = z.object({
 /** Quality confidence intervals type */
 export type QualityConfidenceIntervals = z.infer<typeof QualityConfidenceIntervalsSchema>
 
+/**
+ * Quality of a single named grader across a run.
+ *
+ * @remarks
+ * Reported per grader in comparison reports when results carry `scores`.
+ */
+export const GraderDimensionSchema = z.object({
+  /** Mean score from this grader (0-1) */
+  avgScore: z.number(),
+  /** Fraction of graded results this grader passed */
+  passRate: z.number(),
+  /** Number of results this grader scored */
+  count: z.number(),
+})
+
+/** Grader dimension type */
+export type GraderDimension = z.infer<typeof GraderDimensionSchema>
+
 /**
  * Quality metrics for a single run in comparison.
  */
@@ -632,6 +896,8 @@ export const QualityMetricsSchema = z.object({
   failCount: z.number(),
   /** Score distribution histogram */
   scoreDistribution: ScoreDistributionSchema,
+  /** Per-grader quality, keyed by grader name (only with named graders) */
+  graders: z.record(z.string(), GraderDimensionSchema).optional(),
   /** Confidence intervals (only with strategy=statistical) */
   confidenceIntervals: QualityConfidenceIntervalsSchema.optional(),
 })
@@ -660,6 +926,32 @@ export const LatencyStatsSchema = z.object({
 /** Latency stats type */
 export type LatencyStats = z.infer<typeof LatencyStatsSchema>
 
+/**
+ * Token and cost totals for performance analysis.
+ *
+ * @remarks
+ * Computed only from results that carry usage data; `samples` says how many.
+ */
+export const CostStatsSchema = z.object({
+  /** Total cost in USD */
+  totalUsd: z.number(),
+  /** Mean cost per prompt in USD */
+  meanUsd: z.number(),
+  /** Total input tokens */
+  inputTokens: z.number(),
+  /** Total output tokens */
+  outputTokens: z.number(),
+  /** Total cache-read tokens */
+  cacheReadTokens: z.number(),
+  /** Total cache-write tokens */
+  cacheWriteTokens: z.number(),
+  /** Number of results with usage data */
+  samples: z.number(),
+})
+
+/** Cost stats type */
+export type CostStats = z.infer<typeof CostStatsSchema>
+
 /**
  * Confidence intervals for performance metrics.
  */
@@ -679,8 +971,14 @@ export const PerformanceMetricsSchema = z.object({
   latency: LatencyStatsSchema,
   /** Time to first response statistics (optional, not all adapters support) */
   firstResponse: LatencyStatsSchema.optional(),
+  /** Time to first token statistics (optional, not all adapters support) */
+  timeToFirstToken: LatencyStatsSchema.optional(),
+  /** Tool call duration statistics (only when tool call steps carry durations) */
+  toolLatency: LatencyStatsSchema.optional(),
   /** Sum of all run durations in milliseconds */
   totalDuration: z.number(),
+  /** Token and cost totals (only when results carry usage data) */
+  cost: CostStatsSchema.optional(),
   /** Confidence intervals (only with strategy=statistical) */
   confidenceIntervals: PerformanceConfidenceIntervalsSchema.optional(),
 })
@@ -954,6 +1252,8 @@ export const TrialsQualityMetricsSchema = z.object({
   p25Score: z.number(),
   /** 75th percentile score */
   p75Score: z.number(),
+  /** Per-grader quality across all trials, keyed by grader name (only with named graders) */
+  graders: z.record(z.string(), GraderDimensionSchema).optional(),
   /** Confidence intervals (only with strategy=statistical) */
   confidenceIntervals: TrialsQualityConfidenceIntervalsSchema.optional(),
 })
@@ -984,6 +1284,8 @@ export const TrialsPerformanceMetricsSchema = z.object({
   latency: LatencyStatsSchema,
   /** Sum of all trial durations in milliseconds */
   totalDuration: z.number(),
+  /** Token and cost totals over all trials (only when trials carry usage data; mean is per trial) */
+  cost: CostStatsSchema.optional(),
   /** Confidence intervals (only with strategy=statistical) */
   confidenceIntervals: TrialsPerformanceConfidenceIntervalsSchema.optional(),
 })
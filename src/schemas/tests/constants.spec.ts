@@ -2,6 +2,7 @@ import { describe, expect, test } from 'bun:test'
 import {
   DEFAULT_CALIBRATION_SAMPLE_SIZE,
   DEFAULT_CLIENT_NAME,
+  DEFAULT_GRADER_TIMEOUT,
   DEFAULT_HARNESS_TIMEOUT,
   DEFAULT_POLLING_INTERVAL,
   DEFAULT_PROTOCOL_TIMEOUT,
@@ -111,6 +112,10 @@ describe('Harness defaults', () => {
     expect(DEFAULT_HARNESS_TIMEOUT).toBe(60000)
   })
 
+  test('DEFAULT_GRADER_TIMEOUT is 60 seconds', () => {
+    expect(DEFAULT_GRADER_TIMEOUT).toBe(60000)
+  })
+
   test('DEFAULT_TRIAL_COUNT is 5', () => {
     expect(DEFAULT_TRIAL_COUNT).toBe(5)
   })
@@ -0,0 +1,8 @@
+#!/usr/bin/env python3
+"""
+Test fixture: grader that never answers in time.
+"""
+
+import time
+
+time.sleep(10)
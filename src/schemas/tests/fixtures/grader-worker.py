@@ -0,0 +1,33 @@
+#!/usr/bin/env python3
+"""
+Test fixture: long-running grader reading one JSON input per line.
+"""
+
+import json
+import os
+import sys
+import time
+
+def main():
+    calls = 0
+    for line in sys.stdin:
+        data = json.loads(line)
+        calls += 1
+
+        hint = (data.get("hint") or "").lower()
+        if hint == "hang":
+            time.sleep(10)
+        elif hint == "slow":
+            time.sleep(0.3)
+
+        pass_result = hint in data.get("output", "").lower()
+        result = {
+            "pass": pass_result,
+            "score": 1.0 if pass_result else 0.0,
+            "reasoning": f"call {calls} in {os.getpid()}"
+        }
+
+        print(json.dumps(result), flush=True)
+
+if __name__ == "__main__":
+    main()
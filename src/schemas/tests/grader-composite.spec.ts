@@ -0,0 +1,166 @@
+/**
+ * Tests for named graders and composite scoring.
+ *
+ * @remarks
+ * Tests cover:
+ * - parseGraderSpec name/path splitting
+ * - parseGraderCliOptions validation, including grader run flags
+ * - aggregateVerdicts for each aggregation
+ * - createCompositeGrader and loadGraders with fixture graders
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import {
+  aggregateVerdicts,
+  createCompositeGrader,
+  loadGraders,
+  parseGraderCliOptions,
+  parseGraderSpec,
+} from '../grader-composite.ts'
+import type { Grader } from '../schemas.ts'
+
+const fixturesDir = join(import.meta.dir, 'fixtures')
+
+// ============================================================================
+// parseGraderSpec
+// ============================================================================
+
+describe('parseGraderSpec', () => {
+  test('splits name:path', () => {
+    expect(parseGraderSpec('correctness:./a.ts')).toEqual({ name: 'correctness', path: './a.ts' })
+    expect(parseGraderSpec('code-style:/abs/b.py')).toEqual({ name: 'code-style', path: '/abs/b.py' })
+  })
+
+  test('leaves plain paths unnamed', () => {
+    expect(parseGraderSpec('./grader.ts')).toEqual({ path: './grader.ts' })
+    expect(parseGraderSpec('/tmp/x:y/grader.ts')).toEqual({ path: '/tmp/x:y/grader.ts' })
+    expect(parseGraderSpec('name:')).toEqual({ path: 'name:' })
+  })
+})
+
+// ============================================================================
+// parseGraderCliOptions
+// ============================================================================
+
+describe('parseGraderCliOptions', () => {
+  test('parses aggregation, weights and threshold', () => {
+    expect(parseGraderCliOptions({ aggregate: 'mean', weight: ['a=3', 'b=0.5'], passThreshold: '0.7' })).toEqual({
+      aggregate: 'mean',
+      weights: { a: 3, b: 0.5 },
+      passThreshold: 0.7,
+    })
+    expect(parseGraderCliOptions({})).toEqual({})
+  })
+
+  test('parses grader timeout, retries and worker mode', () => {
+    expect(parseGraderCliOptions({ graderTimeout: '5000', graderRetries: '2', graderWorker: true })).toEqual({
+      timeout: 5000,
+      retries: 2,
+      worker: true,
+    })
+    expect(() => parseGraderCliOptions({ graderTimeout: '-1' })).toThrow('--grader-timeout must be')
+    expect(() => parseGraderCliOptions({ graderRetries: 'x' })).toThrow('--grader-retries must be')
+  })
+
+  test('rejects invalid values', () => {
+    expect(() => parseGraderCliOptions({ aggregate: 'max' })).toThrow('--aggregate must be one of: all, mean, min')
+    expect(() => parseGraderCliOptions({ weight: ['a'] })).toThrow("got 'a'")
+    expect(() => parseGraderCliOptions({ weight: ['a=-1'] })).toThrow("got 'a=-1'")
+    expect(() => parseGraderCliOptions({ passThreshold: '2' })).toThrow('between 0 and 1')
+  })
+})
+
+// ============================================================================
+// aggregateVerdicts
+// ============================================================================
+
+describe('aggregateVerdicts', () => {
+  const verdicts = {
+    correctness: { pass: true, score: 1, reasoning: 'right answer' },
+    style: { pass: false, score: 0.4, reasoning: 'too long', outcome: { lines: 90 } },
+  }
+
+  test('all: weighted mean score, every grader must pass', () => {
+    const result = aggregateVerdicts(verdicts)
+
+    expect(result.pass).toBe(false)
+    expect(result.score).toBeCloseTo(0.7)
+    expect(result.reasoning).toBe('correctness: right answer\nstyle: too long')
+    expect(result.outcome).toEqual({ style: { lines: 90 } })
+    expect(result.scores).toBe(verdicts)
+  })
+
+  test('mean: passes when the weighted mean reaches the threshold', () => {
+    expect(aggregateVerdicts(verdicts, { aggregate: 'mean' }).pass).toBe(true)
+
+    const weighted = aggregateVerdicts(verdicts, { aggregate: 'mean', weights: { style: 3 }, passThreshold: 0.6 })
+    expect(weighted.score).toBeCloseTo(0.55)
+    expect(weighted.pass).toBe(false)
+  })
+
+  test('min: lowest score', () => {
+    const result = aggregateVerdicts(verdicts, { aggregate: 'min' })
+
+    expect(result.score).toBe(0.4)
+    expect(result.pass).toBe(false)
+  })
+})
+
+// ============================================================================
+// createCompositeGrader / loadGraders
+// ============================================================================
+
+describe('createCompositeGrader', () => {
+  const params = { input: 'What is 2+2?', output: 'The answer is 4', hint: '4' }
+
+  test('runs every grader and records its verdict', async () => {
+    const short: Grader = async ({ output }) => ({ pass: output.length < 10, score: output.length < 10 ? 1 : 0 })
+    const contains: Grader = async ({ output, hint }) => ({ pass: output.includes(hint ?? ''), score: 1 })
+    const grader = createCompositeGrader([
+      { name: 'short', grader: short },
+      { name: 'contains', grader: contains },
+    ])
+
+    const result = await grader(params)
+
+    expect(result.pass).toBe(false)
+    expect(result.score).toBe(0.5)
+    expect(result.scores).toEqual({ short: { pass: false, score: 0 }, contains: { pass: true, score: 1 } })
+  })
+
+  test('names the grader that threw', async () => {
+    const failing: Grader = async () => {
+      throw new Error('boom')
+    }
+    const grader = createCompositeGrader([{ name: 'broken', grader: failing }])
+
+    await expect(grader(params)).rejects.toThrow("Grader 'broken' failed: boom")
+  })
+})
+
+describe('loadGraders', () => {
+  const modulePath = join(fixturesDir, 'grader-module.ts')
+  const execPath = join(fixturesDir, 'grader-exec.py')
+
+  test('returns a single unnamed grader unchanged', async () => {
+    const grader = await loadGraders([modulePath])
+    const result = await grader({ input: 'q', output: 'The answer is 4', hint: '4' })
+
+    expect(result.scores).toBeUndefined()
+  })
+
+  test('combines named and unnamed graders', async () => {
+    const grader = await loadGraders([`module:${modulePath}`, execPath])
+    const result = await grader({ input: 'q', output: 'The answer is 4', hint: '4' })
+
+    expect(Object.keys(result.scores ?? {})).toEqual(['module', 'grader-exec'])
+  })
+
+  test('rejects duplicate names and unknown weights', async () => {
+    await expect(loadGraders([`a:${modulePath}`, `a:${execPath}`])).rejects.toThrow('Duplicate grader name: a')
+    await expect(loadGraders([`a:${modulePath}`], { weights: { b: 2 } })).rejects.toThrow(
+      'Weight given for unknown grader: b',
+    )
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, expect, test } from 'bun:test'
 import { join } from 'node:path'
-import { loadGrader } from '../grader-loader.ts'
+import { loadGrader, withGraderLimits } from '../grader-loader.ts'
+import type { Grader } from '../schemas.ts'
 
 const fixturesDir = join(import.meta.dir, 'fixtures')
 
@@ -151,3 +152,83 @@ describe('loadGrader - trajectory support', () => {
     expect(result.pass).toBe(true)
   })
 })
+
+// ============================================================================
+// Timeouts, Retries and Worker Mode
+// ============================================================================
+
+describe('withGraderLimits', () => {
+  const params = { input: 'test', output: 'test' }
+
+  test('rejects a grader call that exceeds the timeout', async () => {
+    const slow: Grader = () => new Promise(() => {})
+
+    await expect(withGraderLimits(slow, { timeout: 20 })(params)).rejects.toThrow('Grader timed out after 20ms')
+  })
+
+  test('retries a grader that throws', async () => {
+    let calls = 0
+    const flaky: Grader = async () => {
+      calls++
+      if (calls < 3) throw new Error('flaky')
+      return { pass: true, score: 1 }
+    }
+
+    const result = await withGraderLimits(flaky, { retries: 2, retryBackoff: 0 })(params)
+
+    expect(result.pass).toBe(true)
+    expect(calls).toBe(3)
+  })
+
+  test('notes the attempt count once retries run out', async () => {
+    const broken: Grader = async () => {
+      throw new Error('broken')
+    }
+
+    await expect(withGraderLimits(broken, { retries: 1, retryBackoff: 0 })(params)).rejects.toThrow(
+      'broken (after 2 attempts)',
+    )
+  })
+})
+
+describe('loadGrader - timeouts and worker mode', () => {
+  test('kills an executable grader at the timeout', async () => {
+    const grader = await loadGrader(join(fixturesDir, 'grader-exec-slow.py'), { timeout: 200 })
+
+    await expect(grader({ input: 'test', output: 'test' })).rejects.toThrow('Grader timed out after 200ms')
+  })
+
+  test('reuses one worker process across calls', async () => {
+    const grader = await loadGrader(join(fixturesDir, 'grader-worker.py'), { worker: true })
+
+    const results = await Promise.all([
+      grader({ input: 'a', output: 'The answer is 4', hint: '4' }),
+      grader({ input: 'b', output: 'I do not know', hint: '4' }),
+    ])
+
+    expect(results.map((result) => result.pass)).toEqual([true, false])
+    const [first, second] = results.map((result) => result.reasoning?.split(' in '))
+    expect(first?.[0]).toBe('call 1')
+    expect(second?.[0]).toBe('call 2')
+    expect(first?.[1]).toBe(second?.[1])
+  })
+
+  test('does not count time queued behind other worker calls against the timeout', async () => {
+    const grader = await loadGrader(join(fixturesDir, 'grader-worker.py'), { worker: true, timeout: 500 })
+
+    const results = await Promise.all(['a', 'b', 'c'].map((input) => grader({ input, output: 'slow', hint: 'slow' })))
+
+    expect(results.map((result) => result.pass)).toEqual([true, true, true])
+  })
+
+  test('restarts a worker after a timeout', async () => {
+    const grader = await loadGrader(join(fixturesDir, 'grader-worker.py'), { worker: true, timeout: 500 })
+
+    const first = await grader({ input: 'a', output: 'x', hint: 'x' })
+    await expect(grader({ input: 'b', output: 'x', hint: 'hang' })).rejects.toThrow('Grader timed out after 500ms')
+    const next = await grader({ input: 'c', output: 'x', hint: 'x' })
+
+    expect(next.reasoning?.startsWith('call 1 in ')).toBe(true)
+    expect(next.reasoning).not.toBe(first.reasoning)
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, expect, test } from 'bun:test'
 import {
   CaptureResultSchema,
+  DiagnosticStepSchema,
   EnvVariableSchema,
   GraderResultSchema,
   HttpHeaderSchema,
@@ -439,6 +440,28 @@ describe('PlanStepSchema', () => {
   })
 })
 
+describe('DiagnosticStepSchema', () => {
+  test('parses stderr diagnostic step', () => {
+    const result = DiagnosticStepSchema.safeParse({
+      type: 'diagnostic',
+      source: 'stderr',
+      content: 'warning: deprecated flag',
+      timestamp: 1234567890,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  test('rejects unknown source', () => {
+    const result = DiagnosticStepSchema.safeParse({
+      type: 'diagnostic',
+      source: 'syslog',
+      content: 'x',
+      timestamp: 1,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
 describe('TrajectoryStepSchema', () => {
   test('discriminates thought type', () => {
     const result = TrajectoryStepSchema.safeParse({